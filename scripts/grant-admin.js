@@ -0,0 +1,51 @@
+/**
+ * Script to grant the admin role to an existing user
+ * Run with: node scripts/grant-admin.js user@email.com
+ *
+ * The user must log in again (or refresh the token) to use /api/admin.
+ */
+
+const { Pool } = require('pg');
+
+async function grantAdmin() {
+  const databaseUrl = process.env.DATABASE_URL;
+  const email = process.argv[2];
+
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL not found');
+    process.exit(1);
+  }
+
+  if (!email) {
+    console.error('❌ Usage: node scripts/grant-admin.js <email>');
+    process.exit(1);
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl });
+
+  try {
+    const user = await pool.query('SELECT id FROM users WHERE email = $1', [
+      email,
+    ]);
+
+    if (user.rows.length === 0) {
+      console.error(`❌ User "${email}" not found`);
+      process.exit(1);
+    }
+
+    await pool.query(
+      `INSERT INTO user_roles (user_id, role) VALUES ($1, 'admin')
+       ON CONFLICT (user_id, role) DO NOTHING`,
+      [user.rows[0].id]
+    );
+
+    console.log(`✅ Admin role granted to ${email}`);
+  } catch (error) {
+    console.error('❌ Error granting admin role:', error.message);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+grantAdmin();
@@ -444,6 +444,603 @@ CREATE TABLE IF NOT EXISTS message_notification_logs (
 CREATE INDEX IF NOT EXISTS idx_message_notification_logs_user
   ON message_notification_logs(user_id, created_at DESC);
 
+-- ============================================================================
+-- 10. LESSON PROGRESS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS lesson_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  last_position INTEGER DEFAULT 0 NOT NULL,
+  watched_seconds INTEGER DEFAULT 0 NOT NULL,
+  completed INTEGER DEFAULT 0 NOT NULL,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lesson_progress_unique
+  ON lesson_progress(student_id, video_id);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_progress_course
+  ON lesson_progress(student_id, course_id);
+
+-- One course completion reward per student and course (concurrent heartbeats
+-- completing the last lessons). Duplicates awarded before are dropped.
+DELETE FROM xp_transactions WHERE id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (
+      PARTITION BY user_id, source_id ORDER BY created_at, id
+    ) AS n
+    FROM xp_transactions
+    WHERE source = 'course'
+  ) ranked WHERE n > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_xp_transactions_course_reward
+  ON xp_transactions(user_id, source, source_id) WHERE source = 'course';
+
+-- ============================================================================
+-- 11. COURSE SECTIONS + LESSON ORDERING
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS course_sections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  title VARCHAR(255) NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_sections_course
+  ON course_sections(course_id, position);
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS section_id UUID REFERENCES course_sections(id) ON DELETE SET NULL;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS position INTEGER DEFAULT 0 NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_videos_course_position
+  ON videos(course_id, section_id, position);
+
+-- Backfill: courses that were never reordered keep their insertion order
+UPDATE videos v
+SET position = ranked.rn
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY course_id ORDER BY created_at) - 1 AS rn
+  FROM videos
+) ranked
+WHERE v.id = ranked.id
+AND v.course_id IN (
+  SELECT course_id FROM videos GROUP BY course_id HAVING MAX(position) = 0
+);
+
+-- ============================================================================
+-- 12. AUTH SESSIONS (REFRESH TOKENS)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash VARCHAR(128) NOT NULL,
+  previous_refresh_token_hash VARCHAR(128),
+  rotated_at TIMESTAMP,
+  user_agent VARCHAR(512),
+  ip_address VARCHAR(45),
+  expires_at TIMESTAMP NOT NULL,
+  last_used_at TIMESTAMP DEFAULT NOW(),
+  revoked_at TIMESTAMP,
+  revoked_reason VARCHAR(50),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user
+  ON sessions(user_id, created_at DESC);
+
+-- ============================================================================
+-- 13. PASSWORD RESET + EMAIL VERIFICATION
+-- ============================================================================
+
+-- Existing accounts are grandfathered as verified: the column is created with
+-- DEFAULT NOW() (filling current rows) and the default is dropped right after,
+-- so new accounts start unverified. Safe to re-run.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP DEFAULT NOW();
+ALTER TABLE users ALTER COLUMN email_verified_at DROP DEFAULT;
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(128) NOT NULL UNIQUE,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user
+  ON password_reset_tokens(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS email_verification_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(128) NOT NULL UNIQUE,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_verification_tokens_user
+  ON email_verification_tokens(user_id, created_at DESC);
+
+-- ============================================================================
+-- 14. USER ROLES (MULTIPLE CAPABILITIES)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(50) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_roles_unique
+  ON user_roles(user_id, role);
+
+-- Backfill from the legacy single role column
+INSERT INTO user_roles (user_id, role)
+SELECT id, role FROM users
+ON CONFLICT (user_id, role) DO NOTHING;
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS role VARCHAR(50);
+
+-- ============================================================================
+-- 15. USER SUSPENSION (ADMIN)
+-- ============================================================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS suspended_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_users_suspended_at ON users(suspended_at);
+
+-- ============================================================================
+-- 16. BACKGROUND JOBS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type VARCHAR(100) NOT NULL,
+  payload TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  result TEXT,
+  last_error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_by VARCHAR(100),
+  locked_until TIMESTAMP,
+  dedupe_key VARCHAR(255),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_dedupe_key ON jobs(dedupe_key);
+-- One open (pending/running) job per type and dedupe key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_open_dedupe_key ON jobs(type, dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'running');
+CREATE INDEX IF NOT EXISTS idx_jobs_user_id ON jobs(user_id);
+
+-- ============================================================================
+-- 17. TRANSCRIPTION STATUS
+-- ============================================================================
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_status VARCHAR(20);
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_error TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_job_id UUID;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_started_at TIMESTAMP;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_completed_at TIMESTAMP;
+
+-- Videos transcribed before this migration
+UPDATE videos v
+SET transcription_status = 'completed',
+    transcription_completed_at = t.created_at
+FROM transcripts t
+WHERE t.video_id = v.id
+  AND v.transcription_status IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_videos_transcription_status ON videos(transcription_status);
+
+-- ============================================================================
+-- 18. TRANSCRIPT SEGMENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS transcript_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  start_ms INTEGER NOT NULL,
+  end_ms INTEGER NOT NULL,
+  text TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_transcript
+  ON transcript_segments(transcript_id, position);
+
+-- ============================================================================
+-- 19. TRANSCRIPT LANGUAGES
+-- ============================================================================
+
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS language VARCHAR(10);
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS language VARCHAR(10);
+
+-- Every transcript so far was requested in Portuguese
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS language VARCHAR(10) NOT NULL DEFAULT 'pt';
+
+-- Keep only the oldest of duplicated transcripts (concurrent requests before
+-- transcription status tracking) so the unique index can be created
+DELETE FROM transcripts t
+  USING transcripts o
+  WHERE t.video_id = o.video_id
+    AND t.language = o.language
+    AND (o.created_at, o.id) < (t.created_at, t.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcripts_video_language
+  ON transcripts(video_id, language);
+
+-- ============================================================================
+-- 20. TRANSCRIPT TRANSLATIONS
+-- ============================================================================
+
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS source_transcript_id UUID
+  REFERENCES transcripts(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- 21. TRANSCRIPT REVISIONS
+-- ============================================================================
+
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+
+CREATE TABLE IF NOT EXISTS transcript_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  action VARCHAR(20) NOT NULL,
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  segments TEXT,
+  diff TEXT,
+  reverted_from_revision INTEGER,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcript_revisions_number
+  ON transcript_revisions(transcript_id, revision_number);
+
+-- ============================================================================
+-- 22. TRANSCRIPT CHUNKS (AI TUTOR)
+-- ============================================================================
+
+-- Vectors are stored as REAL[] so no extension (pgvector) is required
+
+CREATE TABLE IF NOT EXISTS transcript_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  start_ms INTEGER,
+  end_ms INTEGER,
+  content TEXT NOT NULL,
+  embedding REAL[] NOT NULL,
+  embedding_model VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_chunks_course
+  ON transcript_chunks(course_id);
+CREATE INDEX IF NOT EXISTS idx_transcript_chunks_video
+  ON transcript_chunks(video_id, position);
+
+-- ============================================================================
+-- 23. AI CHAT SESSIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_chat_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  title VARCHAR(255),
+  last_message_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ai_chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES ai_chat_sessions(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL,
+  content TEXT NOT NULL,
+  credits_used INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_chat_sessions_user_video
+  ON ai_chat_sessions(user_id, video_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_chat_sessions_video
+  ON ai_chat_sessions(video_id);
+CREATE INDEX IF NOT EXISTS idx_ai_chat_messages_session
+  ON ai_chat_messages(session_id, created_at);
+
+-- ============================================================================
+-- 24. AI USAGE METERING
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  feature VARCHAR(50) NOT NULL,
+  model VARCHAR(100) NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  audio_seconds INTEGER NOT NULL DEFAULT 0,
+  cost_usd DECIMAL(12, 6) NOT NULL,
+  credits_charged INTEGER NOT NULL DEFAULT 0,
+  related_id UUID,
+  related_type VARCHAR(50),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_feature_created
+  ON ai_usage_events(feature, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_user
+  ON ai_usage_events(user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS ai_pricing (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  feature VARCHAR(50) NOT NULL,
+  mode VARCHAR(20) NOT NULL DEFAULT 'flat',
+  flat_credits INTEGER NOT NULL DEFAULT 1,
+  credits_per_1k_tokens DECIMAL(10, 4) NOT NULL DEFAULT 0,
+  min_credits INTEGER NOT NULL DEFAULT 1,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_pricing_feature
+  ON ai_pricing(feature);
+
+-- Video chat is charged by the size of the prompt (transcript + history):
+-- 0.1 credit per 1,000 tokens, at least 1 credit (~1 credit for 10k tokens)
+INSERT INTO ai_pricing (feature, mode, flat_credits, credits_per_1k_tokens, min_credits)
+VALUES
+  ('video_chat', 'tokens', 1, 0.1, 1),
+  ('course_chat', 'flat', 1, 0, 1)
+ON CONFLICT (feature) DO NOTHING;
+
+-- ============================================================================
+-- 25. DAILY USAGE (AI QUESTIONS PER DAY)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS daily_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  ai_questions_asked INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_usage_user_day
+  ON daily_usage(user_id, day);
+
+-- ============================================================================
+-- 26. CREDIT LEDGER (IDEMPOTENCY + DOUBLE ENTRY)
+-- ============================================================================
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(255);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS balance_after INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_idempotency_key
+  ON transactions(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS credit_ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  account VARCHAR(100) NOT NULL,
+  amount INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_entries_transaction
+  ON credit_ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_entries_account
+  ON credit_ledger_entries(account);
+
+-- Balances can no longer go negative
+ALTER TABLE user_credits DROP CONSTRAINT IF EXISTS user_credits_balance_non_negative;
+ALTER TABLE user_credits
+  ADD CONSTRAINT user_credits_balance_non_negative CHECK (balance >= 0) NOT VALID;
+
+-- ============================================================================
+-- 27. STRIPE EVENTS (WEBHOOK INBOX)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id VARCHAR(255) NOT NULL,
+  endpoint VARCHAR(30) NOT NULL,
+  type VARCHAR(255) NOT NULL,
+  object_id VARCHAR(255),
+  stripe_account_id VARCHAR(255),
+  payload TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  stripe_created_at TIMESTAMP,
+  received_at TIMESTAMP DEFAULT NOW(),
+  processed_at TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stripe_events_endpoint_event
+  ON stripe_events(endpoint, event_id);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status
+  ON stripe_events(status, received_at);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_object
+  ON stripe_events(endpoint, object_id, stripe_created_at);
+
+-- ============================================================================
+-- 28. SUBSCRIPTION DUNNING
+-- ============================================================================
+
+ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS past_due_since TIMESTAMP;
+ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS grace_ends_at TIMESTAMP;
+ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS dunning_reminders_sent INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_user_subscriptions_past_due
+  ON user_subscriptions(grace_ends_at)
+  WHERE status = 'past_due';
+CREATE INDEX IF NOT EXISTS idx_user_subscriptions_stripe_subscription
+  ON user_subscriptions(stripe_subscription_id);
+
+CREATE TABLE IF NOT EXISTS subscription_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id UUID NOT NULL REFERENCES user_subscriptions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  from_status VARCHAR(30),
+  to_status VARCHAR(30),
+  stripe_invoice_id VARCHAR(255),
+  details TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_events_subscription
+  ON subscription_events(subscription_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_subscription_events_user
+  ON subscription_events(user_id, created_at);
+
+-- ============================================================================
+-- 29. SUBSCRIPTION PLAN CHANGES
+-- ============================================================================
+
+ALTER TABLE user_subscriptions
+  ADD COLUMN IF NOT EXISTS pending_plan_id UUID REFERENCES subscription_plans(id);
+
+-- ============================================================================
+-- 30. COUPONS AND FREE TRIALS
+-- ============================================================================
+
+ALTER TABLE subscription_plans ADD COLUMN IF NOT EXISTS trial_days INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS trial_ends_at TIMESTAMP;
+
+-- One free trial per user: claimed by the checkout that offers it
+CREATE TABLE IF NOT EXISTS subscription_trials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL,
+  stripe_checkout_session_id VARCHAR(255),
+  started_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS coupons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) NOT NULL UNIQUE,
+  description TEXT,
+  discount_type VARCHAR(20) NOT NULL,
+  percent_off INTEGER,
+  amount_off DECIMAL(10, 2),
+  plan_id UUID REFERENCES subscription_plans(id) ON DELETE CASCADE,
+  course_id UUID REFERENCES courses(id) ON DELETE CASCADE,
+  creator_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  max_redemptions INTEGER,
+  max_redemptions_per_user INTEGER NOT NULL DEFAULT 1,
+  times_redeemed INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  stripe_coupon_id VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT coupons_discount_check CHECK (
+    (discount_type = 'percent' AND percent_off BETWEEN 1 AND 100)
+    OR (discount_type = 'fixed' AND amount_off > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_creator ON coupons(creator_id);
+CREATE INDEX IF NOT EXISTS idx_coupons_course ON coupons(course_id);
+
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  target_type VARCHAR(20) NOT NULL,
+  target_id UUID NOT NULL,
+  original_amount DECIMAL(10, 2) NOT NULL,
+  discount_amount DECIMAL(10, 2) NOT NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  stripe_checkout_session_id VARCHAR(255),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  redeemed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_user
+  ON coupon_redemptions(coupon_id, user_id, status);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_payment
+  ON coupon_redemptions(payment_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_checkout_session
+  ON coupon_redemptions(stripe_checkout_session_id);
+
+-- ============================================================================
+-- 31. COURSE REFUNDS
+-- ============================================================================
+
+ALTER TABLE course_purchases ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS course_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_purchase_id UUID NOT NULL UNIQUE REFERENCES course_purchases(id) ON DELETE CASCADE,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  amount DECIMAL(10, 2),
+  credits_refunded INTEGER,
+  stripe_refund_id VARCHAR(255),
+  reason TEXT,
+  status VARCHAR(50) NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_refunds_payment ON course_refunds(payment_id);
+CREATE INDEX IF NOT EXISTS idx_course_refunds_student ON course_refunds(student_id);
+
+-- One purchase per payment (the webhook and /payments/confirm both record it).
+-- Duplicates recorded before are dropped, keeping the refunded or oldest one.
+DELETE FROM course_purchases WHERE id IN (
+  SELECT id FROM (
+    SELECT cp.id, ROW_NUMBER() OVER (
+      PARTITION BY cp.payment_id ORDER BY (cr.id IS NULL), cp.created_at, cp.id
+    ) AS n
+    FROM course_purchases cp
+    LEFT JOIN course_refunds cr ON cr.course_purchase_id = cp.id
+    WHERE cp.payment_id IS NOT NULL
+  ) ranked WHERE n > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_course_purchases_payment
+  ON course_purchases(payment_id);
+
 -- ============================================================================
 -- DONE! Verify tables were created:
 -- ============================================================================
@@ -472,5 +1069,27 @@ AND table_name IN (
   'conversations',
   'messages',
   'message_reads',
-  'message_notification_logs'
+  'message_notification_logs',
+  'lesson_progress',
+  'course_sections',
+  'sessions',
+  'password_reset_tokens',
+  'email_verification_tokens',
+  'user_roles',
+  'jobs',
+  'transcript_segments',
+  'transcript_revisions',
+  'transcript_chunks',
+  'ai_chat_sessions',
+  'ai_chat_messages',
+  'ai_usage_events',
+  'ai_pricing',
+  'daily_usage',
+  'credit_ledger_entries',
+  'stripe_events',
+  'subscription_events',
+  'subscription_trials',
+  'coupons',
+  'coupon_redemptions',
+  'course_refunds'
 );
@@ -0,0 +1,27 @@
+-- AI chat sessions: multi-turn conversations with the video mentor
+
+CREATE TABLE IF NOT EXISTS ai_chat_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  title VARCHAR(255),
+  last_message_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ai_chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES ai_chat_sessions(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL,
+  content TEXT NOT NULL,
+  credits_used INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_chat_sessions_user_video
+  ON ai_chat_sessions(user_id, video_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_chat_sessions_video
+  ON ai_chat_sessions(video_id);
+CREATE INDEX IF NOT EXISTS idx_ai_chat_messages_session
+  ON ai_chat_messages(session_id, created_at);
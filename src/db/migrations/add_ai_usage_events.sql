@@ -0,0 +1,42 @@
+-- AI usage metering (tokens, USD cost, credits charged) and credit pricing per AI feature
+
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  feature VARCHAR(50) NOT NULL,
+  model VARCHAR(100) NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  audio_seconds INTEGER NOT NULL DEFAULT 0,
+  cost_usd DECIMAL(12, 6) NOT NULL,
+  credits_charged INTEGER NOT NULL DEFAULT 0,
+  related_id UUID,
+  related_type VARCHAR(50),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_feature_created
+  ON ai_usage_events(feature, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_user
+  ON ai_usage_events(user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS ai_pricing (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  feature VARCHAR(50) NOT NULL,
+  mode VARCHAR(20) NOT NULL DEFAULT 'flat',
+  flat_credits INTEGER NOT NULL DEFAULT 1,
+  credits_per_1k_tokens DECIMAL(10, 4) NOT NULL DEFAULT 0,
+  min_credits INTEGER NOT NULL DEFAULT 1,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_pricing_feature
+  ON ai_pricing(feature);
+
+-- Video chat is charged by the size of the prompt (transcript + history):
+-- 0.1 credit per 1,000 tokens, at least 1 credit (~1 credit for 10k tokens)
+INSERT INTO ai_pricing (feature, mode, flat_credits, credits_per_1k_tokens, min_credits)
+VALUES
+  ('video_chat', 'tokens', 1, 0.1, 1),
+  ('course_chat', 'flat', 1, 0, 1)
+ON CONFLICT (feature) DO NOTHING;
@@ -0,0 +1,65 @@
+-- Coupons (percent or fixed discounts for plans and courses) and free trials per plan
+
+ALTER TABLE subscription_plans ADD COLUMN IF NOT EXISTS trial_days INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS trial_ends_at TIMESTAMP;
+
+-- One free trial per user: claimed by the checkout that offers it
+CREATE TABLE IF NOT EXISTS subscription_trials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL,
+  stripe_checkout_session_id VARCHAR(255),
+  started_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS coupons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) NOT NULL UNIQUE,
+  description TEXT,
+  discount_type VARCHAR(20) NOT NULL,
+  percent_off INTEGER,
+  amount_off DECIMAL(10, 2),
+  plan_id UUID REFERENCES subscription_plans(id) ON DELETE CASCADE,
+  course_id UUID REFERENCES courses(id) ON DELETE CASCADE,
+  creator_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  max_redemptions INTEGER,
+  max_redemptions_per_user INTEGER NOT NULL DEFAULT 1,
+  times_redeemed INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  stripe_coupon_id VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT coupons_discount_check CHECK (
+    (discount_type = 'percent' AND percent_off BETWEEN 1 AND 100)
+    OR (discount_type = 'fixed' AND amount_off > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_creator ON coupons(creator_id);
+CREATE INDEX IF NOT EXISTS idx_coupons_course ON coupons(course_id);
+
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  target_type VARCHAR(20) NOT NULL,
+  target_id UUID NOT NULL,
+  original_amount DECIMAL(10, 2) NOT NULL,
+  discount_amount DECIMAL(10, 2) NOT NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  stripe_checkout_session_id VARCHAR(255),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  redeemed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_user
+  ON coupon_redemptions(coupon_id, user_id, status);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_payment
+  ON coupon_redemptions(payment_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_checkout_session
+  ON coupon_redemptions(stripe_checkout_session_id);
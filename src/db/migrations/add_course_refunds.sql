@@ -0,0 +1,38 @@
+-- Refunds of course purchases (Stripe or credits) with enrollment revocation
+
+ALTER TABLE course_purchases ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS course_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_purchase_id UUID NOT NULL UNIQUE REFERENCES course_purchases(id) ON DELETE CASCADE,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  amount DECIMAL(10, 2),
+  credits_refunded INTEGER,
+  stripe_refund_id VARCHAR(255),
+  reason TEXT,
+  status VARCHAR(50) NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_refunds_payment ON course_refunds(payment_id);
+CREATE INDEX IF NOT EXISTS idx_course_refunds_student ON course_refunds(student_id);
+
+-- One purchase per payment (the webhook and /payments/confirm both record it).
+-- Duplicates recorded before are dropped, keeping the refunded or oldest one.
+DELETE FROM course_purchases WHERE id IN (
+  SELECT id FROM (
+    SELECT cp.id, ROW_NUMBER() OVER (
+      PARTITION BY cp.payment_id ORDER BY (cr.id IS NULL), cp.created_at, cp.id
+    ) AS n
+    FROM course_purchases cp
+    LEFT JOIN course_refunds cr ON cr.course_purchase_id = cp.id
+    WHERE cp.payment_id IS NOT NULL
+  ) ranked WHERE n > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_course_purchases_payment
+  ON course_purchases(payment_id);
@@ -0,0 +1,31 @@
+-- Course sections (modules) and explicit lesson ordering
+
+CREATE TABLE IF NOT EXISTS course_sections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  title VARCHAR(255) NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_sections_course
+  ON course_sections(course_id, position);
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS section_id UUID REFERENCES course_sections(id) ON DELETE SET NULL;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS position INTEGER DEFAULT 0 NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_videos_course_position
+  ON videos(course_id, section_id, position);
+
+-- Backfill: courses that were never reordered keep their insertion order
+UPDATE videos v
+SET position = ranked.rn
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY course_id ORDER BY created_at) - 1 AS rn
+  FROM videos
+) ranked
+WHERE v.id = ranked.id
+AND v.course_id IN (
+  SELECT course_id FROM videos GROUP BY course_id HAVING MAX(position) = 0
+);
@@ -0,0 +1,26 @@
+-- Credit ledger: idempotency keys and balance snapshots on transactions, double-entry postings
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(255);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS balance_after INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_idempotency_key
+  ON transactions(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS credit_ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  account VARCHAR(100) NOT NULL,
+  amount INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_entries_transaction
+  ON credit_ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_entries_account
+  ON credit_ledger_entries(account);
+
+-- Balances can no longer go negative
+ALTER TABLE user_credits DROP CONSTRAINT IF EXISTS user_credits_balance_non_negative;
+ALTER TABLE user_credits
+  ADD CONSTRAINT user_credits_balance_non_negative CHECK (balance >= 0) NOT VALID;
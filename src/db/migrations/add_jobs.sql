@@ -0,0 +1,28 @@
+-- Postgres-backed background job queue
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type VARCHAR(100) NOT NULL,
+  payload TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  result TEXT,
+  last_error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_by VARCHAR(100),
+  locked_until TIMESTAMP,
+  dedupe_key VARCHAR(255),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_dedupe_key ON jobs(dedupe_key);
+-- One open (pending/running) job per type and dedupe key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_open_dedupe_key ON jobs(type, dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'running');
+CREATE INDEX IF NOT EXISTS idx_jobs_user_id ON jobs(user_id);
@@ -0,0 +1,35 @@
+-- Lesson progress tracking (player heartbeats + completion)
+
+CREATE TABLE IF NOT EXISTS lesson_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  last_position INTEGER DEFAULT 0 NOT NULL,
+  watched_seconds INTEGER DEFAULT 0 NOT NULL,
+  completed INTEGER DEFAULT 0 NOT NULL,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lesson_progress_unique
+  ON lesson_progress(student_id, video_id);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_progress_course
+  ON lesson_progress(student_id, course_id);
+
+-- One course completion reward per student and course (concurrent heartbeats
+-- completing the last lessons). Duplicates awarded before are dropped.
+DELETE FROM xp_transactions WHERE id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (
+      PARTITION BY user_id, source_id ORDER BY created_at, id
+    ) AS n
+    FROM xp_transactions
+    WHERE source = 'course'
+  ) ranked WHERE n > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_xp_transactions_course_reward
+  ON xp_transactions(user_id, source, source_id) WHERE source = 'course';
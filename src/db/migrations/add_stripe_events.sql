@@ -0,0 +1,25 @@
+-- Stripe webhook inbox: every verified event stored once per endpoint and processed once
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id VARCHAR(255) NOT NULL,
+  endpoint VARCHAR(30) NOT NULL,
+  type VARCHAR(255) NOT NULL,
+  object_id VARCHAR(255),
+  stripe_account_id VARCHAR(255),
+  payload TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  stripe_created_at TIMESTAMP,
+  received_at TIMESTAMP DEFAULT NOW(),
+  processed_at TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stripe_events_endpoint_event
+  ON stripe_events(endpoint, event_id);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status
+  ON stripe_events(status, received_at);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_object
+  ON stripe_events(endpoint, object_id, stripe_created_at);
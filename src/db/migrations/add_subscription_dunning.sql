@@ -0,0 +1,28 @@
+-- Subscription dunning: grace period after a failed payment and the history of subscription transitions
+
+ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS past_due_since TIMESTAMP;
+ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS grace_ends_at TIMESTAMP;
+ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS dunning_reminders_sent INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_user_subscriptions_past_due
+  ON user_subscriptions(grace_ends_at)
+  WHERE status = 'past_due';
+CREATE INDEX IF NOT EXISTS idx_user_subscriptions_stripe_subscription
+  ON user_subscriptions(stripe_subscription_id);
+
+CREATE TABLE IF NOT EXISTS subscription_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id UUID NOT NULL REFERENCES user_subscriptions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  from_status VARCHAR(30),
+  to_status VARCHAR(30),
+  stripe_invoice_id VARCHAR(255),
+  details TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_events_subscription
+  ON subscription_events(subscription_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_subscription_events_user
+  ON subscription_events(user_id, created_at);
@@ -0,0 +1,4 @@
+-- Plan changes: downgrades wait for the end of the paid period in pending_plan_id
+
+ALTER TABLE user_subscriptions
+  ADD COLUMN IF NOT EXISTS pending_plan_id UUID REFERENCES subscription_plans(id);
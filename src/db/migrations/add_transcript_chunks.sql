@@ -0,0 +1,21 @@
+-- Transcript chunks with embeddings (course-wide AI tutor)
+-- Vectors are stored as REAL[] so no extension (pgvector) is required
+
+CREATE TABLE IF NOT EXISTS transcript_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  start_ms INTEGER,
+  end_ms INTEGER,
+  content TEXT NOT NULL,
+  embedding REAL[] NOT NULL,
+  embedding_model VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_chunks_course
+  ON transcript_chunks(course_id);
+CREATE INDEX IF NOT EXISTS idx_transcript_chunks_video
+  ON transcript_chunks(video_id, position);
@@ -0,0 +1,18 @@
+-- Transcript languages (per-course / per-video language, one transcript per language)
+
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS language VARCHAR(10);
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS language VARCHAR(10);
+
+-- Every transcript so far was requested in Portuguese
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS language VARCHAR(10) NOT NULL DEFAULT 'pt';
+
+-- Keep only the oldest of duplicated transcripts (concurrent requests before
+-- transcription status tracking) so the unique index can be created
+DELETE FROM transcripts t
+  USING transcripts o
+  WHERE t.video_id = o.video_id
+    AND t.language = o.language
+    AND (o.created_at, o.id) < (t.created_at, t.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcripts_video_language
+  ON transcripts(video_id, language);
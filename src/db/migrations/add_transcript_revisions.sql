@@ -0,0 +1,20 @@
+-- Creator-editable transcripts with revision history
+
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+
+CREATE TABLE IF NOT EXISTS transcript_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  action VARCHAR(20) NOT NULL,
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  segments TEXT,
+  diff TEXT,
+  reverted_from_revision INTEGER,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcript_revisions_number
+  ON transcript_revisions(transcript_id, revision_number);
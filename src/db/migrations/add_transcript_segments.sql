@@ -0,0 +1,13 @@
+-- Timestamped transcript segments (captions)
+
+CREATE TABLE IF NOT EXISTS transcript_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  start_ms INTEGER NOT NULL,
+  end_ms INTEGER NOT NULL,
+  text TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_transcript
+  ON transcript_segments(transcript_id, position);
@@ -0,0 +1,4 @@
+-- AI translations of transcripts (stored as transcripts in another language)
+
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS source_transcript_id UUID
+  REFERENCES transcripts(id) ON DELETE SET NULL;
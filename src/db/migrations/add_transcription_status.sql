@@ -0,0 +1,18 @@
+-- Transcription status and error tracking per video
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_status VARCHAR(20);
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_error TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_job_id UUID;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_started_at TIMESTAMP;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcription_completed_at TIMESTAMP;
+
+-- Videos transcribed before this migration
+UPDATE videos v
+SET transcription_status = 'completed',
+    transcription_completed_at = t.created_at
+FROM transcripts t
+WHERE t.video_id = v.id
+  AND v.transcription_status IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_videos_transcription_status ON videos(transcription_status);
@@ -0,0 +1,18 @@
+-- Multiple capabilities per user (creator + student) and active role per session
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(50) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_roles_unique
+  ON user_roles(user_id, role);
+
+-- Backfill from the legacy single role column
+INSERT INTO user_roles (user_id, role)
+SELECT id, role FROM users
+ON CONFLICT (user_id, role) DO NOTHING;
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS role VARCHAR(50);
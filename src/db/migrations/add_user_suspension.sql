@@ -0,0 +1,6 @@
+-- Account suspension (admin back-office)
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS suspended_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_users_suspended_at ON users(suspended_at);
@@ -6,6 +6,9 @@ import {
   timestamp,
   decimal,
   integer,
+  real,
+  date,
+  AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -14,17 +17,75 @@ export const users = pgTable("users", {
   username: varchar("username", { length: 255 }).unique().notNull(),
   email: varchar("email", { length: 255 }).unique().notNull(),
   passwordHash: varchar("password_hash", { length: 255 }).notNull(),
-  role: varchar("role", { length: 50 }).notNull(),
+  role: varchar("role", { length: 50 }).notNull(), // Papel principal (padrão no login); capacidades em user_roles
   // Stripe Connect fields (for creators to receive payments)
   stripeAccountId: varchar("stripe_account_id", { length: 255 }),
   stripeOnboardingComplete: integer("stripe_onboarding_complete").default(0), // 0 = false, 1 = true
   emailNotificationsEnabled: integer("email_notifications_enabled")
     .default(1)
     .notNull(), // 1 = enabled, 0 = disabled
+  emailVerifiedAt: timestamp("email_verified_at"), // null = email ainda não confirmado
+  suspendedAt: timestamp("suspended_at"), // null = conta ativa
+  suspendedReason: text("suspended_reason"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// User Roles - Capacidades do usuário (um usuário pode ser creator e student)
+export const userRoles = pgTable("user_roles", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  role: varchar("role", { length: 50 }).notNull(), // 'creator', 'student', 'admin'
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sessions - Sessões de login (refresh tokens com rotação)
+export const sessions = pgTable("sessions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  role: varchar("role", { length: 50 }), // Papel ativo da sessão
+  refreshTokenHash: varchar("refresh_token_hash", { length: 128 }).notNull(),
+  previousRefreshTokenHash: varchar("previous_refresh_token_hash", {
+    length: 128,
+  }), // Último token rotacionado (detecção de reuso)
+  rotatedAt: timestamp("rotated_at"),
+  userAgent: varchar("user_agent", { length: 512 }),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+  revokedReason: varchar("revoked_reason", { length: 50 }), // 'logout', 'user_revoked', 'refresh_token_reuse', ...
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Password Reset Tokens - Tokens de uso único para redefinir senha
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 128 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Email Verification Tokens - Tokens de uso único para confirmar email
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 128 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Creator Terms Acceptances - Registro de aceite de termos de venda
 export const creatorTermsAcceptances = pgTable("creator_terms_acceptances", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -46,6 +107,19 @@ export const courses = pgTable("courses", {
   price: decimal("price", { precision: 10, scale: 2 }).notNull(), // Preço em reais (pagamento direto)
   creditCost: integer("credit_cost"), // Custo em créditos (opcional, se null, curso não pode ser comprado com créditos)
   tags: text("tags"), // JSON array of strings stored as text
+  language: varchar("language", { length: 10 }), // Idioma falado nas aulas (ISO 639-1); null = detectar automaticamente
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Course Sections - Módulos do curso (ex: "Módulo 1")
+export const courseSections = pgTable("course_sections", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  courseId: uuid("course_id")
+    .notNull()
+    .references(() => courses.id, { onDelete: "cascade" }),
+  title: varchar("title", { length: 255 }).notNull(),
+  position: integer("position").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -55,9 +129,20 @@ export const videos = pgTable("videos", {
   courseId: uuid("course_id")
     .notNull()
     .references(() => courses.id, { onDelete: "cascade" }),
+  sectionId: uuid("section_id").references(() => courseSections.id, {
+    onDelete: "set null",
+  }), // null = aula sem módulo
+  position: integer("position").default(0).notNull(), // Ordem dentro do módulo
   title: varchar("title", { length: 255 }).notNull(),
   r2Key: varchar("s3_key", { length: 255 }).notNull(),
   transcriptR2Key: varchar("transcript_s3_key", { length: 255 }),
+  language: varchar("language", { length: 10 }), // Idioma falado no vídeo (ISO 639-1); null = usar o do curso
+  transcriptionStatus: varchar("transcription_status", { length: 20 }), // null (nunca pedida), 'pending', 'processing', 'completed', 'failed'
+  transcriptionError: text("transcription_error"), // Último erro da transcrição
+  transcriptionAttempts: integer("transcription_attempts").default(0).notNull(),
+  transcriptionJobId: uuid("transcription_job_id"), // Job em andamento (ver tabela jobs)
+  transcriptionStartedAt: timestamp("transcription_started_at"),
+  transcriptionCompletedAt: timestamp("transcription_completed_at"),
   duration: integer("duration"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -68,10 +153,68 @@ export const transcripts = pgTable("transcripts", {
   videoId: uuid("video_id")
     .notNull()
     .references(() => videos.id, { onDelete: "cascade" }),
+  language: varchar("language", { length: 10 }).default("pt").notNull(), // Uma transcrição por idioma (ISO 639-1)
+  sourceTranscriptId: uuid("source_transcript_id").references(
+    (): AnyPgColumn => transcripts.id,
+    { onDelete: "set null" }
+  ), // Tradução por IA: transcrição de origem (null = transcrição do áudio)
+  content: text("content").notNull(),
+  revision: integer("revision").default(0).notNull(), // Última revisão aplicada (0 = texto original)
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Transcript Chunks - Trechos das transcrições com embeddings (busca no curso inteiro pelo tutor IA)
+export const transcriptChunks = pgTable("transcript_chunks", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  courseId: uuid("course_id")
+    .notNull()
+    .references(() => courses.id, { onDelete: "cascade" }),
+  videoId: uuid("video_id")
+    .notNull()
+    .references(() => videos.id, { onDelete: "cascade" }),
+  transcriptId: uuid("transcript_id")
+    .notNull()
+    .references(() => transcripts.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // Ordem do trecho no vídeo
+  startMs: integer("start_ms"), // null = transcrição sem tempo
+  endMs: integer("end_ms"),
   content: text("content").notNull(),
+  embedding: real("embedding").array().notNull(), // Vetor normalizado (produto escalar = similaridade de cosseno)
+  embeddingModel: varchar("embedding_model", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Transcript Revisions - Histórico de correções feitas pelo criador (permite reverter)
+export const transcriptRevisions = pgTable("transcript_revisions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  transcriptId: uuid("transcript_id")
+    .notNull()
+    .references(() => transcripts.id, { onDelete: "cascade" }),
+  revisionNumber: integer("revision_number").notNull(), // 0 = texto original, 1, 2, ...
+  action: varchar("action", { length: 20 }).notNull(), // 'original', 'edit', 'revert'
+  authorId: uuid("author_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  content: text("content").notNull(), // Texto completo após esta revisão
+  segments: text("segments"), // JSON array dos trechos com tempo após esta revisão
+  diff: text("diff"), // Linhas removidas (-) e adicionadas (+) em relação à revisão anterior
+  revertedFromRevision: integer("reverted_from_revision"), // Revisão restaurada (action = 'revert')
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Transcript Segments - Trechos com tempo (legendas SRT/WebVTT, links "minuto 12:30")
+export const transcriptSegments = pgTable("transcript_segments", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  transcriptId: uuid("transcript_id")
+    .notNull()
+    .references(() => transcripts.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // Ordem do trecho na transcrição
+  startMs: integer("start_ms").notNull(),
+  endMs: integer("end_ms").notNull(),
+  text: text("text").notNull(),
+});
+
 export const enrollments = pgTable("enrollments", {
   id: uuid("id").defaultRandom().primaryKey(),
   studentId: uuid("student_id")
@@ -96,6 +239,73 @@ export const comments = pgTable("comments", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// ============================================================================
+// AI CHAT
+// ============================================================================
+
+// AI Chat Sessions - Conversas do usuário com o mentor IA sobre um vídeo
+export const aiChatSessions = pgTable("ai_chat_sessions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  videoId: uuid("video_id")
+    .notNull()
+    .references(() => videos.id, { onDelete: "cascade" }),
+  title: varchar("title", { length: 255 }), // Primeira pergunta (resumida) quando não informado
+  lastMessageAt: timestamp("last_message_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// AI Chat Messages - Perguntas e respostas de uma sessão (histórico enviado como contexto)
+export const aiChatMessages = pgTable("ai_chat_messages", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  sessionId: uuid("session_id")
+    .notNull()
+    .references(() => aiChatSessions.id, { onDelete: "cascade" }),
+  role: varchar("role", { length: 20 }).notNull(), // 'user', 'assistant'
+  content: text("content").notNull(),
+  creditsUsed: integer("credits_used").default(0).notNull(), // Créditos debitados pela resposta (assistant)
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// ============================================================================
+// AI USAGE
+// ============================================================================
+
+// AI Usage Events - Cada operação com a OpenAI: tokens, custo em USD e créditos cobrados
+export const aiUsageEvents = pgTable("ai_usage_events", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }), // null = operação do sistema (ex.: indexação)
+  feature: varchar("feature", { length: 50 }).notNull(), // 'video_chat', 'course_chat', 'quiz_generation', 'transcript_translation', 'transcription', 'course_index'
+  model: varchar("model", { length: 100 }).notNull(),
+  promptTokens: integer("prompt_tokens").default(0).notNull(),
+  completionTokens: integer("completion_tokens").default(0).notNull(),
+  audioSeconds: integer("audio_seconds").default(0).notNull(), // Whisper cobra por minuto de áudio
+  costUsd: decimal("cost_usd", { precision: 12, scale: 6 }).notNull(), // Custo estimado pela tabela de preços do modelo
+  creditsCharged: integer("credits_charged").default(0).notNull(),
+  relatedId: uuid("related_id"), // Vídeo, curso, quiz ou transcrição
+  relatedType: varchar("related_type", { length: 50 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// AI Pricing - Preço em créditos de cada funcionalidade de IA (fixo ou por tokens)
+export const aiPricing = pgTable("ai_pricing", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  feature: varchar("feature", { length: 50 }).notNull(), // Único (ver migration)
+  mode: varchar("mode", { length: 20 }).default("flat").notNull(), // 'flat', 'tokens'
+  flatCredits: integer("flat_credits").default(1).notNull(), // mode = 'flat'
+  creditsPer1kTokens: decimal("credits_per_1k_tokens", {
+    precision: 10,
+    scale: 4,
+  })
+    .default("0")
+    .notNull(), // mode = 'tokens'
+  minCredits: integer("min_credits").default(1).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // ============================================================================
 // MESSAGES SYSTEM
 // ============================================================================
@@ -176,7 +386,20 @@ export const transactions = pgTable("transactions", {
   amount: integer("amount").notNull(), // Quantidade de créditos (positivo ou negativo)
   description: text("description"), // Descrição da transação
   relatedId: uuid("related_id"), // ID relacionado (paymentId, courseId, videoId, etc)
-  relatedType: varchar("related_type", { length: 50 }), // 'payment', 'course', 'video', 'ai_chat'
+  relatedType: varchar("related_type", { length: 50 }), // 'payment', 'course', 'video', 'ai_chat', 'quiz', 'transcript_translation'
+  idempotencyKey: varchar("idempotency_key", { length: 255 }), // Unico: repetir a operacao nao lanca de novo
+  balanceAfter: integer("balance_after"), // Saldo logo apos a transacao
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Credit Ledger Entries - Partidas dobradas de cada transacao (somam zero)
+export const creditLedgerEntries = pgTable("credit_ledger_entries", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  transactionId: uuid("transaction_id")
+    .notNull()
+    .references(() => transactions.id, { onDelete: "cascade" }),
+  account: varchar("account", { length: 100 }).notNull(), // 'user:<id>', 'system:purchase', 'system:usage'...
+  amount: integer("amount").notNull(), // Positivo = credito na conta, negativo = debito
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -192,7 +415,7 @@ export const payments = pgTable("payments", {
   stripeCustomerId: varchar("stripe_customer_id", { length: 255 }),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Valor em reais
   currency: varchar("currency", { length: 10 }).default("brl").notNull(),
-  status: varchar("status", { length: 50 }).notNull(), // 'pending', 'succeeded', 'failed', 'canceled'
+  status: varchar("status", { length: 50 }).notNull(), // 'pending', 'succeeded', 'failed', 'canceled', 'refunded'
   creditsAwarded: integer("credits_awarded"), // Créditos concedidos neste pagamento
   paymentType: varchar("payment_type", { length: 50 }).notNull(), // 'credits', 'course', 'direct'
   courseId: uuid("course_id").references(() => courses.id, {
@@ -266,6 +489,24 @@ export const stripeAccountRequirementsUpdates = pgTable(
   }
 );
 
+// Stripe Events - Caixa de entrada dos webhooks (cada evento processado uma vez)
+export const stripeEvents = pgTable("stripe_events", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  eventId: varchar("event_id", { length: 255 }).notNull(), // Unico por endpoint
+  endpoint: varchar("endpoint", { length: 30 }).notNull(), // 'payments', 'subscriptions', 'connect', 'connect_thin'
+  type: varchar("type", { length: 255 }).notNull(),
+  objectId: varchar("object_id", { length: 255 }), // data.object.id
+  stripeAccountId: varchar("stripe_account_id", { length: 255 }),
+  payload: text("payload").notNull(), // JSON do evento verificado
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // 'pending', 'processing', 'processed', 'failed', 'ignored'
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  stripeCreatedAt: timestamp("stripe_created_at"),
+  receivedAt: timestamp("received_at").defaultNow(),
+  processedAt: timestamp("processed_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Course Purchases - Compras de cursos (com créditos ou pagamento direto)
 export const coursePurchases = pgTable("course_purchases", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -278,13 +519,44 @@ export const coursePurchases = pgTable("course_purchases", {
   paymentMethod: varchar("payment_method", { length: 50 }).notNull(), // 'credits', 'stripe', 'direct'
   amount: decimal("amount", { precision: 10, scale: 2 }), // Valor pago (se aplicável)
   creditsUsed: integer("credits_used"), // Créditos usados (se aplicável)
-  paymentId: uuid("payment_id").references(() => payments.id, {
+  paymentId: uuid("payment_id")
+    .references(() => payments.id, {
+      onDelete: "set null",
+    })
+    .unique(), // Uma compra por pagamento (webhook e /payments/confirm)
+  transactionId: uuid("transaction_id").references(() => transactions.id, {
     onDelete: "set null",
   }),
-  transactionId: uuid("transaction_id").references(() => transactions.id, {
+  refundedAt: timestamp("refunded_at"), // Reembolsada (matrícula revogada)
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Course Refunds - Reembolso de uma compra de curso (um por compra)
+export const courseRefunds = pgTable("course_refunds", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  coursePurchaseId: uuid("course_purchase_id")
+    .notNull()
+    .unique()
+    .references(() => coursePurchases.id, { onDelete: "cascade" }),
+  paymentId: uuid("payment_id").references(() => payments.id, {
     onDelete: "set null",
   }),
+  studentId: uuid("student_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  courseId: uuid("course_id")
+    .notNull()
+    .references(() => courses.id, { onDelete: "cascade" }),
+  requestedBy: uuid("requested_by").references(() => users.id, {
+    onDelete: "set null",
+  }), // null = feito fora da API (dashboard do Stripe)
+  amount: decimal("amount", { precision: 10, scale: 2 }), // Valor devolvido no Stripe
+  creditsRefunded: integer("credits_refunded"), // Créditos devolvidos ao ledger
+  stripeRefundId: varchar("stripe_refund_id", { length: 255 }),
+  reason: text("reason"),
+  status: varchar("status", { length: 50 }).default("pending").notNull(), // 'pending', 'succeeded'
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // ============================================================================
@@ -352,35 +624,132 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   payments: many(payments),
   coursePurchases: many(coursePurchases),
   creatorTermsAcceptances: many(creatorTermsAcceptances),
+  sessions: many(sessions),
+  roles: many(userRoles),
+}));
+
+export const userRolesRelations = relations(userRoles, ({ one }) => ({
+  user: one(users, {
+    fields: [userRoles.userId],
+    references: [users.id],
+  }),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
 }));
 
+export const passwordResetTokensRelations = relations(
+  passwordResetTokens,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [passwordResetTokens.userId],
+      references: [users.id],
+    }),
+  })
+);
+
+export const emailVerificationTokensRelations = relations(
+  emailVerificationTokens,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [emailVerificationTokens.userId],
+      references: [users.id],
+    }),
+  })
+);
+
 export const coursesRelations = relations(courses, ({ one, many }) => ({
   creator: one(users, {
     fields: [courses.creatorId],
     references: [users.id],
   }),
+  sections: many(courseSections),
   videos: many(videos),
   enrollments: many(enrollments),
   conversations: many(conversations),
 }));
 
+export const courseSectionsRelations = relations(
+  courseSections,
+  ({ one, many }) => ({
+    course: one(courses, {
+      fields: [courseSections.courseId],
+      references: [courses.id],
+    }),
+    videos: many(videos),
+  })
+);
+
 export const videosRelations = relations(videos, ({ one, many }) => ({
   course: one(courses, {
     fields: [videos.courseId],
     references: [courses.id],
   }),
+  section: one(courseSections, {
+    fields: [videos.sectionId],
+    references: [courseSections.id],
+  }),
   transcripts: many(transcripts),
   comments: many(comments),
   quiz: one(quizzes),
+  aiChatSessions: many(aiChatSessions),
 }));
 
-export const transcriptsRelations = relations(transcripts, ({ one }) => ({
+export const transcriptsRelations = relations(transcripts, ({ one, many }) => ({
   video: one(videos, {
     fields: [transcripts.videoId],
     references: [videos.id],
   }),
+  segments: many(transcriptSegments),
+  revisions: many(transcriptRevisions),
 }));
 
+export const transcriptSegmentsRelations = relations(
+  transcriptSegments,
+  ({ one }) => ({
+    transcript: one(transcripts, {
+      fields: [transcriptSegments.transcriptId],
+      references: [transcripts.id],
+    }),
+  })
+);
+
+export const transcriptChunksRelations = relations(
+  transcriptChunks,
+  ({ one }) => ({
+    course: one(courses, {
+      fields: [transcriptChunks.courseId],
+      references: [courses.id],
+    }),
+    video: one(videos, {
+      fields: [transcriptChunks.videoId],
+      references: [videos.id],
+    }),
+    transcript: one(transcripts, {
+      fields: [transcriptChunks.transcriptId],
+      references: [transcripts.id],
+    }),
+  })
+);
+
+export const transcriptRevisionsRelations = relations(
+  transcriptRevisions,
+  ({ one }) => ({
+    transcript: one(transcripts, {
+      fields: [transcriptRevisions.transcriptId],
+      references: [transcripts.id],
+    }),
+    author: one(users, {
+      fields: [transcriptRevisions.authorId],
+      references: [users.id],
+    }),
+  })
+);
+
 export const enrollmentsRelations = relations(enrollments, ({ one }) => ({
   student: one(users, {
     fields: [enrollments.studentId],
@@ -403,6 +772,35 @@ export const commentsRelations = relations(comments, ({ one }) => ({
   }),
 }));
 
+export const aiChatSessionsRelations = relations(
+  aiChatSessions,
+  ({ one, many }) => ({
+    user: one(users, {
+      fields: [aiChatSessions.userId],
+      references: [users.id],
+    }),
+    video: one(videos, {
+      fields: [aiChatSessions.videoId],
+      references: [videos.id],
+    }),
+    messages: many(aiChatMessages),
+  })
+);
+
+export const aiUsageEventsRelations = relations(aiUsageEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [aiUsageEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const aiChatMessagesRelations = relations(aiChatMessages, ({ one }) => ({
+  session: one(aiChatSessions, {
+    fields: [aiChatMessages.sessionId],
+    references: [aiChatSessions.id],
+  }),
+}));
+
 export const conversationsRelations = relations(conversations, ({ one, many }) => ({
   course: one(courses, {
     fields: [conversations.courseId],
@@ -451,13 +849,24 @@ export const userCreditsRelations = relations(userCredits, ({ one }) => ({
   }),
 }));
 
-export const transactionsRelations = relations(transactions, ({ one }) => ({
+export const transactionsRelations = relations(transactions, ({ one, many }) => ({
   user: one(users, {
     fields: [transactions.userId],
     references: [users.id],
   }),
+  ledgerEntries: many(creditLedgerEntries),
 }));
 
+export const creditLedgerEntriesRelations = relations(
+  creditLedgerEntries,
+  ({ one }) => ({
+    transaction: one(transactions, {
+      fields: [creditLedgerEntries.transactionId],
+      references: [transactions.id],
+    }),
+  })
+);
+
 export const paymentsRelations = relations(payments, ({ one }) => ({
   user: one(users, {
     fields: [payments.userId],
@@ -498,9 +907,29 @@ export const coursePurchasesRelations = relations(
       fields: [coursePurchases.transactionId],
       references: [transactions.id],
     }),
+    refund: one(courseRefunds),
   })
 );
 
+export const courseRefundsRelations = relations(courseRefunds, ({ one }) => ({
+  purchase: one(coursePurchases, {
+    fields: [courseRefunds.coursePurchaseId],
+    references: [coursePurchases.id],
+  }),
+  payment: one(payments, {
+    fields: [courseRefunds.paymentId],
+    references: [payments.id],
+  }),
+  student: one(users, {
+    fields: [courseRefunds.studentId],
+    references: [users.id],
+  }),
+  course: one(courses, {
+    fields: [courseRefunds.courseId],
+    references: [courses.id],
+  }),
+}));
+
 // Quiz Relations
 export const quizzesRelations = relations(quizzes, ({ one, many }) => ({
   video: one(videos, {
@@ -543,6 +972,7 @@ export const subscriptionPlans = pgTable("subscription_plans", {
   billingPeriod: varchar("billing_period", { length: 20 }).default("monthly").notNull(),
   stripePriceId: varchar("stripe_price_id", { length: 255 }), // ID do preço no Stripe
   features: text("features").notNull(), // JSON: { courses: 5, videos: 50, quizzes_per_month: 5, commission_rate: 0.15, ai_questions_per_day: 5 }
+  trialDays: integer("trial_days").default(0).notNull(), // Dias de teste grátis no checkout (0 = sem teste)
   isActive: integer("is_active").default(1).notNull(), // 0 = false, 1 = true
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -559,10 +989,15 @@ export const userSubscriptions = pgTable("user_subscriptions", {
     .references(() => subscriptionPlans.id),
   stripeSubscriptionId: varchar("stripe_subscription_id", { length: 255 }),
   stripeCustomerId: varchar("stripe_customer_id", { length: 255 }),
-  status: varchar("status", { length: 30 }).default("active").notNull(), // 'active', 'cancelled', 'past_due', 'trialing'
+  status: varchar("status", { length: 30 }).default("active").notNull(), // 'active', 'cancelled', 'past_due', 'unpaid' (rebaixado ao gratuito), 'trialing'
   currentPeriodStart: timestamp("current_period_start"),
   currentPeriodEnd: timestamp("current_period_end"),
   cancelAtPeriodEnd: integer("cancel_at_period_end").default(0).notNull(), // 0 = false, 1 = true
+  pastDueSince: timestamp("past_due_since"), // Primeira falha de pagamento do ciclo de cobrança
+  graceEndsAt: timestamp("grace_ends_at"), // Fim da carência: depois disso, plano gratuito
+  dunningRemindersSent: integer("dunning_reminders_sent").default(0).notNull(), // Lembretes já enviados na carência
+  pendingPlanId: uuid("pending_plan_id").references(() => subscriptionPlans.id), // Downgrade agendado para o fim do período
+  trialEndsAt: timestamp("trial_ends_at"), // Fim do teste grátis (um teste por usuário)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -583,6 +1018,51 @@ export const usageLimits = pgTable("usage_limits", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Daily Usage - Contadores que zeram a cada dia (UTC)
+export const dailyUsage = pgTable("daily_usage", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  day: date("day").notNull(), // YYYY-MM-DD (UTC); unico por usuario
+  aiQuestionsAsked: integer("ai_questions_asked").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Subscription Events - Histórico de transições das assinaturas (cobrança, carência, rebaixamento)
+export const subscriptionEvents = pgTable("subscription_events", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  subscriptionId: uuid("subscription_id")
+    .notNull()
+    .references(() => userSubscriptions.id, { onDelete: "cascade" }),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 50 }).notNull(), // 'created', 'payment_failed', 'reminder_sent', 'downgraded', 'restored', 'cancelled', 'status_changed', 'plan_changed', 'plan_change_scheduled', 'plan_change_cancelled'
+  fromStatus: varchar("from_status", { length: 30 }),
+  toStatus: varchar("to_status", { length: 30 }),
+  stripeInvoiceId: varchar("stripe_invoice_id", { length: 255 }),
+  details: text("details"), // JSON
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Subscription Trials - Teste grátis usado por usuário (um por conta)
+export const subscriptionTrials = pgTable("subscription_trials", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .notNull()
+    .unique()
+    .references(() => users.id, { onDelete: "cascade" }),
+  planId: uuid("plan_id").references(() => subscriptionPlans.id, {
+    onDelete: "set null",
+  }),
+  stripeCheckoutSessionId: varchar("stripe_checkout_session_id", { length: 255 }), // Checkout que oferece o teste
+  startedAt: timestamp("started_at"), // null = checkout ainda não concluído
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Leads - Captura de leads da landing page
 export const leads = pgTable("leads", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -603,7 +1083,7 @@ export const subscriptionPlansRelations = relations(subscriptionPlans, ({ many }
 }));
 
 // User Subscriptions Relations
-export const userSubscriptionsRelations = relations(userSubscriptions, ({ one }) => ({
+export const userSubscriptionsRelations = relations(userSubscriptions, ({ one, many }) => ({
   user: one(users, {
     fields: [userSubscriptions.userId],
     references: [users.id],
@@ -612,6 +1092,19 @@ export const userSubscriptionsRelations = relations(userSubscriptions, ({ one })
     fields: [userSubscriptions.planId],
     references: [subscriptionPlans.id],
   }),
+  events: many(subscriptionEvents),
+}));
+
+// Subscription Events Relations
+export const subscriptionEventsRelations = relations(subscriptionEvents, ({ one }) => ({
+  subscription: one(userSubscriptions, {
+    fields: [subscriptionEvents.subscriptionId],
+    references: [userSubscriptions.id],
+  }),
+  user: one(users, {
+    fields: [subscriptionEvents.userId],
+    references: [users.id],
+  }),
 }));
 
 // Usage Limits Relations
@@ -622,6 +1115,90 @@ export const usageLimitsRelations = relations(usageLimits, ({ one }) => ({
   }),
 }));
 
+// Daily Usage Relations
+export const dailyUsageRelations = relations(dailyUsage, ({ one }) => ({
+  user: one(users, {
+    fields: [dailyUsage.userId],
+    references: [users.id],
+  }),
+}));
+
+// ============================================================================
+// COUPONS
+// ============================================================================
+
+// Coupons - Cupons de desconto para planos e cursos
+export const coupons = pgTable("coupons", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  code: varchar("code", { length: 50 }).notNull().unique(), // Sempre em maiúsculas
+  description: text("description"),
+  discountType: varchar("discount_type", { length: 20 }).notNull(), // 'percent' ou 'fixed'
+  percentOff: integer("percent_off"), // 1-100 (discountType = 'percent')
+  amountOff: decimal("amount_off", { precision: 10, scale: 2 }), // Em reais (discountType = 'fixed')
+  // Escopo: no máximo um preenchido; nenhum = cupom da plataforma (qualquer plano ou curso)
+  planId: uuid("plan_id").references(() => subscriptionPlans.id, { onDelete: "cascade" }),
+  courseId: uuid("course_id").references(() => courses.id, { onDelete: "cascade" }),
+  creatorId: uuid("creator_id").references(() => users.id, { onDelete: "cascade" }), // Todos os cursos do criador
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  maxRedemptions: integer("max_redemptions"), // null = ilimitado
+  maxRedemptionsPerUser: integer("max_redemptions_per_user").default(1).notNull(),
+  timesRedeemed: integer("times_redeemed").default(0).notNull(),
+  expiresAt: timestamp("expires_at"),
+  isActive: integer("is_active").default(1).notNull(), // 0 = false, 1 = true
+  stripeCouponId: varchar("stripe_coupon_id", { length: 255 }), // Criado no primeiro checkout de plano
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Coupon Redemptions - Uso dos cupons (pendente até o pagamento ser confirmado)
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  couponId: uuid("coupon_id")
+    .notNull()
+    .references(() => coupons.id, { onDelete: "cascade" }),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  targetType: varchar("target_type", { length: 20 }).notNull(), // 'course' ou 'plan'
+  targetId: uuid("target_id").notNull(),
+  originalAmount: decimal("original_amount", { precision: 10, scale: 2 }).notNull(),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
+  paymentId: uuid("payment_id").references(() => payments.id, { onDelete: "set null" }),
+  stripeCheckoutSessionId: varchar("stripe_checkout_session_id", { length: 255 }),
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // 'pending', 'redeemed', 'void' (acima do limite), 'refunded' (uso devolvido)
+  redeemedAt: timestamp("redeemed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Coupons Relations
+export const couponsRelations = relations(coupons, ({ one, many }) => ({
+  plan: one(subscriptionPlans, {
+    fields: [coupons.planId],
+    references: [subscriptionPlans.id],
+  }),
+  course: one(courses, {
+    fields: [coupons.courseId],
+    references: [courses.id],
+  }),
+  redemptions: many(couponRedemptions),
+}));
+
+// Coupon Redemptions Relations
+export const couponRedemptionsRelations = relations(couponRedemptions, ({ one }) => ({
+  coupon: one(coupons, {
+    fields: [couponRedemptions.couponId],
+    references: [coupons.id],
+  }),
+  user: one(users, {
+    fields: [couponRedemptions.userId],
+    references: [users.id],
+  }),
+  payment: one(payments, {
+    fields: [couponRedemptions.paymentId],
+    references: [payments.id],
+  }),
+}));
+
 // ============================================================================
 // GAMIFICATION SYSTEM
 // ============================================================================
@@ -713,3 +1290,76 @@ export const xpTransactionsRelations = relations(xpTransactions, ({ one }) => ({
     references: [users.id],
   }),
 }));
+
+// ============================================================================
+// LESSON PROGRESS
+// ============================================================================
+
+// Lesson Progress - Progresso de cada aluno em cada aula (heartbeat do player)
+export const lessonProgress = pgTable("lesson_progress", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  studentId: uuid("student_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  videoId: uuid("video_id")
+    .notNull()
+    .references(() => videos.id, { onDelete: "cascade" }),
+  courseId: uuid("course_id")
+    .notNull()
+    .references(() => courses.id, { onDelete: "cascade" }),
+  lastPosition: integer("last_position").default(0).notNull(), // Seconds
+  watchedSeconds: integer("watched_seconds").default(0).notNull(),
+  completed: integer("completed").default(0).notNull(), // 0 = false, 1 = true
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Lesson Progress Relations
+export const lessonProgressRelations = relations(lessonProgress, ({ one }) => ({
+  student: one(users, {
+    fields: [lessonProgress.studentId],
+    references: [users.id],
+  }),
+  video: one(videos, {
+    fields: [lessonProgress.videoId],
+    references: [videos.id],
+  }),
+  course: one(courses, {
+    fields: [lessonProgress.courseId],
+    references: [courses.id],
+  }),
+}));
+
+// ============================================================================
+// BACKGROUND JOBS
+// ============================================================================
+
+// Jobs - Fila de tarefas em segundo plano (transcrição, quizzes, backups)
+export const jobs = pgTable("jobs", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  type: varchar("type", { length: 100 }).notNull(), // 'transcription', 'quiz_generation', 'r2_backup'
+  payload: text("payload").notNull(), // JSON
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // 'pending', 'running', 'completed', 'failed'
+  result: text("result"), // JSON retornado pelo handler
+  lastError: text("last_error"),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(), // Próxima execução (backoff)
+  lockedBy: varchar("locked_by", { length: 100 }), // Worker com o lease
+  lockedUntil: timestamp("locked_until"), // Fim do lease
+  dedupeKey: varchar("dedupe_key", { length: 255 }), // Evita jobs duplicados em aberto
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }), // Quem pediu (GET /jobs/:id)
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Jobs Relations
+export const jobsRelations = relations(jobs, ({ one }) => ({
+  user: one(users, {
+    fields: [jobs.userId],
+    references: [users.id],
+  }),
+}));
@@ -1,11 +1,27 @@
 import "dotenv/config";
 import { fastify } from "./server";
+import { startJobWorker } from "./services/job-queue";
+import {
+  registerJobHandlers,
+  scheduleCreditReconciliation,
+  scheduleSubscriptionDunning,
+} from "./services/job-handlers";
 
 const start = async () => {
   try {
     const port = parseInt(process.env.PORT || "3333");
     const host = process.env.HOST || "0.0.0.0";
     await fastify.listen({ port, host });
+
+    // Background jobs run in the API process unless disabled
+    // (e.g. when a dedicated worker instance is deployed).
+    // A job interrupted by a restart is picked up again once its lease expires.
+    if (process.env.JOB_WORKER_ENABLED !== "false") {
+      registerJobHandlers();
+      startJobWorker();
+      await scheduleCreditReconciliation();
+      await scheduleSubscriptionDunning();
+    }
   } catch (err) {
     fastify.log.error(err);
     process.exit(1);
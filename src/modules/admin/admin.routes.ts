@@ -0,0 +1,817 @@
+/**
+ * Admin Routes
+ * Back-office for admins: users, suspensions, payments, credits, leads,
+ * Stripe events, coupons, plan trials and AI costs.
+ * Registered under /api/admin; every route requires the admin role.
+ */
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { db } from "../../db";
+import { userRoles } from "../../db/schema";
+import { and, eq } from "drizzle-orm";
+import {
+  listUsers,
+  getAdminUser,
+  suspendUser,
+  unsuspendUser,
+  listPayments,
+  listTransactions,
+  listSubscriptions,
+  listSubscriptionEvents,
+  listLeads,
+  leadsToCsv,
+} from "../../services/admin";
+import {
+  addUserRole,
+  ADMIN_ROLE,
+  SELF_SERVICE_ROLES,
+} from "../../services/accounts";
+import { addCredits, getUserCreditBalance } from "../../services/credits";
+import {
+  getUserSubscription,
+  updatePlanTrialDays,
+} from "../../services/subscriptions";
+import {
+  createCoupon,
+  listCoupons,
+  deactivateCoupon,
+} from "../../services/coupons";
+import { revokeAllUserSessions } from "../../services/auth-sessions";
+import {
+  PRICED_AI_FEATURES,
+  getAIMarginReport,
+  listAIPricing,
+  upsertAIPricing,
+} from "../../services/ai-usage";
+import { enqueueJob } from "../../services/job-queue";
+import {
+  listStripeEvents,
+  replayStripeEvent,
+} from "../../services/stripe-events";
+import {
+  CREDIT_RECONCILIATION_JOB,
+  CreditReconciliationJobPayload,
+} from "../../services/job-handlers";
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const pageQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional(),
+  pageSize: z.coerce.number().int().positive().max(100).optional(),
+});
+
+const usersQuerySchema = pageQuerySchema.extend({
+  search: z.string().trim().min(1).optional(),
+  role: z.string().min(1).optional(),
+  status: z.enum(["active", "suspended"]).optional(),
+});
+
+const paymentsQuerySchema = pageQuerySchema.extend({
+  userId: z.string().uuid().optional(),
+  status: z.string().min(1).optional(),
+  paymentType: z.string().min(1).optional(),
+});
+
+const transactionsQuerySchema = pageQuerySchema.extend({
+  userId: z.string().uuid().optional(),
+  type: z.string().min(1).optional(),
+});
+
+const subscriptionsQuerySchema = pageQuerySchema.extend({
+  userId: z.string().uuid().optional(),
+  status: z.string().min(1).optional(),
+});
+
+const subscriptionParamsSchema = z.object({
+  subscriptionId: z.string().uuid(),
+});
+
+const leadsQuerySchema = z.object({
+  type: z.enum(["creator", "student"]).optional(),
+});
+
+const couponsQuerySchema = pageQuerySchema.extend({
+  courseId: z.string().uuid().optional(),
+  planId: z.string().uuid().optional(),
+});
+
+const createCouponSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3)
+      .max(50)
+      .regex(/^[A-Za-z0-9_-]+$/, "Use apenas letras, números, - e _"),
+    description: z.string().trim().max(500).optional(),
+    discountType: z.enum(["percent", "fixed"]),
+    percentOff: z.number().int().min(1).max(100).optional(),
+    amountOff: z.number().positive().optional(),
+    // At most one scope; none = every plan and course
+    planId: z.string().uuid().optional(),
+    courseId: z.string().uuid().optional(),
+    creatorId: z.string().uuid().optional(),
+    maxRedemptions: z.number().int().positive().optional(),
+    maxRedemptionsPerUser: z.number().int().positive().default(1),
+    expiresAt: z.coerce.date().optional(),
+  })
+  .refine(
+    (data) =>
+      data.discountType === "percent"
+        ? data.percentOff !== undefined
+        : data.amountOff !== undefined,
+    { message: "Informe percentOff ou amountOff conforme o tipo de desconto" }
+  )
+  .refine(
+    (data) =>
+      [data.planId, data.courseId, data.creatorId].filter(Boolean).length <= 1,
+    { message: "Use apenas um escopo: planId, courseId ou creatorId" }
+  );
+
+const couponParamsSchema = z.object({
+  couponId: z.string().uuid(),
+});
+
+const planParamsSchema = z.object({
+  planId: z.string().uuid(),
+});
+
+const planTrialSchema = z.object({
+  trialDays: z.number().int().min(0).max(90),
+});
+
+const aiReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const aiPricingParamsSchema = z.object({
+  feature: z.enum(PRICED_AI_FEATURES),
+});
+
+const aiPricingSchema = z.object({
+  mode: z.enum(["flat", "tokens"]),
+  flatCredits: z.number().int().min(0).max(1000).default(1),
+  creditsPer1kTokens: z.number().min(0).max(100).default(0),
+  minCredits: z.number().int().min(0).max(1000).default(1),
+});
+
+const userParamsSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+const suspendSchema = z.object({
+  reason: z.string().trim().min(3).max(1000),
+});
+
+const grantCreditsSchema = z.object({
+  amount: z.number().int().positive().max(100000),
+  reason: z.string().trim().min(3).max(500),
+});
+
+const roleSchema = z.object({
+  role: z.enum([...SELF_SERVICE_ROLES, ADMIN_ROLE]),
+});
+
+const stripeEventsQuerySchema = pageQuerySchema.extend({
+  status: z
+    .enum(["pending", "processing", "processed", "failed", "ignored"])
+    .optional(),
+  endpoint: z
+    .enum(["payments", "subscriptions", "connect", "connect_thin"])
+    .optional(),
+  type: z.string().min(1).optional(),
+});
+
+const stripeEventParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Resolve page/pageSize into limit/offset (one extra row to compute hasMore)
+ */
+function toPage(query: { page?: number; pageSize?: number }) {
+  const page = query.page ?? 1;
+  const pageSize = query.pageSize ?? 20;
+  return { page, pageSize, limit: pageSize + 1, offset: (page - 1) * pageSize };
+}
+
+function paginate<T>(results: T[], page: number, pageSize: number) {
+  return {
+    items: results.slice(0, pageSize),
+    page,
+    pageSize,
+    hasMore: results.length > pageSize,
+  };
+}
+
+/**
+ * Handle Zod validation errors
+ */
+function handleZodError(error: any, reply: any) {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: "Parâmetros inválidos",
+      details: error.issues,
+    });
+  }
+  return null;
+}
+
+export async function adminRoutes(fastify: FastifyInstance) {
+  // Every route of this group is admin-only
+  fastify.addHook("preHandler", fastify.authenticate);
+  fastify.addHook("preHandler", fastify.requireRole(ADMIN_ROLE));
+
+  // --------------------------------------------------------------------------
+  // Users
+  // --------------------------------------------------------------------------
+
+  /**
+   * GET /admin/users - List/search users
+   */
+  fastify.get("/users", async (request, reply) => {
+    try {
+      const query = usersQuerySchema.parse(request.query);
+      const { page, pageSize, limit, offset } = toPage(query);
+
+      const results = await listUsers(
+        { search: query.search, role: query.role, status: query.status },
+        { limit, offset }
+      );
+
+      return paginate(results, page, pageSize);
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao listar usuários:", error);
+      return reply.status(500).send({ error: "Falha ao listar usuários" });
+    }
+  });
+
+  /**
+   * GET /admin/users/:userId - User details with credits and subscription
+   */
+  fastify.get("/users/:userId", async (request, reply) => {
+    try {
+      const { userId } = userParamsSchema.parse(request.params);
+
+      const user = await getAdminUser(userId);
+      if (!user) {
+        return reply.status(404).send({ error: "Usuário não encontrado" });
+      }
+
+      const [credits, subscription] = await Promise.all([
+        getUserCreditBalance(userId),
+        getUserSubscription(userId),
+      ]);
+
+      return { user, credits, subscription };
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao buscar usuário:", error);
+      return reply.status(500).send({ error: "Falha ao buscar usuário" });
+    }
+  });
+
+  /**
+   * POST /admin/users/:userId/suspend - Suspend an account
+   */
+  fastify.post("/users/:userId/suspend", async (request, reply) => {
+    try {
+      const { userId } = userParamsSchema.parse(request.params);
+      const { reason } = suspendSchema.parse(request.body);
+
+      if (userId === request.user.id) {
+        return reply
+          .status(400)
+          .send({ error: "Você não pode suspender a própria conta" });
+      }
+
+      const result = await suspendUser(userId, reason);
+      if (!result.success) {
+        return reply.status(404).send({ error: result.error });
+      }
+
+      console.log(`🚫 User ${userId} suspended by admin ${request.user.id}`);
+
+      return { success: true, message: "Conta suspensa" };
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao suspender usuário:", error);
+      return reply.status(500).send({ error: "Falha ao suspender usuário" });
+    }
+  });
+
+  /**
+   * POST /admin/users/:userId/unsuspend - Reactivate an account
+   */
+  fastify.post("/users/:userId/unsuspend", async (request, reply) => {
+    try {
+      const { userId } = userParamsSchema.parse(request.params);
+
+      const result = await unsuspendUser(userId);
+      if (!result.success) {
+        return reply.status(404).send({ error: result.error });
+      }
+
+      console.log(`✅ User ${userId} reactivated by admin ${request.user.id}`);
+
+      return { success: true, message: "Conta reativada" };
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao reativar usuário:", error);
+      return reply.status(500).send({ error: "Falha ao reativar usuário" });
+    }
+  });
+
+  /**
+   * POST /admin/users/:userId/roles - Grant a role (including admin)
+   */
+  fastify.post("/users/:userId/roles", async (request, reply) => {
+    try {
+      const { userId } = userParamsSchema.parse(request.params);
+      const { role } = roleSchema.parse(request.body);
+
+      if (!(await getAdminUser(userId))) {
+        return reply.status(404).send({ error: "Usuário não encontrado" });
+      }
+
+      await addUserRole(userId, role);
+
+      return { success: true, message: "Perfil concedido" };
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao conceder perfil:", error);
+      return reply.status(500).send({ error: "Falha ao conceder perfil" });
+    }
+  });
+
+  /**
+   * DELETE /admin/users/:userId/roles/:role - Remove a role
+   * Open sessions are revoked so the old role disappears from the tokens.
+   */
+  fastify.delete("/users/:userId/roles/:role", async (request, reply) => {
+    try {
+      const { userId } = userParamsSchema.parse(request.params);
+      const { role } = roleSchema.parse(request.params);
+
+      if (userId === request.user.id && role === ADMIN_ROLE) {
+        return reply
+          .status(400)
+          .send({ error: "Você não pode remover o próprio acesso de admin" });
+      }
+
+      const user = await getAdminUser(userId);
+      if (!user) {
+        return reply.status(404).send({ error: "Usuário não encontrado" });
+      }
+
+      if (user.role === role) {
+        return reply.status(400).send({
+          error: "Não é possível remover o perfil principal do usuário",
+        });
+      }
+
+      const removed = await db
+        .delete(userRoles)
+        .where(and(eq(userRoles.userId, userId), eq(userRoles.role, role)))
+        .returning({ id: userRoles.id });
+
+      if (removed.length === 0) {
+        return reply
+          .status(404)
+          .send({ error: "Usuário não possui este perfil" });
+      }
+
+      await revokeAllUserSessions(userId, "role_removed");
+
+      return { success: true, message: "Perfil removido" };
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao remover perfil:", error);
+      return reply.status(500).send({ error: "Falha ao remover perfil" });
+    }
+  });
+
+  /**
+   * POST /admin/users/:userId/credits - Grant credits manually
+   */
+  fastify.post("/users/:userId/credits", async (request, reply) => {
+    try {
+      const { userId } = userParamsSchema.parse(request.params);
+      const { amount, reason } = grantCreditsSchema.parse(request.body);
+
+      if (!(await getAdminUser(userId))) {
+        return reply.status(404).send({ error: "Usuário não encontrado" });
+      }
+
+      const result = await addCredits(
+        userId,
+        amount,
+        `Créditos concedidos pelo admin: ${reason}`,
+        request.user.id,
+        "admin_grant",
+        "bonus"
+      );
+
+      if (!result.success) {
+        return reply.status(500).send({
+          error: result.error || "Falha ao conceder créditos",
+        });
+      }
+
+      console.log(
+        `🎁 Admin ${request.user.id} granted ${amount} credits to ${userId}`
+      );
+
+      return { success: true, newBalance: result.newBalance };
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao conceder créditos:", error);
+      return reply.status(500).send({ error: "Falha ao conceder créditos" });
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // Billing
+  // --------------------------------------------------------------------------
+
+  /**
+   * GET /admin/payments - Stripe payments of all users
+   */
+  fastify.get("/payments", async (request, reply) => {
+    try {
+      const query = paymentsQuerySchema.parse(request.query);
+      const { page, pageSize, limit, offset } = toPage(query);
+
+      const results = await listPayments(
+        {
+          userId: query.userId,
+          status: query.status,
+          paymentType: query.paymentType,
+        },
+        { limit, offset }
+      );
+
+      return paginate(results, page, pageSize);
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao listar pagamentos:", error);
+      return reply.status(500).send({ error: "Falha ao listar pagamentos" });
+    }
+  });
+
+  /**
+   * GET /admin/transactions - Credit transactions of all users
+   */
+  fastify.get("/transactions", async (request, reply) => {
+    try {
+      const query = transactionsQuerySchema.parse(request.query);
+      const { page, pageSize, limit, offset } = toPage(query);
+
+      const results = await listTransactions(
+        { userId: query.userId, type: query.type },
+        { limit, offset }
+      );
+
+      return paginate(results, page, pageSize);
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao listar transações:", error);
+      return reply.status(500).send({ error: "Falha ao listar transações" });
+    }
+  });
+
+  /**
+   * POST /admin/credits/reconcile - Check every balance against its
+   * transactions now (the report is the result of the job)
+   */
+  fastify.post("/credits/reconcile", async (request, reply) => {
+    try {
+      const job = await enqueueJob<CreditReconciliationJobPayload>(
+        CREDIT_RECONCILIATION_JOB,
+        { scheduled: false },
+        { userId: request.user.id, dedupeKey: "manual", maxAttempts: 1 }
+      );
+
+      return reply.status(202).send({
+        message: "Conciliação iniciada. Acompanhe em /jobs/:id.",
+        jobId: job.id,
+        status: job.status,
+      });
+    } catch (error: any) {
+      console.error("Erro ao iniciar conciliação de créditos:", error);
+      return reply
+        .status(500)
+        .send({ error: "Falha ao iniciar conciliação de créditos" });
+    }
+  });
+
+  /**
+   * GET /admin/stripe-events - Webhook events received from Stripe
+   */
+  fastify.get("/stripe-events", async (request, reply) => {
+    try {
+      const query = stripeEventsQuerySchema.parse(request.query);
+      const { page, pageSize, limit, offset } = toPage(query);
+
+      const results = await listStripeEvents(
+        { status: query.status, endpoint: query.endpoint, type: query.type },
+        { limit, offset }
+      );
+
+      return paginate(results, page, pageSize);
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao listar eventos do Stripe:", error);
+      return reply.status(500).send({ error: "Falha ao listar eventos do Stripe" });
+    }
+  });
+
+  /**
+   * POST /admin/stripe-events/:id/replay - Process a stored event again
+   */
+  fastify.post("/stripe-events/:id/replay", async (request, reply) => {
+    try {
+      const { id } = stripeEventParamsSchema.parse(request.params);
+
+      const result = await replayStripeEvent(id);
+
+      if (!result) {
+        return reply.status(404).send({ error: "Evento não encontrado" });
+      }
+
+      if (result.status === "in_progress") {
+        return reply.status(409).send({ error: "Evento em processamento" });
+      }
+
+      console.log(`🔁 Admin ${request.user.id} replayed Stripe event ${id}: ${result.status}`);
+
+      if (result.status === "failed") {
+        return reply.status(500).send({
+          error: result.error || "Falha ao reprocessar evento",
+          status: result.status,
+        });
+      }
+
+      return { status: result.status };
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao reprocessar evento do Stripe:", error);
+      return reply.status(500).send({ error: "Falha ao reprocessar evento" });
+    }
+  });
+
+  /**
+   * GET /admin/subscriptions - Subscriptions of all users
+   */
+  fastify.get("/subscriptions", async (request, reply) => {
+    try {
+      const query = subscriptionsQuerySchema.parse(request.query);
+      const { page, pageSize, limit, offset } = toPage(query);
+
+      const results = await listSubscriptions(
+        { userId: query.userId, status: query.status },
+        { limit, offset }
+      );
+
+      return paginate(results, page, pageSize);
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao listar assinaturas:", error);
+      return reply.status(500).send({ error: "Falha ao listar assinaturas" });
+    }
+  });
+
+  /**
+   * GET /admin/subscriptions/:subscriptionId/events - Status history of a subscription
+   */
+  fastify.get("/subscriptions/:subscriptionId/events", async (request, reply) => {
+    try {
+      const { subscriptionId } = subscriptionParamsSchema.parse(request.params);
+
+      const events = await listSubscriptionEvents(subscriptionId);
+
+      return {
+        events: events.map((event) => ({
+          ...event,
+          details: event.details ? JSON.parse(event.details) : null,
+        })),
+      };
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao listar histórico da assinatura:", error);
+      return reply
+        .status(500)
+        .send({ error: "Falha ao listar histórico da assinatura" });
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // Leads
+  // --------------------------------------------------------------------------
+
+  /**
+   * GET /admin/leads/export - Download leads as CSV
+   */
+  fastify.get("/leads/export", async (request, reply) => {
+    try {
+      const { type } = leadsQuerySchema.parse(request.query);
+
+      const allLeads = await listLeads(type);
+      const date = new Date().toISOString().slice(0, 10);
+
+      return reply
+        .header("Content-Type", "text/csv; charset=utf-8")
+        .header(
+          "Content-Disposition",
+          `attachment; filename="leads-${date}.csv"`
+        )
+        .send(leadsToCsv(allLeads));
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao exportar leads:", error);
+      return reply.status(500).send({ error: "Falha ao exportar leads" });
+    }
+  });
+
+  /**
+   * PUT /admin/subscription-plans/:planId/trial - Free trial days of a plan
+   */
+  fastify.put("/subscription-plans/:planId/trial", async (request, reply) => {
+    try {
+      const { planId } = planParamsSchema.parse(request.params);
+      const { trialDays } = planTrialSchema.parse(request.body);
+
+      const plan = await updatePlanTrialDays(planId, trialDays);
+
+      if (!plan) {
+        return reply.status(404).send({ error: "Plano não encontrado" });
+      }
+
+      console.log(`🎁 Trial of plan ${plan.name} set to ${trialDays} days by admin ${request.user.id}`);
+
+      return { plan };
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao atualizar teste grátis do plano:", error);
+      return reply
+        .status(500)
+        .send({ error: "Falha ao atualizar teste grátis do plano" });
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // Coupons
+  // --------------------------------------------------------------------------
+
+  /**
+   * GET /admin/coupons - Every coupon (platform and creators)
+   */
+  fastify.get("/coupons", async (request, reply) => {
+    try {
+      const query = couponsQuerySchema.parse(request.query);
+      const { page, pageSize, limit, offset } = toPage(query);
+
+      const results = await listCoupons(
+        { courseId: query.courseId, planId: query.planId },
+        { limit, offset }
+      );
+
+      return paginate(results, page, pageSize);
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao listar cupons:", error);
+      return reply.status(500).send({ error: "Falha ao listar cupons" });
+    }
+  });
+
+  /**
+   * POST /admin/coupons - Create a coupon with any scope
+   */
+  fastify.post("/coupons", async (request, reply) => {
+    try {
+      const input = createCouponSchema.parse(request.body);
+
+      const coupon = await createCoupon(input, request.user.id);
+
+      if (!coupon) {
+        return reply.status(409).send({
+          error: "Já existe um cupom com este código",
+          code: "COUPON_CODE_TAKEN",
+        });
+      }
+
+      console.log(`🏷️ Admin ${request.user.id} created coupon ${coupon.code}`);
+
+      return reply.status(201).send({ coupon });
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao criar cupom:", error);
+      return reply.status(500).send({ error: "Falha ao criar cupom" });
+    }
+  });
+
+  /**
+   * DELETE /admin/coupons/:couponId - Deactivate any coupon
+   */
+  fastify.delete("/coupons/:couponId", async (request, reply) => {
+    try {
+      const { couponId } = couponParamsSchema.parse(request.params);
+
+      const coupon = await deactivateCoupon(couponId);
+
+      if (!coupon) {
+        return reply.status(404).send({ error: "Cupom não encontrado" });
+      }
+
+      return { coupon };
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao desativar cupom:", error);
+      return reply.status(500).send({ error: "Falha ao desativar cupom" });
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // AI usage
+  // --------------------------------------------------------------------------
+
+  /**
+   * GET /admin/ai/usage-report - OpenAI cost, credits charged and margin per feature
+   */
+  fastify.get("/ai/usage-report", async (request, reply) => {
+    try {
+      const { from, to } = aiReportQuerySchema.parse(request.query);
+      return await getAIMarginReport({ from, to });
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao gerar relatório de uso de IA:", error);
+      return reply
+        .status(500)
+        .send({ error: "Falha ao gerar relatório de uso de IA" });
+    }
+  });
+
+  /**
+   * GET /admin/ai/pricing - Credit price of each AI feature
+   */
+  fastify.get("/ai/pricing", async (request, reply) => {
+    try {
+      return { pricing: await listAIPricing() };
+    } catch (error: any) {
+      console.error("Erro ao listar preços de IA:", error);
+      return reply.status(500).send({ error: "Falha ao listar preços de IA" });
+    }
+  });
+
+  /**
+   * PUT /admin/ai/pricing/:feature - Change the credit price of an AI feature
+   */
+  fastify.put("/ai/pricing/:feature", async (request, reply) => {
+    try {
+      const { feature } = aiPricingParamsSchema.parse(request.params);
+      const pricing = aiPricingSchema.parse(request.body);
+
+      const updated = await upsertAIPricing(feature, pricing);
+
+      console.log(
+        `💲 AI pricing of ${feature} changed by admin ${request.user.id}:`,
+        pricing
+      );
+
+      return { pricing: updated };
+    } catch (error: any) {
+      const zodResponse = handleZodError(error, reply);
+      if (zodResponse) return zodResponse;
+      console.error("Erro ao atualizar preço de IA:", error);
+      return reply.status(500).send({ error: "Falha ao atualizar preço de IA" });
+    }
+  });
+}
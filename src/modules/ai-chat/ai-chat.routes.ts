@@ -0,0 +1,265 @@
+/**
+ * AI Chat Session Routes
+ * History of the conversations with the video mentor (questions are sent
+ * through POST /videos/chat with a sessionId) and, for creators, the most
+ * asked questions of each video
+ */
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { db } from "../../db";
+import { videos, enrollments } from "../../db/schema";
+import { eq, and } from "drizzle-orm";
+import {
+  createChatSession,
+  listChatSessions,
+  getChatSession,
+  getChatMessages,
+  deleteChatSession,
+  getTopVideoQuestions,
+} from "../../services/ai-chat-sessions";
+
+const videoParamsSchema = z.object({
+  videoId: z.string().uuid(),
+});
+
+const sessionParamsSchema = z.object({
+  sessionId: z.string().uuid(),
+});
+
+const createSessionSchema = z.object({
+  title: z.string().trim().min(1).max(255).optional(),
+});
+
+const topQuestionsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+/**
+ * Video the user can chat about (course creator or enrolled student)
+ */
+async function getChatVideo(videoId: string, userId: string) {
+  const video = await db.query.videos.findFirst({
+    where: eq(videos.id, videoId),
+    with: { course: true },
+  });
+
+  if (!video) {
+    return { error: "Video nao encontrado", status: 404 as const };
+  }
+
+  if (video.course.creatorId !== userId) {
+    const isEnrolled = await db.query.enrollments.findFirst({
+      where: and(
+        eq(enrollments.studentId, userId),
+        eq(enrollments.courseId, video.courseId)
+      ),
+    });
+
+    if (!isEnrolled) {
+      return { error: "Voce nao tem acesso a este video", status: 403 as const };
+    }
+  }
+
+  return { video };
+}
+
+export async function aiChatRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /videos/:videoId/chat/sessions - Start a new conversation about a video
+   */
+  fastify.post("/videos/:videoId/chat/sessions", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const params = videoParamsSchema.safeParse(request.params);
+        const body = createSessionSchema.safeParse(request.body ?? {});
+
+        if (!params.success) {
+          return reply.status(400).send({ error: params.error.issues });
+        }
+        if (!body.success) {
+          return reply.status(400).send({ error: body.error.issues });
+        }
+
+        const access = await getChatVideo(params.data.videoId, request.user.id);
+        if (access.error) {
+          return reply.status(access.status).send({ error: access.error });
+        }
+
+        const session = await createChatSession(
+          request.user.id,
+          params.data.videoId,
+          body.data.title
+        );
+
+        return reply.status(201).send({ session });
+      } catch (error: any) {
+        console.error("Error creating AI chat session:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao criar conversa",
+        });
+      }
+    },
+  });
+
+  /**
+   * GET /videos/:videoId/chat/sessions - Conversations of the logged user about a video
+   */
+  fastify.get("/videos/:videoId/chat/sessions", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const params = videoParamsSchema.safeParse(request.params);
+
+        if (!params.success) {
+          return reply.status(400).send({ error: params.error.issues });
+        }
+
+        const sessions = await listChatSessions(
+          request.user.id,
+          params.data.videoId
+        );
+
+        return { sessions };
+      } catch (error: any) {
+        console.error("Error listing AI chat sessions:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao listar conversas",
+        });
+      }
+    },
+  });
+
+  /**
+   * GET /chat/sessions - All conversations of the logged user
+   */
+  fastify.get("/chat/sessions", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const sessions = await listChatSessions(request.user.id);
+        return { sessions };
+      } catch (error: any) {
+        console.error("Error listing AI chat sessions:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao listar conversas",
+        });
+      }
+    },
+  });
+
+  /**
+   * GET /chat/sessions/:sessionId - A conversation with its messages
+   */
+  fastify.get("/chat/sessions/:sessionId", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const params = sessionParamsSchema.safeParse(request.params);
+
+        if (!params.success) {
+          return reply.status(400).send({ error: params.error.issues });
+        }
+
+        const session = await getChatSession(
+          params.data.sessionId,
+          request.user.id
+        );
+
+        if (!session) {
+          return reply.status(404).send({ error: "Conversa nao encontrada" });
+        }
+
+        const messages = await getChatMessages(session.id);
+
+        return { session, messages };
+      } catch (error: any) {
+        console.error("Error fetching AI chat session:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao buscar conversa",
+        });
+      }
+    },
+  });
+
+  /**
+   * DELETE /chat/sessions/:sessionId - Delete a conversation
+   */
+  fastify.delete("/chat/sessions/:sessionId", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const params = sessionParamsSchema.safeParse(request.params);
+
+        if (!params.success) {
+          return reply.status(400).send({ error: params.error.issues });
+        }
+
+        const deleted = await deleteChatSession(
+          params.data.sessionId,
+          request.user.id
+        );
+
+        if (!deleted) {
+          return reply.status(404).send({ error: "Conversa nao encontrada" });
+        }
+
+        return { message: "Conversa excluida com sucesso" };
+      } catch (error: any) {
+        console.error("Error deleting AI chat session:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao excluir conversa",
+        });
+      }
+    },
+  });
+
+  /**
+   * GET /videos/:videoId/chat/top-questions - Most asked questions (creator only, anonymized)
+   */
+  fastify.get("/videos/:videoId/chat/top-questions", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const params = videoParamsSchema.safeParse(request.params);
+        const query = topQuestionsQuerySchema.safeParse(request.query);
+
+        if (!params.success) {
+          return reply.status(400).send({ error: params.error.issues });
+        }
+        if (!query.success) {
+          return reply.status(400).send({ error: query.error.issues });
+        }
+
+        const video = await db.query.videos.findFirst({
+          where: eq(videos.id, params.data.videoId),
+          with: { course: true },
+        });
+
+        if (!video) {
+          return reply.status(404).send({ error: "Video nao encontrado" });
+        }
+
+        if (video.course.creatorId !== request.user.id) {
+          return reply.status(403).send({
+            error: "Apenas o criador do curso pode ver as perguntas",
+          });
+        }
+
+        const questions = await getTopVideoQuestions(
+          video.id,
+          request.user.id,
+          query.data.limit
+        );
+
+        return { videoId: video.id, questions };
+      } catch (error: any) {
+        console.error("Error fetching top AI chat questions:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao buscar perguntas",
+        });
+      }
+    },
+  });
+}
@@ -0,0 +1,87 @@
+/**
+ * Auth Cookies
+ * Shared helpers to set/clear the access and refresh token cookies
+ */
+
+import { FastifyReply, FastifyRequest } from "fastify";
+import "@fastify/cookie";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+  SessionClientInfo,
+} from "../../services/auth-sessions";
+
+export const ACCESS_TOKEN_COOKIE = "access_token";
+export const REFRESH_TOKEN_COOKIE = "refresh_token";
+
+// Refresh cookie is only sent to the auth endpoints
+const REFRESH_TOKEN_COOKIE_PATH = "/api/auth";
+
+function baseCookieOptions() {
+  // For cross-origin cookies, we need SameSite=None and Secure=true
+  const isProduction = process.env.NODE_ENV === "production";
+  return {
+    secure: isProduction, // HTTPS required for SameSite=None
+    sameSite: (isProduction ? "none" : "lax") as "none" | "lax", // None for cross-origin, lax for same-origin
+    domain: undefined, // Let browser handle domain (don't set for cross-origin)
+  };
+}
+
+/**
+ * Set access + refresh cookies after login or refresh.
+ * Without a refresh token only the access cookie is replaced.
+ */
+export function setAuthCookies(
+  reply: FastifyReply,
+  accessToken: string,
+  refreshToken?: string
+): void {
+  // Access cookie is needed for automatic authentication (video streaming)
+  reply.setCookie(ACCESS_TOKEN_COOKIE, accessToken, {
+    ...baseCookieOptions(),
+    httpOnly: false, // Allow JavaScript to read it
+    path: "/", // Available for all paths
+    maxAge: ACCESS_TOKEN_TTL_SECONDS, // Same as token expiration
+  });
+
+  if (!refreshToken) return;
+
+  reply.setCookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+    ...baseCookieOptions(),
+    httpOnly: true, // Never readable by JavaScript
+    path: REFRESH_TOKEN_COOKIE_PATH,
+    maxAge: REFRESH_TOKEN_TTL_SECONDS,
+  });
+}
+
+/**
+ * Clear both auth cookies (logout)
+ */
+export function clearAuthCookies(reply: FastifyReply): void {
+  reply.clearCookie(ACCESS_TOKEN_COOKIE, {
+    ...baseCookieOptions(),
+    path: "/",
+  });
+  reply.clearCookie(REFRESH_TOKEN_COOKIE, {
+    ...baseCookieOptions(),
+    path: REFRESH_TOKEN_COOKIE_PATH,
+  });
+}
+
+/**
+ * Client metadata stored with the session (shown in GET /auth/sessions)
+ */
+export function getSessionClientInfo(
+  request: FastifyRequest
+): SessionClientInfo {
+  const forwardedFor = request.headers["x-forwarded-for"];
+  const ipAddress =
+    typeof forwardedFor === "string" && forwardedFor.trim()
+      ? forwardedFor.split(",")[0].trim()
+      : request.ip;
+
+  return {
+    userAgent: request.headers["user-agent"],
+    ipAddress,
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Auth Handlers
+ * Register and login shared by /auth/* and the legacy creator/student routes
+ */
+
+import { FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
+import {
+  registerUser,
+  verifyCredentials,
+  getUserRoles,
+  resolveActiveRole,
+  SELF_SERVICE_ROLES,
+  SelfServiceRole,
+} from "../../services/accounts";
+import { sendVerificationEmail } from "../../services/account-tokens";
+import { issueAuthTokens } from "./auth.tokens";
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const registerSchema = z.object({
+  username: z.string(),
+  email: z.string().email(),
+  password: z.string().min(6),
+  role: z.enum(SELF_SERVICE_ROLES),
+});
+
+const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string(),
+  role: z.string().min(1).optional(),
+});
+
+const ROLE_LABELS: Record<SelfServiceRole, string> = {
+  creator: "criador",
+  student: "aluno",
+};
+
+/**
+ * POST register handler. Legacy routes pin the role, /auth/register reads it
+ * from the body.
+ */
+export function createRegisterHandler(fixedRole?: SelfServiceRole) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    const roleLabel = fixedRole ? ROLE_LABELS[fixedRole] : undefined;
+
+    try {
+      const { username, email, password, role } = registerSchema.parse(
+        fixedRole ? { ...body, role: fixedRole } : body
+      );
+
+      const result = await registerUser({ username, email, password, role });
+
+      if ("error" in result) {
+        return reply.status(409).send({
+          message: result.error,
+          code: result.code,
+        });
+      }
+
+      const { passwordHash, ...user } = result.user;
+
+      // Confirmation email is best-effort: registration must not fail on it
+      const verification = await sendVerificationEmail(user.id).catch(
+        (emailError) => ({ success: false, error: emailError?.message })
+      );
+      if (!verification.success) {
+        console.warn("Email de confirmacao nao enviado:", verification.error);
+      }
+
+      return reply.status(201).send({
+        message: `Conta de ${ROLE_LABELS[role]} criada com sucesso`,
+        user: { ...user, roles: result.roles },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: error.issues });
+      }
+
+      // The message (and the stack header) of a failed query carries its
+      // params, i.e. the new user's email and password hash: not logged
+      request.log.error(
+        {
+          code: error.code ?? error.cause?.code,
+          constraint: error.constraint ?? error.cause?.constraint,
+          stack: error.stack
+            ?.split("\n")
+            .filter((line: string) => line.trimStart().startsWith("at "))
+            .join("\n"),
+        },
+        "Error registering user"
+      );
+
+      // Handle unique constraint violations (concurrent registrations)
+      if (error.code === "23505") {
+        if (error.constraint === "users_email_unique") {
+          return reply.status(409).send({
+            message: "Ja existe um usuario com este email",
+            code: "EMAIL_TAKEN",
+          });
+        }
+        if (error.constraint === "users_username_unique") {
+          return reply.status(409).send({
+            message: "Nome de usuario ja em uso",
+            code: "USERNAME_TAKEN",
+          });
+        }
+      }
+
+      // Handle Drizzle ORM errors
+      if (
+        error.message?.includes("Failed query") ||
+        error.type === "DrizzleQueryError"
+      ) {
+        // Query params carry the user's data (password hash): neither
+        // logged nor sent back
+        request.log.error({ query: error.query }, "Database query failed");
+
+        return reply.status(500).send({
+          message:
+            "Erro no banco de dados. Verifique se as migrations estao atualizadas.",
+        });
+      }
+
+      return reply.status(500).send({
+        message: roleLabel
+          ? `Falha ao criar conta de ${roleLabel}`
+          : "Falha ao criar conta",
+        code: error.code,
+      });
+    }
+  };
+}
+
+/**
+ * POST login handler.
+ * - /auth/login: an explicit `role` must be held by the user (403 otherwise)
+ * - legacy routes: `preferredRole` is used when held, else the primary role
+ */
+export function createLoginHandler(preferredRole?: SelfServiceRole) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { email, password, role } = loginSchema.parse(request.body);
+
+      const user = await verifyCredentials(email, password);
+
+      if (!user) {
+        return reply.status(401).send({ message: "Credenciais invalidas" });
+      }
+
+      if (user.suspendedAt) {
+        return reply.status(403).send({
+          message: "Conta suspensa. Entre em contato com o suporte.",
+          code: "ACCOUNT_SUSPENDED",
+        });
+      }
+
+      if (!process.env.JWT_SECRET) {
+        return reply.status(500).send({
+          message: "JWT_SECRET nao configurado no servidor",
+        });
+      }
+
+      const roles = await getUserRoles(user.id, user.role);
+
+      if (role && !roles.includes(role)) {
+        return reply.status(403).send({
+          message: "Voce nao possui este perfil",
+          code: "ROLE_NOT_ASSIGNED",
+          roles,
+        });
+      }
+
+      const activeRole = resolveActiveRole(
+        roles,
+        user.role,
+        role ?? preferredRole
+      );
+
+      return issueAuthTokens(request, reply, {
+        userId: user.id,
+        role: activeRole,
+        roles,
+      });
+    } catch (error: any) {
+      if (error?.name === "ZodError") {
+        return reply.status(400).send({
+          message: "Dados invalidos",
+          details: error.errors,
+        });
+      }
+
+      console.error("Erro no login:", error);
+      return reply.status(500).send({
+        message: "Erro interno do servidor",
+      });
+    }
+  };
+}
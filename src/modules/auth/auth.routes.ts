@@ -0,0 +1,426 @@
+/**
+ * Auth Routes
+ * Handles register/login, roles, refresh token rotation, logout and sessions
+ */
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import * as jwt from "jsonwebtoken";
+import "@fastify/cookie";
+import {
+  rotateRefreshToken,
+  revokeSession,
+  listUserSessions,
+  revokeSessionByRefreshToken,
+  ACCESS_TOKEN_TTL_SECONDS,
+} from "../../services/auth-sessions";
+import {
+  setAuthCookies,
+  clearAuthCookies,
+  getSessionClientInfo,
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+} from "./auth.cookies";
+import {
+  requestPasswordReset,
+  resetPassword,
+  sendVerificationEmail,
+  verifyEmail,
+} from "../../services/account-tokens";
+import {
+  addUserRole,
+  getUserRoles,
+  SELF_SERVICE_ROLES,
+} from "../../services/accounts";
+import { createRegisterHandler, createLoginHandler } from "./auth.handlers";
+import { reissueForRole } from "./auth.tokens";
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const addRoleSchema = z.object({
+  role: z.enum(SELF_SERVICE_ROLES),
+});
+
+const switchRoleSchema = z.object({
+  role: z.string().min(1),
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Refresh token comes from the httpOnly cookie (web) or the body (mobile)
+ */
+function readRefreshToken(request: any): string | undefined {
+  const { refreshToken } = refreshSchema.parse(request.body ?? {});
+  return refreshToken || request.cookies?.[REFRESH_TOKEN_COOKIE];
+}
+
+/**
+ * Session id of an access token, even if it already expired
+ */
+function readSessionIdFromAccessToken(request: any): string | null {
+  const token =
+    request.headers.authorization?.replace("Bearer ", "") ||
+    request.cookies?.[ACCESS_TOKEN_COOKIE];
+
+  if (!token || !process.env.JWT_SECRET) return null;
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET, {
+      ignoreExpiration: true,
+    }) as { sid?: string };
+    return decoded.sid ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function authRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /auth/register - Create an account (role: "creator" | "student")
+   */
+  fastify.post("/auth/register", {
+    handler: createRegisterHandler(),
+  });
+
+  /**
+   * POST /auth/login - Log in, optionally choosing which role to act as
+   */
+  fastify.post("/auth/login", {
+    handler: createLoginHandler(),
+  });
+
+  /**
+   * POST /auth/roles - Add a capability to the logged user
+   * (e.g. a student that also wants to sell courses) and switch to it
+   */
+  fastify.post("/auth/roles", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { role } = addRoleSchema.parse(request.body);
+        const userId = request.user.id;
+
+        await addUserRole(userId, role);
+        const roles = await getUserRoles(userId);
+
+        return reissueForRole(request, reply, { userId, role, roles });
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        console.error("Erro ao adicionar perfil:", error);
+        return reply.status(500).send({ message: "Erro interno do servidor" });
+      }
+    },
+  });
+
+  /**
+   * POST /auth/switch-role - Act as another role held by the user
+   */
+  fastify.post("/auth/switch-role", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { role } = switchRoleSchema.parse(request.body);
+        const userId = request.user.id;
+
+        const roles = await getUserRoles(userId);
+
+        if (!roles.includes(role)) {
+          return reply.status(403).send({
+            message: "Voce nao possui este perfil",
+            code: "ROLE_NOT_ASSIGNED",
+            roles,
+          });
+        }
+
+        return reissueForRole(request, reply, { userId, role, roles });
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        console.error("Erro ao trocar perfil:", error);
+        return reply.status(500).send({ message: "Erro interno do servidor" });
+      }
+    },
+  });
+
+  /**
+   * POST /auth/refresh - Rotate refresh token and issue a new access token
+   */
+  fastify.post("/auth/refresh", {
+    handler: async (request, reply) => {
+      try {
+        const refreshToken = readRefreshToken(request);
+
+        if (!refreshToken) {
+          return reply.status(401).send({
+            message: "Refresh token ausente",
+            code: "MISSING_REFRESH_TOKEN",
+          });
+        }
+
+        const result = await rotateRefreshToken(
+          refreshToken,
+          getSessionClientInfo(request)
+        );
+
+        if ("error" in result) {
+          // A stolen/expired refresh token must not stay in the browser
+          if (result.code !== "REFRESH_TOKEN_ROTATED") {
+            clearAuthCookies(reply);
+          }
+          return reply.status(401).send({
+            message: result.error,
+            code: result.code,
+          });
+        }
+
+        setAuthCookies(reply, result.accessToken, result.refreshToken);
+
+        return {
+          access_token: result.accessToken,
+          token: result.accessToken,
+          refresh_token: result.refreshToken,
+          expires_in: ACCESS_TOKEN_TTL_SECONDS,
+          role: result.role,
+          roles: result.roles,
+        };
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        console.error("Erro ao renovar token:", error);
+        return reply.status(500).send({ message: "Erro interno do servidor" });
+      }
+    },
+  });
+
+  /**
+   * POST /auth/logout - Revoke the current session and clear cookies
+   * Works with an expired access token as long as the refresh token is sent
+   */
+  fastify.post("/auth/logout", {
+    handler: async (request, reply) => {
+      try {
+        const refreshToken = readRefreshToken(request);
+        const revokedByRefreshToken = refreshToken
+          ? await revokeSessionByRefreshToken(refreshToken, "logout")
+          : false;
+
+        if (!revokedByRefreshToken) {
+          const sessionId = readSessionIdFromAccessToken(request);
+          if (sessionId) {
+            await revokeSession(sessionId, "logout");
+          }
+        }
+
+        clearAuthCookies(reply);
+
+        return { success: true, message: "Logout realizado com sucesso" };
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        console.error("Erro no logout:", error);
+        return reply.status(500).send({ message: "Erro interno do servidor" });
+      }
+    },
+  });
+
+  /**
+   * GET /auth/sessions - List active sessions of the logged user
+   */
+  fastify.get("/auth/sessions", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const userId = request.user.id;
+        const currentSessionId = request.user.sessionId;
+
+        const activeSessions = await listUserSessions(userId);
+
+        return {
+          sessions: activeSessions.map((session) => ({
+            ...session,
+            current: session.id === currentSessionId,
+          })),
+        };
+      } catch (error: any) {
+        console.error("Erro ao listar sessoes:", error);
+        return reply.status(500).send({ message: "Erro interno do servidor" });
+      }
+    },
+  });
+
+  /**
+   * DELETE /auth/sessions/:id - Revoke one of the user's sessions
+   */
+  fastify.delete("/auth/sessions/:id", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const userId = request.user.id;
+        const { id } = request.params as { id: string };
+
+        if (!z.string().uuid().safeParse(id).success) {
+          return reply.status(400).send({ message: "Sessao invalida" });
+        }
+
+        const revoked = await revokeSession(id, "user_revoked", userId);
+
+        if (!revoked) {
+          return reply.status(404).send({ message: "Sessao nao encontrada" });
+        }
+
+        if (id === request.user.sessionId) {
+          clearAuthCookies(reply);
+        }
+
+        return { success: true, message: "Sessao encerrada" };
+      } catch (error: any) {
+        console.error("Erro ao encerrar sessao:", error);
+        return reply.status(500).send({ message: "Erro interno do servidor" });
+      }
+    },
+  });
+
+  /**
+   * POST /auth/forgot-password - Email a password reset link
+   * Always answers the same way so emails cannot be enumerated
+   */
+  fastify.post("/auth/forgot-password", {
+    handler: async (request, reply) => {
+      try {
+        const { email } = forgotPasswordSchema.parse(request.body);
+
+        await requestPasswordReset(email);
+
+        return {
+          success: true,
+          message:
+            "Se existir uma conta com este email, enviaremos um link para redefinir a senha",
+        };
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        console.error("Erro ao solicitar redefinicao de senha:", error);
+        return reply.status(500).send({ message: "Erro interno do servidor" });
+      }
+    },
+  });
+
+  /**
+   * POST /auth/reset-password - Set a new password with a reset token
+   */
+  fastify.post("/auth/reset-password", {
+    handler: async (request, reply) => {
+      try {
+        const { token, password } = resetPasswordSchema.parse(request.body);
+
+        const result = await resetPassword(token, password);
+
+        if (!result.success) {
+          return reply.status(400).send({
+            message: result.error,
+            code: "INVALID_RESET_TOKEN",
+          });
+        }
+
+        clearAuthCookies(reply);
+
+        return {
+          success: true,
+          message: "Senha redefinida com sucesso. Faca login novamente.",
+        };
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        console.error("Erro ao redefinir senha:", error);
+        return reply.status(500).send({ message: "Erro interno do servidor" });
+      }
+    },
+  });
+
+  /**
+   * POST /auth/verify-email - Confirm the email with a verification token
+   */
+  fastify.post("/auth/verify-email", {
+    handler: async (request, reply) => {
+      try {
+        const { token } = verifyEmailSchema.parse(request.body);
+
+        const result = await verifyEmail(token);
+
+        if (!result.success) {
+          return reply.status(400).send({
+            message: result.error,
+            code: "INVALID_VERIFICATION_TOKEN",
+          });
+        }
+
+        return { success: true, message: "Email confirmado com sucesso" };
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        console.error("Erro ao confirmar email:", error);
+        return reply.status(500).send({ message: "Erro interno do servidor" });
+      }
+    },
+  });
+
+  /**
+   * POST /auth/resend-verification - Send a new verification email
+   */
+  fastify.post("/auth/resend-verification", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const result = await sendVerificationEmail(request.user.id);
+
+        if (!result.success) {
+          const status =
+            result.code === "TOO_MANY_REQUESTS"
+              ? 429
+              : result.code === "EMAIL_ALREADY_VERIFIED"
+                ? 400
+                : 500;
+          return reply.status(status).send({
+            message: result.error,
+            code: result.code,
+          });
+        }
+
+        return { success: true, message: "Email de confirmacao enviado" };
+      } catch (error: any) {
+        console.error("Erro ao reenviar confirmacao de email:", error);
+        return reply.status(500).send({ message: "Erro interno do servidor" });
+      }
+    },
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Auth Tokens
+ * Shared issuer for every login flow: session + access token + cookies
+ */
+
+import { FastifyReply, FastifyRequest } from "fastify";
+import {
+  createSession,
+  signAccessToken,
+  setSessionRole,
+  ACCESS_TOKEN_TTL_SECONDS,
+} from "../../services/auth-sessions";
+import { setAuthCookies, getSessionClientInfo } from "./auth.cookies";
+
+export interface AuthIdentity {
+  userId: string;
+  role: string; // Active role
+  roles: string[];
+}
+
+export interface AuthTokensResponse {
+  access_token: string;
+  token: string; // Same as access_token, kept for compatibility
+  refresh_token?: string;
+  expires_in: number;
+  role: string;
+  roles: string[];
+}
+
+function buildResponse(
+  identity: AuthIdentity,
+  accessToken: string,
+  refreshToken?: string
+): AuthTokensResponse {
+  return {
+    access_token: accessToken,
+    token: accessToken,
+    ...(refreshToken ? { refresh_token: refreshToken } : {}),
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    role: identity.role,
+    roles: identity.roles,
+  };
+}
+
+/**
+ * Open a new session and send its tokens (body + cookies)
+ */
+export async function issueAuthTokens(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  identity: AuthIdentity
+): Promise<AuthTokensResponse> {
+  const { sessionId, refreshToken } = await createSession(
+    identity.userId,
+    getSessionClientInfo(request),
+    identity.role
+  );
+  const accessToken = signAccessToken({
+    id: identity.userId,
+    role: identity.role,
+    roles: identity.roles,
+    sid: sessionId,
+  });
+
+  // Cookies for automatic authentication (needed for video streaming)
+  setAuthCookies(reply, accessToken, refreshToken);
+
+  return buildResponse(identity, accessToken, refreshToken);
+}
+
+/**
+ * Re-issue the access token of the current session with another active role.
+ * Tokens without a session (issued before sessions existed) get a new one.
+ */
+export async function reissueForRole(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  identity: AuthIdentity
+): Promise<AuthTokensResponse> {
+  const sessionId = request.user.sessionId;
+
+  if (
+    !sessionId ||
+    !(await setSessionRole(sessionId, identity.userId, identity.role))
+  ) {
+    return issueAuthTokens(request, reply, identity);
+  }
+
+  const accessToken = signAccessToken({
+    id: identity.userId,
+    role: identity.role,
+    roles: identity.roles,
+    sid: sessionId,
+  });
+
+  setAuthCookies(reply, accessToken);
+
+  return buildResponse(identity, accessToken);
+}
@@ -0,0 +1,240 @@
+/**
+ * Coupon Routes
+ * Creators manage discount coupons for their own courses; any user can
+ * check a code before paying (applied in the course and plan checkouts)
+ */
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { db } from "../../db";
+import { courses, subscriptionPlans } from "../../db/schema";
+import { eq } from "drizzle-orm";
+import {
+  CouponTarget,
+  quoteCoupon,
+  createCoupon,
+  listCoupons,
+  deactivateCoupon,
+} from "../../services/coupons";
+
+const couponCodeSchema = z
+  .string()
+  .trim()
+  .min(3)
+  .max(50)
+  .regex(/^[A-Za-z0-9_-]+$/, "Use apenas letras, números, - e _");
+
+const createCreatorCouponSchema = z
+  .object({
+    code: couponCodeSchema,
+    description: z.string().trim().max(500).optional(),
+    discountType: z.enum(["percent", "fixed"]),
+    percentOff: z.number().int().min(1).max(100).optional(),
+    amountOff: z.number().positive().optional(),
+    // Omitted = every course of the creator
+    courseId: z.string().uuid().optional(),
+    maxRedemptions: z.number().int().positive().optional(),
+    maxRedemptionsPerUser: z.number().int().positive().default(1),
+    expiresAt: z.coerce.date().optional(),
+  })
+  .refine(
+    (data) =>
+      data.discountType === "percent"
+        ? data.percentOff !== undefined
+        : data.amountOff !== undefined,
+    { message: "Informe percentOff ou amountOff conforme o tipo de desconto" }
+  );
+
+const validateCouponSchema = z
+  .object({
+    code: z.string().trim().min(1).max(50),
+    courseId: z.string().uuid().optional(),
+    planId: z.string().uuid().optional(),
+  })
+  .refine((data) => !!data.courseId !== !!data.planId, {
+    message: "Informe courseId ou planId",
+  });
+
+const couponParamsSchema = z.object({
+  couponId: z.string().uuid(),
+});
+
+const listCouponsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional(),
+  pageSize: z.coerce.number().int().positive().max(100).optional(),
+  courseId: z.string().uuid().optional(),
+});
+
+export async function couponRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /coupons/validate - Preview the discount of a code for a course or plan
+   */
+  fastify.post("/coupons/validate", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      const body = validateCouponSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.status(400).send({ error: body.error.issues });
+      }
+
+      try {
+        const { code, courseId, planId } = body.data;
+        let target: CouponTarget;
+        let amount: number;
+
+        if (courseId) {
+          const course = await db.query.courses.findFirst({
+            where: eq(courses.id, courseId),
+          });
+          if (!course) {
+            return reply.status(404).send({ error: "Curso não encontrado" });
+          }
+          target = { type: "course", id: course.id, creatorId: course.creatorId };
+          amount = parseFloat(course.price);
+        } else {
+          const plan = await db.query.subscriptionPlans.findFirst({
+            where: eq(subscriptionPlans.id, planId!),
+          });
+          if (!plan) {
+            return reply.status(404).send({ error: "Plano não encontrado" });
+          }
+          target = { type: "plan", id: plan.id };
+          amount = parseFloat(plan.price);
+        }
+
+        const quote = await quoteCoupon(code, request.user.id, target, amount);
+
+        if ("error" in quote) {
+          return reply.status(400).send({ error: quote.error, code: quote.code });
+        }
+
+        return {
+          code: quote.coupon.code,
+          discountType: quote.coupon.discountType,
+          originalAmount: quote.originalAmount,
+          discountAmount: quote.discountAmount,
+          finalAmount: quote.finalAmount,
+          expiresAt: quote.coupon.expiresAt,
+        };
+      } catch (error: any) {
+        console.error("Error validating coupon:", error);
+        return reply.status(500).send({ error: "Falha ao validar cupom" });
+      }
+    },
+  });
+
+  /**
+   * POST /creators/coupons - Create a coupon for one course or all courses of the creator
+   */
+  fastify.post("/creators/coupons", {
+    preHandler: [fastify.authenticate, fastify.requireRole("creator")],
+    handler: async (request, reply) => {
+      const body = createCreatorCouponSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.status(400).send({ error: body.error.issues });
+      }
+
+      try {
+        const creatorId = request.user.id;
+        const { courseId, ...input } = body.data;
+
+        if (courseId) {
+          const course = await db.query.courses.findFirst({
+            where: eq(courses.id, courseId),
+          });
+          if (!course) {
+            return reply.status(404).send({ error: "Curso não encontrado" });
+          }
+          if (course.creatorId !== creatorId) {
+            return reply.status(403).send({
+              error: "Você só pode criar cupons para seus próprios cursos",
+            });
+          }
+        }
+
+        const coupon = await createCoupon(
+          {
+            ...input,
+            courseId: courseId ?? null,
+            creatorId: courseId ? null : creatorId,
+          },
+          creatorId
+        );
+
+        if (!coupon) {
+          return reply.status(409).send({
+            error: "Já existe um cupom com este código",
+            code: "COUPON_CODE_TAKEN",
+          });
+        }
+
+        return reply.status(201).send({ coupon });
+      } catch (error: any) {
+        console.error("Error creating coupon:", error);
+        return reply.status(500).send({ error: "Falha ao criar cupom" });
+      }
+    },
+  });
+
+  /**
+   * GET /creators/coupons - Coupons created by the creator
+   */
+  fastify.get("/creators/coupons", {
+    preHandler: [fastify.authenticate, fastify.requireRole("creator")],
+    handler: async (request, reply) => {
+      const query = listCouponsQuerySchema.safeParse(request.query);
+      if (!query.success) {
+        return reply.status(400).send({ error: query.error.issues });
+      }
+
+      try {
+        const page = query.data.page ?? 1;
+        const pageSize = query.data.pageSize ?? 20;
+
+        const results = await listCoupons(
+          { createdBy: request.user.id, courseId: query.data.courseId },
+          { limit: pageSize + 1, offset: (page - 1) * pageSize }
+        );
+
+        return {
+          items: results.slice(0, pageSize),
+          page,
+          pageSize,
+          hasMore: results.length > pageSize,
+        };
+      } catch (error: any) {
+        console.error("Error listing coupons:", error);
+        return reply.status(500).send({ error: "Falha ao listar cupons" });
+      }
+    },
+  });
+
+  /**
+   * DELETE /creators/coupons/:couponId - Deactivate a coupon of the creator
+   */
+  fastify.delete("/creators/coupons/:couponId", {
+    preHandler: [fastify.authenticate, fastify.requireRole("creator")],
+    handler: async (request, reply) => {
+      const params = couponParamsSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.status(400).send({ error: params.error.issues });
+      }
+
+      try {
+        const coupon = await deactivateCoupon(
+          params.data.couponId,
+          request.user.id
+        );
+
+        if (!coupon) {
+          return reply.status(404).send({ error: "Cupom não encontrado" });
+        }
+
+        return { message: "Cupom desativado", coupon };
+      } catch (error: any) {
+        console.error("Error deactivating coupon:", error);
+        return reply.status(500).send({ error: "Falha ao desativar cupom" });
+      }
+    },
+  });
+}
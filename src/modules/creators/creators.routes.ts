@@ -1,216 +1,54 @@
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
-import * as bcrypt from "bcrypt";
-import * as jwt from "jsonwebtoken";
 import { db } from "../../db";
-import { users, courses, videos } from "../../db/schema";
+import { courses, videos } from "../../db/schema";
 import { eq } from "drizzle-orm";
-import "@fastify/cookie";
-
-const registerCreatorSchema = z.object({
-  username: z.string(),
-  email: z.string().email(),
-  password: z.string().min(6),
-});
-
-const loginCreatorSchema = z.object({
-  email: z.string().email(),
-  password: z.string(),
-});
+import {
+  createRegisterHandler,
+  createLoginHandler,
+} from "../auth/auth.handlers";
+import { getCourseOutline } from "../../services/course-structure";
+import { LANGUAGE_CODE_PATTERN } from "../../services/transcripts";
+import { incrementUsage } from "../../services/subscriptions";
 
 const createCourseSchema = z.object({
   title: z.string(),
   description: z.string(),
   price: z.number().positive().min(0.01),
   tags: z.array(z.string()).optional().default([]),
+  // Spoken language of the lessons (ISO 639-1); null = detect per video
+  language: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(
+      LANGUAGE_CODE_PATTERN,
+      "Idioma invalido. Use o codigo ISO 639-1 (ex: pt, en, es)"
+    )
+    .nullable()
+    .optional(),
 });
 
 export async function creatorRoutes(fastify: FastifyInstance) {
-  fastify.post("/creators/register", async (request, reply) => {
-    try {
-      const { username, email, password } = registerCreatorSchema.parse(
-        request.body
-      );
-
-      // Check if email already exists
-      const existingUserByEmail = await db.query.users.findFirst({
-        where: eq(users.email, email),
-      });
-
-      if (existingUserByEmail) {
-        return reply.status(409).send({
-          message: "Ja existe um usuario com este email",
-        });
-      }
-
-      // Check if username already exists
-      const existingUserByUsername = await db.query.users.findFirst({
-        where: eq(users.username, username),
-      });
-
-      if (existingUserByUsername) {
-        return reply.status(409).send({
-          message: "Nome de usuario ja em uso",
-        });
-      }
-
-      const hashedPassword = await bcrypt.hash(password, 10);
-
-      const newUser = await db
-        .insert(users)
-        .values({
-          username,
-          email,
-          passwordHash: hashedPassword,
-          role: "creator",
-        })
-        .returning();
-
-      return reply
-        .status(201)
-        .send({ message: "Conta de criador criada com sucesso", user: newUser[0] });
-    } catch (error: any) {
-      // Log detailed error information
-      fastify.log.error(
-        {
-          error: error.message,
-          code: error.code,
-          constraint: error.constraint,
-          stack: error.stack,
-          fullError: JSON.stringify(error, Object.getOwnPropertyNames(error)),
-        },
-        "Error registering creator"
-      );
-
-      console.error("Error registering creator:", {
-        message: error.message,
-        code: error.code,
-        constraint: error.constraint,
-        cause: error.cause,
-        stack: error.stack,
-      });
-
-      // Handle unique constraint violations
-      if (error.code === "23505") {
-        // PostgreSQL unique violation
-        if (error.constraint === "users_email_unique") {
-          return reply.status(409).send({
-            message: "Ja existe um usuario com este email",
-          });
-        }
-        if (error.constraint === "users_username_unique") {
-          return reply.status(409).send({
-            message: "Nome de usuario ja em uso",
-          });
-        }
-      }
-
-      // Handle Drizzle ORM errors
-      if (
-        error.message?.includes("Failed query") ||
-        error.type === "DrizzleQueryError"
-      ) {
-        fastify.log.error(
-          {
-            query: error.query,
-            params: error.params,
-            cause: error.cause,
-          },
-          "Database query failed"
-        );
-
-        return reply.status(500).send({
-          message:
-            "Erro no banco de dados. Verifique se as migrations estao atualizadas.",
-          details: {
-            error: error.message,
-            query: error.query,
-            params: error.params,
-          },
-        });
-      }
-
-      return reply.status(500).send({
-        message: "Falha ao criar conta de criador",
-        details: error.message,
-        code: error.code,
-      });
-    }
-  });
-
-  fastify.post("/creators/login", async (request, reply) => {
-    try {
-      const { email, password } = loginCreatorSchema.parse(request.body);
-
-      const [user] = await db
-        .select({
-          id: users.id,
-          role: users.role,
-          passwordHash: users.passwordHash,
-        })
-        .from(users)
-        .where(eq(users.email, email))
-        .limit(1);
-
-      if (!user || !user.passwordHash) {
-        return reply.status(401).send({ message: "Credenciais invalidas" });
-      }
-
-      const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
-
-      if (!isPasswordValid) {
-        return reply.status(401).send({ message: "Credenciais invalidas" });
-      }
-
-      if (!process.env.JWT_SECRET) {
-        return reply.status(500).send({
-          message: "JWT_SECRET nao configurado no servidor",
-        });
-      }
-
-      const token = jwt.sign(
-        { id: user.id, role: user.role },
-        process.env.JWT_SECRET,
-        { expiresIn: "1h" }
-      );
-
-      // Set cookie for automatic authentication (needed for video streaming)
-      // For cross-origin cookies, we need SameSite=None and Secure=true
-      const isProduction = process.env.NODE_ENV === "production";
-      reply.setCookie("access_token", token, {
-        httpOnly: false, // Allow JavaScript to read it
-        secure: isProduction, // HTTPS required for SameSite=None
-        sameSite: isProduction ? "none" : "lax", // None for cross-origin, lax for same-origin
-        path: "/", // Available for all paths
-        maxAge: 3600, // 1 hour (same as token expiration)
-        domain: undefined, // Let browser handle domain (don't set for cross-origin)
-      });
-
-      return { access_token: token, token }; // Return both for compatibility
-    } catch (error: any) {
-      if (error?.name === "ZodError") {
-        return reply.status(400).send({
-          message: "Dados invalidos",
-          details: error.errors,
-        });
-      }
-
-      console.error("Erro no login de criador:", error);
-      return reply.status(500).send({
-        message: "Erro interno do servidor",
-      });
-    }
-  });
+  // Legacy aliases of /auth/register and /auth/login
+  fastify.post("/creators/register", createRegisterHandler("creator"));
+  fastify.post("/creators/login", createLoginHandler("creator"));
 
   fastify.post(
     "/courses",
-    { preHandler: [fastify.authenticate] },
+    {
+      preHandler: [
+        fastify.authenticate,
+        fastify.requirePlanAction("create_course"),
+      ],
+    },
     async (request, reply) => {
       const {
         title,
         description,
         price,
         tags = [],
+        language,
       } = createCourseSchema.parse(request.body);
       const creatorId = request.user.id;
 
@@ -222,9 +60,12 @@ export async function creatorRoutes(fastify: FastifyInstance) {
           price: price.toString(),
           creatorId,
           tags: tags.length > 0 ? JSON.stringify(tags) : null,
+          language: language ?? null,
         })
         .returning();
 
+      await incrementUsage(creatorId, "course");
+
       // Parse tags back to array for response
       const courseWithTags = {
         ...newCourse[0],
@@ -248,6 +89,7 @@ export async function creatorRoutes(fastify: FastifyInstance) {
         description,
         price,
         tags = [],
+        language,
       } = createCourseSchema.parse(request.body);
 
       const updatedCourse = await db
@@ -257,6 +99,8 @@ export async function creatorRoutes(fastify: FastifyInstance) {
           description,
           price: price.toString(),
           tags: tags.length > 0 ? JSON.stringify(tags) : null,
+          // Omitted keeps the current language
+          ...(language !== undefined ? { language } : {}),
         })
         .where(eq(courses.id, courseId))
         .returning();
@@ -288,10 +132,15 @@ export async function creatorRoutes(fastify: FastifyInstance) {
         return reply.status(404).send({ message: "Curso nao encontrado" });
       }
 
+      // Nested section -> lesson tree
+      const outline = await getCourseOutline(courseId);
+
       // Parse tags from JSON string to array
       const courseWithTags = {
         ...course,
         tags: course.tags ? JSON.parse(course.tags) : [],
+        sections: outline.sections,
+        unsectionedLessons: outline.unsectionedLessons,
       };
 
       return courseWithTags;
@@ -0,0 +1,46 @@
+/**
+ * Job Routes
+ * Lets the frontend poll background jobs (transcription, quiz generation...)
+ */
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { getJob, serializeJob } from "../../services/job-queue";
+import { getUserRoles, ADMIN_ROLE } from "../../services/accounts";
+
+export async function jobRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /jobs/:id - Status of a job requested by the logged user
+   */
+  fastify.get("/jobs/:id", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+
+        if (!z.string().uuid().safeParse(id).success) {
+          return reply.status(400).send({ error: "Job invalido" });
+        }
+
+        const job = await getJob(id);
+
+        if (!job) {
+          return reply.status(404).send({ error: "Job nao encontrado" });
+        }
+
+        if (job.userId !== request.user.id) {
+          const roles = await getUserRoles(request.user.id);
+          if (!roles.includes(ADMIN_ROLE)) {
+            // Same answer as a missing job: ids of other users stay private
+            return reply.status(404).send({ error: "Job nao encontrado" });
+          }
+        }
+
+        return { job: serializeJob(job) };
+      } catch (error: any) {
+        console.error("Erro ao buscar job:", error);
+        return reply.status(500).send({ error: "Falha ao buscar job" });
+      }
+    },
+  });
+}
@@ -7,6 +7,7 @@ import { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { db } from "../../db";
 import { leads } from "../../db/schema";
+import { ADMIN_ROLE } from "../../services/accounts";
 
 const createLeadSchema = z.object({
   name: z.string().min(1),
@@ -60,12 +61,11 @@ export async function leadsRoutes(fastify: FastifyInstance) {
     },
   });
 
-  // Get all leads (admin only - for future use)
+  // Get all leads (admin only, CSV export in /admin/leads/export)
   fastify.get("/leads", {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, fastify.requireRole(ADMIN_ROLE)],
     handler: async (request, reply) => {
       try {
-        // TODO: Add admin check
         const allLeads = await db.query.leads.findMany({
           orderBy: (leads, { desc }) => [desc(leads.createdAt)],
         });
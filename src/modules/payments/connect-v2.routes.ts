@@ -15,6 +15,7 @@ import {
 } from "../../db/schema";
 import { eq } from "drizzle-orm";
 import { getStripeClient } from "../../services/stripe-client";
+import { getSubscriptionPeriod } from "../../services/subscriptions";
 import {
   createBillingPortalSessionForAccount,
   createCheckoutSessionForAccount,
@@ -28,6 +29,11 @@ import {
   getThinWebhookSecret,
   listProductsForAccount,
 } from "../../services/stripe-connect-v2";
+import {
+  StripeEventHandlers,
+  receiveStripeEvent,
+  registerStripeEventHandlers,
+} from "../../services/stripe-events";
 
 const createProductSchema = z.object({
   name: z.string().min(1),
@@ -44,19 +50,149 @@ const checkoutSchema = z.object({
 });
 
 function resolveAccountIdFromEvent(
-  event: Stripe.Event,
+  event: Stripe.Event | Stripe.V2.Core.Event,
   fallback?: string | null
 ): string | null {
+  const object = (event as any).data?.object;
   return (
-    event.account ||
-    (event.data?.object as any)?.customer_account ||
-    (event.data?.object as any)?.account ||
+    (event as any).account ||
+    object?.customer_account ||
+    object?.account ||
     fallback ||
     null
   );
 }
 
+/**
+ * Save the latest state of a subscription of a connected account
+ */
+async function upsertConnectedSubscription(
+  subscription: Stripe.Subscription,
+  sourceEvent: Stripe.Event
+) {
+  const accountId = resolveAccountIdFromEvent(sourceEvent, null);
+  if (!accountId) return;
+
+  const existing = await db.query.connectedAccountSubscriptions.findFirst({
+    where: eq(
+      connectedAccountSubscriptions.stripeSubscriptionId,
+      subscription.id
+    ),
+  });
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.stripeAccountId, accountId),
+  });
+
+  const payload = {
+    userId: user?.id || null,
+    stripeAccountId: accountId,
+    stripeSubscriptionId: subscription.id,
+    priceId: subscription.items.data[0]?.price?.id || null,
+    quantity: subscription.items.data[0]?.quantity || null,
+    status: subscription.status,
+    ...getSubscriptionPeriod(subscription),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end ? 1 : 0,
+    metadata: JSON.stringify(subscription.metadata || {}),
+    updatedAt: new Date(),
+  };
+
+  if (existing) {
+    await db
+      .update(connectedAccountSubscriptions)
+      .set(payload)
+      .where(
+        eq(
+          connectedAccountSubscriptions.stripeSubscriptionId,
+          subscription.id
+        )
+      );
+    return;
+  }
+
+  await db.insert(connectedAccountSubscriptions).values(payload);
+}
+
+// Events of connected accounts (processed once through stripe_events)
+const connectEventHandlers: StripeEventHandlers = {
+  "checkout.session.completed": async (event) => {
+    const session = event.data.object;
+    const accountId = resolveAccountIdFromEvent(event, null);
+    if (!accountId || session.mode !== "payment") return;
+
+    const existing = await db.query.connectedAccountPurchases.findFirst({
+      where: eq(connectedAccountPurchases.stripeCheckoutSessionId, session.id),
+    });
+
+    if (existing) return;
+
+    await db.insert(connectedAccountPurchases).values({
+      stripeAccountId: accountId,
+      stripeCheckoutSessionId: session.id,
+      stripePaymentIntentId:
+        typeof session.payment_intent === "string"
+          ? session.payment_intent
+          : session.payment_intent?.id || null,
+      productId: session.metadata?.productId || null,
+      priceId: session.metadata?.priceId || null,
+      amountInCents: session.amount_total || null,
+      currency: session.currency || null,
+      customerEmail:
+        session.customer_details?.email || session.customer_email || null,
+      status: session.payment_status || "unknown",
+      metadata: JSON.stringify(session.metadata || {}),
+    });
+  },
+  "customer.subscription.updated": async (event) => {
+    await upsertConnectedSubscription(event.data.object, event);
+  },
+  "customer.subscription.deleted": async (event) => {
+    await upsertConnectedSubscription(event.data.object, event);
+  },
+};
+
+/**
+ * Requirement/capability changes of a connected account (thin events)
+ */
+async function saveAccountRequirementsUpdate(event: Stripe.V2.Core.Event) {
+  // Account events point to the account they are about
+  const accountId = resolveAccountIdFromEvent(
+    event,
+    (event as any).related_object?.id
+  );
+  if (!accountId) return;
+
+  const object = (event as any).data?.object;
+  await db.insert(stripeAccountRequirementsUpdates).values({
+    stripeAccountId: accountId,
+    eventId: event.id,
+    eventType: event.type,
+    requirementsStatus:
+      object?.requirements?.summary?.minimum_deadline?.status || null,
+    capabilities: JSON.stringify(
+      object?.configuration?.merchant?.capabilities || {}
+    ),
+    payload: JSON.stringify(event),
+  });
+}
+
+const connectThinEventHandlers: StripeEventHandlers<Stripe.V2.Core.Event> = {
+  "v2.core.account[requirements].updated": saveAccountRequirementsUpdate,
+  "v2.core.account[configuration.merchant].capability_status_updated":
+    saveAccountRequirementsUpdate,
+  "v2.core.account[configuration.customer].capability_status_updated":
+    saveAccountRequirementsUpdate,
+  "v2.core.account[configuration.recipient].capability_status_updated":
+    saveAccountRequirementsUpdate,
+};
+
 export async function connectV2Routes(fastify: FastifyInstance) {
+  registerStripeEventHandlers("connect", connectEventHandlers);
+  registerStripeEventHandlers<Stripe.V2.Core.Event>(
+    "connect_thin",
+    connectThinEventHandlers
+  );
+
   /**
    * POST /connect/v2/create-account
    */
@@ -373,44 +509,35 @@ export async function connectV2Routes(fastify: FastifyInstance) {
         return reply.status(400).send({ error: "Assinatura ausente" });
       }
 
+      let thinEvent: { id: string; account?: string | null };
       try {
         const stripeClient = getStripeClient();
-        const payload = (request as any).rawBody;
-        const thinEvent = stripeClient.parseThinEvent(
-          payload,
+        thinEvent = stripeClient.parseThinEvent(
+          request.rawBody!,
           signature,
           getThinWebhookSecret()
         );
+      } catch (error: any) {
+        console.error("Error verifying thin webhook:", error);
+        return reply.status(400).send({
+          error: error.message || "Assinatura invalida",
+        });
+      }
+
+      try {
+        const stripeClient = getStripeClient();
         const event = await stripeClient.v2.core.events.retrieve(thinEvent.id);
-        const accountId = resolveAccountIdFromEvent(event, thinEvent.account);
-
-        switch (event.type) {
-          case "v2.core.account[requirements].updated":
-          case "v2.core.account[configuration.merchant].capability_status_updated":
-          case "v2.core.account[configuration.customer].capability_status_updated":
-          case "v2.core.account[configuration.recipient].capability_status_updated": {
-            if (accountId) {
-              await db.insert(stripeAccountRequirementsUpdates).values({
-                stripeAccountId: accountId,
-                eventId: event.id,
-                eventType: event.type,
-                requirementsStatus:
-                  (event.data?.object as any)?.requirements?.summary
-                    ?.minimum_deadline?.status || null,
-                capabilities: JSON.stringify(
-                  (event.data?.object as any)?.configuration?.merchant
-                    ?.capabilities || {}
-                ),
-                payload: JSON.stringify(event),
-              });
-            }
-            break;
-          }
-          default:
-            break;
+        const result = await receiveStripeEvent(
+          "connect_thin",
+          event,
+          resolveAccountIdFromEvent(event, thinEvent.account)
+        );
+
+        if (result.status === "in_progress") {
+          return reply.status(409).send({ error: "Evento em processamento" });
         }
 
-        return { received: true };
+        return { received: true, duplicate: result.status === "duplicate" };
       } catch (error: any) {
         console.error("Error processing thin webhook:", error);
         return reply.status(500).send({
@@ -433,122 +560,33 @@ export async function connectV2Routes(fastify: FastifyInstance) {
         return reply.status(400).send({ error: "Assinatura ausente" });
       }
 
+      let event: Stripe.Event;
       try {
         const stripeClient = getStripeClient();
-        const event = stripeClient.webhooks.constructEvent(
-          (request as any).rawBody,
+        event = stripeClient.webhooks.constructEvent(
+          request.rawBody!,
           signature,
           getConnectWebhookSecret()
         );
+      } catch (error: any) {
+        console.error("Error verifying webhook:", error);
+        return reply.status(400).send({
+          error: error.message || "Assinatura invalida",
+        });
+      }
 
-        const upsertSubscription = async (
-          subscription: Stripe.Subscription,
-          sourceEvent: Stripe.Event
-        ) => {
-          const accountId = resolveAccountIdFromEvent(sourceEvent, null);
-          if (!accountId) return;
-
-          const existing = await db.query.connectedAccountSubscriptions.findFirst(
-            {
-              where: eq(
-                connectedAccountSubscriptions.stripeSubscriptionId,
-                subscription.id
-              ),
-            }
-          );
-
-          const user = await db.query.users.findFirst({
-            where: eq(users.stripeAccountId, accountId),
-          });
-
-          const payload = {
-            userId: user?.id || null,
-            stripeAccountId: accountId,
-            stripeSubscriptionId: subscription.id,
-            priceId: subscription.items.data[0]?.price?.id || null,
-            quantity: subscription.items.data[0]?.quantity || null,
-            status: subscription.status,
-            currentPeriodStart: subscription.current_period_start
-              ? new Date(subscription.current_period_start * 1000)
-              : null,
-            currentPeriodEnd: subscription.current_period_end
-              ? new Date(subscription.current_period_end * 1000)
-              : null,
-            cancelAtPeriodEnd: subscription.cancel_at_period_end ? 1 : 0,
-            metadata: JSON.stringify(subscription.metadata || {}),
-            updatedAt: new Date(),
-          };
-
-          if (existing) {
-            await db
-              .update(connectedAccountSubscriptions)
-              .set(payload)
-              .where(
-                eq(
-                  connectedAccountSubscriptions.stripeSubscriptionId,
-                  subscription.id
-                )
-              );
-            return;
-          }
-
-          await db.insert(connectedAccountSubscriptions).values(payload);
-        };
+      try {
+        const result = await receiveStripeEvent(
+          "connect",
+          event,
+          resolveAccountIdFromEvent(event, null)
+        );
 
-        switch (event.type) {
-          case "checkout.session.completed": {
-            const session = event.data.object as Stripe.Checkout.Session;
-            const accountId = resolveAccountIdFromEvent(event, null);
-            if (!accountId || session.mode !== "payment") break;
-
-            const existing = await db.query.connectedAccountPurchases.findFirst({
-              where: eq(
-                connectedAccountPurchases.stripeCheckoutSessionId,
-                session.id
-              ),
-            });
-
-            if (existing) break;
-
-            await db.insert(connectedAccountPurchases).values({
-              stripeAccountId: accountId,
-              stripeCheckoutSessionId: session.id,
-              stripePaymentIntentId:
-                typeof session.payment_intent === "string"
-                  ? session.payment_intent
-                  : session.payment_intent?.id || null,
-              productId: session.metadata?.productId || null,
-              priceId: session.metadata?.priceId || null,
-              amountInCents: session.amount_total || null,
-              currency: session.currency || null,
-              customerEmail:
-                session.customer_details?.email || session.customer_email || null,
-              status: session.payment_status || "unknown",
-              metadata: JSON.stringify(session.metadata || {}),
-            });
-            break;
-          }
-          case "customer.subscription.updated":
-          case "customer.subscription.deleted": {
-            const subscription = event.data.object as Stripe.Subscription;
-            await upsertSubscription(subscription, event);
-            break;
-          }
-          case "payment_method.attached":
-          case "payment_method.detached":
-          case "customer.updated":
-          case "customer.tax_id.created":
-          case "customer.tax_id.deleted":
-          case "customer.tax_id.updated":
-          case "billing_portal.configuration.created":
-          case "billing_portal.configuration.updated":
-          case "billing_portal.session.created":
-            break;
-          default:
-            break;
+        if (result.status === "in_progress") {
+          return reply.status(409).send({ error: "Evento em processamento" });
         }
 
-        return { received: true };
+        return { received: true, duplicate: result.status === "duplicate" };
       } catch (error: any) {
         console.error("Error processing webhook:", error);
         return reply.status(500).send({
@@ -23,6 +23,13 @@ import {
 } from "../../services/stripe";
 import { getCreatorCommissionRate } from "../../services/subscriptions";
 import { hasAcceptedCreatorTerms } from "../../services/creator-terms";
+import { isEmailVerified } from "../../services/account-tokens";
+import {
+  CouponReservation,
+  attachCouponReservation,
+  releaseCouponReservation,
+  reserveCoupon,
+} from "../../services/coupons";
 
 const paymentMethodSchema = z.enum(["card", "boleto"]).default("card");
 
@@ -232,11 +239,19 @@ export async function connectRoutes(fastify: FastifyInstance) {
     handler: async (request, reply) => {
       try {
         const userId = request.user.id;
-        const { courseId, paymentMethod } = z.object({
+        const { courseId, paymentMethod, couponCode } = z.object({
           courseId: z.string().uuid(),
           paymentMethod: paymentMethodSchema,
+          couponCode: z.string().trim().min(1).max(50).optional(),
         }).parse(request.body);
 
+        if (!(await isEmailVerified(userId))) {
+          return reply.status(403).send({
+            error: "Confirme seu email antes de comprar cursos",
+            code: "EMAIL_NOT_VERIFIED",
+          });
+        }
+
         // Get course with creator info
         const course = await db.query.courses.findFirst({
           where: eq(courses.id, courseId),
@@ -291,6 +306,12 @@ export async function connectRoutes(fastify: FastifyInstance) {
           return reply.status(404).send({ error: "Usuário não encontrado" });
         }
 
+        const couponTarget = {
+          type: "course" as const,
+          id: courseId,
+          creatorId: creator.id,
+        };
+
         const { customerId, error: customerError } = await getOrCreateCustomer(
           userId,
           user.email
@@ -301,106 +322,149 @@ export async function connectRoutes(fastify: FastifyInstance) {
           });
         }
 
-        const commissionRate = await getCreatorCommissionRate(creator.id);
-        const splitAmounts = calculateSplitAmounts(
-          coursePrice,
-          commissionRate
-        );
-        let payoutStatus: "split" | "pending_onboarding" = "pending_onboarding";
-        let result:
-          | {
-              clientSecret: string;
-              paymentIntentId: string;
-              platformFee: number;
-              creatorAmount: number;
-              boletoUrl?: string;
-              boletoNumber?: string;
-              boletoExpiresAt?: number;
-              error?: string;
-            }
-          | undefined;
+        // Holds a use of the coupon until the payment is confirmed (released
+        // below if the payment cannot be created)
+        let coupon: CouponReservation | null = null;
+        if (couponCode) {
+          const reservation = await reserveCoupon(
+            couponCode,
+            userId,
+            couponTarget,
+            coursePrice
+          );
+          if ("error" in reservation) {
+            return reply
+              .status(400)
+              .send({ error: reservation.error, code: reservation.code });
+          }
+          coupon = reservation;
+        }
 
-        if (creator.stripeAccountId) {
-          const accountStatus = await checkAccountStatus(
-            creator.stripeAccountId
+        let reservationAttached = false;
+        try {
+          const chargeAmount = coupon?.finalAmount ?? coursePrice;
+
+          const commissionRate = await getCreatorCommissionRate(creator.id);
+          const splitAmounts = calculateSplitAmounts(
+            chargeAmount,
+            commissionRate
           );
+          let payoutStatus: "split" | "pending_onboarding" = "pending_onboarding";
+          let result:
+            | {
+                clientSecret: string;
+                paymentIntentId: string;
+                platformFee: number;
+                creatorAmount: number;
+                boletoUrl?: string;
+                boletoNumber?: string;
+                boletoExpiresAt?: number;
+                error?: string;
+              }
+            | undefined;
+
+          if (creator.stripeAccountId) {
+            const accountStatus = await checkAccountStatus(
+              creator.stripeAccountId
+            );
 
-          if (accountStatus.isComplete) {
-            const splitResult = await createCoursePaymentWithSplit(
-              coursePrice,
+            if (accountStatus.isComplete) {
+              const splitResult = await createCoursePaymentWithSplit(
+                chargeAmount,
+                userId,
+                courseId,
+                creator.stripeAccountId,
+                commissionRate,
+                paymentMethod,
+                customerId
+              );
+
+              if (splitResult.error || !splitResult.clientSecret) {
+                return reply.status(500).send({
+                  error: splitResult.error || "Falha ao criar pagamento",
+                });
+              }
+
+              result = splitResult;
+              payoutStatus = "split";
+            }
+          }
+
+          if (!result) {
+            const intentResult = await createCoursePaymentIntent(
+              chargeAmount,
               userId,
               courseId,
-              creator.stripeAccountId,
-              commissionRate,
-              paymentMethod,
-              customerId
+              paymentMethod
             );
 
-            if (splitResult.error || !splitResult.clientSecret) {
+            if (intentResult.error || !intentResult.clientSecret) {
               return reply.status(500).send({
-                error: splitResult.error || "Falha ao criar pagamento",
+                error: intentResult.error || "Falha ao criar intenção de pagamento",
               });
             }
 
-            result = splitResult;
-            payoutStatus = "split";
+            result = {
+              clientSecret: intentResult.clientSecret,
+              paymentIntentId: intentResult.paymentIntentId,
+              platformFee: splitAmounts.platformFee,
+              creatorAmount: splitAmounts.creatorAmount,
+              boletoUrl: intentResult.boletoUrl,
+              boletoNumber: intentResult.boletoNumber,
+              boletoExpiresAt: intentResult.boletoExpiresAt,
+            };
           }
-        }
 
-        if (!result) {
-          const intentResult = await createCoursePaymentIntent(
-            coursePrice,
-            userId,
-            courseId,
-            paymentMethod
-          );
-
-          if (intentResult.error || !intentResult.clientSecret) {
-            return reply.status(500).send({
-              error: intentResult.error || "Falha ao criar intenção de pagamento",
-            });
+          // Save payment record
+          const [payment] = await db
+            .insert(payments)
+            .values({
+              userId,
+              stripePaymentIntentId: result.paymentIntentId,
+              stripeCustomerId: customerId,
+              amount: chargeAmount.toString(),
+              status: "pending",
+              paymentType: "course",
+              courseId,
+              metadata: JSON.stringify({
+                paymentMethod,
+                platformFee: splitAmounts.platformFee,
+                creatorAmount: splitAmounts.creatorAmount,
+                commissionRate,
+                payoutStatus,
+                creatorId: creator.id,
+                creatorStripeAccountId: creator.stripeAccountId || null,
+                couponId: coupon?.coupon.id ?? null,
+                couponCode: coupon?.coupon.code ?? null,
+                discountAmount: coupon?.discountAmount ?? 0,
+                listPrice: coursePrice,
+              }),
+            })
+            .returning();
+
+          if (coupon) {
+            await attachCouponReservation(coupon, { paymentId: payment.id });
+            reservationAttached = true;
           }
 
-          result = {
-            clientSecret: intentResult.clientSecret,
-            paymentIntentId: intentResult.paymentIntentId,
-            platformFee: splitAmounts.platformFee,
-            creatorAmount: splitAmounts.creatorAmount,
-            boletoUrl: intentResult.boletoUrl,
-            boletoNumber: intentResult.boletoNumber,
-            boletoExpiresAt: intentResult.boletoExpiresAt,
-          };
-        }
-
-        // Save payment record
-        await db.insert(payments).values({
-          userId,
-          stripePaymentIntentId: result.paymentIntentId,
-          stripeCustomerId: customerId,
-          amount: coursePrice.toString(),
-          status: "pending",
-          paymentType: "course",
-          courseId,
-          metadata: JSON.stringify({
+          return {
+            clientSecret: result.clientSecret,
+            paymentIntentId: result.paymentIntentId,
+            amount: chargeAmount,
+            listPrice: coursePrice,
+            discountAmount: coupon?.discountAmount ?? 0,
+            couponCode: coupon?.coupon.code ?? null,
+            platformFee: result.platformFee,
+            creatorAmount: result.creatorAmount,
             paymentMethod,
-            platformFee: splitAmounts.platformFee,
-            creatorAmount: splitAmounts.creatorAmount,
-            commissionRate,
             payoutStatus,
-            creatorId: creator.id,
-            creatorStripeAccountId: creator.stripeAccountId || null,
-          }),
-        });
-
-        return {
-          clientSecret: result.clientSecret,
-          paymentIntentId: result.paymentIntentId,
-          amount: coursePrice,
-          platformFee: result.platformFee,
-          creatorAmount: result.creatorAmount,
-          paymentMethod,
-          payoutStatus,
-        };
+          };
+        } finally {
+          // The use is given back when the payment was not created
+          if (coupon && !reservationAttached) {
+            await releaseCouponReservation(coupon);
+          }
+        }
       } catch (error: any) {
         console.error("Error purchasing course:", error);
         return reply.status(500).send({ error: error.message });
@@ -5,6 +5,7 @@
 
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
+import Stripe from "stripe";
 import { db } from "../../db";
 import {
   payments,
@@ -14,7 +15,7 @@ import {
   coursePurchases,
   creatorTermsAcceptances,
 } from "../../db/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, ne } from "drizzle-orm";
 import {
   createCreditsPaymentIntent,
   createCoursePaymentIntent,
@@ -24,6 +25,11 @@ import {
   getOrCreateCustomer,
 } from "../../services/stripe";
 import { resolvePaymentAmount } from "../../services/payment-bypass";
+import { getStripeClient } from "../../services/stripe-client";
+import {
+  receiveStripeEvent,
+  registerStripeEventHandlers,
+} from "../../services/stripe-events";
 import {
   getUserCreditBalance,
   getUserCredits,
@@ -31,6 +37,7 @@ import {
   deductCredits,
   getUserTransactions,
 } from "../../services/credits";
+import { isEmailVerified } from "../../services/account-tokens";
 import {
   checkAccountStatus,
   createCoursePaymentWithSplit,
@@ -44,6 +51,20 @@ import {
   CREATOR_TERMS,
   getCreatorTermsAcceptance,
 } from "../../services/creator-terms";
+import {
+  CouponReservation,
+  attachCouponReservation,
+  releaseCouponReservation,
+  reserveCoupon,
+  completeCouponRedemption,
+} from "../../services/coupons";
+import {
+  findCoursePurchaseForRefund,
+  refundCoursePurchase,
+  handleChargeRefunded,
+  hasCourseRefund,
+} from "../../services/refunds";
+import { getUserRoles } from "../../services/accounts";
 
 // ============================================================================
 // Validation Schemas
@@ -60,12 +81,21 @@ const createCreditsPaymentSchema = z.object({
 const createCoursePaymentSchema = z.object({
   courseId: z.string().uuid(),
   paymentMethod: paymentMethodSchema,
+  couponCode: z.string().trim().min(1).max(50).optional(),
 });
 
 const confirmPaymentSchema = z.object({
   paymentIntentId: z.string().min(1),
 });
 
+const refundParamsSchema = z.object({
+  paymentId: z.string().uuid(),
+});
+
+const refundPaymentSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
 const transactionsQuerySchema = z.object({
   page: z.coerce.number().int().positive().optional(),
   pageSize: z.coerce.number().int().positive().max(100).optional(),
@@ -155,6 +185,35 @@ async function createEnrollment(userId: string, courseId: string) {
   });
 }
 
+/**
+ * Record the purchase of a paid course payment, enroll the student and
+ * confirm the coupon use. Safe to run again (webhook, its replays and the
+ * confirm route): one purchase per payment.
+ */
+async function grantCoursePurchase(
+  payment: typeof payments.$inferSelect,
+  courseId: string
+) {
+  // Unique per payment: a concurrent call inserts nothing
+  await db
+    .insert(coursePurchases)
+    .values({
+      studentId: payment.userId,
+      courseId,
+      paymentMethod: "stripe",
+      amount: payment.amount,
+      paymentId: payment.id,
+    })
+    .onConflictDoNothing();
+
+  const alreadyEnrolled = await isUserEnrolled(payment.userId, courseId);
+  if (!alreadyEnrolled) {
+    await createEnrollment(payment.userId, courseId);
+  }
+
+  await completeCouponRedemption({ paymentId: payment.id });
+}
+
 /**
  * Parse and validate course price.
  */
@@ -166,11 +225,77 @@ function parseCoursePrice(price: string): number | null {
   return parsed;
 }
 
+/**
+ * payment_intent.succeeded: mark the payment, credit the purchase or enroll
+ * the student in the course
+ */
+async function handlePaymentIntentSucceeded(
+  event: Stripe.PaymentIntentSucceededEvent
+) {
+  const paymentIntentId = event.data.object.id;
+
+  const payment = await db.query.payments.findFirst({
+    where: eq(payments.stripePaymentIntentId, paymentIntentId),
+  });
+
+  // A refunded PaymentIntent stays "succeeded" on Stripe: replays of this
+  // event must not enroll the student again
+  if (
+    !payment ||
+    payment.status === "refunded" ||
+    (await hasCourseRefund(payment.id))
+  ) {
+    return;
+  }
+
+  // A payment already marked succeeded is granted again: a delivery that
+  // failed half-way is finished by the redelivery or the replay (the grants
+  // below are idempotent)
+
+  // Update status
+  await db
+    .update(payments)
+    .set({ status: "succeeded", updatedAt: new Date() })
+    .where(
+      and(
+        eq(payments.stripePaymentIntentId, paymentIntentId),
+        ne(payments.status, "refunded")
+      )
+    );
+
+  // Add credits if applicable
+  if (payment.paymentType === "credits" && payment.creditsAwarded) {
+    const credit = await addCredits(
+      payment.userId,
+      payment.creditsAwarded,
+      `Compra de ${payment.creditsAwarded} créditos`,
+      payment.id,
+      "payment",
+      "purchase",
+      `payment:${payment.id}`
+    );
+
+    if (!credit.success) {
+      throw new Error(credit.error || "Falha ao adicionar creditos");
+    }
+  }
+
+  // Create enrollment + purchase record if course purchase
+  if (payment.paymentType === "course" && payment.courseId) {
+    await grantCoursePurchase(payment, payment.courseId);
+  }
+}
+
 // ============================================================================
 // Routes
 // ============================================================================
 
 export async function paymentRoutes(fastify: FastifyInstance) {
+  registerStripeEventHandlers("payments", {
+    "payment_intent.succeeded": handlePaymentIntentSucceeded,
+    "charge.refunded": (event) => handleChargeRefunded(event.data.object),
+  });
+
   // --------------------------------------------------------------------------
   // Credits Routes
   // --------------------------------------------------------------------------
@@ -448,9 +573,15 @@ export async function paymentRoutes(fastify: FastifyInstance) {
     handler: async (request, reply) => {
       try {
         const userId = request.user.id;
-        const { courseId, paymentMethod } = createCoursePaymentSchema.parse(
-          request.body
-        );
+        const { courseId, paymentMethod, couponCode } =
+          createCoursePaymentSchema.parse(request.body);
+
+        if (!(await isEmailVerified(userId))) {
+          return reply.status(403).send({
+            error: "Confirme seu email antes de comprar cursos",
+            code: "EMAIL_NOT_VERIFIED",
+          });
+        }
 
         // Verify course exists
         const course = await getCourseById(courseId);
@@ -491,6 +622,12 @@ export async function paymentRoutes(fastify: FastifyInstance) {
           });
         }
 
+        const couponTarget = {
+          type: "course" as const,
+          id: courseId,
+          creatorId: creator.id,
+        };
+
         // Get or create Stripe customer
         const { customerId, error: customerError } = await getOrCreateCustomer(
           userId,
@@ -513,118 +650,159 @@ export async function paymentRoutes(fastify: FastifyInstance) {
           }
         }
 
-        const {
-          amount: chargeAmount,
-          bypassApplied,
-          originalAmount,
-        } = resolvePaymentAmount(coursePrice, user.email);
-        const commissionRate = await getCreatorCommissionRate(creator.id);
-        const splitAmounts = calculateSplitAmounts(
-          chargeAmount,
-          commissionRate
-        );
-        let payoutStatus: "split" | "pending_onboarding" = "pending_onboarding";
-        let result:
-          | {
-              clientSecret: string;
-              paymentIntentId: string;
-              platformFee: number;
-              creatorAmount: number;
-              boletoUrl?: string;
-              boletoNumber?: string;
-              boletoExpiresAt?: number;
-              error?: string;
-            }
-          | undefined;
+        // Holds a use of the coupon until the payment is confirmed (released
+        // below if the payment cannot be created)
+        let coupon: CouponReservation | null = null;
+        if (couponCode) {
+          const reservation = await reserveCoupon(
+            couponCode,
+            userId,
+            couponTarget,
+            coursePrice
+          );
+          if ("error" in reservation) {
+            return reply
+              .status(400)
+              .send({ error: reservation.error, code: reservation.code });
+          }
+          coupon = reservation;
+        }
 
-        if (creator.stripeAccountId) {
-          const accountStatus = await checkAccountStatus(
-            creator.stripeAccountId
+        let reservationAttached = false;
+        try {
+          const {
+            amount: chargeAmount,
+            bypassApplied,
+            originalAmount,
+          } = resolvePaymentAmount(coupon?.finalAmount ?? coursePrice, user.email);
+          const commissionRate = await getCreatorCommissionRate(creator.id);
+          const splitAmounts = calculateSplitAmounts(
+            chargeAmount,
+            commissionRate
           );
+          let payoutStatus: "split" | "pending_onboarding" = "pending_onboarding";
+          let result:
+            | {
+                clientSecret: string;
+                paymentIntentId: string;
+                platformFee: number;
+                creatorAmount: number;
+                boletoUrl?: string;
+                boletoNumber?: string;
+                boletoExpiresAt?: number;
+                error?: string;
+              }
+            | undefined;
+
+          if (creator.stripeAccountId) {
+            const accountStatus = await checkAccountStatus(
+              creator.stripeAccountId
+            );
+
+            if (accountStatus.isComplete) {
+              const splitResult = await createCoursePaymentWithSplit(
+                chargeAmount,
+                userId,
+                courseId,
+                creator.stripeAccountId,
+                commissionRate,
+                paymentMethod,
+                customerId
+              );
+              if (splitResult.error || !splitResult.clientSecret) {
+                return reply.status(500).send({
+                  error: splitResult.error || "Falha ao criar pagamento",
+                });
+              }
 
-          if (accountStatus.isComplete) {
-            const splitResult = await createCoursePaymentWithSplit(
+              result = splitResult;
+              payoutStatus = "split";
+            }
+          }
+
+          if (!result) {
+            const intentResult = await createCoursePaymentIntent(
               chargeAmount,
               userId,
               courseId,
-              creator.stripeAccountId,
-              commissionRate,
-              paymentMethod,
-              customerId
+              paymentMethod
             );
-            if (splitResult.error || !splitResult.clientSecret) {
+
+            if (intentResult.error || !intentResult.clientSecret) {
               return reply.status(500).send({
-                error: splitResult.error || "Falha ao criar pagamento",
+                error:
+                  intentResult.error || "Falha ao criar intenção de pagamento",
               });
             }
 
-            result = splitResult;
-            payoutStatus = "split";
+            result = {
+              clientSecret: intentResult.clientSecret,
+              paymentIntentId: intentResult.paymentIntentId,
+              platformFee: splitAmounts.platformFee,
+              creatorAmount: splitAmounts.creatorAmount,
+              boletoUrl: intentResult.boletoUrl,
+              boletoNumber: intentResult.boletoNumber,
+              boletoExpiresAt: intentResult.boletoExpiresAt,
+            };
           }
-        }
-
-        if (!result) {
-          const intentResult = await createCoursePaymentIntent(
-            chargeAmount,
-            userId,
-            courseId,
-            paymentMethod
-          );
 
-          if (intentResult.error || !intentResult.clientSecret) {
-            return reply.status(500).send({
-              error:
-                intentResult.error || "Falha ao criar intenção de pagamento",
-            });
+          // Save payment record
+          const [payment] = await db
+            .insert(payments)
+            .values({
+              userId,
+              stripePaymentIntentId: result.paymentIntentId,
+              stripeCustomerId: customerId,
+              amount: chargeAmount.toString(),
+              status: "pending",
+              paymentType: "course",
+              courseId,
+              metadata: JSON.stringify({
+                paymentMethod,
+                platformFee: splitAmounts.platformFee,
+                creatorAmount: splitAmounts.creatorAmount,
+                commissionRate,
+                payoutStatus,
+                creatorId: creator.id,
+                creatorStripeAccountId: creator.stripeAccountId || null,
+                bypassApplied,
+                originalAmount,
+                couponId: coupon?.coupon.id ?? null,
+                couponCode: coupon?.coupon.code ?? null,
+                discountAmount: coupon?.discountAmount ?? 0,
+                listPrice: coursePrice,
+              }),
+            })
+            .returning();
+
+          if (coupon) {
+            await attachCouponReservation(coupon, { paymentId: payment.id });
+            reservationAttached = true;
           }
 
-          result = {
-            clientSecret: intentResult.clientSecret,
-            paymentIntentId: intentResult.paymentIntentId,
-            platformFee: splitAmounts.platformFee,
-            creatorAmount: splitAmounts.creatorAmount,
-            boletoUrl: intentResult.boletoUrl,
-            boletoNumber: intentResult.boletoNumber,
-            boletoExpiresAt: intentResult.boletoExpiresAt,
-          };
-        }
-
-        // Save payment record
-        await db.insert(payments).values({
-          userId,
-          stripePaymentIntentId: result.paymentIntentId,
-          stripeCustomerId: customerId,
-          amount: chargeAmount.toString(),
-          status: "pending",
-          paymentType: "course",
-          courseId,
-          metadata: JSON.stringify({
+          return {
+            clientSecret: result.clientSecret,
+            paymentIntentId: result.paymentIntentId,
+            amount: chargeAmount,
+            listPrice: coursePrice,
+            discountAmount: coupon?.discountAmount ?? 0,
+            couponCode: coupon?.coupon.code ?? null,
+            courseId,
             paymentMethod,
-            platformFee: splitAmounts.platformFee,
-            creatorAmount: splitAmounts.creatorAmount,
-            commissionRate,
+            platformFee: result.platformFee,
+            creatorAmount: result.creatorAmount,
             payoutStatus,
-            creatorId: creator.id,
-            creatorStripeAccountId: creator.stripeAccountId || null,
-            bypassApplied,
-            originalAmount,
-          }),
-        });
-
-        return {
-          clientSecret: result.clientSecret,
-          paymentIntentId: result.paymentIntentId,
-          amount: chargeAmount,
-          courseId,
-          paymentMethod,
-          platformFee: result.platformFee,
-          creatorAmount: result.creatorAmount,
-          payoutStatus,
-          // Boleto specific data
-          boletoUrl: result.boletoUrl,
-          boletoNumber: result.boletoNumber,
-          boletoExpiresAt: result.boletoExpiresAt,
-        };
+            // Boleto specific data
+            boletoUrl: result.boletoUrl,
+            boletoNumber: result.boletoNumber,
+            boletoExpiresAt: result.boletoExpiresAt,
+          };
+        } finally {
+          // The use is given back when the payment was not created
+          if (coupon && !reservationAttached) {
+            await releaseCouponReservation(coupon);
+          }
+        }
       } catch (error: any) {
         return handleValidationError(reply, error);
       }
@@ -668,14 +846,24 @@ export async function paymentRoutes(fastify: FastifyInstance) {
           return reply.status(403).send({ error: "Acesso negado" });
         }
 
-        // Update payment status
+        // Refunded: Stripe still reports the PaymentIntent as succeeded
+        if (payment.status === "refunded" || (await hasCourseRefund(payment.id))) {
+          return { success: false, status: "refunded", paymentIntentId };
+        }
+
+        // Update payment status (a refund finished meanwhile is kept)
         await db
           .update(payments)
           .set({
             status: succeeded ? "succeeded" : status,
             updatedAt: new Date(),
           })
-          .where(eq(payments.stripePaymentIntentId, paymentIntentId));
+          .where(
+            and(
+              eq(payments.stripePaymentIntentId, paymentIntentId),
+              ne(payments.status, "refunded")
+            )
+          );
 
         // If credits purchase succeeded, add credits
         if (
@@ -683,31 +871,21 @@ export async function paymentRoutes(fastify: FastifyInstance) {
           payment.paymentType === "credits" &&
           payment.creditsAwarded
         ) {
+          // Same key as the webhook: the purchase is credited once
           await addCredits(
             userId,
             payment.creditsAwarded,
             `Compra de ${payment.creditsAwarded} créditos`,
             payment.id,
-            "payment"
+            "payment",
+            "purchase",
+            `payment:${payment.id}`
           );
         }
 
-        // If course purchase succeeded, create enrollment
+        // If course purchase succeeded, create enrollment (same as the webhook)
         if (succeeded && payment.paymentType === "course" && payment.courseId) {
-          const alreadyEnrolled = await isUserEnrolled(
-            userId,
-            payment.courseId
-          );
-          if (!alreadyEnrolled) {
-            await createEnrollment(userId, payment.courseId);
-            await db.insert(coursePurchases).values({
-              studentId: userId,
-              courseId: payment.courseId,
-              paymentMethod: "stripe",
-              amount: payment.amount,
-              paymentId: payment.id,
-            });
-          }
+          await grantCoursePurchase(payment, payment.courseId);
         }
 
         return { success: succeeded, status, paymentIntentId };
@@ -717,6 +895,59 @@ export async function paymentRoutes(fastify: FastifyInstance) {
     },
   });
 
+  // --------------------------------------------------------------------------
+  // Refunds
+  // --------------------------------------------------------------------------
+
+  /**
+   * POST /payments/:paymentId/refund - Refund a course purchase and revoke
+   * the enrollment (creator of the course within the refund window, or admin).
+   * Purchases paid with credits are refunded by their course purchase id.
+   */
+  fastify.post("/payments/:paymentId/refund", {
+    preHandler: [fastify.authenticate, fastify.requireRole("creator", "admin")],
+    handler: async (request, reply) => {
+      try {
+        const userId = request.user.id;
+        const { paymentId } = refundParamsSchema.parse(request.params);
+        const { reason } = refundPaymentSchema.parse(request.body ?? {});
+
+        const purchase = await findCoursePurchaseForRefund(paymentId);
+        if (!purchase) {
+          return reply.status(404).send({
+            error: "Compra não encontrada",
+            code: "PURCHASE_NOT_FOUND",
+          });
+        }
+
+        const roles = await getUserRoles(userId);
+        const result = await refundCoursePurchase(
+          purchase,
+          { id: userId, isAdmin: roles.includes("admin") },
+          reason
+        );
+
+        if ("error" in result) {
+          const status =
+            result.code === "NOT_COURSE_OWNER"
+              ? 403
+              : result.code === "ALREADY_REFUNDED"
+                ? 409
+                : result.code === "REFUND_FAILED"
+                  ? 502
+                  : 400;
+          return reply
+            .status(status)
+            .send({ error: result.error, code: result.code });
+        }
+
+        return { success: true, refund: result.refund };
+      } catch (error: any) {
+        return handleValidationError(reply, error);
+      }
+    },
+  });
+
   // --------------------------------------------------------------------------
   // AI Credits Usage (for questions and quiz generation)
   // --------------------------------------------------------------------------
@@ -786,87 +1017,49 @@ export async function paymentRoutes(fastify: FastifyInstance) {
 
   /**
    * POST /payments/webhook - Stripe webhook handler
+   * Events go through the shared inbox (stripe_events): stored once,
+   * processed once by the handlers registered above
    */
   fastify.post("/payments/webhook", {
+    config: {
+      rawBody: true,
+    },
     handler: async (request, reply) => {
+      let event: Stripe.Event;
       try {
         const sig = request.headers["stripe-signature"] as string;
-        const body = request.body;
 
         if (!process.env.STRIPE_WEBHOOK_SECRET) {
           console.error("STRIPE_WEBHOOK_SECRET not configured");
           return reply.status(500).send({ error: "Webhook nao configurado" });
         }
 
-        // Verify webhook signature
-        const stripe = require("stripe")(process.env.STRIPE_SECRET_KEY);
-        const event = stripe.webhooks.constructEvent(
-          body,
+        // Verify webhook signature (over the raw bytes Stripe sent)
+        const stripe = getStripeClient();
+        event = stripe.webhooks.constructEvent(
+          request.rawBody!,
           sig,
           process.env.STRIPE_WEBHOOK_SECRET
         );
+      } catch (error: any) {
+        console.error("Webhook error:", error);
+        return reply
+          .status(400)
+          .send({ error: `Webhook Error: ${error.message}` });
+      }
 
-        // Handle payment_intent.succeeded
-        if (event.type === "payment_intent.succeeded") {
-          const paymentIntent = event.data.object;
-          const paymentIntentId = paymentIntent.id;
-
-          const payment = await db.query.payments.findFirst({
-            where: eq(payments.stripePaymentIntentId, paymentIntentId),
-          });
-
-          if (payment && payment.status !== "succeeded") {
-            // Update status
-            await db
-              .update(payments)
-              .set({ status: "succeeded", updatedAt: new Date() })
-              .where(eq(payments.stripePaymentIntentId, paymentIntentId));
-
-            // Add credits if applicable
-            if (payment.paymentType === "credits" && payment.creditsAwarded) {
-              await addCredits(
-                payment.userId,
-                payment.creditsAwarded,
-                `Compra de ${payment.creditsAwarded} créditos`,
-                payment.id,
-                "payment"
-              );
-            }
-
-            // Create enrollment + purchase record if course purchase
-            if (payment.paymentType === "course" && payment.courseId) {
-              const existingPurchase = await db.query.coursePurchases.findFirst(
-                {
-                  where: eq(coursePurchases.paymentId, payment.id),
-                }
-              );
-
-              if (!existingPurchase) {
-                await db.insert(coursePurchases).values({
-                  studentId: payment.userId,
-                  courseId: payment.courseId,
-                  paymentMethod: "stripe",
-                  amount: payment.amount,
-                  paymentId: payment.id,
-                });
-              }
+      try {
+        const result = await receiveStripeEvent("payments", event);
 
-              const alreadyEnrolled = await isUserEnrolled(
-                payment.userId,
-                payment.courseId
-              );
-              if (!alreadyEnrolled) {
-                await createEnrollment(payment.userId, payment.courseId);
-              }
-            }
-          }
+        if (result.status === "in_progress") {
+          return reply.status(409).send({ error: "Evento em processamento" });
         }
 
-        return { received: true };
+        return { received: true, duplicate: result.status === "duplicate" };
       } catch (error: any) {
-        console.error("Webhook error:", error);
+        // Stripe retries the delivery; the failure is kept in stripe_events
         return reply
-          .status(400)
+          .status(500)
           .send({ error: `Webhook Error: ${error.message}` });
       }
     },
@@ -0,0 +1,161 @@
+/**
+ * Lesson Progress Routes
+ * Handles player heartbeats, lesson completion and course progress
+ */
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { db } from "../../db";
+import { videos, courses, enrollments } from "../../db/schema";
+import { eq, and } from "drizzle-orm";
+import {
+  recordLessonHeartbeat,
+  getLessonProgress,
+  getCourseProgress,
+  LESSON_COMPLETION_THRESHOLD,
+} from "../../services/lesson-progress";
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const heartbeatSchema = z.object({
+  position: z.number().min(0),
+  watchedSeconds: z.number().min(0),
+  completed: z.boolean().optional(),
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function isEnrolledInCourse(
+  studentId: string,
+  courseId: string
+): Promise<boolean> {
+  const enrollment = await db.query.enrollments.findFirst({
+    where: and(
+      eq(enrollments.studentId, studentId),
+      eq(enrollments.courseId, courseId)
+    ),
+  });
+
+  return !!enrollment;
+}
+
+export async function progressRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /videos/:videoId/progress - Player heartbeat
+   * Stores last position + watched seconds and completes the lesson
+   * once LESSON_COMPLETION_THRESHOLD of the duration was watched
+   */
+  fastify.post("/videos/:videoId/progress", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { videoId } = request.params as { videoId: string };
+        const userId = request.user.id;
+        const heartbeat = heartbeatSchema.parse(request.body);
+
+        const video = await db.query.videos.findFirst({
+          where: eq(videos.id, videoId),
+        });
+
+        if (!video) {
+          return reply.status(404).send({ error: "Vídeo não encontrado" });
+        }
+
+        const enrolled = await isEnrolledInCourse(userId, video.courseId);
+        if (!enrolled) {
+          return reply.status(403).send({
+            error:
+              "Você precisa estar matriculado no curso para registrar progresso",
+          });
+        }
+
+        const result = await recordLessonHeartbeat(userId, video, heartbeat);
+
+        return {
+          success: true,
+          progress: result.progress,
+          completionThreshold: LESSON_COMPLETION_THRESHOLD,
+          lessonCompleted: result.lessonCompleted,
+          courseCompleted: result.courseCompleted,
+          gamification: {
+            xpGained: result.xpGained,
+            newBadges: result.newBadges,
+          },
+        };
+      } catch (error: any) {
+        console.error("Error recording lesson progress:", error);
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        return reply.status(500).send({ error: error.message });
+      }
+    },
+  });
+
+  /**
+   * GET /videos/:videoId/progress - Current progress (resume position)
+   */
+  fastify.get("/videos/:videoId/progress", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { videoId } = request.params as { videoId: string };
+        const userId = request.user.id;
+
+        const progress = await getLessonProgress(userId, videoId);
+
+        return {
+          success: true,
+          progress,
+          completionThreshold: LESSON_COMPLETION_THRESHOLD,
+        };
+      } catch (error: any) {
+        console.error("Error fetching lesson progress:", error);
+        return reply.status(500).send({ error: error.message });
+      }
+    },
+  });
+
+  /**
+   * GET /courses/:courseId/progress - Student progress for a whole course
+   */
+  fastify.get("/courses/:courseId/progress", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { courseId } = request.params as { courseId: string };
+        const userId = request.user.id;
+
+        const course = await db.query.courses.findFirst({
+          where: eq(courses.id, courseId),
+        });
+
+        if (!course) {
+          return reply.status(404).send({ error: "Curso não encontrado" });
+        }
+
+        const enrolled = await isEnrolledInCourse(userId, courseId);
+        if (!enrolled) {
+          return reply.status(403).send({
+            error: "Você precisa estar matriculado neste curso",
+          });
+        }
+
+        const progress = await getCourseProgress(userId, courseId);
+
+        return {
+          success: true,
+          courseId,
+          ...progress,
+        };
+      } catch (error: any) {
+        console.error("Error fetching course progress:", error);
+        return reply.status(500).send({ error: error.message });
+      }
+    },
+  });
+}
@@ -15,12 +15,15 @@ import {
   enrollments,
 } from "../../db/schema";
 import { eq, and } from "drizzle-orm";
+import { estimateQuizCreditCost } from "../../services/quiz-generator";
+import { getUserCredits } from "../../services/credits";
+import { enqueueJob } from "../../services/job-queue";
 import {
-  createQuizForVideo,
-  estimateQuizCreditCost,
-} from "../../services/quiz-generator";
-import { getUserCredits, deductCredits } from "../../services/credits";
+  QUIZ_GENERATION_JOB,
+  QuizGenerationJobPayload,
+} from "../../services/job-handlers";
 import { ensureSubscriptionCredits } from "../../services/subscriptions";
+import { recordQuizComplete, Badge } from "../../services/gamification";
 
 // ============================================================================
 // Validation Schemas
@@ -89,10 +92,13 @@ export async function quizRoutes(fastify: FastifyInstance) {
   /**
    * POST /quizzes/generate - Generate a quiz for a video using AI
    * Only creators can generate quizzes for their videos
-   * Costs credits
+   * Costs credits (charged when the background job succeeds)
    */
   fastify.post("/quizzes/generate", {
-    preHandler: [fastify.authenticate],
+    preHandler: [
+      fastify.authenticate,
+      fastify.requirePlanAction("generate_quiz"),
+    ],
     handler: async (request, reply) => {
       try {
         const userId = request.user.id;
@@ -164,48 +170,28 @@ export async function quizRoutes(fastify: FastifyInstance) {
           });
         }
 
-        console.log("🧠 [Quiz Generate] Starting quiz generation...");
-
-        // Generate quiz
-        const result = await createQuizForVideo(
-          videoId,
-          video.title,
-          numQuestions
-        );
-
-        console.log(
-          "🧠 [Quiz Generate] Generation result:",
-          result
-            ? {
-                quizId: result.quizId,
-                questionsCount: result.questionsCount,
-              }
-            : null
+        // Generation runs in the background; credits are charged by the job
+        // only once the quiz is saved
+        const job = await enqueueJob<QuizGenerationJobPayload>(
+          QUIZ_GENERATION_JOB,
+          {
+            userId,
+            videoId,
+            videoTitle: video.title,
+            numQuestions,
+            creditCost,
+          },
+          { userId, dedupeKey: videoId, maxAttempts: 3 }
         );
 
-        if (!result) {
-          console.error("🧠 [Quiz Generate] ❌ Failed to generate quiz");
-          return reply.status(500).send({
-            error:
-              "Erro ao gerar quiz. Verifique se o vídeo possui transcrição.",
-          });
-        }
-
-        // Deduct credits
-        await deductCredits(
-          userId,
-          creditCost,
-          `Geração de quiz: ${video.title}`,
-          result.quizId,
-          "quiz"
-        );
+        console.log("🧠 [Quiz Generate] Job queued:", job.id);
 
-        return {
-          message: "Quiz gerado com sucesso!",
-          quizId: result.quizId,
-          questionsCount: result.questionsCount,
-          creditsUsed: creditCost,
-        };
+        return reply.status(202).send({
+          message: "Geração do quiz iniciada. Acompanhe em /jobs/:id.",
+          jobId: job.id,
+          status: job.status,
+          estimatedCredits: creditCost,
+        });
       } catch (error: any) {
         console.error("Error generating quiz:", error);
         if (error instanceof z.ZodError) {
@@ -451,6 +437,18 @@ export async function quizRoutes(fastify: FastifyInstance) {
         const score = Math.round((correctCount / quiz.questions.length) * 100);
         const passed = score >= quiz.passingScore;
 
+        // XP is only awarded the first time a student passes a quiz
+        const previousPass =
+          userRole === "student" && passed
+            ? await db.query.quizAttempts.findFirst({
+                where: and(
+                  eq(quizAttempts.quizId, quiz.id),
+                  eq(quizAttempts.studentId, userId),
+                  eq(quizAttempts.passed, 1)
+                ),
+              })
+            : undefined;
+
         // Save attempt
         const [attempt] = await db
           .insert(quizAttempts)
@@ -463,6 +461,27 @@ export async function quizRoutes(fastify: FastifyInstance) {
           })
           .returning();
 
+        let gamification: { xpGained: number; newBadges: Badge[] } = {
+          xpGained: 0,
+          newBadges: [],
+        };
+
+        if (userRole === "student" && passed && !previousPass) {
+          try {
+            gamification = await recordQuizComplete(
+              userId,
+              quiz.id,
+              score,
+              passed
+            );
+          } catch (gamificationError) {
+            console.error(
+              "🧠 [Quiz Submit] Failed to record gamification:",
+              gamificationError
+            );
+          }
+        }
+
         return {
           attemptId: attempt.id,
           score,
@@ -471,6 +490,7 @@ export async function quizRoutes(fastify: FastifyInstance) {
           correctCount,
           totalQuestions: quiz.questions.length,
           results,
+          gamification,
           message: passed
             ? "Parabéns! Você passou no quiz! 🎉"
             : "Você não atingiu a pontuação mínima. Tente novamente!",
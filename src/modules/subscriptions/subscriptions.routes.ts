@@ -4,6 +4,7 @@
  */
 
 import { FastifyInstance } from "fastify";
+import Stripe from "stripe";
 import {
   getSubscriptionPlans,
   getUserSubscription,
@@ -11,14 +12,100 @@ import {
   createSubscriptionCheckout,
   createUserSubscription,
   cancelSubscription,
+  previewPlanChange,
+  changeSubscriptionPlan,
   canPerformAction,
   getPlanByName,
+  syncStripeSubscription,
+  markTrialStarted,
+  PlanAction,
 } from "../../services/subscriptions";
+import {
+  handleSubscriptionPaymentFailed,
+  handleSubscriptionInvoicePaid,
+} from "../../services/subscription-dunning";
+import { getStripeClient } from "../../services/stripe-client";
+import {
+  applyCouponAfterTrial,
+  completeCouponRedemption,
+} from "../../services/coupons";
+import {
+  StripeEventHandlers,
+  receiveStripeEvent,
+  registerStripeEventHandlers,
+} from "../../services/stripe-events";
 import { db } from "../../db";
-import { userSubscriptions } from "../../db/schema";
-import { eq } from "drizzle-orm";
+
+// Stripe subscription events, processed once through the stripe_events inbox
+const subscriptionEventHandlers: StripeEventHandlers = {
+  "checkout.session.completed": async (event) => {
+    const session = event.data.object;
+    const { userId, planId } = session.metadata ?? {};
+
+    if (session.mode === "subscription" && userId && planId) {
+      const stripeSubscriptionId =
+        typeof session.subscription === "string"
+          ? session.subscription
+          : session.subscription?.id;
+
+      // Trial end comes from the subscription, not the session
+      let trialEndsAt: Date | null = null;
+      if (stripeSubscriptionId) {
+        const subscription =
+          await getStripeClient().subscriptions.retrieve(stripeSubscriptionId);
+        if (subscription.status === "trialing" && subscription.trial_end) {
+          trialEndsAt = new Date(subscription.trial_end * 1000);
+          await markTrialStarted(userId, session.id);
+          await applyCouponAfterTrial(session.id, subscription);
+        }
+      }
+
+      const result = await createUserSubscription(
+        userId,
+        planId,
+        stripeSubscriptionId,
+        typeof session.customer === "string"
+          ? session.customer
+          : session.customer?.id,
+        trialEndsAt
+      );
+
+      if ("error" in result) {
+        throw new Error(result.error);
+      }
+
+      await completeCouponRedemption({ stripeCheckoutSessionId: session.id });
+      console.log(`✅ Subscription created for user ${userId}`);
+    }
+  },
+
+  "customer.subscription.updated": async (event) => {
+    const subscription = event.data.object;
+    await syncStripeSubscription(subscription);
+    console.log(`📝 Subscription updated: ${subscription.id}`);
+  },
+
+  "customer.subscription.deleted": async (event) => {
+    const subscription = event.data.object;
+    await syncStripeSubscription(subscription);
+    console.log(`❌ Subscription cancelled: ${subscription.id}`);
+  },
+
+  // Dunning: grace period, reminders and downgrade (subscription-dunning.ts)
+  "invoice.payment_failed": async (event) => {
+    const invoice = event.data.object;
+    await handleSubscriptionPaymentFailed(invoice);
+    console.log(`💳 Payment failed for invoice: ${invoice.id}`);
+  },
+
+  "invoice.paid": async (event) => {
+    await handleSubscriptionInvoicePaid(event.data.object);
+  },
+};
 
 export async function subscriptionRoutes(fastify: FastifyInstance) {
+  registerStripeEventHandlers("subscriptions", subscriptionEventHandlers);
+
   // Get all available plans
   fastify.get("/subscriptions/plans", {
     handler: async (request, reply) => {
@@ -74,14 +161,7 @@ export async function subscriptionRoutes(fastify: FastifyInstance) {
           return reply.status(400).send({ error: "Ação inválida" });
         }
 
-        const result = await canPerformAction(
-          userId,
-          action as
-            | "create_course"
-            | "upload_video"
-            | "generate_quiz"
-            | "ask_ai"
-        );
+        const result = await canPerformAction(userId, action as PlanAction);
 
         return result;
       } catch (error: any) {
@@ -97,12 +177,25 @@ export async function subscriptionRoutes(fastify: FastifyInstance) {
     handler: async (request, reply) => {
       try {
         const userId = request.user.id;
-        const { planId } = request.body as { planId: string };
+        const { planId, couponCode } = request.body as {
+          planId: string;
+          couponCode?: string;
+        };
 
         if (!planId) {
           return reply.status(400).send({ error: "planId é obrigatório" });
         }
 
+        // A paid subscription changes plan in place (no second subscription)
+        const current = await getUserSubscription(userId);
+        if (current && current.plan.price > 0) {
+          return reply.status(409).send({
+            error:
+              "Você já tem uma assinatura paga. Use /subscriptions/change-plan para trocar de plano.",
+            code: "SUBSCRIPTION_EXISTS",
+          });
+        }
+
         // Get user email from database
         const user = await db.query.users.findFirst({
           where: (users, { eq }) => eq(users.id, userId),
@@ -118,14 +211,21 @@ export async function subscriptionRoutes(fastify: FastifyInstance) {
         const result = await createSubscriptionCheckout(
           userId,
           planId,
-          user.email
+          user.email,
+          couponCode?.trim() || undefined
         );
 
         if ("error" in result) {
-          return reply.status(400).send({ error: result.error });
+          return reply
+            .status(400)
+            .send({ error: result.error, code: result.code });
         }
 
-        return { sessionUrl: result.sessionUrl };
+        return {
+          sessionUrl: result.sessionUrl,
+          trialDays: result.trialDays,
+          discountAmount: result.discountAmount,
+        };
       } catch (error: any) {
         console.error("Error creating checkout:", error);
         return reply.status(500).send({ error: error.message });
@@ -133,6 +233,88 @@ export async function subscriptionRoutes(fastify: FastifyInstance) {
     },
   });
 
+  // Preview a plan change (prorated charge of an upgrade, date of a downgrade)
+  fastify.post("/subscriptions/change-plan/preview", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const userId = request.user.id;
+        const { planId } = request.body as { planId: string };
+
+        if (!planId) {
+          return reply.status(400).send({ error: "planId é obrigatório" });
+        }
+
+        const preview = await previewPlanChange(userId, planId);
+
+        if ("error" in preview) {
+          return reply.status(400).send({ error: preview.error });
+        }
+
+        return preview;
+      } catch (error: any) {
+        console.error("Error previewing plan change:", error);
+        return reply.status(500).send({ error: error.message });
+      }
+    },
+  });
+
+  // Change the plan of the current subscription
+  // Upgrades are charged (prorated) now; downgrades start at the period end
+  fastify.post("/subscriptions/change-plan", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const userId = request.user.id;
+        const { planId, prorationDate } = request.body as {
+          planId: string;
+          prorationDate?: number;
+        };
+
+        if (!planId) {
+          return reply.status(400).send({ error: "planId é obrigatório" });
+        }
+
+        if (
+          prorationDate !== undefined &&
+          (!Number.isInteger(prorationDate) ||
+            prorationDate > Math.floor(Date.now() / 1000))
+        ) {
+          return reply.status(400).send({ error: "prorationDate inválido" });
+        }
+
+        const result = await changeSubscriptionPlan(
+          userId,
+          planId,
+          prorationDate
+        );
+
+        if ("error" in result) {
+          return reply
+            .status(result.code === "PAYMENT_FAILED" ? 402 : 400)
+            .send({ error: result.error, code: result.code });
+        }
+
+        const messages = {
+          upgrade: "Plano atualizado com sucesso!",
+          downgrade: "A troca de plano será aplicada ao final do período atual",
+          cancel_pending: "Troca de plano agendada cancelada",
+        };
+
+        return {
+          success: true,
+          message: messages[result.direction],
+          direction: result.direction,
+          effectiveAt: result.effectiveAt,
+          subscription: await getUserSubscription(userId),
+        };
+      } catch (error: any) {
+        console.error("Error changing plan:", error);
+        return reply.status(500).send({ error: error.message });
+      }
+    },
+  });
+
   // Subscribe to free plan
   fastify.post("/subscriptions/subscribe-free", {
     preHandler: [fastify.authenticate],
@@ -213,79 +395,29 @@ export async function subscriptionRoutes(fastify: FastifyInstance) {
         return reply.status(400).send({ error: "Missing signature" });
       }
 
+      let event: Stripe.Event;
       try {
-        const Stripe = require("stripe");
-        const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
-
-        const event = stripe.webhooks.constructEvent(
-          (request as any).rawBody,
+        const stripe = getStripeClient();
+        event = stripe.webhooks.constructEvent(
+          request.rawBody!,
           signature,
-          process.env.STRIPE_SUBSCRIPTION_WEBHOOK_SECRET
+          process.env.STRIPE_SUBSCRIPTION_WEBHOOK_SECRET!
         );
+      } catch (error: any) {
+        console.error("Webhook error:", error);
+        return reply.status(400).send({ error: error.message });
+      }
 
-        switch (event.type) {
-          case "checkout.session.completed": {
-            const session = event.data.object;
-            const { userId, planId } = session.metadata;
-
-            if (session.mode === "subscription" && userId && planId) {
-              await createUserSubscription(
-                userId,
-                planId,
-                session.subscription,
-                session.customer
-              );
-              console.log(`✅ Subscription created for user ${userId}`);
-            }
-            break;
-          }
-
-          case "customer.subscription.updated": {
-            const subscription = event.data.object;
-            await db
-              .update(userSubscriptions)
-              .set({
-                status: subscription.status,
-                currentPeriodStart: subscription.current_period_start
-                  ? new Date(subscription.current_period_start * 1000)
-                  : null,
-                currentPeriodEnd: subscription.current_period_end
-                  ? new Date(subscription.current_period_end * 1000)
-                  : null,
-                cancelAtPeriodEnd: subscription.cancel_at_period_end ? 1 : 0,
-                updatedAt: new Date(),
-              })
-              .where(eq(userSubscriptions.stripeSubscriptionId, subscription.id));
-            console.log(`📝 Subscription updated: ${subscription.id}`);
-            break;
-          }
-
-          case "customer.subscription.deleted": {
-            const subscription = event.data.object;
-            await db
-              .update(userSubscriptions)
-              .set({
-                status: "cancelled",
-                cancelAtPeriodEnd: 0,
-                updatedAt: new Date(),
-              })
-              .where(eq(userSubscriptions.stripeSubscriptionId, subscription.id));
-            console.log(`❌ Subscription cancelled: ${subscription.id}`);
-            break;
-          }
-
-          case "invoice.payment_failed": {
-            const invoice = event.data.object;
-            // Handle failed payment
-            console.log(`💳 Payment failed for invoice: ${invoice.id}`);
-            break;
-          }
+      try {
+        const result = await receiveStripeEvent("subscriptions", event);
+
+        if (result.status === "in_progress") {
+          return reply.status(409).send({ error: "Evento em processamento" });
         }
 
-        return { received: true };
+        return { received: true, duplicate: result.status === "duplicate" };
       } catch (error: any) {
-        console.error("Webhook error:", error);
-        return reply.status(400).send({ error: error.message });
+        return reply.status(500).send({ error: error.message });
       }
     },
   });
@@ -0,0 +1,338 @@
+/**
+ * Course Tutor Routes
+ * AI tutor that answers questions about a whole course, citing the lessons
+ * (video + minute) the answer came from
+ */
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { db } from "../../db";
+import { courses, enrollments } from "../../db/schema";
+import { eq, and } from "drizzle-orm";
+import {
+  searchCourseChunks,
+  countCourseChunks,
+  listIndexableVideoIds,
+} from "../../services/course-index";
+import { enqueueVideoIndex } from "../../services/job-handlers";
+import { generateCourseAIResponse } from "../../services/openai-chat";
+import { formatPlaybackTime } from "../../services/captions";
+import { quoteAICredits, recordAIUsage } from "../../services/ai-usage";
+import {
+  getUserCredits,
+  deductCredits,
+  addCredits,
+} from "../../services/credits";
+import {
+  ensureSubscriptionCredits,
+  incrementUsage,
+} from "../../services/subscriptions";
+
+const courseChatSchema = z.object({
+  question: z.string().trim().min(1, "Pergunta é obrigatória").max(2000),
+});
+
+// Excerpts given to the model per question
+const TOP_CHUNKS = 8;
+
+/**
+ * Try to apply subscription credits without crashing on missing export.
+ */
+async function ensureSubscriptionCreditsSafely(userId: string): Promise<void> {
+  if (typeof ensureSubscriptionCredits !== "function") {
+    console.error(
+      "ensureSubscriptionCredits indisponível. Verifique build/deploy do serviço."
+    );
+    return;
+  }
+
+  await ensureSubscriptionCredits(userId);
+}
+
+interface CourseChatCharge {
+  courseId: string;
+  courseTitle: string;
+  amount: number;
+  transactionId?: string;
+}
+
+/**
+ * Give back the credits of a question that got no answer
+ */
+async function refundCourseChat(userId: string, charge: CourseChatCharge) {
+  const refund = await addCredits(
+    userId,
+    charge.amount,
+    `Estorno pergunta IA (curso): ${charge.courseTitle}`,
+    charge.courseId,
+    "ai_chat",
+    "refund",
+    charge.transactionId && `refund:${charge.transactionId}`
+  );
+
+  if (!refund.success) {
+    console.error("❌ Failed to refund course AI chat credits:", {
+      userId,
+      courseId: charge.courseId,
+      error: refund.error,
+    });
+  }
+}
+
+/**
+ * Queue indexing of every transcribed video of a course
+ */
+async function enqueueCourseIndex(courseId: string) {
+  const videoIds = await listIndexableVideoIds(courseId);
+  const jobs = await Promise.all(videoIds.map((id) => enqueueVideoIndex(id)));
+
+  return {
+    videos: videoIds.length,
+    jobIds: jobs.filter((job) => job !== null).map((job) => job!.id),
+  };
+}
+
+export async function tutorRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /courses/:courseId/chat - Ask the AI tutor about any lesson of the course
+   * Creators pay 1 credit per answer (students of the course ask for free),
+   * charged before the answer is generated and refunded if there is none
+   */
+  fastify.post("/courses/:courseId/chat", {
+    preHandler: [fastify.authenticate, fastify.requirePlanAction("ask_ai")],
+    handler: async (request, reply) => {
+      const userId = request.user.id;
+      let charge: CourseChatCharge | null = null;
+      let answered = false;
+
+      try {
+        const { courseId } = request.params as { courseId: string };
+        const body = courseChatSchema.safeParse(request.body);
+
+        if (!body.success) {
+          return reply.status(400).send({ error: body.error.issues });
+        }
+
+        const { question } = body.data;
+
+        if (!process.env.OPENAI_API_KEY) {
+          return reply.status(500).send({ error: "OpenAI nao configurado" });
+        }
+
+        const course = await db.query.courses.findFirst({
+          where: eq(courses.id, courseId),
+        });
+
+        if (!course) {
+          return reply.status(404).send({ error: "Curso nao encontrado" });
+        }
+
+        const isCreator = course.creatorId === userId;
+        const isEnrolled = await db.query.enrollments.findFirst({
+          where: and(
+            eq(enrollments.studentId, userId),
+            eq(enrollments.courseId, courseId)
+          ),
+        });
+
+        if (!isCreator && !isEnrolled) {
+          return reply.status(403).send({
+            error: "Voce nao tem acesso a este curso",
+          });
+        }
+
+        if ((await countCourseChunks(courseId)) === 0) {
+          // Transcripts from before the index existed: build it now
+          const indexing = await enqueueCourseIndex(courseId);
+
+          if (indexing.videos === 0) {
+            return reply.status(404).send({
+              error:
+                "Nenhuma aula deste curso foi transcrita ainda. Transcreva os videos primeiro.",
+              code: "NO_TRANSCRIPTS",
+            });
+          }
+
+          return reply.status(409).send({
+            error:
+              "As aulas deste curso estao sendo indexadas. Tente novamente em alguns minutos.",
+            code: "COURSE_INDEXING",
+            jobIds: indexing.jobIds,
+          });
+        }
+
+        const chatCost = isCreator ? await quoteAICredits("course_chat") : 0;
+        let newBalance: number | undefined;
+        if (chatCost > 0) {
+          await ensureSubscriptionCreditsSafely(userId);
+          const balance = await getUserCredits(userId);
+          if (balance < chatCost) {
+            return reply.status(402).send({
+              error: "Créditos insuficientes",
+              required: chatCost,
+              current: balance,
+            });
+          }
+
+          const deductResult = await deductCredits(
+            userId,
+            chatCost,
+            `Pergunta IA (curso): ${course.title}`,
+            courseId,
+            "ai_chat"
+          );
+
+          if (!deductResult.success) {
+            return reply.status(500).send({
+              error: deductResult.error || "Falha ao debitar creditos",
+            });
+          }
+
+          charge = {
+            courseId,
+            courseTitle: course.title,
+            amount: chatCost,
+            transactionId: deductResult.transactionId,
+          };
+          newBalance = deductResult.newBalance;
+        }
+
+        const { matches, usage: searchUsage } = await searchCourseChunks(
+          courseId,
+          question,
+          TOP_CHUNKS
+        );
+        await recordAIUsage({
+          userId,
+          feature: "course_chat",
+          usage: searchUsage,
+          relatedId: courseId,
+          relatedType: "course",
+        });
+        const sources = matches.map((match, index) => ({
+          ref: index + 1,
+          videoId: match.videoId,
+          videoTitle: match.videoTitle,
+          startMs: match.startMs,
+          endMs: match.endMs,
+          timestamp:
+            match.startMs !== null ? formatPlaybackTime(match.startMs) : null,
+          content: match.content,
+          score: match.score,
+        }));
+
+        const { response, usage, error } = await generateCourseAIResponse(
+          question,
+          sources,
+          course.title
+        );
+
+        if (error || !response) {
+          if (charge) {
+            await refundCourseChat(userId, charge);
+            charge = null;
+          }
+          if (usage) {
+            await recordAIUsage({
+              userId,
+              feature: "course_chat",
+              usage,
+              relatedId: courseId,
+              relatedType: "course",
+            });
+          }
+          return reply.status(500).send({
+            error: error || "Falha ao gerar resposta da IA",
+          });
+        }
+
+        answered = true;
+        const creditsUsed = charge?.amount ?? 0;
+
+        if (usage) {
+          await recordAIUsage({
+            userId,
+            feature: "course_chat",
+            usage,
+            creditsCharged: creditsUsed,
+            relatedId: courseId,
+            relatedType: "course",
+          });
+        }
+
+        await incrementUsage(userId, "ai_question");
+
+        // Sources the answer points to ([1], [2]...); all of them if none is cited
+        const citedRefs = new Set(
+          Array.from(response.matchAll(/\[(\d+)\]/g), (match) => Number(match[1]))
+        );
+        const citations = sources
+          .filter((source) => citedRefs.size === 0 || citedRefs.has(source.ref))
+          .map(({ content, score, ...source }) => ({
+            ...source,
+            excerpt: content.length > 300 ? `${content.slice(0, 300)}...` : content,
+          }));
+
+        return {
+          response,
+          courseId,
+          question,
+          citations,
+          creditsUsed,
+          newBalance,
+        };
+      } catch (error: any) {
+        console.error("Course AI chat error:", error);
+        if (charge && !answered) {
+          await refundCourseChat(userId, charge);
+        }
+        return reply.status(500).send({
+          error: error.message || "Falha ao processar solicitacao de chat",
+        });
+      }
+    },
+  });
+
+  /**
+   * POST /courses/:courseId/reindex - Rebuild the tutor index of a course (creator only)
+   */
+  fastify.post("/courses/:courseId/reindex", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { courseId } = request.params as { courseId: string };
+
+        if (!process.env.OPENAI_API_KEY) {
+          return reply.status(500).send({ error: "OpenAI nao configurado" });
+        }
+
+        const course = await db.query.courses.findFirst({
+          where: eq(courses.id, courseId),
+        });
+
+        if (!course) {
+          return reply.status(404).send({ error: "Curso nao encontrado" });
+        }
+
+        if (course.creatorId !== request.user.id) {
+          return reply.status(403).send({
+            error: "Voce so pode reindexar seus proprios cursos",
+          });
+        }
+
+        const indexing = await enqueueCourseIndex(courseId);
+
+        return reply.status(202).send({
+          message: "Indexacao iniciada. Acompanhe em /jobs/:id.",
+          courseId,
+          ...indexing,
+        });
+      } catch (error: any) {
+        console.error("Error reindexing course:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao reindexar curso",
+        });
+      }
+    },
+  });
+}
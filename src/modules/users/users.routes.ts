@@ -4,6 +4,7 @@ import * as bcrypt from "bcrypt";
 import { db } from "../../db";
 import { users } from "../../db/schema";
 import { eq } from "drizzle-orm";
+import { sendVerificationEmail } from "../../services/account-tokens";
 
 export async function userRoutes(fastify: FastifyInstance) {
   // Get current user (authenticated)
@@ -22,6 +23,7 @@ export async function userRoutes(fastify: FastifyInstance) {
             email: true,
             role: true,
             emailNotificationsEnabled: true,
+            emailVerifiedAt: true,
             createdAt: true,
             updatedAt: true,
           },
@@ -150,6 +152,7 @@ export async function userRoutes(fastify: FastifyInstance) {
           email?: string;
           passwordHash?: string;
           emailNotificationsEnabled?: number;
+          emailVerifiedAt?: Date | null;
           updatedAt?: Date;
         } = {
           updatedAt: new Date(),
@@ -159,9 +162,15 @@ export async function userRoutes(fastify: FastifyInstance) {
           updateFields.username = updateData.username;
         }
 
+        // A new email address has to be confirmed again
+        const emailChanged =
+          !!updateData.email && updateData.email !== currentUser.email;
         if (updateData.email) {
           updateFields.email = updateData.email;
         }
+        if (emailChanged) {
+          updateFields.emailVerifiedAt = null;
+        }
 
         if (updateData.password) {
           updateFields.passwordHash = await bcrypt.hash(
@@ -187,10 +196,23 @@ export async function userRoutes(fastify: FastifyInstance) {
             email: users.email,
             role: users.role,
             emailNotificationsEnabled: users.emailNotificationsEnabled,
+            emailVerifiedAt: users.emailVerifiedAt,
             createdAt: users.createdAt,
             updatedAt: users.updatedAt,
           });
 
+        if (emailChanged) {
+          const verification = await sendVerificationEmail(userId).catch(
+            (emailError) => ({ success: false, error: emailError?.message })
+          );
+          if (!verification.success) {
+            console.warn(
+              "Email de confirmacao nao enviado:",
+              verification.error
+            );
+          }
+        }
+
         return {
           message: "Perfil atualizado com sucesso",
           user: updatedUser[0],
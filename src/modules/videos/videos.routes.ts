@@ -4,31 +4,98 @@ import { db } from "../../db";
 import {
   videos,
   courses,
+  courseSections,
   enrollments,
-  transcripts,
   comments,
 } from "../../db/schema";
 import { eq, and } from "drizzle-orm";
 import fs from "fs";
 import path from "path";
+import { randomUUID } from "crypto";
 import {
   generateUploadUrl,
   generateStreamUrl,
   isR2Configured,
   doesR2ObjectExist,
-  backupFileToR2,
+  isR2BackupConfigured,
   uploadFileToR2,
   getR2FileStream,
   deleteFileFromR2,
 } from "../../services/cloudflare-r2";
-import { transcribeVideoFromR2 } from "../../services/openai-transcription";
-import { generateAIResponse } from "../../services/openai-chat";
+import { enqueueJob, Job } from "../../services/job-queue";
+import {
+  TRANSCRIPTION_JOB,
+  TranscriptionJobPayload,
+  R2_BACKUP_JOB,
+  R2BackupJobPayload,
+  TRANSCRIPT_TRANSLATION_JOB,
+  TranscriptTranslationJobPayload,
+  enqueueVideoIndex,
+  refundTranscriptTranslation,
+} from "../../services/job-handlers";
+import {
+  claimTranscription,
+  setTranscriptionJob,
+  markTranscriptionFailed,
+  getTranscriptionState,
+} from "../../services/video-transcription";
+import {
+  getVideoTranscript,
+  listTranscriptLanguages,
+  LANGUAGE_CODE_PATTERN,
+} from "../../services/transcripts";
+import {
+  editTranscript,
+  revertTranscript,
+  listTranscriptRevisions,
+  getTranscriptRevision,
+  serializeTranscriptRevision,
+  TranscriptRevisionErrorCode,
+} from "../../services/transcript-revisions";
+import {
+  getTranscriptSegments,
+  buildWebVtt,
+  buildSrt,
+  buildTimedTranscript,
+} from "../../services/captions";
+import {
+  CHAT_MODEL,
+  generateAIResponse,
+  streamAIResponse,
+} from "../../services/openai-chat";
+import {
+  getChatSession,
+  buildChatHistory,
+  saveChatTurn,
+} from "../../services/ai-chat-sessions";
 import {
-  calculateAIChatCost,
   calculateVideoUploadCost,
+  calculateTranscriptTranslationCost,
 } from "../../services/video-cost";
-import { getUserCredits, deductCredits } from "../../services/credits";
-import { ensureSubscriptionCredits } from "../../services/subscriptions";
+import {
+  AIUsage,
+  estimateTokens,
+  quoteAICredits,
+  recordAIUsage,
+} from "../../services/ai-usage";
+import {
+  getUserCredits,
+  deductCredits,
+  addCredits,
+} from "../../services/credits";
+import {
+  ensureSubscriptionCredits,
+  incrementUsage,
+} from "../../services/subscriptions";
+import {
+  getOrderedCourseVideos,
+  getCourseOutline,
+  getNextVideoPosition,
+  getNextSectionPosition,
+  isSectionInCourse,
+  reorderSections,
+  reorderLessons,
+} from "../../services/course-structure";
 
 // Type declarations for Fastify multipart plugin
 declare module "fastify" {
@@ -41,6 +108,19 @@ declare module "fastify" {
   }
 }
 
+const languageSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(
+    LANGUAGE_CODE_PATTERN,
+    "Idioma invalido. Use o codigo ISO 639-1 (ex: pt, en, es)"
+  );
+
+const transcriptQuerySchema = z.object({
+  lang: languageSchema.optional(),
+});
+
 const uploadUrlSchema = z.object({
   filename: z.string().min(1),
   contentType: z.string().min(1),
@@ -51,12 +131,44 @@ const createVideoSchema = z.object({
   title: z.string().min(1).max(255),
   r2Key: z.string().min(1),
   duration: z.number().int().positive().optional(),
+  sectionId: z.string().uuid().nullable().optional(),
+  position: z.number().int().min(0).optional(),
+  language: languageSchema.nullable().optional(), // null = idioma do curso
 });
 
 const updateVideoSchema = z.object({
   title: z.string().min(1).max(255).optional(),
   duration: z.number().int().positive().optional(),
   r2Key: z.string().optional(),
+  sectionId: z.string().uuid().nullable().optional(),
+  position: z.number().int().min(0).optional(),
+  language: languageSchema.nullable().optional(),
+});
+
+const createSectionSchema = z.object({
+  title: z.string().min(1).max(255),
+  position: z.number().int().min(0).optional(),
+});
+
+const updateSectionSchema = z.object({
+  title: z.string().min(1).max(255).optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+const reorderSectionsSchema = z.object({
+  sectionIds: z.array(z.string().uuid()),
+});
+
+const reorderLessonsSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        videoId: z.string().uuid(),
+        sectionId: z.string().uuid().nullable(),
+        position: z.number().int().min(0),
+      })
+    )
+    .min(1),
 });
 
 const createCommentSchema = z.object({
@@ -65,11 +177,58 @@ const createCommentSchema = z.object({
 
 const transcribeSchema = z.object({
   videoId: z.string().uuid(),
+  // Spoken language; defaults to the video/course setting, else detected
+  language: languageSchema.optional(),
+});
+
+const transcriptSegmentSchema = z
+  .object({
+    startMs: z.number().int().min(0),
+    endMs: z.number().int().min(0),
+    text: z.string().trim().min(1),
+  })
+  .refine((segment) => segment.endMs >= segment.startMs, {
+    message: "endMs deve ser maior ou igual a startMs",
+  });
+
+const updateTranscriptSchema = z
+  .object({
+    content: z.string().trim().min(1).optional(),
+    segments: z.array(transcriptSegmentSchema).min(1).max(20000).optional(),
+    // Revision the edit was based on; a newer one returns 409
+    baseRevision: z.number().int().min(0).optional(),
+  })
+  .refine((data) => data.content !== undefined || data.segments !== undefined, {
+    message: "Envie content ou segments",
+  });
+
+const revertTranscriptSchema = z.object({
+  baseRevision: z.number().int().min(0).optional(),
+});
+
+const revisionParamsSchema = z.object({
+  videoId: z.string().uuid(),
+  revision: z.coerce.number().int().min(0),
+});
+
+const REVISION_ERROR_STATUS: Record<TranscriptRevisionErrorCode, number> = {
+  TRANSCRIPT_NOT_FOUND: 404,
+  REVISION_NOT_FOUND: 404,
+  REVISION_CONFLICT: 409,
+  SEGMENTS_REQUIRED: 400,
+  NO_CHANGES: 400,
+};
+
+const translateSchema = z.object({
+  targetLanguage: languageSchema,
+  // Transcript to translate from; defaults to the video's main transcript
+  sourceLanguage: languageSchema.optional(),
 });
 
 const chatSchema = z.object({
   videoId: z.string().uuid(),
   question: z.string().min(1, "Pergunta é obrigatória"),
+  sessionId: z.string().uuid().optional(), // Continua uma conversa (sem ele, uma nova é criada)
 });
 
 /**
@@ -86,6 +245,108 @@ async function ensureSubscriptionCreditsSafely(userId: string): Promise<void> {
   await ensureSubscriptionCredits(userId);
 }
 
+/**
+ * Transcript (by language) of a video owned by the creator
+ */
+async function getOwnedTranscript(
+  videoId: string,
+  userId: string,
+  language?: string
+) {
+  const video = await db.query.videos.findFirst({
+    where: eq(videos.id, videoId),
+    with: {
+      course: true,
+    },
+  });
+
+  if (!video) {
+    return { status: 404, error: "Video nao encontrado" } as const;
+  }
+
+  if (video.course.creatorId !== userId) {
+    return {
+      status: 403,
+      error: "Voce so pode editar transcricoes dos seus proprios videos",
+    } as const;
+  }
+
+  const transcript = await getVideoTranscript(videoId, language);
+  if (!transcript) {
+    return {
+      status: 404,
+      error: "Transcricao nao encontrada",
+      code: "TRANSCRIPT_NOT_FOUND",
+    } as const;
+  }
+
+  return { video, transcript };
+}
+
+// Answer size expected when quoting a video chat question (max_tokens of the call)
+const VIDEO_CHAT_ANSWER_TOKENS = 500;
+
+/**
+ * Everything needed to answer a question about a video: access check
+ * (creator or enrolled student), transcript, the conversation so far and
+ * the estimated prompt size (video chat is priced by tokens)
+ */
+async function prepareVideoChat(
+  videoId: string,
+  userId: string,
+  question: string,
+  sessionId?: string
+) {
+  const video = await db.query.videos.findFirst({
+    where: eq(videos.id, videoId),
+    with: {
+      course: true,
+    },
+  });
+
+  if (!video) {
+    return { status: 404, error: "Video nao encontrado" } as const;
+  }
+
+  const isCreator = video.course.creatorId === userId;
+  const isEnrolled = await db.query.enrollments.findFirst({
+    where: and(
+      eq(enrollments.studentId, userId),
+      eq(enrollments.courseId, video.courseId)
+    ),
+  });
+
+  if (!isCreator && !isEnrolled) {
+    return { status: 403, error: "Voce nao tem acesso a este video" } as const;
+  }
+
+  const session = sessionId ? await getChatSession(sessionId, userId) : null;
+  if (sessionId && (!session || session.videoId !== videoId)) {
+    return { status: 404, error: "Conversa nao encontrada" } as const;
+  }
+
+  const transcript = await getVideoTranscript(videoId);
+  if (!transcript) {
+    console.error("❌ Transcript not found for video:", videoId);
+    return {
+      status: 404,
+      error: "Transcricao nao encontrada. Transcreva o video primeiro.",
+    } as const;
+  }
+
+  // Timed transcript lets the answer point to "minute 12:30"
+  const segments = await getTranscriptSegments(transcript.id);
+  const transcriptText =
+    segments.length > 0 ? buildTimedTranscript(segments) : transcript.content;
+  const history = session ? await buildChatHistory(session.id) : [];
+  const promptTokens =
+    estimateTokens(transcriptText) +
+    estimateTokens(question) +
+    history.reduce((sum, turn) => sum + estimateTokens(turn.content), 0);
+
+  return { video, transcriptText, session, history, promptTokens };
+}
+
 export async function videoRoutes(fastify: FastifyInstance) {
   // Generate presigned URL for direct upload to Cloudflare R2
   fastify.post("/videos/upload-direct", {
@@ -180,7 +441,8 @@ export async function videoRoutes(fastify: FastifyInstance) {
           "content-length": request.headers["content-length"],
         });
 
-        const { videoId } = transcribeSchema.parse(request.body);
+        const { videoId, language: requestedLanguage } =
+          transcribeSchema.parse(request.body);
         const userId = request.user.id;
 
         console.log("📥 Parsed videoId:", videoId);
@@ -217,103 +479,67 @@ export async function videoRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // 3. Check if transcript already exists
-        const existingTranscript = await db.query.transcripts.findFirst({
-          where: eq(transcripts.videoId, videoId),
-        });
+        // 3. Check if transcript already exists (in the requested language,
+        // or any language when it will be detected)
+        const language =
+          requestedLanguage || video.language || video.course.language || null;
+        const existingTranscript = await getVideoTranscript(videoId, language);
 
         if (existingTranscript) {
           return {
             message: "Transcricao ja existe",
             transcript: existingTranscript.content,
+            language: existingTranscript.language,
             videoId,
+            transcription: getTranscriptionState(video),
           };
         }
 
-        // 4. Transcribe video using OpenAI Whisper
-        // IMPORTANT: This is a long-running operation that can take minutes.
-        // We process it in the background to avoid Render's 30s timeout.
-        console.log("🎤 Starting transcription for video:", videoId);
+        // 4. Claim the video: concurrent requests must not start a second
+        // paid Whisper run
+        const claim = await claimTranscription(video);
 
-        // Return immediately and process in background
-        reply.status(202).send({
-          message: "Transcricao iniciada. Isso pode levar alguns minutos.",
-          videoId,
-          status: "processing",
-        });
+        if (!claim.claimed) {
+          return reply.status(202).send({
+            message: "Transcricao ja esta em andamento.",
+            videoId,
+            status: claim.video.transcriptionStatus,
+            jobId: claim.video.transcriptionJobId,
+            transcription: getTranscriptionState(claim.video),
+          });
+        }
 
-        // Process transcription in background (don't block the response)
-        // Use process.nextTick to ensure it runs after the response is sent
-        process.nextTick(async () => {
-          try {
-            console.log("🔄 Background transcription started for:", videoId);
-            console.log("🔄 Video R2 Key:", video.r2Key);
-
-            // Wrap in try-catch to prevent server crash
-            console.log("🔄 Calling transcribeVideoFromR2...");
-            const { transcript, error } = await transcribeVideoFromR2(
-              video.r2Key
-            );
-
-            console.log("🔄 Transcription result received");
-            console.log("🔄 Has transcript:", !!transcript);
-            console.log("🔄 Has error:", !!error);
-            console.log("🔄 Transcript length:", transcript?.length || 0);
-
-            if (error || !transcript) {
-              console.error("❌ Background transcription failed:", error);
-              console.error("❌ Video ID:", videoId);
-              console.error("❌ R2 Key:", video.r2Key);
-              // Optionally, you could store the error in the database or send a notification
-              return;
-            }
+        // 5. Queue the transcription (long-running, can take minutes).
+        // The job survives restarts and is retried with backoff on failure.
+        let job;
+        try {
+          job = await enqueueJob<TranscriptionJobPayload>(
+            TRANSCRIPTION_JOB,
+            { videoId, language: requestedLanguage ?? null },
+            { userId, dedupeKey: videoId }
+          );
+        } catch (queueError: any) {
+          await markTranscriptionFailed(
+            videoId,
+            queueError?.message || "Falha ao enfileirar transcricao"
+          );
+          throw queueError;
+        }
+        await setTranscriptionJob(videoId, job.id);
 
-            // Save transcript to database
-            console.log("💾 Saving transcript to database...");
-            console.log("💾 Transcript length:", transcript.length);
-            console.log("💾 Video ID:", videoId);
-            console.log("💾 Transcript preview:", transcript.substring(0, 100));
-
-            const [savedTranscript] = await db
-              .insert(transcripts)
-              .values({
-                videoId: videoId,
-                content: transcript,
-              })
-              .returning();
-
-            console.log("✅ Transcript saved to database:", {
-              id: savedTranscript.id,
-              videoId: savedTranscript.videoId,
-              contentLength: savedTranscript.content.length,
-            });
+        console.log("🎤 Transcription queued for video:", videoId, job.id);
 
-            // Update video with transcript R2 key (optional, for backup)
-            const transcriptKey = `transcripts/${video.r2Key.replace(
-              /\.(mp4|webm|mov)$/,
-              ".txt"
-            )}`;
-            await db
-              .update(videos)
-              .set({ transcriptR2Key: transcriptKey })
-              .where(eq(videos.id, videoId));
-
-            console.log(
-              "✅ Video updated with transcript R2 key:",
-              transcriptKey
-            );
-            console.log(
-              "✅ Background transcription completed successfully for:",
-              videoId
-            );
-          } catch (error: any) {
-            console.error("❌ Background transcription error:", error);
-            console.error("❌ Error stack:", error.stack);
-          }
+        return reply.status(202).send({
+          message: "Transcricao iniciada. Isso pode levar alguns minutos.",
+          videoId,
+          language, // null = sera detectado pelo audio
+          status: "pending",
+          jobId: job.id,
+          transcription: getTranscriptionState({
+            ...claim.video,
+            transcriptionJobId: job.id,
+          }),
         });
-
-        // Response already sent, don't return anything
-        return;
       } catch (error: any) {
         console.error("❌ Transcription endpoint error:", error);
         console.error("❌ Error name:", error.name);
@@ -349,8 +575,13 @@ export async function videoRoutes(fastify: FastifyInstance) {
     handler: async (request, reply) => {
       try {
         const { videoId } = request.params as { videoId: string };
+        const query = transcriptQuerySchema.safeParse(request.query);
         const userId = request.user.id;
 
+        if (!query.success) {
+          return reply.status(400).send({ error: query.error.issues });
+        }
+
         // 1. Get video and check access
         const video = await db.query.videos.findFirst({
           where: eq(videos.id, videoId),
@@ -377,22 +608,56 @@ export async function videoRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // 2. Get transcript from database
-        const transcript = await db.query.transcripts.findFirst({
-          where: eq(transcripts.videoId, videoId),
-        });
+        // 2. Get transcript from database (?lang=en for a specific language)
+        const { lang } = query.data;
+        const transcript = await getVideoTranscript(videoId, lang);
+        const availableLanguages = await listTranscriptLanguages(videoId);
+
+        const transcription = getTranscriptionState(video);
+
+        // The video has transcripts, just not in this language
+        if (!transcript && lang && availableLanguages.length > 0) {
+          return reply.status(404).send({
+            error: `Transcricao em "${lang}" nao encontrada`,
+            code: "TRANSCRIPT_LANGUAGE_NOT_FOUND",
+            availableLanguages,
+            transcription,
+          });
+        }
 
         if (!transcript) {
+          const inProgress =
+            transcription.status === "pending" ||
+            transcription.status === "processing";
+
           return reply.status(404).send({
-            error: "Transcricao nao encontrada. Transcreva o video primeiro.",
+            error: inProgress
+              ? "Transcricao em andamento. Tente novamente em alguns minutos."
+              : transcription.status === "failed"
+                ? "A transcricao falhou. Solicite novamente."
+                : "Transcricao nao encontrada. Transcreva o video primeiro.",
+            code: inProgress
+              ? "TRANSCRIPTION_IN_PROGRESS"
+              : transcription.status === "failed"
+                ? "TRANSCRIPTION_FAILED"
+                : "TRANSCRIPT_NOT_FOUND",
+            transcription,
           });
         }
 
+        const segments = await getTranscriptSegments(transcript.id);
+
         return {
           transcript: transcript.content,
           videoId,
+          language: transcript.language,
+          availableLanguages,
+          revision: transcript.revision,
+          updatedAt: transcript.updatedAt,
           createdAt:
             transcript.createdAt?.toISOString() || new Date().toISOString(),
+          segments,
+          transcription,
         };
       } catch (error: any) {
         console.error("Error fetching transcript:", error);
@@ -403,20 +668,238 @@ export async function videoRoutes(fastify: FastifyInstance) {
     },
   });
 
-  // AI Chat endpoint - answer questions based on video transcript
-  fastify.post("/videos/chat", {
+  // Correct a transcript (creator only). Timed transcripts are edited through
+  // their segments so captions and the AI chat stay in sync.
+  fastify.put("/videos/:videoId/transcript", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { videoId } = request.params as { videoId: string };
+        const query = transcriptQuerySchema.safeParse(request.query);
+        const body = updateTranscriptSchema.safeParse(request.body);
+
+        if (!query.success) {
+          return reply.status(400).send({ error: query.error.issues });
+        }
+        if (!body.success) {
+          return reply.status(400).send({ error: body.error.issues });
+        }
+
+        const owned = await getOwnedTranscript(
+          videoId,
+          request.user.id,
+          query.data.lang
+        );
+        if (owned.error) {
+          return reply
+            .status(owned.status)
+            .send({ error: owned.error, code: owned.code });
+        }
+
+        const { content, segments, baseRevision } = body.data;
+        const result = await editTranscript(
+          owned.transcript.id,
+          request.user.id,
+          { content, segments },
+          baseRevision
+        );
+
+        if ("error" in result) {
+          return reply
+            .status(REVISION_ERROR_STATUS[result.code])
+            .send({ error: result.error, code: result.code });
+        }
+
+        // The course tutor must answer from the corrected text
+        await enqueueVideoIndex(videoId);
+
+        return {
+          message: "Transcricao atualizada com sucesso",
+          transcript: result.transcript,
+          revision: {
+            revisionNumber: result.revision.revisionNumber,
+            diff: result.revision.diff,
+            createdAt: result.revision.createdAt,
+          },
+        };
+      } catch (error: any) {
+        console.error("Error updating transcript:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao atualizar transcricao",
+        });
+      }
+    },
+  });
+
+  // Revision history of a transcript (creator only)
+  fastify.get("/videos/:videoId/transcript/revisions", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { videoId } = request.params as { videoId: string };
+        const query = transcriptQuerySchema.safeParse(request.query);
+
+        if (!query.success) {
+          return reply.status(400).send({ error: query.error.issues });
+        }
+
+        const owned = await getOwnedTranscript(
+          videoId,
+          request.user.id,
+          query.data.lang
+        );
+        if (owned.error) {
+          return reply
+            .status(owned.status)
+            .send({ error: owned.error, code: owned.code });
+        }
+
+        return {
+          transcriptId: owned.transcript.id,
+          language: owned.transcript.language,
+          currentRevision: owned.transcript.revision,
+          revisions: await listTranscriptRevisions(owned.transcript.id),
+        };
+      } catch (error: any) {
+        console.error("Error listing transcript revisions:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao buscar revisoes",
+        });
+      }
+    },
+  });
+
+  // A single revision with its full text and segments
+  fastify.get("/videos/:videoId/transcript/revisions/:revision", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const params = revisionParamsSchema.safeParse(request.params);
+        const query = transcriptQuerySchema.safeParse(request.query);
+
+        if (!params.success) {
+          return reply.status(400).send({ error: params.error.issues });
+        }
+        if (!query.success) {
+          return reply.status(400).send({ error: query.error.issues });
+        }
+
+        const owned = await getOwnedTranscript(
+          params.data.videoId,
+          request.user.id,
+          query.data.lang
+        );
+        if (owned.error) {
+          return reply
+            .status(owned.status)
+            .send({ error: owned.error, code: owned.code });
+        }
+
+        const revision = await getTranscriptRevision(
+          owned.transcript.id,
+          params.data.revision
+        );
+        if (!revision) {
+          return reply.status(404).send({
+            error: "Revisao nao encontrada",
+            code: "REVISION_NOT_FOUND",
+          });
+        }
+
+        return { revision: serializeTranscriptRevision(revision) };
+      } catch (error: any) {
+        console.error("Error fetching transcript revision:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao buscar revisao",
+        });
+      }
+    },
+  });
+
+  // Restore an earlier revision (saved as a new revision, nothing is lost)
+  fastify.post("/videos/:videoId/transcript/revisions/:revision/revert", {
     preHandler: [fastify.authenticate],
     handler: async (request, reply) => {
       try {
-        const { videoId, question } = chatSchema.parse(request.body);
+        const params = revisionParamsSchema.safeParse(request.params);
+        const query = transcriptQuerySchema.safeParse(request.query);
+        const body = revertTranscriptSchema.safeParse(request.body ?? {});
+
+        if (!params.success) {
+          return reply.status(400).send({ error: params.error.issues });
+        }
+        if (!query.success) {
+          return reply.status(400).send({ error: query.error.issues });
+        }
+        if (!body.success) {
+          return reply.status(400).send({ error: body.error.issues });
+        }
+
+        const owned = await getOwnedTranscript(
+          params.data.videoId,
+          request.user.id,
+          query.data.lang
+        );
+        if (owned.error) {
+          return reply
+            .status(owned.status)
+            .send({ error: owned.error, code: owned.code });
+        }
+
+        const result = await revertTranscript(
+          owned.transcript.id,
+          params.data.revision,
+          request.user.id,
+          body.data.baseRevision
+        );
+
+        if ("error" in result) {
+          return reply
+            .status(REVISION_ERROR_STATUS[result.code])
+            .send({ error: result.error, code: result.code });
+        }
+
+        await enqueueVideoIndex(params.data.videoId);
+
+        return {
+          message: `Transcricao restaurada para a revisao ${params.data.revision}`,
+          transcript: result.transcript,
+          revision: {
+            revisionNumber: result.revision.revisionNumber,
+            revertedFromRevision: result.revision.revertedFromRevision,
+            diff: result.revision.diff,
+            createdAt: result.revision.createdAt,
+          },
+        };
+      } catch (error: any) {
+        console.error("Error reverting transcript:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao restaurar revisao",
+        });
+      }
+    },
+  });
+
+  // Translate a transcript (and its captions) into another language with AI.
+  // Runs in the background; credits are charged by the job once it is saved.
+  fastify.post("/videos/:videoId/transcript/translate", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { videoId } = request.params as { videoId: string };
         const userId = request.user.id;
-        const userRole = request.user.role;
+        const body = translateSchema.safeParse(request.body);
+
+        if (!body.success) {
+          return reply.status(400).send({ error: body.error.issues });
+        }
+
+        const { targetLanguage, sourceLanguage } = body.data;
 
         if (!process.env.OPENAI_API_KEY) {
           return reply.status(500).send({ error: "OpenAI nao configurado" });
         }
 
-        // 1. Get video and check access
         const video = await db.query.videos.findFirst({
           where: eq(videos.id, videoId),
           with: {
@@ -428,47 +911,367 @@ export async function videoRoutes(fastify: FastifyInstance) {
           return reply.status(404).send({ error: "Video nao encontrado" });
         }
 
-        const isCreator = video.course.creatorId === userId;
-        const isEnrolled = await db.query.enrollments.findFirst({
-          where: and(
-            eq(enrollments.studentId, userId),
-            eq(enrollments.courseId, video.courseId)
-          ),
+        if (video.course.creatorId !== userId) {
+          return reply.status(403).send({
+            error: "Voce so pode traduzir transcricoes dos seus proprios videos",
+          });
+        }
+
+        const source = await getVideoTranscript(videoId, sourceLanguage);
+        if (!source) {
+          return reply.status(404).send({
+            error: "Transcricao nao encontrada. Transcreva o video primeiro.",
+            code: "TRANSCRIPT_NOT_FOUND",
+            availableLanguages: await listTranscriptLanguages(videoId),
+          });
+        }
+
+        if (source.language === targetLanguage) {
+          return reply.status(400).send({
+            error: "O idioma de destino deve ser diferente do idioma da transcricao",
+            code: "SAME_LANGUAGE",
+          });
+        }
+
+        const existing = await getVideoTranscript(videoId, targetLanguage);
+        if (existing) {
+          return {
+            message: "Traducao ja existe",
+            videoId,
+            transcriptId: existing.id,
+            language: existing.language,
+          };
+        }
+
+        const creditCost = calculateTranscriptTranslationCost(
+          source.content.length
+        );
+
+        await ensureSubscriptionCreditsSafely(userId);
+        const balance = await getUserCredits(userId);
+        if (balance < creditCost) {
+          return reply.status(402).send({
+            error: "Créditos insuficientes",
+            required: creditCost,
+            current: balance,
+          });
+        }
+
+        const payload: TranscriptTranslationJobPayload = {
+          userId,
+          videoId,
+          videoTitle: video.title,
+          sourceTranscriptId: source.id,
+          targetLanguage,
+          creditCost,
+        };
+
+        // Charged up front (keyed by the job); the job refunds it when the
+        // translation fails or already existed
+        const jobId = randomUUID();
+        const deductResult = await deductCredits(
+          userId,
+          creditCost,
+          `Tradução da transcrição (${targetLanguage}): ${video.title}`,
+          source.id,
+          "transcript_translation",
+          `transcript_translation:${jobId}`
+        );
+
+        if (!deductResult.success) {
+          return reply.status(500).send({
+            error: deductResult.error || "Falha ao debitar creditos",
+          });
+        }
+
+        let job: Job;
+        try {
+          job = await enqueueJob(TRANSCRIPT_TRANSLATION_JOB, payload, {
+            id: jobId,
+            userId,
+            dedupeKey: `${videoId}:${targetLanguage}`,
+            maxAttempts: 3,
+          });
+        } catch (error) {
+          await refundTranscriptTranslation(payload, jobId);
+          throw error;
+        }
+
+        // Already being translated: that job carries its own charge
+        if (job.id !== jobId) {
+          await refundTranscriptTranslation(payload, jobId);
+        }
+
+        console.log("🌐 Transcript translation queued:", {
+          videoId,
+          from: source.language,
+          to: targetLanguage,
+          jobId: job.id,
         });
 
-        if (!isCreator && !isEnrolled) {
-          return reply.status(403).send({
-            error: "Voce nao tem acesso a este video",
+        return reply.status(202).send({
+          message: "Traducao iniciada. Acompanhe em /jobs/:id.",
+          videoId,
+          sourceLanguage: source.language,
+          targetLanguage,
+          jobId: job.id,
+          status: job.status,
+          estimatedCredits: creditCost,
+        });
+      } catch (error: any) {
+        console.error("Error translating transcript:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao traduzir transcricao",
+        });
+      }
+    },
+  });
+
+  // Captions for the player (<track src=".../captions.vtt">) and downloads
+  for (const format of ["vtt", "srt"] as const) {
+    fastify.get(`/videos/:videoId/captions.${format}`, {
+      preHandler: [fastify.authenticate],
+      handler: async (request, reply) => {
+        try {
+          const { videoId } = request.params as { videoId: string };
+          const query = transcriptQuerySchema.safeParse(request.query);
+          const userId = request.user.id;
+
+          if (!query.success) {
+            return reply.status(400).send({ error: query.error.issues });
+          }
+
+          const video = await db.query.videos.findFirst({
+            where: eq(videos.id, videoId),
+            with: {
+              course: true,
+            },
           });
+
+          if (!video) {
+            return reply.status(404).send({ error: "Video nao encontrado" });
+          }
+
+          const isCreator = video.course.creatorId === userId;
+          const isEnrolled = await db.query.enrollments.findFirst({
+            where: and(
+              eq(enrollments.studentId, userId),
+              eq(enrollments.courseId, video.courseId)
+            ),
+          });
+
+          if (!isCreator && !isEnrolled) {
+            return reply.status(403).send({
+              error: "Voce nao tem acesso a este video",
+            });
+          }
+
+          const transcript = await getVideoTranscript(
+            videoId,
+            query.data.lang
+          );
+
+          const segments = transcript
+            ? await getTranscriptSegments(transcript.id)
+            : [];
+
+          // Transcripts created before segments existed have no timestamps
+          if (!transcript || segments.length === 0) {
+            return reply.status(404).send({
+              error: "Legendas indisponiveis para este video",
+              code: "CAPTIONS_NOT_AVAILABLE",
+            });
+          }
+
+          const body =
+            format === "vtt" ? buildWebVtt(segments) : buildSrt(segments);
+
+          return reply
+            .header(
+              "Content-Type",
+              format === "vtt"
+                ? "text/vtt; charset=utf-8"
+                : "application/x-subrip; charset=utf-8"
+            )
+            .header(
+              "Content-Disposition",
+              `inline; filename="${videoId}.${transcript.language}.${format}"`
+            )
+            .send(body);
+        } catch (error: any) {
+          console.error("Error generating captions:", error);
+          return reply.status(500).send({
+            error: error.message || "Falha ao gerar legendas",
+          });
+        }
+      },
+    });
+  }
+
+  // AI Chat endpoint - answer questions based on video transcript
+  fastify.post("/videos/chat", {
+    preHandler: [fastify.authenticate, fastify.requirePlanAction("ask_ai")],
+    handler: async (request, reply) => {
+      try {
+        const { videoId, question, sessionId } = chatSchema.parse(request.body);
+        const userId = request.user.id;
+        const userRole = request.user.role;
+
+        if (!process.env.OPENAI_API_KEY) {
+          return reply.status(500).send({ error: "OpenAI nao configurado" });
+        }
+
+        // 1. Check access, transcript and conversation
+        const chat = await prepareVideoChat(videoId, userId, question, sessionId);
+        if (chat.error) {
+          return reply.status(chat.status).send({ error: chat.error });
         }
+        const { video, transcriptText, session, history } = chat;
+
+        let creditsUsed = 0;
+        let newBalance: number | undefined;
 
-        // 2. Get transcript
-        console.log("📚 Fetching transcript for video:", videoId);
-        const transcript = await db.query.transcripts.findFirst({
-          where: eq(transcripts.videoId, videoId),
+        if (userRole === "creator") {
+          const chatCost = await quoteAICredits(
+            "video_chat",
+            chat.promptTokens + VIDEO_CHAT_ANSWER_TOKENS
+          );
+          await ensureSubscriptionCreditsSafely(userId);
+          const balance = await getUserCredits(userId);
+          if (balance < chatCost) {
+            return reply.status(402).send({
+              error: "Créditos insuficientes",
+              required: chatCost,
+              current: balance,
+            });
+          }
+
+          const deductResult = await deductCredits(
+            userId,
+            chatCost,
+            `Pergunta IA: ${video.title}`,
+            videoId,
+            "ai_chat"
+          );
+
+          if (!deductResult.success) {
+            return reply.status(500).send({
+              error: deductResult.error || "Falha ao debitar creditos",
+            });
+          }
+
+          creditsUsed = chatCost;
+          newBalance = deductResult.newBalance;
+        }
+
+        // 2. Generate AI response
+        console.log("🤖 Generating AI response for video:", videoId);
+        console.log("🤖 Question:", question);
+        console.log("🤖 Video title:", video.title);
+        const { response, usage, error } = await generateAIResponse(
+          transcriptText,
+          question,
+          video.title,
+          history
+        );
+
+        if (usage) {
+          await recordAIUsage({
+            userId,
+            feature: "video_chat",
+            usage,
+            creditsCharged: creditsUsed,
+            relatedId: videoId,
+            relatedType: "video",
+          });
+        }
+
+        if (error || !response) {
+          return reply.status(500).send({
+            error: error || "Falha ao gerar resposta da IA",
+          });
+        }
+
+        // The answer is returned even if the history could not be saved
+        let savedSessionId: string | null = null;
+        try {
+          savedSessionId = await saveChatTurn({
+            sessionId: session?.id,
+            userId,
+            videoId,
+            question,
+            response,
+            creditsUsed,
+          });
+        } catch (saveError) {
+          console.error("❌ Failed to save AI chat turn:", saveError);
+        }
+
+        await incrementUsage(userId, "ai_question");
+
+        return {
+          response,
+          videoId,
+          question,
+          sessionId: savedSessionId,
+          creditsUsed,
+          newBalance,
+        };
+      } catch (error: any) {
+        console.error("AI chat error:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao processar solicitacao de chat",
         });
+      }
+    },
+  });
 
-        console.log("📚 Transcript found:", !!transcript);
-        if (transcript) {
-          console.log("📚 Transcript length:", transcript.content.length);
-          console.log(
-            "📚 Transcript preview:",
-            transcript.content.substring(0, 100)
-          );
+  /**
+   * POST /videos/chat/stream - Same as /videos/chat, but the answer is sent
+   * token by token as Server-Sent Events:
+   *   event: token  data: {"content": "..."}
+   *   event: done   data: {"sessionId", "creditsUsed", "newBalance"}
+   *   event: error  data: {"error", "refunded"}
+   * Credits are refunded when the stream fails before any content was sent.
+   */
+  fastify.post("/videos/chat/stream", {
+    preHandler: [fastify.authenticate, fastify.requirePlanAction("ask_ai")],
+    handler: async (request, reply) => {
+      let body: z.infer<typeof chatSchema>;
+      let chat: Exclude<Awaited<ReturnType<typeof prepareVideoChat>>, { error: string }>;
+      const userId = request.user.id;
+      let creditsUsed = 0;
+      let newBalance: number | undefined;
+      let chargeTransactionId: string | undefined;
+
+      // Errors before the stream starts are plain JSON responses
+      try {
+        const parsed = chatSchema.safeParse(request.body);
+        if (!parsed.success) {
+          return reply.status(400).send({ error: parsed.error.issues });
         }
+        body = parsed.data;
 
-        if (!transcript) {
-          console.error("❌ Transcript not found for video:", videoId);
-          return reply.status(404).send({
-            error: "Transcricao nao encontrada. Transcreva o video primeiro.",
-          });
+        if (!process.env.OPENAI_API_KEY) {
+          return reply.status(500).send({ error: "OpenAI nao configurado" });
         }
 
-        let creditsUsed = 0;
-        let newBalance: number | undefined;
+        const prepared = await prepareVideoChat(
+          body.videoId,
+          userId,
+          body.question,
+          body.sessionId
+        );
+        if (prepared.error) {
+          return reply.status(prepared.status).send({ error: prepared.error });
+        }
+        chat = prepared;
 
-        if (userRole === "creator") {
-          const chatCost = calculateAIChatCost();
+        if (request.user.role === "creator") {
+          const chatCost = await quoteAICredits(
+            "video_chat",
+            chat.promptTokens + VIDEO_CHAT_ANSWER_TOKENS
+          );
           await ensureSubscriptionCreditsSafely(userId);
           const balance = await getUserCredits(userId);
           if (balance < chatCost) {
@@ -482,8 +1285,8 @@ export async function videoRoutes(fastify: FastifyInstance) {
           const deductResult = await deductCredits(
             userId,
             chatCost,
-            `Pergunta IA: ${video.title}`,
-            videoId,
+            `Pergunta IA: ${chat.video.title}`,
+            body.videoId,
             "ai_chat"
           );
 
@@ -495,35 +1298,128 @@ export async function videoRoutes(fastify: FastifyInstance) {
 
           creditsUsed = chatCost;
           newBalance = deductResult.newBalance;
+          chargeTransactionId = deductResult.transactionId;
         }
+      } catch (error: any) {
+        console.error("AI chat stream error:", error);
+        return reply.status(500).send({
+          error: error.message || "Falha ao processar solicitacao de chat",
+        });
+      }
 
-        // 3. Generate AI response
-        console.log("🤖 Generating AI response for video:", videoId);
-        console.log("🤖 Question:", question);
-        console.log("🤖 Video title:", video.title);
-        const { response, error } = await generateAIResponse(
-          transcript.content,
-          question,
-          video.title
-        );
+      // From here on the response is written by hand (CORS headers set by
+      // the onRequest hooks are copied over)
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        ...(reply.getHeaders() as Record<string, string>),
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+
+      const sendEvent = (event: string, data: unknown) => {
+        if (!reply.raw.writableEnded && !reply.raw.destroyed) {
+          reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+      };
 
-        if (error || !response) {
-          return reply.status(500).send({
-            error: error || "Falha ao gerar resposta da IA",
+      // Stop generating (and paying OpenAI) when the client goes away
+      const abortController = new AbortController();
+      reply.raw.on("close", () => abortController.abort());
+
+      let response = "";
+      let usage: AIUsage | undefined;
+      let refunded = false;
+      try {
+        for await (const token of streamAIResponse(
+          chat.transcriptText,
+          body.question,
+          chat.video.title,
+          chat.history,
+          {
+            signal: abortController.signal,
+            onUsage: (reported) => (usage = reported),
+          }
+        )) {
+          response += token;
+          sendEvent("token", { content: token });
+        }
+
+        if (!response) {
+          throw new Error("Falha ao gerar resposta da IA");
+        }
+
+        let savedSessionId: string | null = null;
+        try {
+          savedSessionId = await saveChatTurn({
+            sessionId: chat.session?.id,
+            userId,
+            videoId: body.videoId,
+            question: body.question,
+            response,
+            creditsUsed,
           });
+        } catch (saveError) {
+          console.error("❌ Failed to save AI chat turn:", saveError);
         }
 
-        return {
-          response,
-          videoId,
-          question,
-          creditsUsed,
-          newBalance,
-        };
+        await incrementUsage(userId, "ai_question");
+
+        sendEvent("done", { sessionId: savedSessionId, creditsUsed, newBalance });
       } catch (error: any) {
-        console.error("AI chat error:", error);
-        return reply.status(500).send({
-          error: error.message || "Falha ao processar solicitacao de chat",
+        const aborted = abortController.signal.aborted;
+        if (!aborted) {
+          console.error("❌ AI chat stream failed:", error);
+        }
+
+        // Nothing reached the user: give the credits back
+        if (!response && creditsUsed > 0) {
+          const refund = await addCredits(
+            userId,
+            creditsUsed,
+            `Estorno pergunta IA: ${chat.video.title}`,
+            body.videoId,
+            "ai_chat",
+            "refund",
+            chargeTransactionId && `refund:${chargeTransactionId}`
+          );
+          refunded = refund.success;
+          if (!refund.success) {
+            console.error("❌ Failed to refund AI chat credits:", {
+              userId,
+              videoId: body.videoId,
+              error: refund.error,
+            });
+          }
+        }
+
+        sendEvent("error", {
+          error: error.message || "Falha ao gerar resposta da IA",
+          refunded,
+        });
+      } finally {
+        reply.raw.end();
+      }
+
+      // Interrupted streams report no usage: estimate what was generated
+      const streamUsage: AIUsage | undefined =
+        usage ??
+        (response
+          ? {
+              model: CHAT_MODEL,
+              promptTokens: chat.promptTokens,
+              completionTokens: estimateTokens(response),
+            }
+          : undefined);
+      if (streamUsage) {
+        await recordAIUsage({
+          userId,
+          feature: "video_chat",
+          usage: streamUsage,
+          creditsCharged: refunded ? 0 : creditsUsed,
+          relatedId: body.videoId,
+          relatedType: "video",
         });
       }
     },
@@ -531,12 +1427,21 @@ export async function videoRoutes(fastify: FastifyInstance) {
 
   // Create a video/lesson for a course (creators only)
   fastify.post("/videos", {
-    preHandler: [fastify.authenticate],
+    preHandler: [
+      fastify.authenticate,
+      fastify.requirePlanAction("upload_video"),
+    ],
     handler: async (request, reply) => {
       try {
-        const { courseId, title, r2Key, duration } = createVideoSchema.parse(
-          request.body
-        );
+        const {
+          courseId,
+          title,
+          r2Key,
+          duration,
+          sectionId,
+          position,
+          language,
+        } = createVideoSchema.parse(request.body);
         const creatorId = request.user.id;
 
         // Verify the course exists and belongs to the creator
@@ -565,6 +1470,12 @@ export async function videoRoutes(fastify: FastifyInstance) {
             .send({ message: "Curso atingiu o limite de 500 videos" });
         }
 
+        if (sectionId && !(await isSectionInCourse(sectionId, courseId))) {
+          return reply
+            .status(400)
+            .send({ message: "Modulo nao pertence a este curso" });
+        }
+
         // Calculate credit cost if duration is provided
         let creditCost = 0;
         if (duration && duration > 0) {
@@ -592,7 +1503,7 @@ export async function videoRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Create the video
+        // Create the video (appended to the end of its section by default)
         const newVideo = await db
           .insert(videos)
           .values({
@@ -600,10 +1511,16 @@ export async function videoRoutes(fastify: FastifyInstance) {
             title,
             r2Key,
             duration,
+            language: language ?? null,
+            sectionId: sectionId ?? null,
+            position:
+              position ?? (await getNextVideoPosition(courseId, sectionId ?? null)),
           })
           .returning();
 
-        void backupFileToR2(r2Key);
+        if (isR2BackupConfigured()) {
+          await enqueueJob<R2BackupJobPayload>(R2_BACKUP_JOB, { key: r2Key });
+        }
 
         // Deduct credits if cost > 0
         if (creditCost > 0) {
@@ -612,7 +1529,8 @@ export async function videoRoutes(fastify: FastifyInstance) {
             creditCost,
             `Upload video: ${title} (${Math.ceil(duration! / 60)} minutes)`,
             newVideo[0].id,
-            "video"
+            "video",
+            `video_upload:${newVideo[0].id}`
           );
 
           if (!deductResult.success) {
@@ -626,6 +1544,8 @@ export async function videoRoutes(fastify: FastifyInstance) {
             });
           }
 
+          await incrementUsage(creatorId, "video");
+
           return reply.status(201).send({
             message: "Video criado com sucesso",
             video: newVideo[0],
@@ -634,6 +1554,8 @@ export async function videoRoutes(fastify: FastifyInstance) {
           });
         }
 
+        await incrementUsage(creatorId, "video");
+
         return reply.status(201).send({
           message: "Video criado com sucesso",
           video: newVideo[0],
@@ -687,10 +1609,8 @@ export async function videoRoutes(fastify: FastifyInstance) {
           }
         }
 
-        // Get all videos for the course
-        const courseVideos = await db.query.videos.findMany({
-          where: eq(videos.courseId, courseId),
-        });
+        // Get all videos for the course, following sections + positions
+        const courseVideos = await getOrderedCourseVideos(courseId);
 
         return courseVideos;
       } catch (error) {
@@ -744,7 +1664,11 @@ export async function videoRoutes(fastify: FastifyInstance) {
           }
         }
 
-        return video;
+        return {
+          ...video,
+          transcription: getTranscriptionState(video),
+          transcriptLanguages: await listTranscriptLanguages(videoId),
+        };
       } catch (error) {
         console.error("Error fetching video:", error);
         return reply.status(500).send({ message: "Falha ao buscar video" });
@@ -780,6 +1704,27 @@ export async function videoRoutes(fastify: FastifyInstance) {
           });
         }
 
+        if (
+          updateData.sectionId &&
+          !(await isSectionInCourse(updateData.sectionId, video.courseId))
+        ) {
+          return reply
+            .status(400)
+            .send({ message: "Modulo nao pertence a este curso" });
+        }
+
+        // Moving to another section without a position appends to its end
+        if (
+          updateData.sectionId !== undefined &&
+          updateData.sectionId !== video.sectionId &&
+          updateData.position === undefined
+        ) {
+          updateData.position = await getNextVideoPosition(
+            video.courseId,
+            updateData.sectionId
+          );
+        }
+
         // If r2Key is being updated, delete old video file
         if (updateData.r2Key && video.r2Key !== updateData.r2Key) {
           await deleteFileFromR2(video.r2Key);
@@ -788,7 +1733,7 @@ export async function videoRoutes(fastify: FastifyInstance) {
         // Update the video
         const updatedVideo = await db
           .update(videos)
-          .set(updateData)
+          .set({ ...updateData, updatedAt: new Date() })
           .where(eq(videos.id, videoId))
           .returning();
 
@@ -851,6 +1796,257 @@ export async function videoRoutes(fastify: FastifyInstance) {
     },
   });
 
+  // ==========================================================================
+  // COURSE SECTIONS (modules) + LESSON ORDERING
+  // ==========================================================================
+
+  // Get the section -> lesson tree of a course
+  fastify.get("/courses/:courseId/sections", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { courseId } = request.params as { courseId: string };
+
+        const course = await db.query.courses.findFirst({
+          where: eq(courses.id, courseId),
+        });
+
+        if (!course) {
+          return reply.status(404).send({ message: "Curso nao encontrado" });
+        }
+
+        const outline = await getCourseOutline(courseId);
+
+        return { courseId, ...outline };
+      } catch (error) {
+        console.error("Error fetching course sections:", error);
+        return reply.status(500).send({ message: "Falha ao buscar modulos" });
+      }
+    },
+  });
+
+  // Create a section in a course (creators only)
+  fastify.post("/courses/:courseId/sections", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { courseId } = request.params as { courseId: string };
+        const { title, position } = createSectionSchema.parse(request.body);
+        const creatorId = request.user.id;
+
+        const course = await db.query.courses.findFirst({
+          where: eq(courses.id, courseId),
+        });
+
+        if (!course) {
+          return reply.status(404).send({ message: "Curso nao encontrado" });
+        }
+
+        if (course.creatorId !== creatorId) {
+          return reply.status(403).send({
+            message: "Voce so pode criar modulos nos seus proprios cursos",
+          });
+        }
+
+        const [section] = await db
+          .insert(courseSections)
+          .values({
+            courseId,
+            title,
+            position: position ?? (await getNextSectionPosition(courseId)),
+          })
+          .returning();
+
+        return reply.status(201).send({
+          message: "Modulo criado com sucesso",
+          section,
+        });
+      } catch (error) {
+        console.error("Error creating section:", error);
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        return reply.status(500).send({ message: "Falha ao criar modulo" });
+      }
+    },
+  });
+
+  // Update a section (creators only)
+  fastify.put("/sections/:sectionId", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { sectionId } = request.params as { sectionId: string };
+        const updateData = updateSectionSchema.parse(request.body);
+        const creatorId = request.user.id;
+
+        const section = await db.query.courseSections.findFirst({
+          where: eq(courseSections.id, sectionId),
+          with: {
+            course: true,
+          },
+        });
+
+        if (!section) {
+          return reply.status(404).send({ message: "Modulo nao encontrado" });
+        }
+
+        if (section.course.creatorId !== creatorId) {
+          return reply.status(403).send({
+            message: "Voce so pode atualizar modulos dos seus proprios cursos",
+          });
+        }
+
+        const [updatedSection] = await db
+          .update(courseSections)
+          .set({ ...updateData, updatedAt: new Date() })
+          .where(eq(courseSections.id, sectionId))
+          .returning();
+
+        return {
+          message: "Modulo atualizado com sucesso",
+          section: updatedSection,
+        };
+      } catch (error) {
+        console.error("Error updating section:", error);
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        return reply.status(500).send({ message: "Falha ao atualizar modulo" });
+      }
+    },
+  });
+
+  // Delete a section (creators only). Its lessons become unsectioned.
+  fastify.delete("/sections/:sectionId", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { sectionId } = request.params as { sectionId: string };
+        const creatorId = request.user.id;
+
+        const section = await db.query.courseSections.findFirst({
+          where: eq(courseSections.id, sectionId),
+          with: {
+            course: true,
+          },
+        });
+
+        if (!section) {
+          return reply.status(404).send({ message: "Modulo nao encontrado" });
+        }
+
+        if (section.course.creatorId !== creatorId) {
+          return reply.status(403).send({
+            message: "Voce so pode deletar modulos dos seus proprios cursos",
+          });
+        }
+
+        // videos.section_id is ON DELETE SET NULL
+        await db.delete(courseSections).where(eq(courseSections.id, sectionId));
+
+        return { message: "Modulo deletado com sucesso" };
+      } catch (error) {
+        console.error("Error deleting section:", error);
+        return reply.status(500).send({ message: "Falha ao deletar modulo" });
+      }
+    },
+  });
+
+  // Bulk reorder sections of a course (creators only)
+  fastify.put("/courses/:courseId/sections/reorder", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { courseId } = request.params as { courseId: string };
+        const { sectionIds } = reorderSectionsSchema.parse(request.body);
+        const creatorId = request.user.id;
+
+        const course = await db.query.courses.findFirst({
+          where: eq(courses.id, courseId),
+        });
+
+        if (!course) {
+          return reply.status(404).send({ message: "Curso nao encontrado" });
+        }
+
+        if (course.creatorId !== creatorId) {
+          return reply.status(403).send({
+            message: "Voce so pode reordenar modulos dos seus proprios cursos",
+          });
+        }
+
+        const result = await reorderSections(courseId, sectionIds);
+
+        if (!result.success) {
+          return reply.status(400).send({ message: result.error });
+        }
+
+        const outline = await getCourseOutline(courseId);
+
+        return {
+          message: "Modulos reordenados com sucesso",
+          courseId,
+          ...outline,
+        };
+      } catch (error) {
+        console.error("Error reordering sections:", error);
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        return reply
+          .status(500)
+          .send({ message: "Falha ao reordenar modulos" });
+      }
+    },
+  });
+
+  // Bulk move/reorder lessons of a course (creators only)
+  fastify.put("/courses/:courseId/videos/reorder", {
+    preHandler: [fastify.authenticate],
+    handler: async (request, reply) => {
+      try {
+        const { courseId } = request.params as { courseId: string };
+        const { items } = reorderLessonsSchema.parse(request.body);
+        const creatorId = request.user.id;
+
+        const course = await db.query.courses.findFirst({
+          where: eq(courses.id, courseId),
+        });
+
+        if (!course) {
+          return reply.status(404).send({ message: "Curso nao encontrado" });
+        }
+
+        if (course.creatorId !== creatorId) {
+          return reply.status(403).send({
+            message: "Voce so pode reordenar videos dos seus proprios cursos",
+          });
+        }
+
+        const result = await reorderLessons(courseId, items);
+
+        if (!result.success) {
+          return reply.status(400).send({ message: result.error });
+        }
+
+        const outline = await getCourseOutline(courseId);
+
+        return {
+          message: "Aulas reordenadas com sucesso",
+          courseId,
+          ...outline,
+        };
+      } catch (error) {
+        console.error("Error reordering videos:", error);
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({ error: error.issues });
+        }
+        return reply.status(500).send({ message: "Falha ao reordenar videos" });
+      }
+    },
+  });
+
   // Generate streaming URL for a video
   fastify.get("/videos/:videoId/stream", {
     preHandler: [fastify.authenticate],
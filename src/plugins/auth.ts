@@ -1,15 +1,22 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import fp from "fastify-plugin";
 import * as jwt from "jsonwebtoken";
+import { isSessionActive } from "../services/auth-sessions";
+import { getUserRoles } from "../services/accounts";
 
 declare module "fastify" {
   interface FastifyInstance {
     authenticate(request: FastifyRequest, reply: FastifyReply): Promise<void>;
+    requireRole(
+      ...roles: string[]
+    ): (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
   }
   interface FastifyRequest {
     user: {
       id: string;
-      role: string;
+      role: string; // Active role
+      roles: string[]; // Every role the user holds
+      sessionId?: string;
     };
   }
 }
@@ -36,10 +43,26 @@ export default fp(async (fastify: FastifyInstance) => {
         const decoded = jwt.verify(token, process.env.JWT_SECRET!) as {
           id: string;
           role: string;
+          roles?: string[];
+          sid?: string;
           exp?: number;
         };
 
-        request.user = { id: decoded.id, role: decoded.role };
+        // Tokens bound to a session stop working once it is revoked
+        if (decoded.sid && !(await isSessionActive(decoded.sid))) {
+          return reply.code(401).send({
+            message: "Sessao encerrada",
+            code: "SESSION_REVOKED",
+          });
+        }
+
+        request.user = {
+          id: decoded.id,
+          role: decoded.role,
+          // Tokens issued before multi-role support only carry `role`
+          roles: decoded.roles ?? [decoded.role],
+          sessionId: decoded.sid,
+        };
       } catch (err: any) {
         // Differentiate between expired and invalid tokens
         const isExpired = err.name === "TokenExpiredError";
@@ -50,4 +73,29 @@ export default fp(async (fastify: FastifyInstance) => {
       }
     }
   );
+
+  /**
+   * Allow only users holding one of the roles. Must run after authenticate.
+   * Roles are read from the database so a removed role stops working
+   * before the access token expires.
+   */
+  fastify.decorate("requireRole", (...roles: string[]) => {
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.user?.id) {
+        return reply.code(401).send({
+          message: "Token de acesso ausente",
+          code: "MISSING_TOKEN",
+        });
+      }
+
+      const userRoles = await getUserRoles(request.user.id);
+
+      if (!roles.some((role) => userRoles.includes(role))) {
+        return reply.code(403).send({
+          message: "Acesso restrito",
+          code: "INSUFFICIENT_ROLE",
+        });
+      }
+    };
+  });
 });
@@ -0,0 +1,53 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import fp from "fastify-plugin";
+import {
+  canPerformAction,
+  getPlanUpgradeOptions,
+  PlanAction,
+} from "../services/subscriptions";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    requirePlanAction(
+      action: PlanAction
+    ): (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+  }
+}
+
+export default fp(async (fastify: FastifyInstance) => {
+  /**
+   * Block the route when the user's plan does not allow the action (or its
+   * limit was reached). Must run after authenticate. Only checks: the route
+   * calls incrementUsage once the action succeeds.
+   *
+   * 403 PLAN_FEATURE_UNAVAILABLE - the plan does not include the action
+   * 402 PLAN_LIMIT_REACHED - the limit of the period was used up
+   */
+  fastify.decorate("requirePlanAction", (action: PlanAction) => {
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.user?.id) {
+        return reply.code(401).send({
+          message: "Token de acesso ausente",
+          code: "MISSING_TOKEN",
+        });
+      }
+
+      const check = await canPerformAction(request.user.id, action);
+      if (check.allowed) return;
+
+      const upgrade = await getPlanUpgradeOptions(request.user.id, action);
+
+      return reply
+        .code(check.code === "PLAN_FEATURE_UNAVAILABLE" ? 403 : 402)
+        .send({
+          message: check.reason,
+          code: check.code,
+          action,
+          limit: check.limit,
+          used: check.used,
+          currentPlan: upgrade.currentPlan,
+          upgradePlans: upgrade.upgradePlans,
+        });
+    };
+  });
+});
@@ -0,0 +1,34 @@
+import { FastifyInstance } from "fastify";
+import fp from "fastify-plugin";
+
+declare module "fastify" {
+  interface FastifyContextConfig {
+    // Keep the exact bytes of the JSON body in request.rawBody
+    rawBody?: boolean;
+  }
+  interface FastifyRequest {
+    rawBody?: Buffer;
+  }
+}
+
+/**
+ * JSON parser that also keeps the raw body for routes with
+ * `config: { rawBody: true }` (Stripe signs the bytes it sent, not the
+ * re-serialized object). Parsing itself is Fastify's default.
+ */
+export default fp(async (fastify: FastifyInstance) => {
+  const parseJson = fastify.getDefaultJsonParser("error", "ignore");
+
+  fastify.removeContentTypeParser("application/json");
+  fastify.addContentTypeParser(
+    "application/json",
+    { parseAs: "buffer" },
+    (request, body, done) => {
+      const raw = body as Buffer;
+      if (request.routeOptions.config?.rawBody) {
+        request.rawBody = raw;
+      }
+      parseJson(request, raw.toString("utf8"), done);
+    }
+  );
+});
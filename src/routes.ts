@@ -1,4 +1,5 @@
 import { FastifyInstance } from "fastify";
+import { authRoutes } from "./modules/auth/auth.routes";
 import { creatorRoutes } from "./modules/creators/creators.routes";
 import { studentRoutes } from "./modules/students/students.routes";
 import { videoRoutes } from "./modules/videos/videos.routes";
@@ -11,12 +12,19 @@ import { leadsRoutes } from "./modules/leads/leads.routes";
 import { subscriptionRoutes } from "./modules/subscriptions/subscriptions.routes";
 import { gamificationRoutes } from "./modules/gamification/gamification.routes";
 import { messagesRoutes } from "./modules/messages/messages.routes";
+import { progressRoutes } from "./modules/progress/progress.routes";
+import { adminRoutes } from "./modules/admin/admin.routes";
+import { jobRoutes } from "./modules/jobs/jobs.routes";
+import { tutorRoutes } from "./modules/tutor/tutor.routes";
+import { aiChatRoutes } from "./modules/ai-chat/ai-chat.routes";
+import { couponRoutes } from "./modules/coupons/coupons.routes";
 
 export async function routes(fastify: FastifyInstance) {
   fastify.get("/health", async (request, reply) => {
     return { status: "ok" };
   });
 
+  fastify.register(authRoutes, { prefix: "/api" });
   fastify.register(creatorRoutes, { prefix: "/api" });
   fastify.register(studentRoutes, { prefix: "/api" });
   fastify.register(videoRoutes, { prefix: "/api" });
@@ -29,4 +37,10 @@ export async function routes(fastify: FastifyInstance) {
   fastify.register(subscriptionRoutes, { prefix: "/api" });
   fastify.register(gamificationRoutes, { prefix: "/api" });
   fastify.register(messagesRoutes, { prefix: "/api" });
+  fastify.register(progressRoutes, { prefix: "/api" });
+  fastify.register(jobRoutes, { prefix: "/api" });
+  fastify.register(tutorRoutes, { prefix: "/api" });
+  fastify.register(aiChatRoutes, { prefix: "/api" });
+  fastify.register(couponRoutes, { prefix: "/api" });
+  fastify.register(adminRoutes, { prefix: "/api/admin" });
 }
@@ -1,6 +1,8 @@
 import Fastify, { FastifyError } from "fastify";
 import { routes } from "./routes";
 import authPlugin from "./plugins/auth";
+import planLimitsPlugin from "./plugins/plan-limits";
+import rawBodyPlugin from "./plugins/raw-body";
 
 const fastify = Fastify({
   logger: true,
@@ -163,7 +165,9 @@ fastify.addHook("preSerialization", async (request, reply, payload) => {
   return normalized;
 });
 
+fastify.register(rawBodyPlugin);
 fastify.register(authPlugin);
+fastify.register(planLimitsPlugin);
 fastify.register(routes);
 
 export { fastify };
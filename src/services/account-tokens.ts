@@ -0,0 +1,274 @@
+/**
+ * Account Tokens Service
+ * Single-use, expiring tokens for password reset and email verification
+ */
+
+import { createHash, randomBytes } from "crypto";
+import * as bcrypt from "bcrypt";
+import { db } from "../db";
+import {
+  users,
+  passwordResetTokens,
+  emailVerificationTokens,
+} from "../db/schema";
+import { eq, and, isNull, gt, desc, sql } from "drizzle-orm";
+import { sendPasswordResetEmail, sendEmailVerificationEmail } from "./email";
+import { revokeAllUserSessions } from "./auth-sessions";
+
+export const PASSWORD_RESET_TOKEN_TTL_MINUTES = 60;
+export const EMAIL_VERIFICATION_TOKEN_TTL_HOURS = 48;
+
+// Minimum interval between two emails of the same kind for one user
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function generateToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, hash: hashToken(token) };
+}
+
+function buildFrontendUrl(path: string, token: string): string | null {
+  const frontendUrl = process.env.FRONTEND_URL?.replace(/\/$/, "");
+  if (!frontendUrl) {
+    return null;
+  }
+  return `${frontendUrl}${path}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Check if the user's email was confirmed
+ */
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { emailVerifiedAt: true },
+  });
+
+  return !!user?.emailVerifiedAt;
+}
+
+// ============================================================================
+// PASSWORD RESET
+// ============================================================================
+
+/**
+ * Create a reset token and email it. Unknown emails are silently ignored
+ * so the endpoint cannot be used to discover accounts.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.email, email),
+    columns: { id: true, email: true, username: true },
+  });
+
+  if (!user) {
+    return;
+  }
+
+  const latestToken = await db.query.passwordResetTokens.findFirst({
+    where: eq(passwordResetTokens.userId, user.id),
+    orderBy: [desc(passwordResetTokens.createdAt)],
+  });
+
+  if (
+    latestToken?.createdAt &&
+    Date.now() - latestToken.createdAt.getTime() < RESEND_COOLDOWN_MS
+  ) {
+    return;
+  }
+
+  // Only the most recent link stays valid
+  await db
+    .update(passwordResetTokens)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(passwordResetTokens.userId, user.id),
+        isNull(passwordResetTokens.usedAt)
+      )
+    );
+
+  const { token, hash } = generateToken();
+  await db.insert(passwordResetTokens).values({
+    userId: user.id,
+    tokenHash: hash,
+    expiresAt: new Date(
+      Date.now() + PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000
+    ),
+  });
+
+  const resetUrl = buildFrontendUrl("/reset-password", token);
+  if (!resetUrl) {
+    console.error("FRONTEND_URL nao configurado. Email de senha nao enviado.");
+    return;
+  }
+
+  const result = await sendPasswordResetEmail({
+    toEmail: user.email,
+    toName: user.username,
+    resetUrl,
+    expiresInMinutes: PASSWORD_RESET_TOKEN_TTL_MINUTES,
+  });
+
+  if (!result.success) {
+    console.error("Falha ao enviar email de redefinicao de senha:", {
+      userId: user.id,
+      skipped: result.skipped,
+      error: result.error,
+    });
+  }
+}
+
+/**
+ * Consume a reset token and set the new password.
+ * Every open session is revoked afterwards.
+ */
+export async function resetPassword(
+  token: string,
+  newPassword: string
+): Promise<{ success: boolean; error?: string }> {
+  const [consumed] = await db
+    .update(passwordResetTokens)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(passwordResetTokens.tokenHash, hashToken(token)),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date())
+      )
+    )
+    .returning({ userId: passwordResetTokens.userId });
+
+  if (!consumed) {
+    return { success: false, error: "Link invalido ou expirado" };
+  }
+
+  const passwordHash = await bcrypt.hash(newPassword, 10);
+
+  // Receiving the reset link also proves ownership of the email
+  await db
+    .update(users)
+    .set({
+      passwordHash,
+      emailVerifiedAt: sql`COALESCE(${users.emailVerifiedAt}, NOW())`,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, consumed.userId));
+
+  await revokeAllUserSessions(consumed.userId, "password_reset");
+
+  return { success: true };
+}
+
+// ============================================================================
+// EMAIL VERIFICATION
+// ============================================================================
+
+/**
+ * Create a verification token and email it
+ */
+export async function sendVerificationEmail(
+  userId: string
+): Promise<{ success: boolean; error?: string; code?: string }> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: {
+      id: true,
+      email: true,
+      username: true,
+      emailVerifiedAt: true,
+    },
+  });
+
+  if (!user) {
+    return { success: false, error: "Usuario nao encontrado" };
+  }
+
+  if (user.emailVerifiedAt) {
+    return {
+      success: false,
+      error: "Email ja confirmado",
+      code: "EMAIL_ALREADY_VERIFIED",
+    };
+  }
+
+  const latestToken = await db.query.emailVerificationTokens.findFirst({
+    where: eq(emailVerificationTokens.userId, user.id),
+    orderBy: [desc(emailVerificationTokens.createdAt)],
+  });
+
+  if (
+    latestToken?.createdAt &&
+    Date.now() - latestToken.createdAt.getTime() < RESEND_COOLDOWN_MS
+  ) {
+    return {
+      success: false,
+      error: "Aguarde um minuto antes de pedir outro email",
+      code: "TOO_MANY_REQUESTS",
+    };
+  }
+
+  const { token, hash } = generateToken();
+  await db.insert(emailVerificationTokens).values({
+    userId: user.id,
+    tokenHash: hash,
+    expiresAt: new Date(
+      Date.now() + EMAIL_VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000
+    ),
+  });
+
+  const verifyUrl = buildFrontendUrl("/verify-email", token);
+  if (!verifyUrl) {
+    return { success: false, error: "FRONTEND_URL nao configurado" };
+  }
+
+  const result = await sendEmailVerificationEmail({
+    toEmail: user.email,
+    toName: user.username,
+    verifyUrl,
+  });
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.skipped
+        ? "Envio de email nao configurado"
+        : result.error || "Falha ao enviar email",
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Consume a verification token and mark the email as confirmed
+ */
+export async function verifyEmail(
+  token: string
+): Promise<{ success: boolean; error?: string }> {
+  const [consumed] = await db
+    .update(emailVerificationTokens)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(emailVerificationTokens.tokenHash, hashToken(token)),
+        isNull(emailVerificationTokens.usedAt),
+        gt(emailVerificationTokens.expiresAt, new Date())
+      )
+    )
+    .returning({ userId: emailVerificationTokens.userId });
+
+  if (!consumed) {
+    return { success: false, error: "Link invalido ou expirado" };
+  }
+
+  await db
+    .update(users)
+    .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(users.id, consumed.userId), isNull(users.emailVerifiedAt)));
+
+  return { success: true };
+}
@@ -0,0 +1,146 @@
+/**
+ * Accounts Service
+ * User registration, credential checks and role capabilities
+ */
+
+import * as bcrypt from "bcrypt";
+import { db } from "../db";
+import { users, userRoles } from "../db/schema";
+import { eq, asc } from "drizzle-orm";
+
+// Roles users can pick on their own (at register or added later)
+export const SELF_SERVICE_ROLES = ["creator", "student"] as const;
+export type SelfServiceRole = (typeof SELF_SERVICE_ROLES)[number];
+
+// Back-office role, only granted by another admin or scripts/grant-admin.js
+export const ADMIN_ROLE = "admin";
+
+export type RegisterErrorCode = "EMAIL_TAKEN" | "USERNAME_TAKEN";
+
+type UserRow = typeof users.$inferSelect;
+
+/**
+ * Get every role a user holds. The primary role (users.role) is always
+ * included so accounts created before user_roles keep working.
+ */
+export async function getUserRoles(
+  userId: string,
+  primaryRole?: string
+): Promise<string[]> {
+  const rows = await db.query.userRoles.findMany({
+    where: eq(userRoles.userId, userId),
+    columns: { role: true },
+    orderBy: [asc(userRoles.createdAt)],
+  });
+
+  const roles = rows.map((row) => row.role);
+  if (primaryRole && !roles.includes(primaryRole)) {
+    roles.unshift(primaryRole);
+  }
+  return roles;
+}
+
+/**
+ * Give a role to a user (no-op if it is already assigned)
+ */
+export async function addUserRole(userId: string, role: string): Promise<void> {
+  await db
+    .insert(userRoles)
+    .values({ userId, role })
+    .onConflictDoNothing({ target: [userRoles.userId, userRoles.role] });
+}
+
+/**
+ * Pick the role a new session acts as: the requested one when the user holds
+ * it, otherwise the primary role
+ */
+export function resolveActiveRole(
+  roles: string[],
+  primaryRole: string,
+  requestedRole?: string
+): string {
+  if (requestedRole && roles.includes(requestedRole)) {
+    return requestedRole;
+  }
+  return primaryRole;
+}
+
+/**
+ * Create a user and assign the first role
+ */
+export async function registerUser(data: {
+  username: string;
+  email: string;
+  password: string;
+  role: SelfServiceRole;
+}): Promise<
+  { user: UserRow; roles: string[] } | { error: string; code: RegisterErrorCode }
+> {
+  const existingUserByEmail = await db.query.users.findFirst({
+    where: eq(users.email, data.email),
+    columns: { id: true },
+  });
+
+  if (existingUserByEmail) {
+    return { error: "Ja existe um usuario com este email", code: "EMAIL_TAKEN" };
+  }
+
+  const existingUserByUsername = await db.query.users.findFirst({
+    where: eq(users.username, data.username),
+    columns: { id: true },
+  });
+
+  if (existingUserByUsername) {
+    return { error: "Nome de usuario ja em uso", code: "USERNAME_TAKEN" };
+  }
+
+  const passwordHash = await bcrypt.hash(data.password, 10);
+
+  const user = await db.transaction(async (tx) => {
+    const [newUser] = await tx
+      .insert(users)
+      .values({
+        username: data.username,
+        email: data.email,
+        passwordHash,
+        role: data.role,
+      })
+      .returning();
+
+    await tx.insert(userRoles).values({ userId: newUser.id, role: data.role });
+
+    return newUser;
+  });
+
+  return { user, roles: [data.role] };
+}
+
+/**
+ * Check email + password. Returns null for unknown email or wrong password.
+ */
+export async function verifyCredentials(
+  email: string,
+  password: string
+): Promise<{ id: string; role: string; suspendedAt: Date | null } | null> {
+  const [user] = await db
+    .select({
+      id: users.id,
+      role: users.role,
+      passwordHash: users.passwordHash,
+      suspendedAt: users.suspendedAt,
+    })
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+
+  if (!user || !user.passwordHash) {
+    return null;
+  }
+
+  const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
+  if (!isPasswordValid) {
+    return null;
+  }
+
+  return { id: user.id, role: user.role, suspendedAt: user.suspendedAt };
+}
@@ -0,0 +1,286 @@
+/**
+ * Admin Service
+ * Back-office queries: users, suspensions, payments, credits and leads
+ */
+
+import { db } from "../db";
+import {
+  users,
+  userRoles,
+  payments,
+  transactions,
+  userSubscriptions,
+  subscriptionEvents,
+  leads,
+} from "../db/schema";
+import {
+  eq,
+  and,
+  or,
+  ilike,
+  isNull,
+  isNotNull,
+  inArray,
+  desc,
+  SQL,
+} from "drizzle-orm";
+import { revokeAllUserSessions } from "./auth-sessions";
+
+export interface PageOptions {
+  limit: number;
+  offset: number;
+}
+
+// Never expose password hashes in back-office listings
+const adminUserColumns = {
+  id: true,
+  username: true,
+  email: true,
+  role: true,
+  stripeAccountId: true,
+  stripeOnboardingComplete: true,
+  emailVerifiedAt: true,
+  suspendedAt: true,
+  suspendedReason: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * List users, optionally searching by username/email and filtering by role
+ * or suspension status
+ */
+export async function listUsers(
+  filters: {
+    search?: string;
+    role?: string;
+    status?: "active" | "suspended";
+  },
+  page: PageOptions
+) {
+  const conditions: SQL[] = [];
+
+  if (filters.search) {
+    const pattern = `%${filters.search.replace(/[%_\\]/g, "\\$&")}%`;
+    conditions.push(
+      or(ilike(users.username, pattern), ilike(users.email, pattern))!
+    );
+  }
+
+  if (filters.role) {
+    const holders = db
+      .select({ userId: userRoles.userId })
+      .from(userRoles)
+      .where(eq(userRoles.role, filters.role));
+    conditions.push(
+      or(eq(users.role, filters.role), inArray(users.id, holders))!
+    );
+  }
+
+  if (filters.status === "suspended") {
+    conditions.push(isNotNull(users.suspendedAt));
+  } else if (filters.status === "active") {
+    conditions.push(isNull(users.suspendedAt));
+  }
+
+  const rows = await db.query.users.findMany({
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+    columns: adminUserColumns,
+    with: { roles: { columns: { role: true } } },
+    orderBy: [desc(users.createdAt)],
+    limit: page.limit,
+    offset: page.offset,
+  });
+
+  return rows.map(({ roles, ...user }) => ({
+    ...user,
+    roles: roles.map((row) => row.role),
+  }));
+}
+
+/**
+ * Get a single user with roles (without password hash)
+ */
+export async function getAdminUser(userId: string) {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: adminUserColumns,
+    with: { roles: { columns: { role: true } } },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const { roles, ...rest } = user;
+  return { ...rest, roles: roles.map((row) => row.role) };
+}
+
+/**
+ * Suspend an account: blocks login/refresh and ends every open session
+ */
+export async function suspendUser(
+  userId: string,
+  reason: string
+): Promise<{ success: boolean; error?: string }> {
+  const [suspended] = await db
+    .update(users)
+    .set({
+      suspendedAt: new Date(),
+      suspendedReason: reason,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId))
+    .returning({ id: users.id });
+
+  if (!suspended) {
+    return { success: false, error: "Usuario nao encontrado" };
+  }
+
+  await revokeAllUserSessions(userId, "account_suspended");
+
+  return { success: true };
+}
+
+/**
+ * Lift a suspension
+ */
+export async function unsuspendUser(
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  const [restored] = await db
+    .update(users)
+    .set({ suspendedAt: null, suspendedReason: null, updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning({ id: users.id });
+
+  if (!restored) {
+    return { success: false, error: "Usuario nao encontrado" };
+  }
+
+  return { success: true };
+}
+
+/**
+ * List Stripe payments (most recent first)
+ */
+export async function listPayments(
+  filters: { userId?: string; status?: string; paymentType?: string },
+  page: PageOptions
+) {
+  const conditions: SQL[] = [];
+  if (filters.userId) conditions.push(eq(payments.userId, filters.userId));
+  if (filters.status) conditions.push(eq(payments.status, filters.status));
+  if (filters.paymentType) {
+    conditions.push(eq(payments.paymentType, filters.paymentType));
+  }
+
+  return db.query.payments.findMany({
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+    with: { user: { columns: { id: true, username: true, email: true } } },
+    orderBy: [desc(payments.createdAt)],
+    limit: page.limit,
+    offset: page.offset,
+  });
+}
+
+/**
+ * List credit transactions of every user (most recent first)
+ */
+export async function listTransactions(
+  filters: { userId?: string; type?: string },
+  page: PageOptions
+) {
+  const conditions: SQL[] = [];
+  if (filters.userId) conditions.push(eq(transactions.userId, filters.userId));
+  if (filters.type) conditions.push(eq(transactions.type, filters.type));
+
+  return db.query.transactions.findMany({
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+    with: { user: { columns: { id: true, username: true, email: true } } },
+    orderBy: [desc(transactions.createdAt)],
+    limit: page.limit,
+    offset: page.offset,
+  });
+}
+
+/**
+ * List subscriptions with their plan (most recent first)
+ */
+export async function listSubscriptions(
+  filters: { userId?: string; status?: string },
+  page: PageOptions
+) {
+  const conditions: SQL[] = [];
+  if (filters.userId) {
+    conditions.push(eq(userSubscriptions.userId, filters.userId));
+  }
+  if (filters.status) {
+    conditions.push(eq(userSubscriptions.status, filters.status));
+  }
+
+  return db.query.userSubscriptions.findMany({
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+    with: {
+      user: { columns: { id: true, username: true, email: true } },
+      plan: {
+        columns: { id: true, name: true, displayName: true, type: true },
+      },
+    },
+    orderBy: [desc(userSubscriptions.createdAt)],
+    limit: page.limit,
+    offset: page.offset,
+  });
+}
+
+/**
+ * History of a subscription (dunning included), most recent first
+ */
+export async function listSubscriptionEvents(subscriptionId: string) {
+  return db.query.subscriptionEvents.findMany({
+    where: eq(subscriptionEvents.subscriptionId, subscriptionId),
+    orderBy: [desc(subscriptionEvents.createdAt)],
+  });
+}
+
+/**
+ * All leads, optionally filtered by type (most recent first)
+ */
+export async function listLeads(type?: string) {
+  return db.query.leads.findMany({
+    where: type ? eq(leads.type, type) : undefined,
+    orderBy: [desc(leads.createdAt)],
+  });
+}
+
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  // Prevent formula injection when the file is opened in a spreadsheet
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Serialize leads as CSV (header + one line per lead)
+ */
+export function leadsToCsv(rows: Array<typeof leads.$inferSelect>): string {
+  const columns = [
+    "id",
+    "name",
+    "email",
+    "phone",
+    "type",
+    "source",
+    "utmSource",
+    "utmMedium",
+    "utmCampaign",
+    "createdAt",
+  ] as const;
+
+  const lines = rows.map((row) =>
+    columns.map((column) => toCsvValue(row[column])).join(",")
+  );
+
+  return [columns.join(","), ...lines].join("\n");
+}
@@ -0,0 +1,233 @@
+/**
+ * AI Chat Sessions Service
+ * Stores the conversations with the video mentor, so students can come
+ * back to them and ask follow-up questions with the earlier turns as context
+ */
+
+import { db } from "../db";
+import { aiChatSessions, aiChatMessages, videos } from "../db/schema";
+import { eq, ne, and, desc, sql } from "drizzle-orm";
+import { ChatTurn } from "./openai-chat";
+import { estimateTokens } from "./ai-usage";
+
+export type AIChatSession = typeof aiChatSessions.$inferSelect;
+export type AIChatMessage = typeof aiChatMessages.$inferSelect;
+
+// Tokens of earlier turns sent with each question (the transcript comes on top)
+const HISTORY_TOKEN_BUDGET = Number(
+  process.env.AI_CHAT_HISTORY_TOKEN_BUDGET || 2000
+);
+
+// Most recent messages considered for the history
+const HISTORY_MAX_MESSAGES = 40;
+
+// A question only shows up for the creator once this many students asked it
+const TOP_QUESTIONS_MIN_STUDENTS = 2;
+
+const SESSION_TITLE_MAX_CHARS = 100;
+
+/**
+ * Start a session about a video
+ */
+export async function createChatSession(
+  userId: string,
+  videoId: string,
+  title?: string
+): Promise<AIChatSession> {
+  const [session] = await db
+    .insert(aiChatSessions)
+    .values({ userId, videoId, title: title || null })
+    .returning();
+
+  return session;
+}
+
+/**
+ * Sessions of a user, most recent first (optionally about one video)
+ */
+export async function listChatSessions(userId: string, videoId?: string) {
+  return db
+    .select({
+      id: aiChatSessions.id,
+      videoId: aiChatSessions.videoId,
+      videoTitle: videos.title,
+      title: aiChatSessions.title,
+      lastMessageAt: aiChatSessions.lastMessageAt,
+      createdAt: aiChatSessions.createdAt,
+      messagesCount: sql<number>`(
+        SELECT count(*) FROM ${aiChatMessages}
+        WHERE ${aiChatMessages.sessionId} = ${aiChatSessions.id}
+      )`.mapWith(Number),
+    })
+    .from(aiChatSessions)
+    .innerJoin(videos, eq(videos.id, aiChatSessions.videoId))
+    .where(
+      videoId
+        ? and(eq(aiChatSessions.userId, userId), eq(aiChatSessions.videoId, videoId))
+        : eq(aiChatSessions.userId, userId)
+    )
+    .orderBy(
+      desc(sql`coalesce(${aiChatSessions.lastMessageAt}, ${aiChatSessions.createdAt})`)
+    );
+}
+
+/**
+ * A session of the user (null when it does not exist or belongs to someone else)
+ */
+export async function getChatSession(
+  sessionId: string,
+  userId: string
+): Promise<AIChatSession | null> {
+  const session = await db.query.aiChatSessions.findFirst({
+    where: and(eq(aiChatSessions.id, sessionId), eq(aiChatSessions.userId, userId)),
+  });
+  return session ?? null;
+}
+
+/**
+ * All messages of a session, oldest first
+ */
+export async function getChatMessages(sessionId: string): Promise<AIChatMessage[]> {
+  return db.query.aiChatMessages.findMany({
+    where: eq(aiChatMessages.sessionId, sessionId),
+    orderBy: [aiChatMessages.createdAt],
+  });
+}
+
+/**
+ * Latest turns of a session that fit in the token budget, oldest first
+ */
+export async function buildChatHistory(
+  sessionId: string,
+  tokenBudget: number = HISTORY_TOKEN_BUDGET
+): Promise<ChatTurn[]> {
+  const recent = await db.query.aiChatMessages.findMany({
+    where: eq(aiChatMessages.sessionId, sessionId),
+    orderBy: [desc(aiChatMessages.createdAt)],
+    limit: HISTORY_MAX_MESSAGES,
+  });
+
+  const history: ChatTurn[] = [];
+  let tokens = 0;
+
+  for (const message of recent) {
+    tokens += estimateTokens(message.content);
+    if (tokens > tokenBudget) break;
+    history.unshift({
+      role: message.role === "assistant" ? "assistant" : "user",
+      content: message.content,
+    });
+  }
+
+  // Never start the history with an answer whose question was cut off
+  while (history.length > 0 && history[0].role === "assistant") {
+    history.shift();
+  }
+
+  return history;
+}
+
+/**
+ * Save a question and its answer. Without a session, one is created (titled
+ * after the question).
+ *
+ * @returns The session id
+ */
+export async function saveChatTurn(turn: {
+  sessionId?: string;
+  userId: string;
+  videoId: string;
+  question: string;
+  response: string;
+  creditsUsed: number;
+}): Promise<string> {
+  return db.transaction(async (tx) => {
+    let sessionId = turn.sessionId;
+
+    if (!sessionId) {
+      const [session] = await tx
+        .insert(aiChatSessions)
+        .values({ userId: turn.userId, videoId: turn.videoId })
+        .returning({ id: aiChatSessions.id });
+      sessionId = session.id;
+    }
+
+    const now = new Date();
+    await tx.insert(aiChatMessages).values([
+      { sessionId, role: "user", content: turn.question, createdAt: now },
+      {
+        sessionId,
+        role: "assistant",
+        content: turn.response,
+        creditsUsed: turn.creditsUsed,
+        // Keeps the answer after its question when ordering by date
+        createdAt: new Date(now.getTime() + 1),
+      },
+    ]);
+
+    await tx
+      .update(aiChatSessions)
+      .set({
+        title: sql`coalesce(${aiChatSessions.title}, ${turn.question.slice(0, SESSION_TITLE_MAX_CHARS)})`,
+        lastMessageAt: now,
+        updatedAt: now,
+      })
+      .where(eq(aiChatSessions.id, sessionId));
+
+    return sessionId;
+  });
+}
+
+/**
+ * Delete a session of the user with its messages
+ */
+export async function deleteChatSession(
+  sessionId: string,
+  userId: string
+): Promise<boolean> {
+  const deleted = await db
+    .delete(aiChatSessions)
+    .where(and(eq(aiChatSessions.id, sessionId), eq(aiChatSessions.userId, userId)))
+    .returning({ id: aiChatSessions.id });
+
+  return deleted.length > 0;
+}
+
+/**
+ * Most asked questions about a video, for its creator
+ *
+ * Anonymized: questions are grouped by normalized text, no user is returned
+ * and only questions asked by several students are listed. The creator's
+ * own questions are left out.
+ */
+export async function getTopVideoQuestions(
+  videoId: string,
+  creatorId: string,
+  limit: number = 10
+) {
+  const normalized = sql<string>`lower(regexp_replace(trim(trailing '?!. ' from trim(${aiChatMessages.content})), '\\s+', ' ', 'g'))`;
+  const studentsCount = sql<number>`count(distinct ${aiChatSessions.userId})`.mapWith(Number);
+
+  return db
+    .select({
+      question: normalized,
+      askedCount: sql<number>`count(*)`.mapWith(Number),
+      studentsCount,
+      lastAskedAt: sql<Date>`max(${aiChatMessages.createdAt})`.mapWith(
+        aiChatMessages.createdAt
+      ),
+    })
+    .from(aiChatMessages)
+    .innerJoin(aiChatSessions, eq(aiChatSessions.id, aiChatMessages.sessionId))
+    .where(
+      and(
+        eq(aiChatSessions.videoId, videoId),
+        eq(aiChatMessages.role, "user"),
+        ne(aiChatSessions.userId, creatorId)
+      )
+    )
+    .groupBy(normalized)
+    .having(sql`count(distinct ${aiChatSessions.userId}) >= ${TOP_QUESTIONS_MIN_STUDENTS}`)
+    .orderBy(desc(studentsCount), desc(sql`count(*)`))
+    .limit(limit);
+}
@@ -0,0 +1,287 @@
+/**
+ * AI Usage Service
+ * Meters every OpenAI operation (tokens, USD cost, credits charged), prices
+ * AI features in credits (flat or by tokens) and reports the margin per feature
+ */
+
+import { db } from "../db";
+import { aiUsageEvents, aiPricing } from "../db/schema";
+import { eq, and, gte, lt, sql, SQL } from "drizzle-orm";
+import { calculateAIChatCost } from "./video-cost";
+
+export type AIFeature =
+  | "video_chat"
+  | "course_chat"
+  | "quiz_generation"
+  | "transcript_translation"
+  | "transcription"
+  | "course_index";
+
+// Features charged through the ai_pricing table (the others keep their own
+// cost calculators, see video-cost.ts and quiz-generator.ts)
+export const PRICED_AI_FEATURES: AIFeature[] = ["video_chat", "course_chat"];
+
+/**
+ * What one operation consumed, as reported by the OpenAI API
+ */
+export interface AIUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  audioSeconds?: number;
+}
+
+export type AIPricing = typeof aiPricing.$inferSelect;
+
+// OpenAI list prices in USD (per 1M tokens / per audio minute)
+const MODEL_PRICES_USD: Record<
+  string,
+  { inputPer1M: number; outputPer1M: number; perAudioMinute?: number }
+> = {
+  "gpt-4o-mini": { inputPer1M: 0.15, outputPer1M: 0.6 },
+  "gpt-4o": { inputPer1M: 2.5, outputPer1M: 10 },
+  "text-embedding-3-small": { inputPer1M: 0.02, outputPer1M: 0 },
+  "text-embedding-3-large": { inputPer1M: 0.13, outputPer1M: 0 },
+  "whisper-1": { inputPer1M: 0, outputPer1M: 0, perAudioMinute: 0.006 },
+};
+
+// Revenue of one credit, to compare with the OpenAI cost
+const CREDIT_VALUE_USD = Number(process.env.AI_CREDIT_VALUE_USD || 0.1);
+
+// Used until the ai_pricing migration runs (and for features without a row)
+const DEFAULT_PRICING: Record<
+  string,
+  Pick<AIPricing, "mode" | "flatCredits" | "creditsPer1kTokens" | "minCredits">
+> = {
+  video_chat: {
+    mode: "flat",
+    flatCredits: calculateAIChatCost(),
+    creditsPer1kTokens: "0",
+    minCredits: 1,
+  },
+  course_chat: {
+    mode: "flat",
+    flatCredits: calculateAIChatCost(),
+    creditsPer1kTokens: "0",
+    minCredits: 1,
+  },
+};
+
+/**
+ * Rough token count (~4 characters per token for pt/en text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Convert the `usage` field of an OpenAI response
+ */
+export function toAIUsage(
+  model: string,
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null
+): AIUsage {
+  return {
+    model,
+    promptTokens: usage?.prompt_tokens ?? 0,
+    completionTokens: usage?.completion_tokens ?? 0,
+  };
+}
+
+/**
+ * Sum the usage of several calls to the same model
+ */
+export function sumAIUsage(usages: AIUsage[]): AIUsage | undefined {
+  if (usages.length === 0) return undefined;
+
+  return usages.reduce((total, usage) => ({
+    model: total.model,
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    audioSeconds: (total.audioSeconds ?? 0) + (usage.audioSeconds ?? 0),
+  }));
+}
+
+/**
+ * OpenAI cost of an operation in USD (0 for unknown models)
+ */
+export function calculateAICostUsd(usage: AIUsage): number {
+  const price = MODEL_PRICES_USD[usage.model];
+  if (!price) {
+    console.warn("⚠️ No price for AI model, cost recorded as 0:", usage.model);
+    return 0;
+  }
+
+  return (
+    (usage.promptTokens / 1_000_000) * price.inputPer1M +
+    (usage.completionTokens / 1_000_000) * price.outputPer1M +
+    ((usage.audioSeconds ?? 0) / 60) * (price.perAudioMinute ?? 0)
+  );
+}
+
+/**
+ * Record an operation (best effort: metering never fails the request)
+ */
+export async function recordAIUsage(event: {
+  userId?: string | null;
+  feature: AIFeature;
+  usage: AIUsage;
+  creditsCharged?: number;
+  relatedId?: string;
+  relatedType?: string;
+}): Promise<void> {
+  try {
+    await db.insert(aiUsageEvents).values({
+      userId: event.userId ?? null,
+      feature: event.feature,
+      model: event.usage.model,
+      promptTokens: event.usage.promptTokens,
+      completionTokens: event.usage.completionTokens,
+      audioSeconds: Math.round(event.usage.audioSeconds ?? 0),
+      costUsd: calculateAICostUsd(event.usage).toFixed(6),
+      creditsCharged: event.creditsCharged ?? 0,
+      relatedId: event.relatedId,
+      relatedType: event.relatedType,
+    });
+  } catch (error) {
+    console.error("❌ Failed to record AI usage:", {
+      feature: event.feature,
+      model: event.usage.model,
+      error,
+    });
+  }
+}
+
+/**
+ * Credit pricing of every feature that has a row
+ */
+export async function listAIPricing(): Promise<AIPricing[]> {
+  return db.query.aiPricing.findMany({
+    orderBy: [aiPricing.feature],
+  });
+}
+
+/**
+ * Create or change the credit price of a feature
+ */
+export async function upsertAIPricing(
+  feature: AIFeature,
+  pricing: Pick<AIPricing, "mode" | "flatCredits" | "minCredits"> & {
+    creditsPer1kTokens: number;
+  }
+): Promise<AIPricing> {
+  const values = {
+    mode: pricing.mode,
+    flatCredits: pricing.flatCredits,
+    creditsPer1kTokens: pricing.creditsPer1kTokens.toFixed(4),
+    minCredits: pricing.minCredits,
+    updatedAt: new Date(),
+  };
+
+  const [row] = await db
+    .insert(aiPricing)
+    .values({ feature, ...values })
+    .onConflictDoUpdate({ target: aiPricing.feature, set: values })
+    .returning();
+
+  return row;
+}
+
+/**
+ * Credits charged for one use of a feature
+ *
+ * @param estimatedTokens - Prompt + expected answer size (only used by token pricing)
+ */
+export async function quoteAICredits(
+  feature: AIFeature,
+  estimatedTokens: number = 0
+): Promise<number> {
+  let pricing: Pick<
+    AIPricing,
+    "mode" | "flatCredits" | "creditsPer1kTokens" | "minCredits"
+  > | null = null;
+
+  try {
+    pricing =
+      (await db.query.aiPricing.findFirst({
+        where: eq(aiPricing.feature, feature),
+      })) ?? null;
+  } catch (error) {
+    console.error("❌ Failed to load AI pricing, using defaults:", error);
+  }
+
+  pricing = pricing ?? DEFAULT_PRICING[feature] ?? null;
+  if (!pricing) {
+    return 0;
+  }
+
+  if (pricing.mode === "tokens") {
+    const byTokens = Math.ceil(
+      (estimatedTokens / 1000) * Number.parseFloat(pricing.creditsPer1kTokens)
+    );
+    return Math.max(pricing.minCredits, byTokens);
+  }
+
+  return Math.max(pricing.minCredits, pricing.flatCredits);
+}
+
+/**
+ * Cost, credits and margin per feature over a period
+ */
+export async function getAIMarginReport(period: { from?: Date; to?: Date }) {
+  const conditions: SQL[] = [];
+  if (period.from) conditions.push(gte(aiUsageEvents.createdAt, period.from));
+  if (period.to) conditions.push(lt(aiUsageEvents.createdAt, period.to));
+
+  const rows = await db
+    .select({
+      feature: aiUsageEvents.feature,
+      events: sql<number>`count(*)`.mapWith(Number),
+      promptTokens: sql<number>`coalesce(sum(${aiUsageEvents.promptTokens}), 0)`.mapWith(Number),
+      completionTokens: sql<number>`coalesce(sum(${aiUsageEvents.completionTokens}), 0)`.mapWith(Number),
+      audioSeconds: sql<number>`coalesce(sum(${aiUsageEvents.audioSeconds}), 0)`.mapWith(Number),
+      costUsd: sql<number>`coalesce(sum(${aiUsageEvents.costUsd}), 0)`.mapWith(Number),
+      creditsCharged: sql<number>`coalesce(sum(${aiUsageEvents.creditsCharged}), 0)`.mapWith(Number),
+    })
+    .from(aiUsageEvents)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .groupBy(aiUsageEvents.feature)
+    .orderBy(aiUsageEvents.feature);
+
+  const features = rows.map((row) => {
+    const revenueUsd = row.creditsCharged * CREDIT_VALUE_USD;
+    const marginUsd = revenueUsd - row.costUsd;
+    return {
+      ...row,
+      costUsd: Number(row.costUsd.toFixed(6)),
+      revenueUsd: Number(revenueUsd.toFixed(6)),
+      marginUsd: Number(marginUsd.toFixed(6)),
+      // null when nothing was charged (e.g. transcription, paid on upload)
+      marginPercent:
+        revenueUsd > 0 ? Number(((marginUsd / revenueUsd) * 100).toFixed(2)) : null,
+    };
+  });
+
+  const totals = features.reduce(
+    (sum, row) => ({
+      events: sum.events + row.events,
+      costUsd: sum.costUsd + row.costUsd,
+      creditsCharged: sum.creditsCharged + row.creditsCharged,
+      revenueUsd: sum.revenueUsd + row.revenueUsd,
+    }),
+    { events: 0, costUsd: 0, creditsCharged: 0, revenueUsd: 0 }
+  );
+
+  return {
+    from: period.from ?? null,
+    to: period.to ?? null,
+    creditValueUsd: CREDIT_VALUE_USD,
+    features,
+    totals: {
+      ...totals,
+      costUsd: Number(totals.costUsd.toFixed(6)),
+      revenueUsd: Number(totals.revenueUsd.toFixed(6)),
+      marginUsd: Number((totals.revenueUsd - totals.costUsd).toFixed(6)),
+    },
+  };
+}
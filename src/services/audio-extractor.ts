@@ -7,6 +7,7 @@
  * - Converts to MP3 format (16kHz, mono, 64kbps)
  * - Typical reduction: 90%+ (30MB video → 2-3MB audio)
  * - 1 hour video (~500MB) → ~10-15MB audio (well under 25MB limit)
+ * - Longer recordings are split into overlapping windows (splitAudioIntoWindows)
  */
 
 import ffmpeg from "fluent-ffmpeg";
@@ -314,3 +315,165 @@ export async function isFFmpegAvailable(): Promise<boolean> {
     });
   });
 }
+
+/**
+ * Piece of a longer audio file (times relative to the full audio)
+ */
+export interface AudioWindow {
+  index: number;
+  startMs: number;
+  endMs: number;
+  buffer: Buffer;
+}
+
+export interface SplitAudioOptions {
+  windowSeconds: number;
+  overlapSeconds: number;
+}
+
+/**
+ * Get the duration of a media file in seconds
+ */
+function probeDurationSeconds(filePath: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(Number(metadata?.format?.duration) || 0);
+    });
+  });
+}
+
+/**
+ * Cut [startSeconds, startSeconds + durationSeconds) out of an MP3 file
+ */
+function cutAudioWindow(
+  inputPath: string,
+  outputPath: string,
+  startSeconds: number,
+  durationSeconds: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .setStartTime(startSeconds)
+      .setDuration(durationSeconds)
+      .outputOptions([
+        "-acodec",
+        "libmp3lame", // Re-encode so the cut is sample accurate
+        "-ar",
+        "16000",
+        "-ac",
+        "1",
+        "-b:a",
+        "64k",
+      ])
+      .output(outputPath)
+      .on("end", () => resolve())
+      .on("error", (error) => reject(error))
+      .run();
+  });
+}
+
+/**
+ * Split extracted audio into overlapping time windows
+ *
+ * Each window stays under Whisper's 25MB limit (20 minutes of 64kbps audio
+ * is ~10MB). Consecutive windows share `overlapSeconds` of audio so words
+ * cut at a boundary are heard complete in at least one of them; the caller
+ * is responsible for dropping the duplicated segments when stitching.
+ *
+ * @param audioBuffer - MP3 audio (output of extractAudioFromVideo*)
+ * @param options - Window length and overlap in seconds
+ * @returns Windows in playback order, with their offset in the full audio
+ */
+export async function splitAudioIntoWindows(
+  audioBuffer: Buffer,
+  options: SplitAudioOptions
+): Promise<{ windows: AudioWindow[]; durationMs: number; error?: string }> {
+  const { windowSeconds, overlapSeconds } = options;
+  if (windowSeconds <= 0 || overlapSeconds < 0 || overlapSeconds >= windowSeconds) {
+    return {
+      windows: [],
+      durationMs: 0,
+      error: "Configuracao de janelas de audio invalida",
+    };
+  }
+
+  const tempDir = tmpdir();
+  const audioId = randomUUID();
+  const audioPath = join(tempDir, `${audioId}.mp3`);
+  const windowPaths: string[] = [];
+
+  try {
+    await writeFile(audioPath, audioBuffer);
+
+    const durationSeconds = await probeDurationSeconds(audioPath);
+    if (!durationSeconds) {
+      return {
+        windows: [],
+        durationMs: 0,
+        error: "Nao foi possivel determinar a duracao do audio",
+      };
+    }
+
+    const stepSeconds = windowSeconds - overlapSeconds;
+    const windows: AudioWindow[] = [];
+
+    for (let start = 0; start < durationSeconds; start += stepSeconds) {
+      const end = Math.min(start + windowSeconds, durationSeconds);
+      const windowPath = join(tempDir, `${audioId}-${windows.length}.mp3`);
+      windowPaths.push(windowPath);
+
+      console.log(
+        `✂️ Cutting audio window ${windows.length + 1}: ${Math.round(start)}s - ${Math.round(end)}s`
+      );
+      await cutAudioWindow(audioPath, windowPath, start, end - start);
+
+      windows.push({
+        index: windows.length,
+        startMs: Math.round(start * 1000),
+        endMs: Math.round(end * 1000),
+        buffer: await readFile(windowPath),
+      });
+      await unlink(windowPath).catch(() => {});
+
+      if (end >= durationSeconds) break;
+    }
+
+    console.log(
+      `✅ Audio split into ${windows.length} windows (${Math.round(durationSeconds)}s total)`
+    );
+
+    return { windows, durationMs: Math.round(durationSeconds * 1000) };
+  } catch (error: any) {
+    console.error("❌ Audio split error:", error);
+    return {
+      windows: [],
+      durationMs: 0,
+      error: error.message || "Falha ao dividir o audio em partes",
+    };
+  } finally {
+    await Promise.all(
+      [audioPath, ...windowPaths].map((path) => unlink(path).catch(() => {}))
+    );
+  }
+}
+
+/**
+ * Convert an audio file to 16kHz mono PCM WAV (input format of whisper.cpp)
+ */
+export function convertAudioToWav(
+  inputPath: string,
+  outputPath: string
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .outputOptions(["-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le"])
+      .output(outputPath)
+      .on("end", () => resolve())
+      .on("error", (error) => reject(error))
+      .run();
+  });
+}
@@ -0,0 +1,367 @@
+/**
+ * Auth Sessions Service
+ * Handles login sessions, access token signing and refresh token rotation
+ */
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import * as jwt from "jsonwebtoken";
+import { db } from "../db";
+import { sessions, users } from "../db/schema";
+import { eq, and, isNull, gt, desc } from "drizzle-orm";
+import { getUserRoles, resolveActiveRole } from "./accounts";
+
+// Access tokens stay short-lived; refresh tokens keep the user logged in
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+export const REFRESH_TOKEN_TTL_SECONDS =
+  Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30) * 24 * 60 * 60;
+
+// Window in which presenting the just-rotated token is treated as a race
+// between tabs instead of token theft
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface AccessTokenPayload {
+  id: string;
+  role: string; // Active role of the session
+  roles?: string[]; // Every role the user holds
+  sid?: string;
+}
+
+export type RefreshErrorCode =
+  | "INVALID_REFRESH_TOKEN"
+  | "REFRESH_TOKEN_EXPIRED"
+  | "REFRESH_TOKEN_REUSED"
+  | "REFRESH_TOKEN_ROTATED"
+  | "SESSION_REVOKED"
+  | "ACCOUNT_SUSPENDED";
+
+function hashToken(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function hashesMatch(a: string | null, b: string): boolean {
+  if (!a || a.length !== b.length) return false;
+  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+/**
+ * Refresh tokens are "<sessionId>.<secret>", only the secret hash is stored
+ */
+function buildRefreshToken(sessionId: string): {
+  token: string;
+  hash: string;
+} {
+  const secret = randomBytes(48).toString("base64url");
+  return { token: `${sessionId}.${secret}`, hash: hashToken(secret) };
+}
+
+function parseRefreshToken(
+  token: string
+): { sessionId: string; secretHash: string } | null {
+  const separatorIndex = token.indexOf(".");
+  if (separatorIndex <= 0) return null;
+
+  const sessionId = token.slice(0, separatorIndex);
+  const secret = token.slice(separatorIndex + 1);
+  if (!/^[0-9a-f-]{36}$/i.test(sessionId) || !secret) return null;
+
+  return { sessionId, secretHash: hashToken(secret) };
+}
+
+/**
+ * Sign an access token bound to a session
+ */
+export function signAccessToken(payload: AccessTokenPayload): string {
+  if (!process.env.JWT_SECRET) {
+    throw new Error("JWT_SECRET nao configurado no servidor");
+  }
+
+  return jwt.sign(payload, process.env.JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  });
+}
+
+/**
+ * Create a new login session and its first refresh token
+ */
+export async function createSession(
+  userId: string,
+  client: SessionClientInfo = {},
+  activeRole?: string
+): Promise<{ sessionId: string; refreshToken: string }> {
+  const sessionId = randomUUID();
+  const { token, hash } = buildRefreshToken(sessionId);
+
+  await db.insert(sessions).values({
+    id: sessionId,
+    userId,
+    role: activeRole,
+    refreshTokenHash: hash,
+    userAgent: client.userAgent?.slice(0, 512),
+    ipAddress: client.ipAddress?.slice(0, 45),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+  });
+
+  return { sessionId, refreshToken: token };
+}
+
+/**
+ * Exchange a refresh token for a new access + refresh token pair.
+ * Presenting an already rotated token revokes the whole session.
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  client: SessionClientInfo = {}
+): Promise<
+  | {
+      userId: string;
+      role: string;
+      roles: string[];
+      sessionId: string;
+      accessToken: string;
+      refreshToken: string;
+    }
+  | { error: string; code: RefreshErrorCode }
+> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    return { error: "Refresh token invalido", code: "INVALID_REFRESH_TOKEN" };
+  }
+
+  const session = await db.query.sessions.findFirst({
+    where: eq(sessions.id, parsed.sessionId),
+  });
+
+  if (!session) {
+    return { error: "Refresh token invalido", code: "INVALID_REFRESH_TOKEN" };
+  }
+
+  if (session.revokedAt) {
+    return { error: "Sessao encerrada", code: "SESSION_REVOKED" };
+  }
+
+  if (session.expiresAt.getTime() <= Date.now()) {
+    return { error: "Sessao expirada", code: "REFRESH_TOKEN_EXPIRED" };
+  }
+
+  if (!hashesMatch(session.refreshTokenHash, parsed.secretHash)) {
+    const isRecentRotation =
+      hashesMatch(session.previousRefreshTokenHash, parsed.secretHash) &&
+      !!session.rotatedAt &&
+      Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+
+    if (isRecentRotation) {
+      return {
+        error: "Refresh token ja foi renovado",
+        code: "REFRESH_TOKEN_ROTATED",
+      };
+    }
+
+    console.warn("⚠️ Refresh token reuse detected, revoking session:", {
+      sessionId: session.id,
+      userId: session.userId,
+    });
+    await revokeSession(session.id, "refresh_token_reuse");
+    return {
+      error: "Refresh token reutilizado. Sessao encerrada por seguranca.",
+      code: "REFRESH_TOKEN_REUSED",
+    };
+  }
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, session.userId),
+    columns: { id: true, role: true, suspendedAt: true },
+  });
+
+  if (!user) {
+    await revokeSession(session.id, "user_deleted");
+    return { error: "Usuario nao encontrado", code: "INVALID_REFRESH_TOKEN" };
+  }
+
+  if (user.suspendedAt) {
+    await revokeSession(session.id, "account_suspended");
+    return { error: "Conta suspensa", code: "ACCOUNT_SUSPENDED" };
+  }
+
+  // Keep the role the session was acting as, unless it was taken away
+  const roles = await getUserRoles(user.id, user.role);
+  const role = resolveActiveRole(roles, user.role, session.role ?? undefined);
+
+  const next = buildRefreshToken(session.id);
+
+  // Conditional update: two concurrent refreshes cannot both rotate
+  const [rotated] = await db
+    .update(sessions)
+    .set({
+      refreshTokenHash: next.hash,
+      previousRefreshTokenHash: session.refreshTokenHash,
+      rotatedAt: new Date(),
+      lastUsedAt: new Date(),
+      userAgent: client.userAgent?.slice(0, 512) ?? session.userAgent,
+      ipAddress: client.ipAddress?.slice(0, 45) ?? session.ipAddress,
+    })
+    .where(
+      and(
+        eq(sessions.id, session.id),
+        eq(sessions.refreshTokenHash, session.refreshTokenHash),
+        isNull(sessions.revokedAt)
+      )
+    )
+    .returning({ id: sessions.id });
+
+  if (!rotated) {
+    return {
+      error: "Refresh token ja foi renovado",
+      code: "REFRESH_TOKEN_ROTATED",
+    };
+  }
+
+  return {
+    userId: user.id,
+    role,
+    roles,
+    sessionId: session.id,
+    accessToken: signAccessToken({
+      id: user.id,
+      role,
+      roles,
+      sid: session.id,
+    }),
+    refreshToken: next.token,
+  };
+}
+
+/**
+ * Change the role an active session acts as (used on the next refreshes)
+ */
+export async function setSessionRole(
+  sessionId: string,
+  userId: string,
+  role: string
+): Promise<boolean> {
+  const updated = await db
+    .update(sessions)
+    .set({ role, lastUsedAt: new Date() })
+    .where(
+      and(
+        eq(sessions.id, sessionId),
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt)
+      )
+    )
+    .returning({ id: sessions.id });
+
+  return updated.length > 0;
+}
+
+/**
+ * Revoke the session a refresh token belongs to (logout).
+ * The secret must match, so a bare session id cannot end someone's session.
+ */
+export async function revokeSessionByRefreshToken(
+  refreshToken: string,
+  reason: string
+): Promise<boolean> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) return false;
+
+  const session = await db.query.sessions.findFirst({
+    where: eq(sessions.id, parsed.sessionId),
+    columns: {
+      id: true,
+      refreshTokenHash: true,
+      previousRefreshTokenHash: true,
+    },
+  });
+
+  if (
+    !session ||
+    (!hashesMatch(session.refreshTokenHash, parsed.secretHash) &&
+      !hashesMatch(session.previousRefreshTokenHash, parsed.secretHash))
+  ) {
+    return false;
+  }
+
+  return revokeSession(session.id, reason);
+}
+
+/**
+ * Revoke a single session
+ */
+export async function revokeSession(
+  sessionId: string,
+  reason: string,
+  userId?: string
+): Promise<boolean> {
+  const conditions = [eq(sessions.id, sessionId), isNull(sessions.revokedAt)];
+  if (userId) {
+    conditions.push(eq(sessions.userId, userId));
+  }
+
+  const revoked = await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(...conditions))
+    .returning({ id: sessions.id });
+
+  return revoked.length > 0;
+}
+
+/**
+ * Revoke every active session of a user
+ */
+export async function revokeAllUserSessions(
+  userId: string,
+  reason: string
+): Promise<number> {
+  const revoked = await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+
+  return revoked.length;
+}
+
+/**
+ * Check if a session can still be used (not revoked, not expired)
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const session = await db.query.sessions.findFirst({
+    where: eq(sessions.id, sessionId),
+    columns: { revokedAt: true, expiresAt: true },
+  });
+
+  return (
+    !!session &&
+    !session.revokedAt &&
+    session.expiresAt.getTime() > Date.now()
+  );
+}
+
+/**
+ * List active sessions of a user (most recent first)
+ */
+export async function listUserSessions(userId: string) {
+  return db.query.sessions.findMany({
+    where: and(
+      eq(sessions.userId, userId),
+      isNull(sessions.revokedAt),
+      gt(sessions.expiresAt, new Date())
+    ),
+    columns: {
+      id: true,
+      role: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+    orderBy: [desc(sessions.lastUsedAt)],
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * Captions Service
+ * Stores timed transcript segments and renders them as WebVTT / SRT
+ */
+
+import { db } from "../db";
+import { transcriptSegments } from "../db/schema";
+import { eq, asc } from "drizzle-orm";
+import { TranscriptSegmentData } from "./transcription-providers";
+
+export type CaptionFormat = "vtt" | "srt";
+
+// Inserting thousands of rows in one statement hits the parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Save the segments of a transcript (in order)
+ */
+export async function saveTranscriptSegments(
+  transcriptId: string,
+  segments: TranscriptSegmentData[],
+  executor: Pick<typeof db, "insert"> = db
+): Promise<void> {
+  for (let start = 0; start < segments.length; start += INSERT_BATCH_SIZE) {
+    const batch = segments.slice(start, start + INSERT_BATCH_SIZE);
+    await executor.insert(transcriptSegments).values(
+      batch.map((segment, index) => ({
+        transcriptId,
+        position: start + index,
+        startMs: segment.startMs,
+        endMs: segment.endMs,
+        text: segment.text,
+      }))
+    );
+  }
+}
+
+/**
+ * Replace all segments of a transcript (creator edits, reverts)
+ */
+export async function replaceTranscriptSegments(
+  transcriptId: string,
+  segments: TranscriptSegmentData[],
+  executor: Pick<typeof db, "insert" | "delete"> = db
+): Promise<void> {
+  await executor
+    .delete(transcriptSegments)
+    .where(eq(transcriptSegments.transcriptId, transcriptId));
+  await saveTranscriptSegments(transcriptId, segments, executor);
+}
+
+/**
+ * Get the segments of a transcript in playback order
+ */
+export async function getTranscriptSegments(
+  transcriptId: string
+): Promise<TranscriptSegmentData[]> {
+  return db.query.transcriptSegments.findMany({
+    where: eq(transcriptSegments.transcriptId, transcriptId),
+    columns: { startMs: true, endMs: true, text: true },
+    orderBy: [asc(transcriptSegments.position)],
+  });
+}
+
+/**
+ * Format milliseconds as HH:MM:SS.mmm (VTT) or HH:MM:SS,mmm (SRT)
+ */
+export function formatCaptionTimestamp(
+  ms: number,
+  format: CaptionFormat
+): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+
+  const pad = (value: number, size = 2) => String(value).padStart(size, "0");
+  const separator = format === "srt" ? "," : ".";
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+/**
+ * Human friendly position, e.g. "12:30" or "1:02:05" (for chat citations)
+ */
+export function formatPlaybackTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${minutes}:${pad(seconds)}`;
+}
+
+/**
+ * Transcript with a "[12:30]" marker per segment, so the AI can cite minutes
+ */
+export function buildTimedTranscript(segments: TranscriptSegmentData[]): string {
+  return segments
+    .map((segment) => `[${formatPlaybackTime(segment.startMs)}] ${segment.text}`)
+    .join("\n");
+}
+
+// A cue must never be empty or contain a blank line (ends the cue)
+function sanitizeCueText(text: string): string {
+  return text.replace(/\r/g, "").replace(/\n{2,}/g, "\n").replace(/-->/g, "->");
+}
+
+/**
+ * Render segments as a WebVTT file
+ */
+export function buildWebVtt(segments: TranscriptSegmentData[]): string {
+  const cues = segments.map(
+    (segment) =>
+      `${formatCaptionTimestamp(segment.startMs, "vtt")} --> ${formatCaptionTimestamp(segment.endMs, "vtt")}\n${sanitizeCueText(segment.text)}`
+  );
+
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+}
+
+/**
+ * Render segments as a SubRip (SRT) file
+ */
+export function buildSrt(segments: TranscriptSegmentData[]): string {
+  return (
+    segments
+      .map(
+        (segment, index) =>
+          `${index + 1}\n${formatCaptionTimestamp(segment.startMs, "srt")} --> ${formatCaptionTimestamp(segment.endMs, "srt")}\n${sanitizeCueText(segment.text)}`
+      )
+      .join("\n\n") + "\n"
+  );
+}
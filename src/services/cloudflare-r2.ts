@@ -28,7 +28,7 @@ export function isR2Configured(): boolean {
 /**
  * Check if Cloudflare R2 backup bucket is configured
  */
-function isR2BackupConfigured(): boolean {
+export function isR2BackupConfigured(): boolean {
   return isR2Configured() && !!process.env.CLOUDFLARE_BACKUP_BUCKET_NAME;
 }
 
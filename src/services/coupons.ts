@@ -0,0 +1,488 @@
+/**
+ * Coupons Service
+ * Percent or fixed discounts for plans and courses. A coupon is scoped to a
+ * plan, a course, every course of a creator, or (none of them) the whole
+ * platform. A checkout reserves its use (pending redemption) before the
+ * payment is created, with the coupon locked while the limits are checked:
+ * recent pending redemptions hold a use, so parallel checkouts cannot exceed
+ * the limits (a user's retries of the same checkout share one hold). The use
+ * is counted once the payment is confirmed.
+ */
+
+import Stripe from "stripe";
+import { db } from "../db";
+import { coupons, couponRedemptions } from "../db/schema";
+import { and, eq, gt, isNull, or, desc, sql, SQL } from "drizzle-orm";
+import { getStripeClient } from "./stripe-client";
+
+export type Coupon = typeof coupons.$inferSelect;
+export type CouponRedemption = typeof couponRedemptions.$inferSelect;
+
+export type CouponTarget =
+  | { type: "course"; id: string; creatorId: string }
+  | { type: "plan"; id: string };
+
+export type CouponErrorCode =
+  | "COUPON_NOT_FOUND"
+  | "COUPON_EXPIRED"
+  | "COUPON_NOT_APPLICABLE"
+  | "COUPON_LIMIT_REACHED"
+  | "COUPON_ALREADY_USED"
+  | "COUPON_AMOUNT_TOO_LOW";
+
+export interface CouponQuote {
+  coupon: Coupon;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+}
+
+export interface CouponReservation extends CouponQuote {
+  redemption: CouponRedemption;
+}
+
+export interface CreateCouponInput {
+  code: string;
+  description?: string | null;
+  discountType: "percent" | "fixed";
+  percentOff?: number | null;
+  amountOff?: number | null;
+  planId?: string | null;
+  courseId?: string | null;
+  creatorId?: string | null;
+  maxRedemptions?: number | null;
+  maxRedemptionsPerUser?: number;
+  expiresAt?: Date | null;
+}
+
+// Smallest card/boleto charge Stripe accepts in BRL
+const MIN_COURSE_CHARGE = 0.5;
+
+// A pending redemption holds a use for this long (abandoned checkouts and
+// unpaid boletos stop counting afterwards)
+const RESERVATION_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+/**
+ * Codes are case-insensitive (stored in upper case)
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function appliesTo(coupon: Coupon, target: CouponTarget): boolean {
+  if (coupon.planId) {
+    return target.type === "plan" && target.id === coupon.planId;
+  }
+  if (coupon.courseId) {
+    return target.type === "course" && target.id === coupon.courseId;
+  }
+  if (coupon.creatorId) {
+    return target.type === "course" && target.creatorId === coupon.creatorId;
+  }
+  return true;
+}
+
+/**
+ * Check a coupon for a purchase and compute the discounted amount (preview:
+ * checkouts reserve the coupon with reserveCoupon)
+ */
+export async function quoteCoupon(
+  code: string,
+  userId: string,
+  target: CouponTarget,
+  amount: number
+): Promise<CouponQuote | { error: string; code: CouponErrorCode }> {
+  const coupon = await db.query.coupons.findFirst({
+    where: eq(coupons.code, normalizeCouponCode(code)),
+  });
+
+  return checkCoupon(coupon, userId, target, amount);
+}
+
+/**
+ * Check a coupon and hold one use of it for a checkout. Call before creating
+ * the payment on Stripe, then attachCouponReservation with the payment or
+ * checkout session, or releaseCouponReservation if creating it failed.
+ */
+export async function reserveCoupon(
+  code: string,
+  userId: string,
+  target: CouponTarget,
+  amount: number
+): Promise<CouponReservation | { error: string; code: CouponErrorCode }> {
+  return db.transaction(async (tx) => {
+    // Reservations of the same coupon are checked one at a time
+    const [coupon] = await tx
+      .select()
+      .from(coupons)
+      .where(eq(coupons.code, normalizeCouponCode(code)))
+      .for("update");
+
+    const quote = await checkCoupon(coupon, userId, target, amount, tx);
+    if ("error" in quote) return quote;
+
+    const [redemption] = await tx
+      .insert(couponRedemptions)
+      .values({
+        couponId: quote.coupon.id,
+        userId,
+        targetType: target.type,
+        targetId: target.id,
+        originalAmount: quote.originalAmount.toString(),
+        discountAmount: quote.discountAmount.toString(),
+      })
+      .returning();
+
+    return { ...quote, redemption };
+  });
+}
+
+/**
+ * Link a reservation to the payment or subscription checkout it discounts
+ */
+export async function attachCouponReservation(
+  reservation: CouponReservation,
+  reference: { paymentId?: string; stripeCheckoutSessionId?: string }
+): Promise<void> {
+  await db
+    .update(couponRedemptions)
+    .set({
+      paymentId: reference.paymentId,
+      stripeCheckoutSessionId: reference.stripeCheckoutSessionId,
+    })
+    .where(eq(couponRedemptions.id, reservation.redemption.id));
+}
+
+/**
+ * Give back the use held by a checkout that was not created
+ */
+export async function releaseCouponReservation(
+  reservation: CouponReservation
+): Promise<void> {
+  await db
+    .delete(couponRedemptions)
+    .where(
+      and(
+        eq(couponRedemptions.id, reservation.redemption.id),
+        eq(couponRedemptions.status, "pending")
+      )
+    );
+}
+
+async function checkCoupon(
+  coupon: Coupon | undefined,
+  userId: string,
+  target: CouponTarget,
+  amount: number,
+  executor: Pick<typeof db, "select"> = db
+): Promise<CouponQuote | { error: string; code: CouponErrorCode }> {
+  if (!coupon || coupon.isActive !== 1) {
+    return { error: "Cupom inválido", code: "COUPON_NOT_FOUND" };
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt <= new Date()) {
+    return { error: "Cupom expirado", code: "COUPON_EXPIRED" };
+  }
+
+  if (!appliesTo(coupon, target)) {
+    return {
+      error: "Cupom não é válido para este item",
+      code: "COUPON_NOT_APPLICABLE",
+    };
+  }
+
+  // A retry of the same checkout by the same user does not hold a second use
+  const sameCheckout = and(
+    eq(couponRedemptions.userId, userId),
+    eq(couponRedemptions.targetId, target.id)
+  )!;
+  const livePending = and(
+    eq(couponRedemptions.status, "pending"),
+    gt(couponRedemptions.createdAt, new Date(Date.now() - RESERVATION_TTL_MS)),
+    sql`not (${sameCheckout})`
+  );
+
+  if (coupon.maxRedemptions !== null) {
+    const [reserved] = await executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(couponRedemptions)
+      .where(and(eq(couponRedemptions.couponId, coupon.id), livePending));
+
+    if (coupon.timesRedeemed + Number(reserved?.count ?? 0) >= coupon.maxRedemptions) {
+      return { error: "Cupom esgotado", code: "COUPON_LIMIT_REACHED" };
+    }
+  }
+
+  const [used] = await executor
+    .select({ count: sql<number>`count(*)::int` })
+    .from(couponRedemptions)
+    .where(
+      and(
+        eq(couponRedemptions.couponId, coupon.id),
+        eq(couponRedemptions.userId, userId),
+        or(eq(couponRedemptions.status, "redeemed"), livePending)
+      )
+    );
+
+  if (Number(used?.count ?? 0) >= coupon.maxRedemptionsPerUser) {
+    return { error: "Você já usou este cupom", code: "COUPON_ALREADY_USED" };
+  }
+
+  const discountCents =
+    coupon.discountType === "percent"
+      ? Math.round((toCents(amount) * (coupon.percentOff ?? 0)) / 100)
+      : Math.min(toCents(parseFloat(coupon.amountOff ?? "0")), toCents(amount));
+  const finalCents = toCents(amount) - discountCents;
+
+  // Plans are discounted by Stripe on the invoice; a course needs a charge
+  if (target.type === "course" && finalCents < toCents(MIN_COURSE_CHARGE)) {
+    return {
+      error: "O desconto deixa o valor abaixo do mínimo para pagamento",
+      code: "COUPON_AMOUNT_TOO_LOW",
+    };
+  }
+
+  return {
+    coupon,
+    originalAmount: amount,
+    discountAmount: discountCents / 100,
+    finalAmount: finalCents / 100,
+  };
+}
+
+/**
+ * Confirm the pending redemption of a paid payment or completed checkout.
+ * Safe to call more than once (webhook and confirm route).
+ *
+ * A redemption over the coupon's limits (reservation expired meanwhile, or
+ * both payments of a retried checkout were paid) is voided: the discount was already charged, but it does not count as a use.
+ *
+ * @returns The redemptions confirmed by this call
+ */
+export async function completeCouponRedemption(reference: {
+  paymentId?: string;
+  stripeCheckoutSessionId?: string;
+}): Promise<CouponRedemption[]> {
+  const match = reference.paymentId
+    ? eq(couponRedemptions.paymentId, reference.paymentId)
+    : reference.stripeCheckoutSessionId
+      ? eq(couponRedemptions.stripeCheckoutSessionId, reference.stripeCheckoutSessionId)
+      : null;
+
+  if (!match) return [];
+
+  return db.transaction(async (tx) => {
+    const pending = await tx
+      .select()
+      .from(couponRedemptions)
+      .where(and(match, eq(couponRedemptions.status, "pending")))
+      .for("update");
+
+    const redeemed: CouponRedemption[] = [];
+
+    for (const redemption of pending) {
+      // Locks the coupon: concurrent confirmations are counted one at a time
+      const [counted] = await tx
+        .update(coupons)
+        .set({
+          timesRedeemed: sql`${coupons.timesRedeemed} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(coupons.id, redemption.couponId),
+            or(
+              isNull(coupons.maxRedemptions),
+              sql`${coupons.timesRedeemed} < ${coupons.maxRedemptions}`
+            )
+          )
+        )
+        .returning();
+
+      const [userUses] = counted
+        ? await tx
+            .select({ count: sql<number>`count(*)::int` })
+            .from(couponRedemptions)
+            .where(
+              and(
+                eq(couponRedemptions.couponId, redemption.couponId),
+                eq(couponRedemptions.userId, redemption.userId),
+                eq(couponRedemptions.status, "redeemed")
+              )
+            )
+        : [];
+
+      if (!counted || Number(userUses?.count ?? 0) >= counted.maxRedemptionsPerUser) {
+        if (counted) {
+          await tx
+            .update(coupons)
+            .set({ timesRedeemed: sql`${coupons.timesRedeemed} - 1` })
+            .where(eq(coupons.id, redemption.couponId));
+        }
+
+        await tx
+          .update(couponRedemptions)
+          .set({ status: "void" })
+          .where(eq(couponRedemptions.id, redemption.id));
+
+        console.warn(
+          `⚠️ Coupon redemption ${redemption.id} voided: coupon limit reached`
+        );
+        continue;
+      }
+
+      const [updated] = await tx
+        .update(couponRedemptions)
+        .set({ status: "redeemed", redeemedAt: new Date() })
+        .where(eq(couponRedemptions.id, redemption.id))
+        .returning();
+      redeemed.push(updated);
+    }
+
+    return redeemed;
+  });
+}
+
+/**
+ * Stripe coupon used by subscription checkouts (created on first use;
+ * discounts the first invoice)
+ */
+export async function getOrCreateStripeCoupon(coupon: Coupon): Promise<string> {
+  if (coupon.stripeCouponId) {
+    return coupon.stripeCouponId;
+  }
+
+  const stripeCoupon = await getStripeClient().coupons.create({
+    name: coupon.code,
+    duration: "once",
+    ...(coupon.discountType === "percent"
+      ? { percent_off: coupon.percentOff ?? 0 }
+      : { amount_off: toCents(parseFloat(coupon.amountOff ?? "0")), currency: "brl" }),
+    metadata: { couponId: coupon.id },
+  });
+
+  const [stored] = await db
+    .update(coupons)
+    .set({ stripeCouponId: stripeCoupon.id, updatedAt: new Date() })
+    .where(and(eq(coupons.id, coupon.id), isNull(coupons.stripeCouponId)))
+    .returning();
+
+  if (stored) {
+    return stripeCoupon.id;
+  }
+
+  // Another checkout created it first
+  const current = await db.query.coupons.findFirst({
+    where: eq(coupons.id, coupon.id),
+  });
+  return current?.stripeCouponId ?? stripeCoupon.id;
+}
+
+/**
+ * Trial checkouts carry no discount (a "once" coupon would be spent on the
+ * free trial invoice): add the checkout's coupon to the subscription while
+ * it is trialing, so it discounts the first paid invoice
+ */
+export async function applyCouponAfterTrial(
+  stripeCheckoutSessionId: string,
+  subscription: Stripe.Subscription
+): Promise<void> {
+  if (subscription.status !== "trialing" || subscription.discounts.length > 0) {
+    return;
+  }
+
+  const redemption = await db.query.couponRedemptions.findFirst({
+    where: and(
+      eq(couponRedemptions.stripeCheckoutSessionId, stripeCheckoutSessionId),
+      eq(couponRedemptions.status, "pending")
+    ),
+    with: { coupon: true },
+  });
+
+  if (!redemption) return;
+
+  await getStripeClient().subscriptions.update(subscription.id, {
+    discounts: [{ coupon: await getOrCreateStripeCoupon(redemption.coupon) }],
+  });
+}
+
+/**
+ * Create a coupon (callers check who may create each scope)
+ *
+ * @returns null when the code is already taken
+ */
+export async function createCoupon(
+  input: CreateCouponInput,
+  createdBy: string
+): Promise<Coupon | null> {
+  const [coupon] = await db
+    .insert(coupons)
+    .values({
+      code: normalizeCouponCode(input.code),
+      description: input.description ?? null,
+      discountType: input.discountType,
+      percentOff: input.discountType === "percent" ? input.percentOff : null,
+      amountOff:
+        input.discountType === "fixed" && input.amountOff
+          ? input.amountOff.toString()
+          : null,
+      planId: input.planId ?? null,
+      courseId: input.courseId ?? null,
+      creatorId: input.creatorId ?? null,
+      createdBy,
+      maxRedemptions: input.maxRedemptions ?? null,
+      maxRedemptionsPerUser: input.maxRedemptionsPerUser ?? 1,
+      expiresAt: input.expiresAt ?? null,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  return coupon ?? null;
+}
+
+/**
+ * Coupons, most recent first
+ */
+export async function listCoupons(
+  filters: { createdBy?: string; courseId?: string; planId?: string },
+  pagination: { limit: number; offset: number }
+) {
+  const conditions: SQL[] = [];
+  if (filters.createdBy) conditions.push(eq(coupons.createdBy, filters.createdBy));
+  if (filters.courseId) conditions.push(eq(coupons.courseId, filters.courseId));
+  if (filters.planId) conditions.push(eq(coupons.planId, filters.planId));
+
+  return db.query.coupons.findMany({
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+    orderBy: [desc(coupons.createdAt)],
+    limit: pagination.limit,
+    offset: pagination.offset,
+  });
+}
+
+/**
+ * Stop accepting a coupon (redemptions already made are kept)
+ *
+ * @param createdBy - Only deactivate if created by this user
+ */
+export async function deactivateCoupon(
+  couponId: string,
+  createdBy?: string
+): Promise<Coupon | null> {
+  const [coupon] = await db
+    .update(coupons)
+    .set({ isActive: 0, updatedAt: new Date() })
+    .where(
+      and(
+        eq(coupons.id, couponId),
+        createdBy ? eq(coupons.createdBy, createdBy) : undefined
+      )
+    )
+    .returning();
+
+  return coupon ?? null;
+}
@@ -0,0 +1,246 @@
+/**
+ * Course Index Service
+ * Splits the transcripts of a course into chunks with embeddings and finds
+ * the chunks closest to a question (retrieval for the course AI tutor)
+ *
+ * Vectors are stored as REAL[] and ranked with a dot product in SQL, so no
+ * Postgres extension is needed.
+ */
+
+import { db } from "../db";
+import { transcriptChunks, transcripts, videos } from "../db/schema";
+import { eq, and, desc, sql } from "drizzle-orm";
+import { TranscriptSegmentData } from "./transcription-providers";
+import { getTranscriptSegments } from "./captions";
+import { getVideoTranscript } from "./transcripts";
+import { embedTexts, EMBEDDING_MODEL } from "./embeddings";
+import { permanentJobError } from "./job-queue";
+import { AIUsage, recordAIUsage } from "./ai-usage";
+
+// ~1 minute of speech per chunk
+const CHUNK_TARGET_CHARS = 1000;
+
+// Rows per insert (each row carries a whole vector)
+const INSERT_BATCH_SIZE = 200;
+
+export interface TranscriptChunkData {
+  position: number;
+  startMs: number | null;
+  endMs: number | null;
+  content: string;
+}
+
+export interface CourseChunkMatch {
+  id: string;
+  videoId: string;
+  videoTitle: string;
+  startMs: number | null;
+  endMs: number | null;
+  content: string;
+  score: number;
+}
+
+/**
+ * Group a transcript into chunks of ~CHUNK_TARGET_CHARS.
+ * Consecutive chunks share one segment so an idea cut at the border is
+ * still found whole in one of them.
+ */
+export function chunkTranscript(
+  content: string,
+  segments: TranscriptSegmentData[]
+): TranscriptChunkData[] {
+  const chunks: TranscriptChunkData[] = [];
+
+  if (segments.length === 0) {
+    const sentences = content.match(/[^.!?]+[.!?]*\s*/g) ?? [content];
+    let current = "";
+    for (const sentence of sentences) {
+      if (current && current.length + sentence.length > CHUNK_TARGET_CHARS) {
+        chunks.push({
+          position: chunks.length,
+          startMs: null,
+          endMs: null,
+          content: current.trim(),
+        });
+        current = "";
+      }
+      current += sentence;
+    }
+    if (current.trim()) {
+      chunks.push({
+        position: chunks.length,
+        startMs: null,
+        endMs: null,
+        content: current.trim(),
+      });
+    }
+    return chunks;
+  }
+
+  let start = 0;
+  while (start < segments.length) {
+    let end = start;
+    let length = segments[start].text.length;
+    while (
+      end + 1 < segments.length &&
+      length + segments[end + 1].text.length + 1 <= CHUNK_TARGET_CHARS
+    ) {
+      end++;
+      length += segments[end].text.length + 1;
+    }
+
+    const group = segments.slice(start, end + 1);
+    chunks.push({
+      position: chunks.length,
+      startMs: group[0].startMs,
+      endMs: group[group.length - 1].endMs,
+      content: group.map((segment) => segment.text).join(" "),
+    });
+
+    if (end + 1 >= segments.length) break;
+    // Overlap one segment, but always move forward
+    start = end > start ? end : end + 1;
+  }
+
+  return chunks;
+}
+
+/**
+ * (Re)build the chunks of a video from its main transcript
+ */
+export async function indexVideo(
+  videoId: string
+): Promise<{ videoId: string; chunks: number; skipped?: boolean }> {
+  const video = await db.query.videos.findFirst({
+    where: eq(videos.id, videoId),
+    columns: { id: true, courseId: true },
+  });
+
+  if (!video) {
+    throw permanentJobError("Video nao encontrado");
+  }
+
+  const transcript = await getVideoTranscript(videoId);
+  if (!transcript) {
+    await db.delete(transcriptChunks).where(eq(transcriptChunks.videoId, videoId));
+    return { videoId, chunks: 0, skipped: true };
+  }
+
+  const segments = await getTranscriptSegments(transcript.id);
+  const chunks = chunkTranscript(transcript.content, segments);
+  const { vectors: embeddings, usage } = await embedTexts(
+    chunks.map((chunk) => chunk.content)
+  );
+  await recordAIUsage({
+    feature: "course_index",
+    usage,
+    relatedId: videoId,
+    relatedType: "video",
+  });
+
+  // Old chunks are replaced atomically so searches never see half an index
+  await db.transaction(async (tx) => {
+    await tx.delete(transcriptChunks).where(eq(transcriptChunks.videoId, videoId));
+
+    for (let start = 0; start < chunks.length; start += INSERT_BATCH_SIZE) {
+      const batch = chunks.slice(start, start + INSERT_BATCH_SIZE);
+      await tx.insert(transcriptChunks).values(
+        batch.map((chunk, index) => ({
+          courseId: video.courseId,
+          videoId,
+          transcriptId: transcript.id,
+          position: chunk.position,
+          startMs: chunk.startMs,
+          endMs: chunk.endMs,
+          content: chunk.content,
+          embedding: embeddings[start + index],
+          embeddingModel: EMBEDDING_MODEL,
+        }))
+      );
+    }
+  });
+
+  console.log("🧭 Video indexed for course search:", {
+    videoId,
+    transcriptId: transcript.id,
+    chunks: chunks.length,
+  });
+
+  return { videoId, chunks: chunks.length };
+}
+
+/**
+ * Videos of a course that have at least one transcript
+ */
+export async function listIndexableVideoIds(courseId: string): Promise<string[]> {
+  const rows = await db
+    .selectDistinct({ videoId: transcripts.videoId })
+    .from(transcripts)
+    .innerJoin(videos, eq(videos.id, transcripts.videoId))
+    .where(eq(videos.courseId, courseId));
+
+  return rows.map((row) => row.videoId);
+}
+
+/**
+ * Number of indexed chunks of a course (current embedding model only)
+ */
+export async function countCourseChunks(courseId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)`.mapWith(Number) })
+    .from(transcriptChunks)
+    .where(
+      and(
+        eq(transcriptChunks.courseId, courseId),
+        eq(transcriptChunks.embeddingModel, EMBEDDING_MODEL)
+      )
+    );
+
+  return row?.count ?? 0;
+}
+
+/**
+ * Chunks of a course closest to a question (highest cosine similarity)
+ *
+ * @returns The matches and the usage of embedding the question
+ */
+export async function searchCourseChunks(
+  courseId: string,
+  question: string,
+  limit: number = 8
+): Promise<{ matches: CourseChunkMatch[]; usage: AIUsage }> {
+  const {
+    vectors: [queryVector],
+    usage,
+  } = await embedTexts([question]);
+
+  // Postgres array literal; vectors are normalized, so the dot product is the cosine
+  const queryLiteral = `{${queryVector.join(",")}}`;
+  const score = sql<number>`(
+    SELECT SUM(a * b)
+    FROM unnest(${transcriptChunks.embedding}, ${queryLiteral}::real[]) AS t(a, b)
+  )`.mapWith(Number);
+
+  const matches = await db
+    .select({
+      id: transcriptChunks.id,
+      videoId: transcriptChunks.videoId,
+      videoTitle: videos.title,
+      startMs: transcriptChunks.startMs,
+      endMs: transcriptChunks.endMs,
+      content: transcriptChunks.content,
+      score,
+    })
+    .from(transcriptChunks)
+    .innerJoin(videos, eq(videos.id, transcriptChunks.videoId))
+    .where(
+      and(
+        eq(transcriptChunks.courseId, courseId),
+        eq(transcriptChunks.embeddingModel, EMBEDDING_MODEL)
+      )
+    )
+    .orderBy(desc(score))
+    .limit(limit);
+
+  return { matches, usage };
+}
@@ -0,0 +1,265 @@
+/**
+ * Course Structure Service
+ * Handles course sections (modules) and lesson ordering
+ */
+
+import { db } from "../db";
+import { courseSections, videos } from "../db/schema";
+import { eq, and, asc, isNull, sql } from "drizzle-orm";
+
+export interface OutlineLesson {
+  id: string;
+  title: string;
+  duration: number | null;
+  position: number;
+  sectionId: string | null;
+}
+
+export interface OutlineSection {
+  id: string;
+  title: string;
+  position: number;
+  lessons: OutlineLesson[];
+}
+
+export interface CourseOutline {
+  sections: OutlineSection[];
+  unsectionedLessons: OutlineLesson[];
+}
+
+export interface LessonOrderItem {
+  videoId: string;
+  sectionId: string | null;
+  position: number;
+}
+
+type VideoRow = typeof videos.$inferSelect;
+
+/**
+ * Sort videos following the course outline:
+ * lessons without section first, then each section by position
+ */
+export function sortVideosByOutline<T extends VideoRow>(
+  courseVideos: T[],
+  sections: Array<{ id: string; position: number }>
+): T[] {
+  const sectionPositions = new Map(
+    sections.map((section) => [section.id, section.position])
+  );
+
+  const sectionRank = (video: T) =>
+    video.sectionId ? sectionPositions.get(video.sectionId) ?? 0 : -1;
+
+  return [...courseVideos].sort((a, b) => {
+    const bySection = sectionRank(a) - sectionRank(b);
+    if (bySection !== 0) return bySection;
+    if (a.sectionId !== b.sectionId) {
+      return (a.sectionId || "").localeCompare(b.sectionId || "");
+    }
+    if (a.position !== b.position) return a.position - b.position;
+    return (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+  });
+}
+
+/**
+ * Get all videos of a course in outline order
+ */
+export async function getOrderedCourseVideos(courseId: string) {
+  const [sections, courseVideos] = await Promise.all([
+    db.query.courseSections.findMany({
+      where: eq(courseSections.courseId, courseId),
+      columns: { id: true, position: true },
+    }),
+    db.query.videos.findMany({
+      where: eq(videos.courseId, courseId),
+    }),
+  ]);
+
+  return sortVideosByOutline(courseVideos, sections);
+}
+
+/**
+ * Build the nested section -> lesson tree for a course
+ */
+export async function getCourseOutline(
+  courseId: string
+): Promise<CourseOutline> {
+  const sections = await db.query.courseSections.findMany({
+    where: eq(courseSections.courseId, courseId),
+    orderBy: [asc(courseSections.position), asc(courseSections.createdAt)],
+  });
+
+  const courseVideos = await getOrderedCourseVideos(courseId);
+
+  const toLesson = (video: VideoRow): OutlineLesson => ({
+    id: video.id,
+    title: video.title,
+    duration: video.duration,
+    position: video.position,
+    sectionId: video.sectionId,
+  });
+
+  return {
+    sections: sections.map((section) => ({
+      id: section.id,
+      title: section.title,
+      position: section.position,
+      lessons: courseVideos
+        .filter((video) => video.sectionId === section.id)
+        .map(toLesson),
+    })),
+    unsectionedLessons: courseVideos
+      .filter((video) => !video.sectionId)
+      .map(toLesson),
+  };
+}
+
+/**
+ * Next free position for a section (or for unsectioned lessons)
+ */
+export async function getNextVideoPosition(
+  courseId: string,
+  sectionId: string | null
+): Promise<number> {
+  const [result] = await db
+    .select({ maxPosition: sql<number | null>`max(${videos.position})` })
+    .from(videos)
+    .where(
+      and(
+        eq(videos.courseId, courseId),
+        sectionId ? eq(videos.sectionId, sectionId) : isNull(videos.sectionId)
+      )
+    );
+
+  return result?.maxPosition === null || result?.maxPosition === undefined
+    ? 0
+    : Number(result.maxPosition) + 1;
+}
+
+/**
+ * Next free position for a new section
+ */
+export async function getNextSectionPosition(courseId: string): Promise<number> {
+  const [result] = await db
+    .select({
+      maxPosition: sql<number | null>`max(${courseSections.position})`,
+    })
+    .from(courseSections)
+    .where(eq(courseSections.courseId, courseId));
+
+  return result?.maxPosition === null || result?.maxPosition === undefined
+    ? 0
+    : Number(result.maxPosition) + 1;
+}
+
+/**
+ * Check that a section belongs to the given course
+ */
+export async function isSectionInCourse(
+  sectionId: string,
+  courseId: string
+): Promise<boolean> {
+  const section = await db.query.courseSections.findFirst({
+    where: and(
+      eq(courseSections.id, sectionId),
+      eq(courseSections.courseId, courseId)
+    ),
+    columns: { id: true },
+  });
+
+  return !!section;
+}
+
+/**
+ * Reorder all sections of a course (positions follow the array order)
+ */
+export async function reorderSections(
+  courseId: string,
+  sectionIds: string[]
+): Promise<{ success: boolean; error?: string }> {
+  const sections = await db.query.courseSections.findMany({
+    where: eq(courseSections.courseId, courseId),
+    columns: { id: true },
+  });
+
+  const courseSectionIds = new Set(sections.map((section) => section.id));
+  const requestedIds = new Set(sectionIds);
+
+  if (
+    requestedIds.size !== sectionIds.length ||
+    requestedIds.size !== courseSectionIds.size ||
+    sectionIds.some((id) => !courseSectionIds.has(id))
+  ) {
+    return {
+      success: false,
+      error: "A lista deve conter todos os modulos do curso, sem repeticoes",
+    };
+  }
+
+  await db.transaction(async (tx) => {
+    for (let index = 0; index < sectionIds.length; index++) {
+      await tx
+        .update(courseSections)
+        .set({ position: index, updatedAt: new Date() })
+        .where(eq(courseSections.id, sectionIds[index]));
+    }
+  });
+
+  return { success: true };
+}
+
+/**
+ * Move/reorder lessons in bulk (section + position per video)
+ */
+export async function reorderLessons(
+  courseId: string,
+  items: LessonOrderItem[]
+): Promise<{ success: boolean; error?: string }> {
+  const [sections, courseVideos] = await Promise.all([
+    db.query.courseSections.findMany({
+      where: eq(courseSections.courseId, courseId),
+      columns: { id: true },
+    }),
+    db.query.videos.findMany({
+      where: eq(videos.courseId, courseId),
+      columns: { id: true },
+    }),
+  ]);
+
+  const sectionIds = new Set(sections.map((section) => section.id));
+  const videoIds = new Set(courseVideos.map((video) => video.id));
+
+  if (new Set(items.map((item) => item.videoId)).size !== items.length) {
+    return { success: false, error: "Video repetido na lista de ordenacao" };
+  }
+
+  for (const item of items) {
+    if (!videoIds.has(item.videoId)) {
+      return {
+        success: false,
+        error: `Video ${item.videoId} nao pertence a este curso`,
+      };
+    }
+    if (item.sectionId && !sectionIds.has(item.sectionId)) {
+      return {
+        success: false,
+        error: `Modulo ${item.sectionId} nao pertence a este curso`,
+      };
+    }
+  }
+
+  await db.transaction(async (tx) => {
+    for (const item of items) {
+      await tx
+        .update(videos)
+        .set({
+          sectionId: item.sectionId,
+          position: item.position,
+          updatedAt: new Date(),
+        })
+        .where(eq(videos.id, item.videoId));
+    }
+  });
+
+  return { success: true };
+}
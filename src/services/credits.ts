@@ -4,11 +4,32 @@
  */
 
 import { db } from "../db";
-import { userCredits, transactions } from "../db/schema";
-import { and, eq, inArray } from "drizzle-orm";
+import { userCredits, transactions, creditLedgerEntries } from "../db/schema";
+import { and, eq, gte, inArray, sql } from "drizzle-orm";
 
 const CREDIT_EXPIRATION_MONTHS = 2;
 
+const INSUFFICIENT_CREDITS = "INSUFFICIENT_CREDITS";
+
+export interface CreditOperationResult {
+  success: boolean;
+  newBalance: number;
+  transactionId?: string;
+  // The idempotency key was already used: nothing was posted again
+  duplicate?: boolean;
+  error?: string;
+}
+
+interface CreditPosting {
+  userId: string;
+  amount: number; // Negative for debits
+  type: string;
+  description: string;
+  relatedId?: string;
+  relatedType?: string;
+  idempotencyKey?: string;
+}
+
 /**
  * Get user's credit balance
  */
@@ -21,16 +42,108 @@ export async function getUserCredits(userId: string): Promise<number> {
  * Initialize credits for a user (if they don't have a record)
  */
 export async function initializeUserCredits(userId: string): Promise<void> {
-  const existing = await db.query.userCredits.findFirst({
-    where: eq(userCredits.userId, userId),
-  });
-
-  if (!existing) {
-    await db.insert(userCredits).values({
+  await db
+    .insert(userCredits)
+    .values({
       userId,
       balance: 0,
-    });
-  }
+    })
+    .onConflictDoNothing();
+}
+
+/**
+ * Post a credit movement: balance update, transaction and ledger entries are
+ * written in one database transaction.
+ *
+ * - Debits use a conditional UPDATE (balance >= amount), so concurrent
+ *   requests can never spend the same credits twice.
+ * - With an idempotency key, repeating the operation (retries, webhook
+ *   replays) returns the first result instead of posting it again.
+ * - Every transaction has two ledger entries that sum to zero: the user
+ *   account and the system account of its type (`system:purchase`...).
+ */
+async function postCreditTransaction(
+  posting: CreditPosting
+): Promise<CreditOperationResult> {
+  const { userId, amount, idempotencyKey } = posting;
+
+  return db.transaction(async (tx) => {
+    await tx
+      .insert(userCredits)
+      .values({ userId, balance: 0 })
+      .onConflictDoNothing();
+
+    // Inserted first: a concurrent call with the same key waits here
+    const [transaction] = await tx
+      .insert(transactions)
+      .values({
+        userId,
+        type: posting.type,
+        amount,
+        description: posting.description,
+        relatedId: posting.relatedId,
+        relatedType: posting.relatedType,
+        idempotencyKey,
+      })
+      .onConflictDoNothing()
+      .returning({ id: transactions.id });
+
+    if (!transaction) {
+      const existing = await tx.query.transactions.findFirst({
+        where: eq(transactions.idempotencyKey, idempotencyKey!),
+      });
+      const credits = await tx.query.userCredits.findFirst({
+        where: eq(userCredits.userId, userId),
+      });
+
+      return {
+        success: true,
+        newBalance: credits?.balance ?? 0,
+        transactionId: existing?.id,
+        duplicate: true,
+      };
+    }
+
+    const [updated] = await tx
+      .update(userCredits)
+      .set({
+        balance: sql`${userCredits.balance} + ${amount}`,
+        updatedAt: new Date(),
+      })
+      .where(
+        amount < 0
+          ? and(eq(userCredits.userId, userId), gte(userCredits.balance, -amount))
+          : eq(userCredits.userId, userId)
+      )
+      .returning({ balance: userCredits.balance });
+
+    if (!updated) {
+      // Rolls back the transaction row
+      const error = new Error("Creditos insuficientes");
+      (error as any).code = INSUFFICIENT_CREDITS;
+      throw error;
+    }
+
+    await tx
+      .update(transactions)
+      .set({ balanceAfter: updated.balance })
+      .where(eq(transactions.id, transaction.id));
+
+    await tx.insert(creditLedgerEntries).values([
+      { transactionId: transaction.id, account: `user:${userId}`, amount },
+      {
+        transactionId: transaction.id,
+        account: `system:${posting.type}`,
+        amount: -amount,
+      },
+    ]);
+
+    return {
+      success: true,
+      newBalance: updated.balance,
+      transactionId: transaction.id,
+    };
+  });
 }
 
 /**
@@ -43,40 +156,19 @@ export async function addCredits(
   description: string,
   relatedId?: string,
   relatedType?: string,
-  transactionType: string = "purchase"
-): Promise<{ success: boolean; newBalance: number; error?: string }> {
+  transactionType: string = "purchase",
+  idempotencyKey?: string
+): Promise<CreditOperationResult> {
   try {
-    // Initialize if needed
-    await initializeUserCredits(userId);
-
-    // Get current balance
-    const current = await db.query.userCredits.findFirst({
-      where: eq(userCredits.userId, userId),
-    });
-
-    const currentBalance = current?.balance || 0;
-    const newBalance = currentBalance + amount;
-
-    // Update balance
-    await db
-      .update(userCredits)
-      .set({
-        balance: newBalance,
-        updatedAt: new Date(),
-      })
-      .where(eq(userCredits.userId, userId));
-
-    // Create transaction record
-    await db.insert(transactions).values({
+    return await postCreditTransaction({
       userId,
-      type: transactionType,
       amount,
+      type: transactionType,
       description,
       relatedId,
       relatedType,
+      idempotencyKey,
     });
-
-    return { success: true, newBalance };
   } catch (error: any) {
     console.error("Error adding credits:", error);
     return {
@@ -88,57 +180,35 @@ export async function addCredits(
 }
 
 /**
- * Deduct credits from user's balance
+ * Deduct credits from user's balance (fails without enough credits)
  */
 export async function deductCredits(
   userId: string,
   amount: number,
   description: string,
   relatedId?: string,
-  relatedType?: string
-): Promise<{ success: boolean; newBalance: number; transactionId?: string; error?: string }> {
+  relatedType?: string,
+  idempotencyKey?: string
+): Promise<CreditOperationResult> {
   try {
-    // Initialize if needed
-    await initializeUserCredits(userId);
-
-    // Get current balance
-    const current = await db.query.userCredits.findFirst({
-      where: eq(userCredits.userId, userId),
+    return await postCreditTransaction({
+      userId,
+      amount: -amount,
+      type: "usage",
+      description,
+      relatedId,
+      relatedType,
+      idempotencyKey,
     });
-
-    const currentBalance = current?.balance || 0;
-
-    if (currentBalance < amount) {
+  } catch (error: any) {
+    if (error?.code === INSUFFICIENT_CREDITS) {
       return {
         success: false,
-        newBalance: currentBalance,
+        newBalance: await getUserCredits(userId),
         error: "Creditos insuficientes",
       };
     }
 
-    const newBalance = currentBalance - amount;
-
-    // Update balance
-    await db
-      .update(userCredits)
-      .set({
-        balance: newBalance,
-        updatedAt: new Date(),
-      })
-      .where(eq(userCredits.userId, userId));
-
-    // Create transaction record (negative amount)
-    const [transaction] = await db.insert(transactions).values({
-      userId,
-      type: "usage",
-      amount: -amount,
-      description,
-      relatedId,
-      relatedType,
-    }).returning();
-
-    return { success: true, newBalance, transactionId: transaction.id };
-  } catch (error: any) {
     console.error("Error deducting credits:", error);
     return {
       success: false,
@@ -206,6 +276,47 @@ export async function getUserTransactions(
   });
 }
 
+/**
+ * Compare every stored balance with the sum of the user's transactions and
+ * look for transactions whose ledger entries do not sum to zero.
+ * Only reports: fixing a difference is a manual decision.
+ */
+export async function reconcileCreditBalances() {
+  const ledgerBalance = sql<number>`coalesce(sum(${transactions.amount}), 0)`.mapWith(Number);
+
+  const [{ usersChecked }] = await db
+    .select({ usersChecked: sql<number>`count(*)`.mapWith(Number) })
+    .from(userCredits);
+
+  const mismatches = await db
+    .select({
+      userId: userCredits.userId,
+      balance: userCredits.balance,
+      ledgerBalance,
+      difference: sql<number>`${userCredits.balance} - coalesce(sum(${transactions.amount}), 0)`.mapWith(Number),
+    })
+    .from(userCredits)
+    .leftJoin(transactions, eq(transactions.userId, userCredits.userId))
+    .groupBy(userCredits.userId, userCredits.balance)
+    .having(sql`${userCredits.balance} <> coalesce(sum(${transactions.amount}), 0)`);
+
+  const unbalancedTransactions = await db
+    .select({
+      transactionId: creditLedgerEntries.transactionId,
+      total: sql<number>`sum(${creditLedgerEntries.amount})`.mapWith(Number),
+    })
+    .from(creditLedgerEntries)
+    .groupBy(creditLedgerEntries.transactionId)
+    .having(sql`sum(${creditLedgerEntries.amount}) <> 0`);
+
+  return {
+    checkedAt: new Date(),
+    usersChecked,
+    mismatches,
+    unbalancedTransactions,
+  };
+}
+
 /**
  * Apply credit expiration rule (2 months without usage).
  */
@@ -234,23 +345,20 @@ async function applyCreditExpiration(
     return { expired: false, expiresAt };
   }
 
-  await db
-    .update(userCredits)
-    .set({
-      balance: 0,
-      updatedAt: new Date(),
-    })
-    .where(eq(userCredits.userId, userId));
-
-  await db.insert(transactions).values({
+  // Keyed by the expiration date: concurrent reads expire the credits once
+  const expiration = await postCreditTransaction({
     userId,
-    type: "expiration",
     amount: -balance,
+    type: "expiration",
     description: "Expiração de créditos por inatividade",
     relatedType: "expiration",
+    idempotencyKey: `expiration:${userId}:${expiresAt.toISOString()}`,
+  }).catch((error) => {
+    console.error("Error expiring credits:", error);
+    return null;
   });
 
-  return { expired: true, expiresAt };
+  return { expired: !!expiration?.success, expiresAt };
 }
 
 /**
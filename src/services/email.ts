@@ -91,3 +91,244 @@ export async function sendMessageNotificationEmail(
     return { success: false, error: error?.message || "Falha ao enviar email" };
   }
 }
+
+export interface PasswordResetEmailParams {
+  toEmail: string;
+  toName?: string | null;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+/**
+ * Envia email com link para redefinição de senha.
+ */
+export async function sendPasswordResetEmail(
+  params: PasswordResetEmailParams
+): Promise<{ success: boolean; skipped?: boolean; error?: string }> {
+  const fromEmail = process.env.SENDGRID_FROM_EMAIL;
+  const fromName = process.env.SENDGRID_FROM_NAME || DEFAULT_FROM_NAME;
+
+  if (!getSendGridClient() || !fromEmail) {
+    return { success: false, skipped: true };
+  }
+
+  const subject = "Redefinição de senha";
+
+  const textBody = [
+    `Olá${params.toName ? `, ${params.toName}` : ""}!`,
+    "",
+    "Recebemos um pedido para redefinir a senha da sua conta.",
+    `Use o link abaixo em até ${params.expiresInMinutes} minutos:`,
+    params.resetUrl,
+    "",
+    "Se você não fez este pedido, ignore este email. Sua senha continua a mesma.",
+  ].join("\n");
+
+  const htmlBody = `
+    <p>Olá${params.toName ? `, ${params.toName}` : ""}!</p>
+    <p>Recebemos um pedido para redefinir a senha da sua conta.</p>
+    <p><a href="${params.resetUrl}">Redefinir senha</a></p>
+    <p>O link expira em ${params.expiresInMinutes} minutos.</p>
+    <p>Se você não fez este pedido, ignore este email. Sua senha continua a mesma.</p>
+  `;
+
+  try {
+    await sgMail.send({
+      to: params.toEmail,
+      from: {
+        email: fromEmail,
+        name: fromName,
+      },
+      subject,
+      text: textBody,
+      html: htmlBody,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error sending password reset email:", error);
+    return { success: false, error: error?.message || "Falha ao enviar email" };
+  }
+}
+
+export interface EmailVerificationEmailParams {
+  toEmail: string;
+  toName?: string | null;
+  verifyUrl: string;
+}
+
+/**
+ * Envia email de confirmação de endereço de email.
+ */
+export async function sendEmailVerificationEmail(
+  params: EmailVerificationEmailParams
+): Promise<{ success: boolean; skipped?: boolean; error?: string }> {
+  const fromEmail = process.env.SENDGRID_FROM_EMAIL;
+  const fromName = process.env.SENDGRID_FROM_NAME || DEFAULT_FROM_NAME;
+
+  if (!getSendGridClient() || !fromEmail) {
+    return { success: false, skipped: true };
+  }
+
+  const subject = "Confirme seu email";
+
+  const textBody = [
+    `Olá${params.toName ? `, ${params.toName}` : ""}!`,
+    "",
+    `Confirme seu email para liberar a compra de cursos no ${fromName}:`,
+    params.verifyUrl,
+  ].join("\n");
+
+  const htmlBody = `
+    <p>Olá${params.toName ? `, ${params.toName}` : ""}!</p>
+    <p>Confirme seu email para liberar a compra de cursos no <strong>${fromName}</strong>.</p>
+    <p><a href="${params.verifyUrl}">Confirmar email</a></p>
+  `;
+
+  try {
+    await sgMail.send({
+      to: params.toEmail,
+      from: {
+        email: fromEmail,
+        name: fromName,
+      },
+      subject,
+      text: textBody,
+      html: htmlBody,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error sending email verification email:", error);
+    return { success: false, error: error?.message || "Falha ao enviar email" };
+  }
+}
+
+export interface SubscriptionPaymentFailedEmailParams {
+  toEmail: string;
+  toName?: string | null;
+  planName: string;
+  graceEndsAt: Date;
+  invoiceUrl?: string | null;
+  isReminder?: boolean;
+}
+
+/**
+ * Envia aviso (ou lembrete) de falha no pagamento da assinatura.
+ */
+export async function sendSubscriptionPaymentFailedEmail(
+  params: SubscriptionPaymentFailedEmailParams
+): Promise<{ success: boolean; skipped?: boolean; error?: string }> {
+  const fromEmail = process.env.SENDGRID_FROM_EMAIL;
+  const fromName = process.env.SENDGRID_FROM_NAME || DEFAULT_FROM_NAME;
+  const frontendUrl = process.env.FRONTEND_URL;
+
+  if (!getSendGridClient() || !fromEmail) {
+    return { success: false, skipped: true };
+  }
+
+  const subject = params.isReminder
+    ? `Lembrete: pagamento pendente do ${params.planName}`
+    : `Não conseguimos cobrar sua assinatura do ${params.planName}`;
+  const paymentUrl =
+    params.invoiceUrl || (frontendUrl ? `${frontendUrl}/payments` : null);
+  const graceEndDate = params.graceEndsAt.toLocaleDateString("pt-BR", {
+    timeZone: "UTC",
+  });
+
+  const textBody = [
+    `Olá${params.toName ? `, ${params.toName}` : ""}!`,
+    "",
+    `O pagamento da sua assinatura do ${params.planName} não foi aprovado.`,
+    `Você continua com os recursos do plano até ${graceEndDate}. Depois disso, sua conta passa para o plano gratuito até o pagamento ser regularizado.`,
+    paymentUrl ? "" : null,
+    paymentUrl ? `Atualize seu pagamento: ${paymentUrl}` : null,
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+
+  const htmlBody = `
+    <p>Olá${params.toName ? `, ${params.toName}` : ""}!</p>
+    <p>O pagamento da sua assinatura do <strong>${params.planName}</strong> não foi aprovado.</p>
+    <p>Você continua com os recursos do plano até <strong>${graceEndDate}</strong>. Depois disso, sua conta passa para o plano gratuito até o pagamento ser regularizado.</p>
+    ${paymentUrl ? `<p><a href="${paymentUrl}">Atualizar pagamento</a></p>` : ""}
+  `;
+
+  try {
+    await sgMail.send({
+      to: params.toEmail,
+      from: {
+        email: fromEmail,
+        name: fromName,
+      },
+      subject,
+      text: textBody,
+      html: htmlBody,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error sending subscription payment failed email:", error);
+    return { success: false, error: error?.message || "Falha ao enviar email" };
+  }
+}
+
+export interface SubscriptionDowngradedEmailParams {
+  toEmail: string;
+  toName?: string | null;
+  planName: string;
+}
+
+/**
+ * Envia aviso de rebaixamento para o plano gratuito após a carência.
+ */
+export async function sendSubscriptionDowngradedEmail(
+  params: SubscriptionDowngradedEmailParams
+): Promise<{ success: boolean; skipped?: boolean; error?: string }> {
+  const fromEmail = process.env.SENDGRID_FROM_EMAIL;
+  const fromName = process.env.SENDGRID_FROM_NAME || DEFAULT_FROM_NAME;
+  const frontendUrl = process.env.FRONTEND_URL;
+
+  if (!getSendGridClient() || !fromEmail) {
+    return { success: false, skipped: true };
+  }
+
+  const subject = "Sua conta passou para o plano gratuito";
+  const paymentUrl = frontendUrl ? `${frontendUrl}/payments` : null;
+
+  const textBody = [
+    `Olá${params.toName ? `, ${params.toName}` : ""}!`,
+    "",
+    `Como o pagamento da sua assinatura do ${params.planName} continua pendente, sua conta passou para o plano gratuito.`,
+    "Assim que o pagamento for aprovado, os recursos do plano voltam automaticamente.",
+    paymentUrl ? "" : null,
+    paymentUrl ? `Regularize seu pagamento: ${paymentUrl}` : null,
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+
+  const htmlBody = `
+    <p>Olá${params.toName ? `, ${params.toName}` : ""}!</p>
+    <p>Como o pagamento da sua assinatura do <strong>${params.planName}</strong> continua pendente, sua conta passou para o plano gratuito.</p>
+    <p>Assim que o pagamento for aprovado, os recursos do plano voltam automaticamente.</p>
+    ${paymentUrl ? `<p><a href="${paymentUrl}">Regularizar pagamento</a></p>` : ""}
+  `;
+
+  try {
+    await sgMail.send({
+      to: params.toEmail,
+      from: {
+        email: fromEmail,
+        name: fromName,
+      },
+      subject,
+      text: textBody,
+      html: htmlBody,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error sending subscription downgraded email:", error);
+    return { success: false, error: error?.message || "Falha ao enviar email" };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Embeddings Service
+ * Turns text into normalized vectors with the OpenAI embeddings API
+ */
+
+import OpenAI from "openai";
+import { AIUsage } from "./ai-usage";
+
+let openaiClient: OpenAI | null = null;
+
+export const EMBEDDING_MODEL =
+  process.env.EMBEDDING_MODEL || "text-embedding-3-small";
+
+// Fewer dimensions keep rows small and ranking fast with little quality loss
+export const EMBEDDING_DIMENSIONS = Number(
+  process.env.EMBEDDING_DIMENSIONS || 512
+);
+
+// Inputs per request (the API accepts up to 2048)
+const BATCH_SIZE = 100;
+
+function getOpenAIClient(): OpenAI {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY nao configurada");
+  }
+
+  if (!openaiClient) {
+    openaiClient = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+
+  return openaiClient;
+}
+
+/**
+ * Scale a vector to length 1, so a dot product is the cosine similarity
+ */
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+/**
+ * Embed texts, in order (throws on API errors)
+ */
+export async function embedTexts(
+  texts: string[]
+): Promise<{ vectors: number[][]; usage: AIUsage }> {
+  const client = getOpenAIClient();
+  const vectors: number[][] = [];
+  let promptTokens = 0;
+
+  for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+    const batch = texts.slice(start, start + BATCH_SIZE);
+
+    const response = await client.embeddings.create({
+      model: EMBEDDING_MODEL,
+      input: batch,
+      dimensions: EMBEDDING_DIMENSIONS,
+    });
+
+    const ordered = [...response.data].sort((a, b) => a.index - b.index);
+    vectors.push(...ordered.map((item) => normalize(item.embedding)));
+    promptTokens += response.usage?.prompt_tokens ?? 0;
+  }
+
+  return {
+    vectors,
+    usage: { model: EMBEDDING_MODEL, promptTokens, completionTokens: 0 },
+  };
+}
@@ -111,6 +111,26 @@ export async function addXp(
   source: "lesson" | "quiz" | "streak" | "badge" | "course" | "bonus",
   sourceId?: string,
   description?: string
+): Promise<{ newXp: number; leveledUp: boolean; newLevel?: number; newBadges: Badge[] }> {
+  // Record XP transaction
+  await db.insert(xpTransactions).values({
+    userId,
+    amount,
+    source,
+    sourceId,
+    description,
+  });
+
+  return applyXp(userId, amount);
+}
+
+/**
+ * Add XP already recorded as a transaction to the user's total and level,
+ * and award the badges it unlocks
+ */
+async function applyXp(
+  userId: string,
+  amount: number
 ): Promise<{ newXp: number; leveledUp: boolean; newLevel?: number; newBadges: Badge[] }> {
   // Get current progress
   let progress = await db.query.userProgress.findFirst({
@@ -139,15 +159,6 @@ export async function addXp(
     })
     .where(eq(userProgress.userId, userId));
 
-  // Record XP transaction
-  await db.insert(xpTransactions).values({
-    userId,
-    amount,
-    source,
-    sourceId,
-    description,
-  });
-
   // Check for new badges
   const newBadges = await checkAndAwardBadges(userId, newTotalXp, progress);
 
@@ -166,6 +177,8 @@ export async function recordLessonComplete(
   userId: string,
   videoId: string
 ): Promise<{ xpGained: number; newBadges: Badge[] }> {
+  await ensureUserProgress(userId);
+
   // Update lessons completed
   await db
     .update(userProgress)
@@ -206,6 +219,8 @@ export async function recordQuizComplete(
     return { xpGained: 0, newBadges: [] };
   }
 
+  await ensureUserProgress(userId);
+
   // Update quizzes passed
   await db
     .update(userProgress)
@@ -237,12 +252,34 @@ export async function recordQuizComplete(
 }
 
 /**
- * Record course completion
+ * Record course completion (once per user and course)
+ *
+ * @returns null when the course was already rewarded
  */
 export async function recordCourseComplete(
   userId: string,
   courseId: string
-): Promise<{ xpGained: number; newBadges: Badge[] }> {
+): Promise<{ xpGained: number; newBadges: Badge[] } | null> {
+  // Claims the reward: the unique index on course XP makes a repeated or
+  // concurrent completion insert nothing
+  const [claimed] = await db
+    .insert(xpTransactions)
+    .values({
+      userId,
+      amount: XP_REWARDS.COURSE_COMPLETE,
+      source: "course",
+      sourceId: courseId,
+      description: "Curso completado",
+    })
+    .onConflictDoNothing()
+    .returning({ id: xpTransactions.id });
+
+  if (!claimed) {
+    return null;
+  }
+
+  await ensureUserProgress(userId);
+
   // Update courses completed
   await db
     .update(userProgress)
@@ -253,13 +290,7 @@ export async function recordCourseComplete(
     .where(eq(userProgress.userId, userId));
 
   // Add XP
-  const result = await addXp(
-    userId,
-    XP_REWARDS.COURSE_COMPLETE,
-    "course",
-    courseId,
-    "Curso completado"
-  );
+  const result = await applyXp(userId, XP_REWARDS.COURSE_COMPLETE);
 
   return {
     xpGained: XP_REWARDS.COURSE_COMPLETE,
@@ -267,6 +298,13 @@ export async function recordCourseComplete(
   };
 }
 
+/**
+ * Make sure the progress row exists before incrementing counters
+ */
+async function ensureUserProgress(userId: string): Promise<void> {
+  await db.insert(userProgress).values({ userId }).onConflictDoNothing();
+}
+
 /**
  * Update user's streak
  */
@@ -0,0 +1,405 @@
+/**
+ * Job Handlers
+ * Registers the background job types handled by the worker
+ */
+
+import {
+  registerJobHandler,
+  permanentJobError,
+  enqueueJob,
+  JobContext,
+} from "./job-queue";
+import { transcribeVideo } from "./video-transcription";
+import { createQuizForVideo } from "./quiz-generator";
+import { addCredits, deductCredits, reconcileCreditBalances } from "./credits";
+import { backupFileToR2, isR2BackupConfigured } from "./cloudflare-r2";
+import { translateTranscript } from "./transcript-translation";
+import { indexVideo } from "./course-index";
+import { AIUsage, recordAIUsage } from "./ai-usage";
+import { incrementUsage } from "./subscriptions";
+import { runSubscriptionDunning } from "./subscription-dunning";
+
+export const TRANSCRIPTION_JOB = "transcription";
+export const QUIZ_GENERATION_JOB = "quiz_generation";
+export const R2_BACKUP_JOB = "r2_backup";
+export const TRANSCRIPT_TRANSLATION_JOB = "transcript_translation";
+export const COURSE_INDEX_JOB = "course_index";
+export const CREDIT_RECONCILIATION_JOB = "credit_reconciliation";
+export const SUBSCRIPTION_DUNNING_JOB = "subscription_dunning";
+
+// Daily reconciliation time (UTC)
+const CREDIT_RECONCILIATION_HOUR_UTC = 3;
+
+export interface TranscriptionJobPayload {
+  videoId: string;
+  // Spoken language requested explicitly; otherwise video/course setting or detection
+  language?: string | null;
+}
+
+export interface QuizGenerationJobPayload {
+  userId: string;
+  videoId: string;
+  videoTitle: string;
+  numQuestions: number;
+  creditCost: number;
+}
+
+export interface R2BackupJobPayload {
+  key: string;
+}
+
+export interface CourseIndexJobPayload {
+  videoId: string;
+}
+
+export interface CreditReconciliationJobPayload {
+  // Daily run: queues the next one when done (manual runs do not)
+  scheduled?: boolean;
+}
+
+export interface SubscriptionDunningJobPayload {
+  // Hourly run: queues the next one when done
+  scheduled?: boolean;
+}
+
+export interface TranscriptTranslationJobPayload {
+  userId: string;
+  videoId: string;
+  videoTitle: string;
+  sourceTranscriptId: string;
+  targetLanguage: string;
+  creditCost: number;
+}
+
+/**
+ * Queue (re)indexing of a video for the course AI tutor.
+ * Skipped when OpenAI is not configured (embeddings need it).
+ */
+export async function enqueueVideoIndex(videoId: string) {
+  if (!process.env.OPENAI_API_KEY) {
+    return null;
+  }
+
+  return enqueueJob<CourseIndexJobPayload>(
+    COURSE_INDEX_JOB,
+    { videoId },
+    { dedupeKey: videoId, maxAttempts: 3 }
+  );
+}
+
+/**
+ * Give back the credits the route reserved for a translation job that
+ * produced nothing (safe to call more than once)
+ */
+export async function refundTranscriptTranslation(
+  payload: TranscriptTranslationJobPayload,
+  jobId: string
+): Promise<void> {
+  const refund = await addCredits(
+    payload.userId,
+    payload.creditCost,
+    `Estorno da tradução da transcrição (${payload.targetLanguage}): ${payload.videoTitle}`,
+    payload.sourceTranscriptId,
+    "transcript_translation",
+    "refund",
+    `refund:transcript_translation:${jobId}`
+  );
+
+  if (!refund.success) {
+    console.error("❌ Failed to refund transcript translation credits:", {
+      jobId,
+      userId: payload.userId,
+      error: refund.error,
+    });
+  }
+}
+
+/**
+ * Queue the next daily credit reconciliation (one pending run per day)
+ */
+export async function scheduleCreditReconciliation() {
+  const runAt = new Date();
+  runAt.setUTCHours(CREDIT_RECONCILIATION_HOUR_UTC, 0, 0, 0);
+  if (runAt.getTime() <= Date.now()) {
+    runAt.setUTCDate(runAt.getUTCDate() + 1);
+  }
+
+  return enqueueJob<CreditReconciliationJobPayload>(
+    CREDIT_RECONCILIATION_JOB,
+    { scheduled: true },
+    {
+      runAt,
+      dedupeKey: `daily:${runAt.toISOString().slice(0, 10)}`,
+      maxAttempts: 3,
+    }
+  );
+}
+
+/**
+ * Queue the next dunning run of overdue subscriptions (top of the next hour)
+ */
+export async function scheduleSubscriptionDunning() {
+  const runAt = new Date();
+  runAt.setUTCMinutes(0, 0, 0);
+  runAt.setUTCHours(runAt.getUTCHours() + 1);
+
+  return enqueueJob<SubscriptionDunningJobPayload>(
+    SUBSCRIPTION_DUNNING_JOB,
+    { scheduled: true },
+    {
+      runAt,
+      dedupeKey: `hourly:${runAt.toISOString().slice(0, 13)}`,
+      maxAttempts: 3,
+    }
+  );
+}
+
+/**
+ * Transcribe a video, then refresh its chunks in the course index
+ */
+async function runTranscription(
+  payload: TranscriptionJobPayload,
+  context: JobContext
+) {
+  const result = await transcribeVideo(
+    payload.videoId,
+    context,
+    payload.language
+  );
+
+  try {
+    await enqueueVideoIndex(payload.videoId);
+  } catch (error) {
+    console.error("❌ Failed to queue course index after transcription:", error);
+  }
+
+  return result;
+}
+
+/**
+ * Generate a quiz and charge the credits only once it exists
+ */
+async function runQuizGeneration(
+  payload: QuizGenerationJobPayload,
+  context: JobContext
+) {
+  let usage: AIUsage | undefined;
+  const result = await createQuizForVideo(
+    payload.videoId,
+    payload.videoTitle,
+    payload.numQuestions,
+    (reported) => (usage = reported)
+  );
+
+  if (!result) {
+    if (usage) {
+      await recordAIUsage({
+        userId: payload.userId,
+        feature: "quiz_generation",
+        usage,
+        relatedId: payload.videoId,
+        relatedType: "video",
+      });
+    }
+    throw new Error(
+      "Erro ao gerar quiz. Verifique se o vídeo possui transcrição."
+    );
+  }
+
+  const deduction = await deductCredits(
+    payload.userId,
+    payload.creditCost,
+    `Geração de quiz: ${payload.videoTitle}`,
+    result.quizId,
+    "quiz",
+    `quiz_generation:${context.jobId}`
+  );
+
+  if (!deduction.success) {
+    console.error("❌ Quiz generated but credits were not deducted:", {
+      quizId: result.quizId,
+      userId: payload.userId,
+      error: deduction.error,
+    });
+  }
+
+  await incrementUsage(payload.userId, "quiz");
+
+  if (usage) {
+    await recordAIUsage({
+      userId: payload.userId,
+      feature: "quiz_generation",
+      usage,
+      creditsCharged: deduction.success ? payload.creditCost : 0,
+      relatedId: result.quizId,
+      relatedType: "quiz",
+    });
+  }
+
+  return {
+    quizId: result.quizId,
+    questionsCount: result.questionsCount,
+    creditsUsed: deduction.success ? payload.creditCost : 0,
+  };
+}
+
+/**
+ * Copy a file to the backup bucket
+ */
+async function runR2Backup(payload: R2BackupJobPayload) {
+  if (!isR2BackupConfigured()) {
+    throw permanentJobError("Bucket de backup do R2 nao configurado");
+  }
+
+  const backedUp = await backupFileToR2(payload.key);
+  if (!backedUp) {
+    throw new Error(`Falha ao fazer backup de ${payload.key}`);
+  }
+
+  return { key: payload.key };
+}
+
+/**
+ * Translate a transcript. The credits were reserved when the job was queued:
+ * they go back when the translation already existed or the last attempt fails
+ */
+async function runTranscriptTranslation(
+  payload: TranscriptTranslationJobPayload,
+  context: JobContext
+) {
+  let usage: AIUsage | undefined;
+  let result: Awaited<ReturnType<typeof translateTranscript>>;
+  try {
+    result = await translateTranscript(
+      payload.sourceTranscriptId,
+      payload.targetLanguage,
+      (reported) => (usage = reported)
+    );
+  } catch (error) {
+    // Tokens of the batches translated before the failure were still paid
+    if (usage) {
+      await recordAIUsage({
+        userId: payload.userId,
+        feature: "transcript_translation",
+        usage,
+        relatedId: payload.sourceTranscriptId,
+        relatedType: "transcript",
+      });
+    }
+
+    if (context.isFinalAttempt || (error as any)?.code === "JOB_PERMANENT_FAILURE") {
+      await refundTranscriptTranslation(payload, context.jobId);
+    }
+    throw error;
+  }
+
+  if (result.skipped) {
+    await refundTranscriptTranslation(payload, context.jobId);
+
+    return {
+      transcriptId: result.transcript.id,
+      language: result.transcript.language,
+      segmentsCount: result.segmentsCount,
+      creditsUsed: 0,
+    };
+  }
+
+  if (usage) {
+    await recordAIUsage({
+      userId: payload.userId,
+      feature: "transcript_translation",
+      usage,
+      creditsCharged: payload.creditCost,
+      relatedId: result.transcript.id,
+      relatedType: "transcript",
+    });
+  }
+
+  return {
+    transcriptId: result.transcript.id,
+    language: result.transcript.language,
+    segmentsCount: result.segmentsCount,
+    creditsUsed: payload.creditCost,
+  };
+}
+
+/**
+ * Check balances against the transactions; scheduled runs queue the next one,
+ * also when this one fails (a failure must not end the daily chain)
+ */
+async function runCreditReconciliation(
+  payload: CreditReconciliationJobPayload,
+  context: JobContext
+) {
+  try {
+    const report = await reconcileCreditBalances();
+
+    if (report.mismatches.length > 0 || report.unbalancedTransactions.length > 0) {
+      console.error("❌ Credit reconciliation found differences:", {
+        mismatches: report.mismatches.length,
+        unbalancedTransactions: report.unbalancedTransactions.length,
+        jobId: context.jobId,
+      });
+    } else {
+      console.log(`🧾 Credit reconciliation OK (${report.usersChecked} balances)`);
+    }
+
+    return report;
+  } finally {
+    if (payload.scheduled) {
+      await scheduleCreditReconciliation();
+    }
+  }
+}
+
+/**
+ * Reminders and downgrades of overdue subscriptions; scheduled runs queue
+ * the next one, also when this one fails
+ */
+async function runSubscriptionDunningJob(payload: SubscriptionDunningJobPayload) {
+  try {
+    const result = await runSubscriptionDunning();
+
+    if (result.downgraded > 0 || result.reminders > 0) {
+      console.log(
+        `💳 Subscription dunning: ${result.reminders} reminders, ${result.downgraded} downgrades`
+      );
+    }
+
+    return result;
+  } finally {
+    if (payload.scheduled) {
+      await scheduleSubscriptionDunning();
+    }
+  }
+}
+
+/**
+ * Register every job type (call once before starting the worker)
+ */
+export function registerJobHandlers(): void {
+  registerJobHandler<TranscriptionJobPayload>(
+    TRANSCRIPTION_JOB,
+    runTranscription
+  );
+  registerJobHandler<QuizGenerationJobPayload>(
+    QUIZ_GENERATION_JOB,
+    runQuizGeneration
+  );
+  registerJobHandler<R2BackupJobPayload>(R2_BACKUP_JOB, runR2Backup);
+  registerJobHandler<TranscriptTranslationJobPayload>(
+    TRANSCRIPT_TRANSLATION_JOB,
+    runTranscriptTranslation
+  );
+  registerJobHandler<CourseIndexJobPayload>(COURSE_INDEX_JOB, (payload) =>
+    indexVideo(payload.videoId)
+  );
+  registerJobHandler<CreditReconciliationJobPayload>(
+    CREDIT_RECONCILIATION_JOB,
+    runCreditReconciliation
+  );
+  registerJobHandler<SubscriptionDunningJobPayload>(
+    SUBSCRIPTION_DUNNING_JOB,
+    runSubscriptionDunningJob
+  );
+}
@@ -0,0 +1,362 @@
+/**
+ * Job Queue Service
+ * Postgres-backed background jobs with leases, retries and exponential backoff
+ *
+ * Jobs are claimed with FOR UPDATE SKIP LOCKED, so several API instances can
+ * run the worker loop against the same table. A running job holds a lease
+ * that is renewed while its handler works; if the process dies the lease
+ * expires and another worker picks the job up again.
+ */
+
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import { jobs } from "../db/schema";
+import { eq, and, or, lt, lte, asc, inArray, sql } from "drizzle-orm";
+
+export type JobStatus = "pending" | "running" | "completed" | "failed";
+
+export type Job = typeof jobs.$inferSelect;
+
+export interface JobContext {
+  jobId: string;
+  attempt: number;
+  isFinalAttempt: boolean;
+}
+
+export type JobHandler<TPayload = any> = (
+  payload: TPayload,
+  context: JobContext
+) => Promise<unknown>;
+
+export interface EnqueueOptions {
+  userId?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+  // Reuse a pending/running job with the same key instead of creating another
+  dedupeKey?: string;
+  // Id for the new job, when the caller needs it before enqueueing
+  id?: string;
+}
+
+const LEASE_MS = Number(process.env.JOB_LEASE_SECONDS || 300) * 1000;
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS || 5000);
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+const handlers = new Map<string, JobHandler>();
+
+let workerRunning = false;
+let workerLoop: Promise<void> | null = null;
+let wakeUp: (() => void) | null = null;
+
+/**
+ * Error that must not be retried (bad payload, deleted video, ...)
+ */
+export function permanentJobError(message: string): Error {
+  const error = new Error(message);
+  (error as any).code = "JOB_PERMANENT_FAILURE";
+  return error;
+}
+
+/**
+ * Register the function that runs jobs of a given type
+ */
+export function registerJobHandler<TPayload>(
+  type: string,
+  handler: JobHandler<TPayload>
+): void {
+  handlers.set(type, handler as JobHandler);
+}
+
+/**
+ * Delay before retry N (1-based): 30s, 1m, 2m, 4m... capped at 1h
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempt - 1), BACKOFF_MAX_MS);
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob<TPayload>(
+  type: string,
+  payload: TPayload,
+  options: EnqueueOptions = {}
+): Promise<Job> {
+  // The partial unique index on (type, dedupe_key) of open jobs makes a
+  // concurrent enqueue with the same key insert nothing
+  const [job] = await db
+    .insert(jobs)
+    .values({
+      id: options.id,
+      type,
+      payload: JSON.stringify(payload ?? {}),
+      userId: options.userId,
+      maxAttempts: options.maxAttempts,
+      runAt: options.runAt ?? new Date(),
+      dedupeKey: options.dedupeKey,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!job) {
+    const existing = await db.query.jobs.findFirst({
+      where: and(
+        eq(jobs.type, type),
+        eq(jobs.dedupeKey, options.dedupeKey!),
+        inArray(jobs.status, ["pending", "running"])
+      ),
+    });
+
+    // The open job finished in between: enqueue a new one
+    return existing ?? enqueueJob(type, payload, options);
+  }
+
+  console.log(`📋 Job enqueued: ${type} (${job.id})`);
+
+  // Do not wait for the next poll when the worker runs in this process
+  wakeUp?.();
+
+  return job;
+}
+
+/**
+ * Get a job by id
+ */
+export async function getJob(jobId: string): Promise<Job | null> {
+  const job = await db.query.jobs.findFirst({
+    where: eq(jobs.id, jobId),
+  });
+  return job ?? null;
+}
+
+/**
+ * Public view of a job (payload stays internal)
+ */
+export function serializeJob(job: Job) {
+  let result: unknown = null;
+  if (job.result) {
+    try {
+      result = JSON.parse(job.result);
+    } catch {
+      result = job.result;
+    }
+  }
+
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status as JobStatus,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    lastError: job.lastError,
+    result,
+    runAt: job.runAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    createdAt: job.createdAt,
+  };
+}
+
+/**
+ * Claim the next runnable job: pending and due, or running with an
+ * expired lease (its worker died)
+ */
+async function claimNextJob(): Promise<Job | null> {
+  const now = new Date();
+
+  const candidate = db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(
+      or(
+        and(eq(jobs.status, "pending"), lte(jobs.runAt, now)),
+        and(eq(jobs.status, "running"), lt(jobs.lockedUntil, now))
+      )
+    )
+    .orderBy(asc(jobs.runAt))
+    .limit(1)
+    .for("update", { skipLocked: true });
+
+  const [job] = await db
+    .update(jobs)
+    .set({
+      status: "running",
+      attempts: sql`${jobs.attempts} + 1`,
+      lockedBy: WORKER_ID,
+      lockedUntil: new Date(Date.now() + LEASE_MS),
+      startedAt: sql`COALESCE(${jobs.startedAt}, NOW())`,
+      updatedAt: new Date(),
+    })
+    .where(inArray(jobs.id, candidate))
+    .returning();
+
+  return job ?? null;
+}
+
+/**
+ * Extend the lease of a job we still own
+ */
+async function renewLease(jobId: string): Promise<void> {
+  await db
+    .update(jobs)
+    .set({ lockedUntil: new Date(Date.now() + LEASE_MS) })
+    .where(
+      and(
+        eq(jobs.id, jobId),
+        eq(jobs.lockedBy, WORKER_ID),
+        eq(jobs.status, "running")
+      )
+    );
+}
+
+async function markCompleted(jobId: string, result: unknown): Promise<void> {
+  await db
+    .update(jobs)
+    .set({
+      status: "completed",
+      result: result === undefined ? null : JSON.stringify(result),
+      lastError: null,
+      lockedBy: null,
+      lockedUntil: null,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(jobs.id, jobId), eq(jobs.lockedBy, WORKER_ID)));
+}
+
+async function markFailed(
+  job: Job,
+  error: any,
+  allowRetry: boolean
+): Promise<void> {
+  const message = (error?.message || String(error)).slice(0, 2000);
+  const willRetry = allowRetry && job.attempts < job.maxAttempts;
+
+  await db
+    .update(jobs)
+    .set({
+      status: willRetry ? "pending" : "failed",
+      lastError: message,
+      runAt: willRetry
+        ? new Date(Date.now() + getRetryDelayMs(job.attempts))
+        : job.runAt,
+      lockedBy: null,
+      lockedUntil: null,
+      completedAt: willRetry ? null : new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(jobs.id, job.id), eq(jobs.lockedBy, WORKER_ID)));
+
+  if (willRetry) {
+    console.warn(
+      `⚠️ Job ${job.type} (${job.id}) failed, attempt ${job.attempts}/${job.maxAttempts}. Retrying:`,
+      message
+    );
+  } else {
+    console.error(`❌ Job ${job.type} (${job.id}) failed permanently:`, message);
+  }
+}
+
+/**
+ * Run a claimed job, renewing its lease while the handler works
+ */
+async function runJob(job: Job): Promise<void> {
+  // Lease expired after the last attempt (worker crashed every time)
+  if (job.attempts > job.maxAttempts) {
+    await markFailed(
+      job,
+      new Error("Worker interrompido durante todas as tentativas"),
+      false
+    );
+    return;
+  }
+
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    await markFailed(
+      job,
+      new Error(`Nenhum handler registrado para ${job.type}`),
+      false
+    );
+    return;
+  }
+
+  const leaseTimer = setInterval(() => {
+    renewLease(job.id).catch((error) =>
+      console.error(`❌ Failed to renew lease of job ${job.id}:`, error)
+    );
+  }, Math.max(1000, Math.floor(LEASE_MS / 3)));
+
+  try {
+    console.log(
+      `🔄 Running job ${job.type} (${job.id}), attempt ${job.attempts}/${job.maxAttempts}`
+    );
+    const payload = JSON.parse(job.payload);
+    const result = await handler(payload, {
+      jobId: job.id,
+      attempt: job.attempts,
+      isFinalAttempt: job.attempts >= job.maxAttempts,
+    });
+    await markCompleted(job.id, result);
+    console.log(`✅ Job ${job.type} (${job.id}) completed`);
+  } catch (error: any) {
+    await markFailed(job, error, error?.code !== "JOB_PERMANENT_FAILURE");
+  } finally {
+    clearInterval(leaseTimer);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    wakeUp = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+}
+
+/**
+ * Start the worker loop (one job at a time per process)
+ */
+export function startJobWorker(): void {
+  if (workerRunning) return;
+  workerRunning = true;
+
+  console.log(`👷 Job worker started (${WORKER_ID})`);
+
+  workerLoop = (async () => {
+    while (workerRunning) {
+      try {
+        const job = await claimNextJob();
+        if (job) {
+          await runJob(job);
+          continue;
+        }
+      } catch (error) {
+        console.error("❌ Job worker error:", error);
+      }
+
+      if (workerRunning) {
+        await sleep(POLL_INTERVAL_MS);
+      }
+      wakeUp = null;
+    }
+  })();
+}
+
+/**
+ * Stop the worker loop after the current job finishes
+ */
+export async function stopJobWorker(): Promise<void> {
+  if (!workerRunning) return;
+  workerRunning = false;
+  wakeUp?.();
+  await workerLoop;
+  workerLoop = null;
+  console.log("👷 Job worker stopped");
+}
@@ -0,0 +1,332 @@
+/**
+ * Lesson Progress Service
+ * Tracks player heartbeats per student/video and drives gamification on completion
+ */
+
+import { db } from "../db";
+import {
+  lessonProgress,
+  videos,
+} from "../db/schema";
+import { eq, and, lt, sql } from "drizzle-orm";
+import {
+  recordLessonComplete,
+  recordCourseComplete,
+  Badge,
+} from "./gamification";
+
+// Share of videos.duration that must be watched to complete a lesson (0-1)
+export const LESSON_COMPLETION_THRESHOLD = parseCompletionThreshold(
+  process.env.LESSON_COMPLETION_THRESHOLD
+);
+
+// Maximum watched seconds credited by a single heartbeat (protects against
+// clients reporting a whole lesson in one request)
+const MAX_HEARTBEAT_SECONDS = 120;
+
+// Extra seconds accepted over the real time since the previous heartbeat
+// (network latency, player buffering)
+const HEARTBEAT_TOLERANCE_SECONDS = 5;
+
+export interface ProgressHeartbeat {
+  position: number; // Current player position in seconds
+  watchedSeconds: number; // Seconds watched since the previous heartbeat
+  completed?: boolean; // Videos without duration: honored once the watched time covers `position`
+}
+
+export interface LessonProgressData {
+  videoId: string;
+  courseId: string;
+  lastPosition: number;
+  watchedSeconds: number;
+  completed: boolean;
+  completedAt: Date | null;
+}
+
+export interface HeartbeatResult {
+  progress: LessonProgressData;
+  lessonCompleted: boolean; // True only on the heartbeat that completed the lesson
+  courseCompleted: boolean;
+  xpGained: number;
+  newBadges: Badge[];
+}
+
+/**
+ * Parse the completion threshold, accepting either 0-1 or 0-100 values
+ */
+function parseCompletionThreshold(value: string | undefined): number {
+  const parsed = value ? Number(value) : NaN;
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return 0.9;
+  }
+  const normalized = parsed > 1 ? parsed / 100 : parsed;
+  return Math.min(1, normalized);
+}
+
+function toProgressData(
+  row: typeof lessonProgress.$inferSelect
+): LessonProgressData {
+  return {
+    videoId: row.videoId,
+    courseId: row.courseId,
+    lastPosition: row.lastPosition,
+    watchedSeconds: row.watchedSeconds,
+    completed: row.completed === 1,
+    completedAt: row.completedAt,
+  };
+}
+
+/**
+ * Store a player heartbeat and complete the lesson once enough was watched
+ */
+export async function recordLessonHeartbeat(
+  studentId: string,
+  video: { id: string; courseId: string; duration: number | null },
+  heartbeat: ProgressHeartbeat
+): Promise<HeartbeatResult> {
+  const duration = video.duration && video.duration > 0 ? video.duration : null;
+  const position = Math.max(
+    0,
+    Math.floor(duration ? Math.min(heartbeat.position, duration) : heartbeat.position)
+  );
+  const row = await storeHeartbeat(studentId, video, position, heartbeat);
+
+  // Without a duration the client reports the end of the video, but the
+  // watched time (bounded by real time) must still cover it
+  const reachedThreshold = duration
+    ? row.watchedSeconds >= Math.ceil(duration * LESSON_COMPLETION_THRESHOLD)
+    : heartbeat.completed === true &&
+      position > 0 &&
+      row.watchedSeconds >= Math.ceil(position * LESSON_COMPLETION_THRESHOLD);
+
+  if (row.completed === 1 || !reachedThreshold) {
+    return {
+      progress: toProgressData(row),
+      lessonCompleted: false,
+      courseCompleted: false,
+      xpGained: 0,
+      newBadges: [],
+    };
+  }
+
+  // Conditional update so concurrent heartbeats complete the lesson only once
+  const [completedRow] = await db
+    .update(lessonProgress)
+    .set({ completed: 1, completedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(lessonProgress.id, row.id), eq(lessonProgress.completed, 0)))
+    .returning();
+
+  if (!completedRow) {
+    return {
+      progress: toProgressData(row),
+      lessonCompleted: false,
+      courseCompleted: false,
+      xpGained: 0,
+      newBadges: [],
+    };
+  }
+
+  console.log("🎓 Lesson completed:", { studentId, videoId: video.id });
+
+  const lessonReward = await recordLessonComplete(studentId, video.id);
+  let xpGained = lessonReward.xpGained;
+  const newBadges = [...lessonReward.newBadges];
+
+  let courseCompleted = false;
+  if (await isCourseCompleted(studentId, video.courseId)) {
+    // Null when already rewarded (also by a concurrent heartbeat)
+    const courseReward = await recordCourseComplete(
+      studentId,
+      video.courseId
+    );
+
+    if (courseReward) {
+      console.log("🏆 Course completed:", {
+        studentId,
+        courseId: video.courseId,
+      });
+      xpGained += courseReward.xpGained;
+      newBadges.push(...courseReward.newBadges);
+      courseCompleted = true;
+    }
+  }
+
+  return {
+    progress: toProgressData(completedRow),
+    lessonCompleted: true,
+    courseCompleted,
+    xpGained,
+    newBadges,
+  };
+}
+
+/**
+ * Save the position and credit the watched seconds, never more than the real
+ * time since the previous heartbeat (the first heartbeat only starts the clock)
+ */
+async function storeHeartbeat(
+  studentId: string,
+  video: { id: string; courseId: string; duration: number | null },
+  position: number,
+  heartbeat: ProgressHeartbeat
+): Promise<typeof lessonProgress.$inferSelect> {
+  const duration = video.duration && video.duration > 0 ? video.duration : null;
+  const now = new Date();
+
+  const existing = await db.query.lessonProgress.findFirst({
+    where: and(
+      eq(lessonProgress.studentId, studentId),
+      eq(lessonProgress.videoId, video.id)
+    ),
+  });
+
+  if (!existing) {
+    const [inserted] = await db
+      .insert(lessonProgress)
+      .values({
+        studentId,
+        videoId: video.id,
+        courseId: video.courseId,
+        lastPosition: position,
+        watchedSeconds: 0,
+        updatedAt: now,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (inserted) {
+      return inserted;
+    }
+
+    // A concurrent heartbeat created it first
+    return (await db.query.lessonProgress.findFirst({
+      where: and(
+        eq(lessonProgress.studentId, studentId),
+        eq(lessonProgress.videoId, video.id)
+      ),
+    }))!;
+  }
+
+  const lastUpdate = existing.updatedAt ?? now;
+  const elapsedSeconds = Math.max(
+    0,
+    (now.getTime() - lastUpdate.getTime()) / 1000
+  );
+  const delta = Math.max(
+    0,
+    Math.min(
+      Math.floor(heartbeat.watchedSeconds),
+      MAX_HEARTBEAT_SECONDS,
+      Math.floor(elapsedSeconds + HEARTBEAT_TOLERANCE_SECONDS)
+    )
+  );
+
+  // Never credit more watched time than the video actually has
+  const watchedExpression = duration
+    ? sql`LEAST(${lessonProgress.watchedSeconds} + ${delta}, ${duration})`
+    : sql`${lessonProgress.watchedSeconds} + ${delta}`;
+
+  // Only if no other heartbeat was stored meanwhile: parallel requests must
+  // not each credit the same elapsed time
+  const [updated] = await db
+    .update(lessonProgress)
+    .set({
+      lastPosition: position,
+      watchedSeconds: watchedExpression,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(lessonProgress.id, existing.id),
+        lt(lessonProgress.updatedAt, new Date(lastUpdate.getTime() + 1))
+      )
+    )
+    .returning();
+
+  return updated ?? existing;
+}
+
+/**
+ * Check whether a student completed every video of a course
+ */
+async function isCourseCompleted(
+  studentId: string,
+  courseId: string
+): Promise<boolean> {
+  const [totals] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(videos)
+    .where(eq(videos.courseId, courseId));
+
+  if (!totals || totals.count === 0) {
+    return false;
+  }
+
+  const [completed] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(lessonProgress)
+    .where(
+      and(
+        eq(lessonProgress.studentId, studentId),
+        eq(lessonProgress.courseId, courseId),
+        eq(lessonProgress.completed, 1)
+      )
+    );
+
+  return (completed?.count ?? 0) >= totals.count;
+}
+
+/**
+ * Get a student's progress for a single video
+ */
+export async function getLessonProgress(
+  studentId: string,
+  videoId: string
+): Promise<LessonProgressData | null> {
+  const row = await db.query.lessonProgress.findFirst({
+    where: and(
+      eq(lessonProgress.studentId, studentId),
+      eq(lessonProgress.videoId, videoId)
+    ),
+  });
+
+  return row ? toProgressData(row) : null;
+}
+
+/**
+ * Get a student's progress summary for a course
+ */
+export async function getCourseProgress(
+  studentId: string,
+  courseId: string
+): Promise<{
+  totalLessons: number;
+  completedLessons: number;
+  percentage: number;
+  lessons: LessonProgressData[];
+}> {
+  const [totals] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(videos)
+    .where(eq(videos.courseId, courseId));
+
+  const rows = await db.query.lessonProgress.findMany({
+    where: and(
+      eq(lessonProgress.studentId, studentId),
+      eq(lessonProgress.courseId, courseId)
+    ),
+  });
+
+  const totalLessons = totals?.count ?? 0;
+  const completedLessons = rows.filter((row) => row.completed === 1).length;
+
+  return {
+    totalLessons,
+    completedLessons,
+    percentage:
+      totalLessons > 0
+        ? Math.round((completedLessons / totalLessons) * 100)
+        : 0,
+    lessons: rows.map(toProgressData),
+  };
+}
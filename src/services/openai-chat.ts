@@ -4,9 +4,13 @@
  */
 
 import OpenAI from "openai";
+import { AIUsage, toAIUsage, sumAIUsage } from "./ai-usage";
 
 let openaiClient: OpenAI | null = null;
 
+// Model of the chats (also recorded on estimated usage of interrupted streams)
+export const CHAT_MODEL = "gpt-4o-mini";
+
 function getOpenAIClient(): OpenAI {
   if (!process.env.OPENAI_API_KEY) {
     throw new Error("OPENAI_API_KEY nao configurada");
@@ -22,48 +26,74 @@ function getOpenAIClient(): OpenAI {
 }
 
 /**
- * Generate AI response based on video transcript and user question
+ * Earlier turn of a chat session, sent as context for follow-up questions
  */
-export async function generateAIResponse(
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Prompt of the video mentor: instructions, earlier turns, then the
+ * transcript with the new question
+ */
+function buildVideoChatMessages(
   transcript: string,
   question: string,
-  videoTitle?: string
-): Promise<{ response: string; error?: string }> {
-  try {
-    console.log("🤖 Generating AI response for question:", question.substring(0, 50));
-
-    const client = getOpenAIClient();
-
-    // Build system prompt
-    const systemPrompt = `Você é um mentor de IA especializado em ajudar estudantes a entenderem o conteúdo de aulas em vídeo.
+  videoTitle: string | undefined,
+  history: ChatTurn[]
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+  // Build system prompt
+  const systemPrompt = `Você é um mentor de IA especializado em ajudar estudantes a entenderem o conteúdo de aulas em vídeo.
 
 Sua função é:
 - Responder perguntas dos estudantes baseado APENAS no conteúdo da transcrição do vídeo
 - Explicar conceitos de forma clara e didática
 - Se a pergunta não estiver relacionada ao conteúdo do vídeo, informe educadamente que você só pode ajudar com questões sobre esta aula específica
 - Use linguagem clara e acessível, como um tutor paciente
+- Quando a transcrição tiver marcações de tempo como [12:30], indique o momento da aula em que o assunto aparece (ex.: "no minuto 12:30")
 
 IMPORTANTE: Baseie suas respostas exclusivamente na transcrição fornecida. Se a informação não estiver na transcrição, diga que não tem essa informação disponível neste vídeo.`;
 
-    // Build user message with context
-    const contextMessage = videoTitle
-      ? `Transcrição da aula "${videoTitle}":\n\n${transcript}\n\n---\n\nPergunta do estudante: ${question}`
-      : `Transcrição da aula:\n\n${transcript}\n\n---\n\nPergunta do estudante: ${question}`;
+  // Build user message with context
+  const contextMessage = videoTitle
+    ? `Transcrição da aula "${videoTitle}":\n\n${transcript}\n\n---\n\nPergunta do estudante: ${question}`
+    : `Transcrição da aula:\n\n${transcript}\n\n---\n\nPergunta do estudante: ${question}`;
+
+  return [
+    {
+      role: "system",
+      content: systemPrompt,
+    },
+    ...history.map((turn) => ({ role: turn.role, content: turn.content })),
+    {
+      role: "user",
+      content: contextMessage,
+    },
+  ];
+}
+
+/**
+ * Generate AI response based on video transcript and user question
+ *
+ * @param history - Earlier turns of the session, oldest first
+ */
+export async function generateAIResponse(
+  transcript: string,
+  question: string,
+  videoTitle?: string,
+  history: ChatTurn[] = []
+): Promise<{ response: string; usage?: AIUsage; error?: string }> {
+  try {
+    console.log("🤖 Generating AI response for question:", question.substring(0, 50));
+
+    const client = getOpenAIClient();
 
     console.log("📤 Sending to OpenAI Chat API...");
 
     const completion = await client.chat.completions.create({
-      model: "gpt-4o-mini", // Using gpt-4o-mini for cost efficiency
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt,
-        },
-        {
-          role: "user",
-          content: contextMessage,
-        },
-      ],
+      model: CHAT_MODEL, // Using gpt-4o-mini for cost efficiency
+      messages: buildVideoChatMessages(transcript, question, videoTitle, history),
       temperature: 0.7,
       max_tokens: 500,
     });
@@ -74,6 +104,7 @@ IMPORTANTE: Baseie suas respostas exclusivamente na transcrição fornecida. Se
 
     return {
       response,
+      usage: toAIUsage(CHAT_MODEL, completion.usage),
     };
   } catch (error: any) {
     console.error("❌ AI chat error:", error);
@@ -84,6 +115,47 @@ IMPORTANTE: Baseie suas respostas exclusivamente na transcrição fornecida. Se
   }
 }
 
+/**
+ * Same answer as generateAIResponse, yielded piece by piece as the model
+ * writes it (throws on API errors; abort with the signal). onUsage is
+ * called with the token usage once the answer is complete.
+ */
+export async function* streamAIResponse(
+  transcript: string,
+  question: string,
+  videoTitle?: string,
+  history: ChatTurn[] = [],
+  options: { signal?: AbortSignal; onUsage?: (usage: AIUsage) => void } = {}
+): AsyncGenerator<string> {
+  console.log("🤖 Streaming AI response for question:", question.substring(0, 50));
+
+  const client = getOpenAIClient();
+
+  const stream = await client.chat.completions.create(
+    {
+      model: CHAT_MODEL,
+      messages: buildVideoChatMessages(transcript, question, videoTitle, history),
+      temperature: 0.7,
+      max_tokens: 500,
+      stream: true,
+      // Last chunk carries the token usage (with no choices)
+      stream_options: { include_usage: true },
+    },
+    { signal: options.signal }
+  );
+
+  for await (const chunk of stream) {
+    const content = chunk.choices[0]?.delta?.content;
+    if (content) {
+      yield content;
+    }
+    if (chunk.usage) {
+      options.onUsage?.(toAIUsage(CHAT_MODEL, chunk.usage));
+    }
+  }
+}
+
+
 
 
 
@@ -91,3 +163,172 @@ IMPORTANTE: Baseie suas respostas exclusivamente na transcrição fornecida. Se
 
 
 
+/**
+ * Excerpt of a lesson given to the course tutor, numbered for citations
+ */
+export interface CourseSource {
+  ref: number;
+  videoTitle: string;
+  // "12:30", or null for transcripts without timestamps
+  timestamp: string | null;
+  content: string;
+}
+
+/**
+ * Answer a question about a whole course from the retrieved excerpts,
+ * citing them as [1], [2]...
+ */
+export async function generateCourseAIResponse(
+  question: string,
+  sources: CourseSource[],
+  courseTitle?: string
+): Promise<{ response: string; usage?: AIUsage; error?: string }> {
+  try {
+    console.log("🤖 Generating course AI response for question:", question.substring(0, 50));
+
+    const client = getOpenAIClient();
+
+    const systemPrompt = `Você é um mentor de IA que conhece todas as aulas de um curso em vídeo.
+
+Sua função é:
+- Responder perguntas dos estudantes baseado APENAS nos trechos de aulas fornecidos
+- Citar os trechos usados com o número entre colchetes, ex.: [1] ou [2][3]
+- Dizer em qual aula (e em que minuto, quando houver) o assunto foi explicado
+- Explicar conceitos de forma clara e didática, como um tutor paciente
+
+IMPORTANTE: Se os trechos não tiverem a resposta, diga que este curso não aborda o assunto. Não invente aulas, minutos ou conteúdo.`;
+
+    const context = sources
+      .map(
+        (source) =>
+          `[${source.ref}] Aula "${source.videoTitle}"${
+            source.timestamp ? ` (minuto ${source.timestamp})` : ""
+          }:\n${source.content}`
+      )
+      .join("\n\n");
+
+    const completion = await client.chat.completions.create({
+      model: CHAT_MODEL,
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: `${courseTitle ? `Curso: "${courseTitle}"\n\n` : ""}Trechos das aulas:\n\n${context}\n\n---\n\nPergunta do estudante: ${question}`,
+        },
+      ],
+      temperature: 0.3,
+      max_tokens: 700,
+    });
+
+    const response = completion.choices[0]?.message?.content || "";
+
+    console.log("✅ Course AI response generated, length:", response.length);
+
+    return { response, usage: toAIUsage(CHAT_MODEL, completion.usage) };
+  } catch (error: any) {
+    console.error("❌ Course AI chat error:", error);
+    return {
+      response: "",
+      error: error.message || "Falha ao gerar resposta da IA",
+    };
+  }
+}
+
+// Segments per request: keeps each response well under max_tokens
+const TRANSLATION_BATCH_SIZE = 40;
+
+/**
+ * Translate a list of texts (e.g. transcript segments) one-to-one, keeping
+ * the order, so each translated segment keeps its original timestamps
+ *
+ * @param texts - Texts to translate
+ * @param targetLanguage - ISO 639-1 code of the translation
+ * @param sourceLanguage - ISO 639-1 code of the texts
+ */
+export async function translateTexts(
+  texts: string[],
+  targetLanguage: string,
+  sourceLanguage: string
+): Promise<{ translations: string[]; usage?: AIUsage; error?: string }> {
+  // Usage of every request, also reported when a later batch fails
+  const usages: AIUsage[] = [];
+
+  try {
+    const client = getOpenAIClient();
+    const translations: string[] = [];
+
+    const systemPrompt = `Você é um tradutor profissional de aulas em vídeo.
+
+Traduza do idioma "${sourceLanguage}" para o idioma "${targetLanguage}" (códigos ISO 639-1).
+- Você recebe um array JSON de trechos de legenda, em ordem
+- Responda APENAS com um objeto JSON no formato {"translations": ["...", "..."]}
+- Devolva exatamente um item traduzido por item recebido, na mesma ordem; não junte nem divida itens
+- Mantenha termos técnicos, nomes próprios e código como estão`;
+
+    for (let start = 0; start < texts.length; start += TRANSLATION_BATCH_SIZE) {
+      const batch = texts.slice(start, start + TRANSLATION_BATCH_SIZE);
+
+      console.log(
+        `🌐 Translating segments ${start + 1}-${start + batch.length} of ${texts.length} (${sourceLanguage} → ${targetLanguage})`
+      );
+
+      const completion = await client.chat.completions.create({
+        model: CHAT_MODEL,
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: JSON.stringify(batch) },
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0.2,
+      });
+      usages.push(toAIUsage(CHAT_MODEL, completion.usage));
+
+      let batchTranslations: unknown = null;
+      try {
+        batchTranslations = JSON.parse(
+          completion.choices[0]?.message?.content || "{}"
+        ).translations;
+      } catch {
+        batchTranslations = null;
+      }
+
+      if (
+        Array.isArray(batchTranslations) &&
+        batchTranslations.length === batch.length &&
+        batchTranslations.every((item) => typeof item === "string")
+      ) {
+        translations.push(...(batchTranslations as string[]));
+        continue;
+      }
+
+      // The model merged or split items: translate this batch one by one
+      console.warn("⚠️ Translation batch misaligned, translating one by one");
+      for (const text of batch) {
+        const single = await client.chat.completions.create({
+          model: CHAT_MODEL,
+          messages: [
+            {
+              role: "system",
+              content: `Traduza o texto do idioma "${sourceLanguage}" para o idioma "${targetLanguage}". Responda apenas com a tradução.`,
+            },
+            { role: "user", content: text },
+          ],
+          temperature: 0.2,
+        });
+        usages.push(toAIUsage(CHAT_MODEL, single.usage));
+        translations.push(single.choices[0]?.message?.content?.trim() || text);
+      }
+    }
+
+    console.log("✅ Translation completed, segments:", translations.length);
+
+    return { translations, usage: sumAIUsage(usages) };
+  } catch (error: any) {
+    console.error("❌ Translation error:", error);
+    return {
+      translations: [],
+      usage: sumAIUsage(usages),
+      error: error.message || "Falha ao traduzir transcricao",
+    };
+  }
+}
@@ -5,8 +5,10 @@
 
 import OpenAI from "openai";
 import { db } from "../db";
-import { transcripts, quizzes, quizQuestions } from "../db/schema";
+import { quizzes, quizQuestions } from "../db/schema";
 import { eq } from "drizzle-orm";
+import { getVideoTranscript } from "./transcripts";
+import { AIUsage, toAIUsage } from "./ai-usage";
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -27,19 +29,20 @@ export interface GeneratedQuiz {
 
 /**
  * Generate a quiz from a video's transcript using AI
+ *
+ * @param onUsage - Called with the token usage of the OpenAI call (also when the answer is invalid)
  */
 export async function generateQuizFromTranscript(
   videoId: string,
   videoTitle: string,
-  numQuestions: number = 5
+  numQuestions: number = 5,
+  onUsage?: (usage: AIUsage) => void
 ): Promise<GeneratedQuiz | null> {
   try {
     console.log("📝 [Quiz Service] Searching transcript for video:", videoId);
 
     // Get transcript for the video
-    const transcript = await db.query.transcripts.findFirst({
-      where: eq(transcripts.videoId, videoId),
-    });
+    const transcript = await getVideoTranscript(videoId);
 
     console.log(
       "📝 [Quiz Service] Transcript found:",
@@ -117,6 +120,8 @@ Responda APENAS com um JSON válido no seguinte formato (sem markdown, sem comen
       max_tokens: 3000,
     });
 
+    onUsage?.(toAIUsage("gpt-4o-mini", response.usage));
+
     const content = response.choices[0]?.message?.content;
 
     console.log(
@@ -270,7 +275,8 @@ export async function saveQuizToDatabase(
 export async function createQuizForVideo(
   videoId: string,
   videoTitle: string,
-  numQuestions: number = 5
+  numQuestions: number = 5,
+  onUsage?: (usage: AIUsage) => void
 ): Promise<{ quizId: string; questionsCount: number } | null> {
   console.log("🎯 [createQuizForVideo] Starting:", {
     videoId,
@@ -281,7 +287,8 @@ export async function createQuizForVideo(
   const generatedQuiz = await generateQuizFromTranscript(
     videoId,
     videoTitle,
-    numQuestions
+    numQuestions,
+    onUsage
   );
 
   if (!generatedQuiz) {
@@ -0,0 +1,365 @@
+/**
+ * Refunds Service
+ * Refunds of course purchases: the Stripe charge (reversing the creator's
+ * Connect transfer and the platform fee) or the credits spent go back to the
+ * student, and the enrollment is revoked. One refund per purchase.
+ *
+ * The refund row is claimed first ("pending") and finished last: a request
+ * that fails half-way is resumed by the next request (the Stripe refund is
+ * idempotent per row) or by the charge.refunded webhook.
+ */
+
+import Stripe from "stripe";
+import { db } from "../db";
+import {
+  coursePurchases,
+  courseRefunds,
+  couponRedemptions,
+  coupons,
+  enrollments,
+  payments,
+} from "../db/schema";
+import { and, eq, isNull, or, sql } from "drizzle-orm";
+import { getStripeClient } from "./stripe-client";
+import { addCredits } from "./credits";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days after the purchase a creator may refund it (admins are not limited)
+const REFUND_WINDOW_DAYS = Number(process.env.COURSE_REFUND_WINDOW_DAYS || 7);
+
+export type CourseRefund = typeof courseRefunds.$inferSelect;
+
+export type RefundErrorCode =
+  | "PURCHASE_NOT_FOUND"
+  | "NOT_COURSE_OWNER"
+  | "REFUND_WINDOW_EXPIRED"
+  | "ALREADY_REFUNDED"
+  | "NOT_REFUNDABLE"
+  | "REFUND_FAILED";
+
+type CoursePurchaseWithRelations = NonNullable<
+  Awaited<ReturnType<typeof findCoursePurchaseForRefund>>
+>;
+
+/**
+ * Purchase behind a payment id (Stripe purchases) or a course purchase id
+ * (purchases paid with credits have no payment)
+ */
+export async function findCoursePurchaseForRefund(id: string) {
+  return db.query.coursePurchases.findFirst({
+    where: or(
+      eq(coursePurchases.paymentId, id),
+      and(eq(coursePurchases.id, id), isNull(coursePurchases.paymentId))
+    ),
+    with: { course: true, payment: true, refund: true },
+  });
+}
+
+/**
+ * Refund a course purchase on behalf of its creator or an admin
+ */
+export async function refundCoursePurchase(
+  purchase: CoursePurchaseWithRelations,
+  requestedBy: { id: string; isAdmin: boolean },
+  reason?: string
+): Promise<{ refund: CourseRefund } | { error: string; code: RefundErrorCode }> {
+  if (!requestedBy.isAdmin) {
+    if (purchase.course.creatorId !== requestedBy.id) {
+      return {
+        error: "Você só pode reembolsar compras dos seus cursos",
+        code: "NOT_COURSE_OWNER",
+      };
+    }
+
+    const purchasedAt = purchase.createdAt ?? new Date();
+    if (Date.now() - purchasedAt.getTime() > REFUND_WINDOW_DAYS * DAY_MS) {
+      return {
+        error: `O prazo de reembolso de ${REFUND_WINDOW_DAYS} dias terminou`,
+        code: "REFUND_WINDOW_EXPIRED",
+      };
+    }
+  }
+
+  if (purchase.refundedAt || purchase.refund?.status === "succeeded") {
+    return { error: "Compra já reembolsada", code: "ALREADY_REFUNDED" };
+  }
+
+  const payment = purchase.payment;
+  const creditsUsed = purchase.creditsUsed ?? 0;
+
+  // A pending refund already passed these checks (the payment may even be
+  // refunded on Stripe): it is resumed below
+  if (!purchase.refund && (payment ? payment.status !== "succeeded" : creditsUsed <= 0)) {
+    return {
+      error: "Esta compra não pode ser reembolsada",
+      code: "NOT_REFUNDABLE",
+    };
+  }
+
+  // Claim the purchase: a concurrent request must not refund it twice
+  const [inserted] = await db
+    .insert(courseRefunds)
+    .values({
+      coursePurchaseId: purchase.id,
+      paymentId: payment?.id ?? null,
+      studentId: purchase.studentId,
+      courseId: purchase.courseId,
+      requestedBy: requestedBy.id,
+      reason: reason ?? null,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  const claimed =
+    inserted ??
+    (await db.query.courseRefunds.findFirst({
+      where: eq(courseRefunds.coursePurchaseId, purchase.id),
+    }));
+
+  if (!claimed || claimed.status === "succeeded") {
+    return { error: "Compra já reembolsada", code: "ALREADY_REFUNDED" };
+  }
+
+  let stripeRefund: Stripe.Refund | null = null;
+
+  if (payment) {
+    try {
+      stripeRefund = await createStripeRefund(payment, claimed.id, purchase.id, requestedBy.id);
+    } catch (error: any) {
+      // The claim stays pending: the next request tries again with the same key
+      console.error(`❌ Refund of payment ${payment.id} failed:`, error);
+      return {
+        error: error.message || "Falha ao reembolsar pagamento",
+        code: "REFUND_FAILED",
+      };
+    }
+  } else {
+    const credit = await addCredits(
+      purchase.studentId,
+      creditsUsed,
+      `Reembolso do curso: ${purchase.course.title}`,
+      purchase.id,
+      "course_purchase",
+      "refund",
+      `refund:course_purchase:${purchase.id}`
+    );
+
+    if (!credit.success) {
+      return {
+        error: credit.error || "Falha ao devolver créditos",
+        code: "REFUND_FAILED",
+      };
+    }
+  }
+
+  const refund = await completeCourseRefund(purchase, claimed.id, {
+    amount: stripeRefund ? (stripeRefund.amount / 100).toString() : null,
+    creditsRefunded: payment ? null : creditsUsed,
+    stripeRefundId: stripeRefund?.id ?? null,
+  });
+
+  console.log(
+    `↩️ Course purchase ${purchase.id} refunded by ${requestedBy.id}` +
+      (payment ? ` (payment ${payment.id})` : ` (${creditsUsed} credits)`)
+  );
+
+  return { refund };
+}
+
+/**
+ * A refund was started for the payment (the payment may still show
+ * "succeeded" while it is pending)
+ */
+export async function hasCourseRefund(paymentId: string): Promise<boolean> {
+  const refund = await db.query.courseRefunds.findFirst({
+    where: eq(courseRefunds.paymentId, paymentId),
+    columns: { id: true },
+  });
+
+  return !!refund;
+}
+
+/**
+ * charge.refunded: refunds made outside the API (Stripe dashboard) also
+ * revoke the enrollment once the charge is fully refunded
+ */
+export async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+  const paymentIntentId =
+    typeof charge.payment_intent === "string"
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+
+  if (!paymentIntentId) return;
+
+  const payment = await db.query.payments.findFirst({
+    where: eq(payments.stripePaymentIntentId, paymentIntentId),
+  });
+
+  if (!payment || payment.paymentType !== "course") return;
+
+  if (!charge.refunded) {
+    console.log(
+      `↩️ Payment ${payment.id} partially refunded (${charge.amount_refunded} cents), enrollment kept`
+    );
+    return;
+  }
+
+  const purchase = await db.query.coursePurchases.findFirst({
+    where: eq(coursePurchases.paymentId, payment.id),
+  });
+
+  if (!purchase) {
+    await db
+      .update(payments)
+      .set({ status: "refunded", updatedAt: new Date() })
+      .where(eq(payments.id, payment.id));
+    return;
+  }
+
+  if (purchase.refundedAt) return;
+
+  const [inserted] = await db
+    .insert(courseRefunds)
+    .values({
+      coursePurchaseId: purchase.id,
+      paymentId: payment.id,
+      studentId: purchase.studentId,
+      courseId: purchase.courseId,
+      reason: "Reembolso feito no Stripe",
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  // Claimed by the refund route: finish it here too, in case that request
+  // stopped after refunding on Stripe
+  const claimed =
+    inserted ??
+    (await db.query.courseRefunds.findFirst({
+      where: eq(courseRefunds.coursePurchaseId, purchase.id),
+    }));
+
+  if (!claimed || claimed.status === "succeeded") return;
+
+  await completeCourseRefund(purchase, claimed.id, {
+    amount: (charge.amount_refunded / 100).toString(),
+    creditsRefunded: null,
+    stripeRefundId: charge.refunds?.data[0]?.id ?? null,
+  });
+
+  console.log(`↩️ Course purchase ${purchase.id} refunded on Stripe`);
+}
+
+/**
+ * Full refund of the charge. Destination charges also reverse the transfer
+ * to the creator and the application fee, in proportion to the refund.
+ */
+async function createStripeRefund(
+  payment: typeof payments.$inferSelect,
+  refundId: string,
+  coursePurchaseId: string,
+  requestedBy: string
+): Promise<Stripe.Refund> {
+  if (!payment.stripePaymentIntentId) {
+    throw new Error("Pagamento sem PaymentIntent no Stripe");
+  }
+
+  const metadata = payment.metadata ? JSON.parse(payment.metadata) : {};
+  const isSplit = metadata.payoutStatus === "split";
+  const stripe = getStripeClient();
+
+  try {
+    return await stripe.refunds.create(
+      {
+        payment_intent: payment.stripePaymentIntentId,
+        reason: "requested_by_customer",
+        ...(isSplit ? { reverse_transfer: true, refund_application_fee: true } : {}),
+        metadata: {
+          paymentId: payment.id,
+          coursePurchaseId,
+          requestedBy,
+        },
+      },
+      // Retries of the same refund row return the first refund
+      { idempotencyKey: `course_refund:${refundId}` }
+    );
+  } catch (error: any) {
+    // Refunded earlier (idempotency keys expire after 24h, or the dashboard)
+    if (error?.code !== "charge_already_refunded") throw error;
+
+    const existing = await stripe.refunds.list({
+      payment_intent: payment.stripePaymentIntentId,
+      limit: 1,
+    });
+    if (!existing.data[0]) throw error;
+    return existing.data[0];
+  }
+}
+
+/**
+ * Revoke the enrollment, give the coupon use back and mark the purchase,
+ * payment and refund as done (safe to run again)
+ */
+async function completeCourseRefund(
+  purchase: { id: string; studentId: string; courseId: string; paymentId: string | null },
+  refundId: string,
+  result: {
+    amount: string | null;
+    creditsRefunded: number | null;
+    stripeRefundId: string | null;
+  }
+): Promise<CourseRefund> {
+  return db.transaction(async (tx) => {
+    const now = new Date();
+
+    await tx
+      .update(coursePurchases)
+      .set({ refundedAt: now })
+      .where(eq(coursePurchases.id, purchase.id));
+
+    await tx
+      .delete(enrollments)
+      .where(
+        and(
+          eq(enrollments.studentId, purchase.studentId),
+          eq(enrollments.courseId, purchase.courseId)
+        )
+      );
+
+    if (purchase.paymentId) {
+      await tx
+        .update(payments)
+        .set({ status: "refunded", updatedAt: now })
+        .where(eq(payments.id, purchase.paymentId));
+
+      const released = await tx
+        .update(couponRedemptions)
+        .set({ status: "refunded" })
+        .where(
+          and(
+            eq(couponRedemptions.paymentId, purchase.paymentId),
+            eq(couponRedemptions.status, "redeemed")
+          )
+        )
+        .returning();
+
+      for (const redemption of released) {
+        await tx
+          .update(coupons)
+          .set({
+            timesRedeemed: sql`greatest(${coupons.timesRedeemed} - 1, 0)`,
+            updatedAt: now,
+          })
+          .where(eq(coupons.id, redemption.couponId));
+      }
+    }
+
+    const [refund] = await tx
+      .update(courseRefunds)
+      .set({ ...result, status: "succeeded", updatedAt: now })
+      .where(eq(courseRefunds.id, refundId))
+      .returning();
+
+    return refund;
+  });
+}
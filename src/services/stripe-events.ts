@@ -0,0 +1,281 @@
+/**
+ * Stripe Events Service
+ * Shared inbox of the Stripe webhooks: every verified event is stored once
+ * per endpoint (unique event id) and processed once by the handler
+ * registered for its type. Failures are recorded and can be replayed.
+ */
+
+import Stripe from "stripe";
+import { db } from "../db";
+import { stripeEvents } from "../db/schema";
+import { and, eq, gt, inArray, lt, or, desc, sql, SQL } from "drizzle-orm";
+
+export type StripeWebhookEndpoint =
+  | "payments"
+  | "subscriptions"
+  | "connect"
+  | "connect_thin";
+
+export type StripeEventStatus =
+  | "pending"
+  | "processing"
+  | "processed"
+  | "failed"
+  | "ignored";
+
+export type StripeEventRecord = typeof stripeEvents.$inferSelect;
+
+/**
+ * One handler per event type, receiving the matching Stripe event type
+ * (Stripe.Event for v1 endpoints, Stripe.V2.Core.Event for thin events)
+ */
+export type StripeEventHandlers<E extends { type: string } = Stripe.Event> = {
+  [T in E["type"]]?: (event: Extract<E, { type: T }>) => Promise<void>;
+};
+
+type AnyStripeEventHandler = (event: any) => Promise<void>;
+
+// A "processing" event older than this is considered abandoned (crash)
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Full snapshots of an object: an older one must not overwrite a newer one
+const SNAPSHOT_EVENT_PREFIXES = ["customer.subscription."];
+
+const handlers = new Map<
+  StripeWebhookEndpoint,
+  Map<string, AnyStripeEventHandler>
+>();
+
+/**
+ * Register the handlers of an endpoint (call when its routes are registered)
+ */
+export function registerStripeEventHandlers<
+  E extends { type: string } = Stripe.Event
+>(endpoint: StripeWebhookEndpoint, eventHandlers: StripeEventHandlers<E>): void {
+  const endpointHandlers = handlers.get(endpoint) ?? new Map();
+
+  for (const [type, handler] of Object.entries(eventHandlers)) {
+    if (handler) {
+      endpointHandlers.set(type, handler as AnyStripeEventHandler);
+    }
+  }
+
+  handlers.set(endpoint, endpointHandlers);
+}
+
+/**
+ * Store a verified event and process it, unless it was already processed.
+ *
+ * @returns "in_progress" when another delivery is processing it right now
+ * (answer with an error so Stripe retries later)
+ * @throws When the handler fails (the failure is recorded on the event)
+ */
+export async function receiveStripeEvent(
+  endpoint: StripeWebhookEndpoint,
+  event: { id: string; type: string; created?: number | string; data?: any },
+  stripeAccountId?: string | null
+): Promise<{ status: StripeEventStatus | "duplicate" | "in_progress" }> {
+  const [inserted] = await db
+    .insert(stripeEvents)
+    .values({
+      eventId: event.id,
+      endpoint,
+      type: event.type,
+      objectId: event.data?.object?.id ?? null,
+      stripeAccountId: stripeAccountId ?? null,
+      payload: JSON.stringify(event),
+      stripeCreatedAt: toDate(event.created),
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  const record =
+    inserted ??
+    (await db.query.stripeEvents.findFirst({
+      where: and(
+        eq(stripeEvents.endpoint, endpoint),
+        eq(stripeEvents.eventId, event.id)
+      ),
+    }));
+
+  if (!record) {
+    throw new Error(`Evento Stripe ${event.id} nao encontrado`);
+  }
+
+  if (record.status === "processed" || record.status === "ignored") {
+    return { status: "duplicate" };
+  }
+
+  return processStripeEvent(record);
+}
+
+/**
+ * Run the handler of a stored event. Only one delivery processes an event at
+ * a time; with `force`, processed/ignored events run again (admin replay).
+ */
+export async function processStripeEvent(
+  record: StripeEventRecord,
+  options: { force?: boolean } = {}
+): Promise<{ status: StripeEventStatus | "in_progress" }> {
+  const claimable: StripeEventStatus[] = options.force
+    ? ["pending", "failed", "processed", "ignored"]
+    : ["pending", "failed"];
+
+  const [claimed] = await db
+    .update(stripeEvents)
+    .set({
+      status: "processing",
+      attempts: sql`${stripeEvents.attempts} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(stripeEvents.id, record.id),
+        or(
+          inArray(stripeEvents.status, claimable),
+          and(
+            eq(stripeEvents.status, "processing"),
+            lt(
+              stripeEvents.updatedAt,
+              new Date(Date.now() - PROCESSING_TIMEOUT_MS)
+            )
+          )
+        )
+      )
+    )
+    .returning();
+
+  if (!claimed) {
+    return { status: "in_progress" };
+  }
+
+  const handler = handlers.get(claimed.endpoint as StripeWebhookEndpoint)?.get(
+    claimed.type
+  );
+
+  if (!handler || (await isStaleSnapshot(claimed))) {
+    await finishStripeEvent(claimed.id, "ignored");
+    return { status: "ignored" };
+  }
+
+  try {
+    await handler(JSON.parse(claimed.payload));
+  } catch (error: any) {
+    console.error(`❌ Stripe event ${claimed.eventId} (${claimed.type}) failed:`, error);
+    await finishStripeEvent(
+      claimed.id,
+      "failed",
+      error?.message || String(error)
+    );
+    throw error;
+  }
+
+  await finishStripeEvent(claimed.id, "processed");
+  return { status: "processed" };
+}
+
+/**
+ * Replay a stored event (admin), whatever its current status
+ */
+export async function replayStripeEvent(id: string) {
+  const record = await db.query.stripeEvents.findFirst({
+    where: eq(stripeEvents.id, id),
+  });
+
+  if (!record) {
+    return null;
+  }
+
+  try {
+    const result = await processStripeEvent(record, { force: true });
+    return { ...result, error: null as string | null };
+  } catch (error: any) {
+    return {
+      status: "failed" as const,
+      error: error?.message || "Falha ao processar evento",
+    };
+  }
+}
+
+/**
+ * Stored events, most recent first
+ */
+export async function listStripeEvents(
+  filters: { status?: string; endpoint?: string; type?: string },
+  pagination: { limit: number; offset: number }
+) {
+  const conditions: SQL[] = [];
+  if (filters.status) conditions.push(eq(stripeEvents.status, filters.status));
+  if (filters.endpoint) conditions.push(eq(stripeEvents.endpoint, filters.endpoint));
+  if (filters.type) conditions.push(eq(stripeEvents.type, filters.type));
+
+  return db
+    .select({
+      id: stripeEvents.id,
+      eventId: stripeEvents.eventId,
+      endpoint: stripeEvents.endpoint,
+      type: stripeEvents.type,
+      objectId: stripeEvents.objectId,
+      stripeAccountId: stripeEvents.stripeAccountId,
+      status: stripeEvents.status,
+      attempts: stripeEvents.attempts,
+      lastError: stripeEvents.lastError,
+      stripeCreatedAt: stripeEvents.stripeCreatedAt,
+      receivedAt: stripeEvents.receivedAt,
+      processedAt: stripeEvents.processedAt,
+    })
+    .from(stripeEvents)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(stripeEvents.receivedAt))
+    .limit(pagination.limit)
+    .offset(pagination.offset);
+}
+
+async function finishStripeEvent(
+  id: string,
+  status: StripeEventStatus,
+  lastError: string | null = null
+) {
+  await db
+    .update(stripeEvents)
+    .set({
+      status,
+      lastError,
+      processedAt: status === "failed" ? null : new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(stripeEvents.id, id));
+}
+
+/**
+ * A snapshot event delivered after a newer one about the same object
+ */
+async function isStaleSnapshot(record: StripeEventRecord): Promise<boolean> {
+  if (
+    !record.objectId ||
+    !record.stripeCreatedAt ||
+    !SNAPSHOT_EVENT_PREFIXES.some((prefix) => record.type.startsWith(prefix))
+  ) {
+    return false;
+  }
+
+  const newer = await db.query.stripeEvents.findFirst({
+    where: and(
+      eq(stripeEvents.endpoint, record.endpoint),
+      eq(stripeEvents.objectId, record.objectId),
+      eq(stripeEvents.status, "processed"),
+      gt(stripeEvents.stripeCreatedAt, record.stripeCreatedAt)
+    ),
+    columns: { id: true },
+  });
+
+  return !!newer;
+}
+
+/**
+ * v1 events carry a unix timestamp, v2 events an ISO date
+ */
+function toDate(created?: number | string): Date | null {
+  if (created === undefined || created === null) return null;
+  return typeof created === "number" ? new Date(created * 1000) : new Date(created);
+}
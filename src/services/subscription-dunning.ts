@@ -0,0 +1,247 @@
+/**
+ * Subscription Dunning Service
+ * Failed renewals of platform subscriptions: the plan is kept during a grace
+ * period with reminder emails, then the user falls back to the free plan
+ * until the invoice is paid.
+ *
+ * active --payment_failed--> past_due --grace over--> unpaid (free plan)
+ * past_due | unpaid --invoice.paid--> active
+ */
+
+import Stripe from "stripe";
+import { db } from "../db";
+import { userSubscriptions } from "../db/schema";
+import { and, eq, gt, lte } from "drizzle-orm";
+import {
+  recordSubscriptionEvent,
+  transitionSubscription,
+} from "./subscriptions";
+import {
+  sendSubscriptionPaymentFailedEmail,
+  sendSubscriptionDowngradedEmail,
+} from "./email";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days the paid plan is kept after the first failed payment
+const GRACE_PERIOD_DAYS = Number(process.env.SUBSCRIPTION_GRACE_DAYS || 7);
+
+// Reminders sent during the grace period (days before it ends)
+const REMINDER_DAYS_BEFORE_END = [3, 1].filter(
+  (days) => days < GRACE_PERIOD_DAYS
+);
+
+/**
+ * Platform subscription an invoice belongs to (parent since API 2025-03-31)
+ */
+function getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  const legacy = invoice as unknown as {
+    subscription?: string | Stripe.Subscription | null;
+  };
+  const subscription =
+    invoice.parent?.subscription_details?.subscription ?? legacy.subscription;
+
+  if (!subscription) return null;
+  return typeof subscription === "string" ? subscription : subscription.id;
+}
+
+async function findInvoiceSubscription(invoice: Stripe.Invoice) {
+  const stripeSubscriptionId = getInvoiceSubscriptionId(invoice);
+  if (!stripeSubscriptionId) return null;
+
+  return db.query.userSubscriptions.findFirst({
+    where: eq(userSubscriptions.stripeSubscriptionId, stripeSubscriptionId),
+    with: { plan: true, user: true },
+  });
+}
+
+/**
+ * invoice.payment_failed: start the grace period on the first failure;
+ * later retries that fail are only recorded
+ */
+export async function handleSubscriptionPaymentFailed(
+  invoice: Stripe.Invoice
+): Promise<void> {
+  const subscription = await findInvoiceSubscription(invoice);
+  if (!subscription) return;
+
+  const details = {
+    attemptCount: invoice.attempt_count,
+    amountDue: invoice.amount_due,
+    nextPaymentAttempt: invoice.next_payment_attempt
+      ? new Date(invoice.next_payment_attempt * 1000).toISOString()
+      : null,
+  };
+
+  if (subscription.status !== "active" && subscription.status !== "trialing") {
+    if (subscription.status === "past_due" || subscription.status === "unpaid") {
+      await recordSubscriptionEvent({
+        subscriptionId: subscription.id,
+        userId: subscription.userId,
+        type: "payment_failed",
+        fromStatus: subscription.status,
+        toStatus: subscription.status,
+        stripeInvoiceId: invoice.id,
+        details,
+      });
+    }
+    return;
+  }
+
+  const now = new Date();
+  const graceEndsAt = new Date(now.getTime() + GRACE_PERIOD_DAYS * DAY_MS);
+
+  const updated = await transitionSubscription(
+    subscription,
+    "past_due",
+    "payment_failed",
+    {
+      set: { pastDueSince: now, graceEndsAt, dunningRemindersSent: 0 },
+      stripeInvoiceId: invoice.id,
+      details: { ...details, graceEndsAt: graceEndsAt.toISOString() },
+    }
+  );
+
+  if (!updated) return;
+
+  console.log(
+    `💳 Subscription ${subscription.id} past due until ${graceEndsAt.toISOString()}`
+  );
+
+  await sendSubscriptionPaymentFailedEmail({
+    toEmail: subscription.user.email,
+    toName: subscription.user.username,
+    planName: subscription.plan.displayName,
+    graceEndsAt,
+    invoiceUrl: invoice.hosted_invoice_url ?? null,
+  });
+}
+
+/**
+ * invoice.paid: give the plan back to an overdue subscription
+ */
+export async function handleSubscriptionInvoicePaid(
+  invoice: Stripe.Invoice
+): Promise<void> {
+  const subscription = await findInvoiceSubscription(invoice);
+
+  if (
+    !subscription ||
+    (subscription.status !== "past_due" && subscription.status !== "unpaid")
+  ) {
+    return;
+  }
+
+  const updated = await transitionSubscription(
+    subscription,
+    "active",
+    "restored",
+    {
+      set: { pastDueSince: null, graceEndsAt: null, dunningRemindersSent: 0 },
+      stripeInvoiceId: invoice.id,
+      details: { amountPaid: invoice.amount_paid },
+    }
+  );
+
+  if (updated) {
+    console.log(`✅ Subscription ${subscription.id} restored after payment`);
+  }
+}
+
+/**
+ * Send the reminders that are due and downgrade the subscriptions whose
+ * grace period is over (run periodically by the dunning job)
+ */
+export async function runSubscriptionDunning(now: Date = new Date()) {
+  const expired = await db.query.userSubscriptions.findMany({
+    where: and(
+      eq(userSubscriptions.status, "past_due"),
+      lte(userSubscriptions.graceEndsAt, now)
+    ),
+    with: { plan: true, user: true },
+  });
+
+  let downgraded = 0;
+  for (const subscription of expired) {
+    const updated = await transitionSubscription(
+      subscription,
+      "unpaid",
+      "downgraded",
+      {
+        details: {
+          pastDueSince: subscription.pastDueSince?.toISOString() ?? null,
+          graceEndsAt: subscription.graceEndsAt?.toISOString() ?? null,
+        },
+      }
+    );
+    if (!updated) continue;
+
+    downgraded++;
+    console.log(`⬇️ Subscription ${subscription.id} downgraded to the free plan`);
+
+    await sendSubscriptionDowngradedEmail({
+      toEmail: subscription.user.email,
+      toName: subscription.user.username,
+      planName: subscription.plan.displayName,
+    });
+  }
+
+  const inGrace = await db.query.userSubscriptions.findMany({
+    where: and(
+      eq(userSubscriptions.status, "past_due"),
+      gt(userSubscriptions.graceEndsAt, now)
+    ),
+    with: { plan: true, user: true },
+  });
+
+  let reminders = 0;
+  for (const subscription of inGrace) {
+    const graceEndsAt = subscription.graceEndsAt!;
+    const due = REMINDER_DAYS_BEFORE_END.filter(
+      (days) => now.getTime() >= graceEndsAt.getTime() - days * DAY_MS
+    ).length;
+
+    if (due <= subscription.dunningRemindersSent) continue;
+
+    // Claim the reminder first: a concurrent run must not send it again
+    const [claimed] = await db
+      .update(userSubscriptions)
+      .set({ dunningRemindersSent: due, updatedAt: new Date() })
+      .where(
+        and(
+          eq(userSubscriptions.id, subscription.id),
+          eq(userSubscriptions.status, "past_due"),
+          eq(
+            userSubscriptions.dunningRemindersSent,
+            subscription.dunningRemindersSent
+          )
+        )
+      )
+      .returning();
+    if (!claimed) continue;
+
+    const result = await sendSubscriptionPaymentFailedEmail({
+      toEmail: subscription.user.email,
+      toName: subscription.user.username,
+      planName: subscription.plan.displayName,
+      graceEndsAt,
+      isReminder: true,
+    });
+
+    await recordSubscriptionEvent({
+      subscriptionId: subscription.id,
+      userId: subscription.userId,
+      type: "reminder_sent",
+      fromStatus: "past_due",
+      toStatus: "past_due",
+      details: {
+        reminder: due,
+        graceEndsAt: graceEndsAt.toISOString(),
+        emailSent: result.success,
+      },
+    });
+    reminders++;
+  }
+
+  return { downgraded, reminders };
+}
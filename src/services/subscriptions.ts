@@ -8,14 +8,23 @@ import {
   subscriptionPlans,
   userSubscriptions,
   usageLimits,
+  dailyUsage,
   users,
-  userCredits,
   transactions,
+  subscriptionEvents,
+  subscriptionTrials,
 } from "../db/schema";
-import { eq, and, gte, lte, sql } from "drizzle-orm";
+import { eq, and, or, gt, gte, lt, lte, inArray, isNull, sql } from "drizzle-orm";
 import Stripe from "stripe";
 import { getStripeClient } from "./stripe-client";
 import { resolvePaymentAmount } from "./payment-bypass";
+import { addCredits } from "./credits";
+import {
+  attachCouponReservation,
+  releaseCouponReservation,
+  reserveCoupon,
+  getOrCreateStripeCoupon,
+} from "./coupons";
 
 // Types
 export interface PlanFeatures {
@@ -42,17 +51,56 @@ export interface SubscriptionPlan {
   stripePriceId: string | null;
   features: PlanFeatures;
   isActive: boolean;
+  trialDays: number;
 }
 
+export type SubscriptionStatus =
+  | "active"
+  | "cancelled"
+  | "past_due"
+  | "unpaid" // grace period over: downgraded to the free plan until paid
+  | "trialing";
+
 export interface UserSubscription {
   id: string;
   userId: string;
   planId: string;
   plan: SubscriptionPlan;
-  status: "active" | "cancelled" | "past_due" | "trialing";
+  status: SubscriptionStatus;
   currentPeriodStart: Date | null;
   currentPeriodEnd: Date | null;
   cancelAtPeriodEnd: boolean;
+  // Set while a payment is overdue (status past_due)
+  pastDueSince: Date | null;
+  graceEndsAt: Date | null;
+  // Downgrade applied when the current period ends
+  pendingPlanId: string | null;
+  trialEndsAt: Date | null;
+}
+
+export type SubscriptionEventType =
+  | "created"
+  | "payment_failed"
+  | "reminder_sent"
+  | "downgraded"
+  | "restored"
+  | "cancelled"
+  | "status_changed"
+  | "plan_changed"
+  | "plan_change_scheduled"
+  | "plan_change_cancelled";
+
+export interface PlanChangePreview {
+  direction: "upgrade" | "downgrade";
+  currentPlan: { id: string; name: string; displayName: string; price: number };
+  newPlan: { id: string; name: string; displayName: string; price: number };
+  // Charged now (prorated difference in cents; 0 for downgrades)
+  amountDue: number;
+  currency: string;
+  // When the new plan takes effect
+  effectiveAt: Date;
+  // Pass it back to change-plan so the charge matches the preview
+  prorationDate: number | null;
 }
 
 export interface UsageStatus {
@@ -66,6 +114,24 @@ export interface UsageStatus {
   coursesLimit: number;
   periodStart: Date;
   periodEnd: Date;
+  aiQuestionsResetAt: Date;
+}
+
+export type PlanAction =
+  | "create_course"
+  | "upload_video"
+  | "generate_quiz"
+  | "ask_ai";
+
+export type UsageCounter = "quiz" | "ai_question" | "video" | "course";
+
+export interface PlanActionCheck {
+  allowed: boolean;
+  reason?: string;
+  // PLAN_FEATURE_UNAVAILABLE (not in the plan) or PLAN_LIMIT_REACHED
+  code?: "PLAN_FEATURE_UNAVAILABLE" | "PLAN_LIMIT_REACHED";
+  limit?: number;
+  used?: number;
 }
 
 
@@ -94,6 +160,7 @@ export async function getSubscriptionPlans(
     stripePriceId: plan.stripePriceId,
     features: JSON.parse(plan.features) as PlanFeatures,
     isActive: plan.isActive === 1,
+    trialDays: plan.trialDays,
   }));
 }
 
@@ -117,11 +184,29 @@ export async function getPlanByName(name: string): Promise<SubscriptionPlan | nu
     stripePriceId: plan.stripePriceId,
     features: JSON.parse(plan.features) as PlanFeatures,
     isActive: plan.isActive === 1,
+    trialDays: plan.trialDays,
   };
 }
 
 /**
- * Get user's current subscription
+ * Set the free trial offered by a plan in the checkout (0 = no trial)
+ */
+export async function updatePlanTrialDays(
+  planId: string,
+  trialDays: number
+): Promise<SubscriptionPlan | null> {
+  const [plan] = await db
+    .update(subscriptionPlans)
+    .set({ trialDays, updatedAt: new Date() })
+    .where(eq(subscriptionPlans.id, planId))
+    .returning();
+
+  return plan ? getPlanByName(plan.name) : null;
+}
+
+/**
+ * Get user's current subscription, trials included (a past_due one keeps
+ * its plan only until the end of the grace period)
  */
 export async function getUserSubscription(
   userId: string
@@ -129,7 +214,13 @@ export async function getUserSubscription(
   const subscription = await db.query.userSubscriptions.findFirst({
     where: and(
       eq(userSubscriptions.userId, userId),
-      eq(userSubscriptions.status, "active")
+      or(
+        inArray(userSubscriptions.status, ["active", "trialing"]),
+        and(
+          eq(userSubscriptions.status, "past_due"),
+          gt(userSubscriptions.graceEndsAt, new Date())
+        )
+      )
     ),
     with: {
       plan: true,
@@ -152,11 +243,16 @@ export async function getUserSubscription(
       stripePriceId: subscription.plan.stripePriceId,
       features: JSON.parse(subscription.plan.features) as PlanFeatures,
       isActive: subscription.plan.isActive === 1,
+      trialDays: subscription.plan.trialDays,
     },
-    status: subscription.status as "active" | "cancelled" | "past_due" | "trialing",
+    status: subscription.status as SubscriptionStatus,
     currentPeriodStart: subscription.currentPeriodStart,
     currentPeriodEnd: subscription.currentPeriodEnd,
     cancelAtPeriodEnd: subscription.cancelAtPeriodEnd === 1,
+    pastDueSince: subscription.pastDueSince,
+    graceEndsAt: subscription.graceEndsAt,
+    pendingPlanId: subscription.pendingPlanId,
+    trialEndsAt: subscription.trialEndsAt,
   };
 }
 
@@ -170,6 +266,13 @@ export async function getUserPlanFeatures(userId: string): Promise<PlanFeatures>
     return subscription.plan.features;
   }
 
+  return getFreePlanFeatures(userId);
+}
+
+/**
+ * Features of the free plan matching the user's role
+ */
+async function getFreePlanFeatures(userId: string): Promise<PlanFeatures> {
   // Get user role to determine default free plan
   const user = await db.query.users.findFirst({
     where: eq(users.id, userId),
@@ -191,11 +294,21 @@ export async function getUserPlanFeatures(userId: string): Promise<PlanFeatures>
 
 /**
  * Garante que créditos mensais do plano sejam concedidos no ciclo atual.
- * Usa o histórico de transações para evitar duplicidade.
+ * Usa uma chave de idempotência por período para evitar duplicidade.
+ * Após um upgrade no meio do ciclo, concede só a diferença para o novo plano.
  */
 export async function ensureSubscriptionCredits(userId: string): Promise<void> {
   const subscription = await getUserSubscription(userId);
-  const features = subscription?.plan.features ?? (await getUserPlanFeatures(userId));
+
+  // The period with an overdue invoice is credited once it is paid
+  if (subscription?.status === "past_due") {
+    return;
+  }
+
+  // A trial gives the plan's features but only the free allowance of credits:
+  // the paid credits come with the first paid period
+  const paidPlan = subscription?.status === "trialing" ? undefined : subscription;
+  const features = paidPlan?.plan.features ?? (await getFreePlanFeatures(userId));
   const monthlyCredits =
     typeof features.credits_per_month === "number" ? features.credits_per_month : 0;
 
@@ -210,66 +323,161 @@ export async function ensureSubscriptionCredits(userId: string): Promise<void> {
     subscription?.currentPeriodEnd ??
     new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
 
-  const planLabel = subscription?.plan.displayName ?? "plano gratuito";
-
-  await db.transaction(async (tx) => {
-    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${userId}))`);
+  const planLabel = paidPlan?.plan.displayName ?? "plano gratuito";
 
-    const existingCredit = await tx.query.transactions.findFirst({
-      where: and(
+  // Everything granted this period (grants from before idempotency keys included)
+  const [granted] = await db
+    .select({
+      total: sql<number>`coalesce(sum(${transactions.amount}), 0)::int`,
+    })
+    .from(transactions)
+    .where(
+      and(
         eq(transactions.userId, userId),
         eq(transactions.type, "subscription_credit"),
         gte(transactions.createdAt, periodStart),
         lte(transactions.createdAt, periodEnd)
-      ),
-    });
+      )
+    );
 
-    if (existingCredit) {
-      return;
-    }
+  const alreadyGranted = Number(granted?.total ?? 0);
+  if (alreadyGranted >= monthlyCredits) {
+    return;
+  }
 
-    await tx
-      .insert(userCredits)
-      .values({
-        userId,
-        balance: 0,
-      })
-      .onConflictDoNothing();
+  // One grant per user and period (plus one top-up per upgraded plan), even
+  // with concurrent calls
+  const periodKey = `subscription_credit:${userId}:${periodStart.toISOString()}`;
+  await addCredits(
+    userId,
+    monthlyCredits - alreadyGranted,
+    alreadyGranted > 0
+      ? `Créditos adicionais do upgrade para ${planLabel}`
+      : `Créditos mensais do ${planLabel}`,
+    subscription?.id,
+    "subscription",
+    "subscription_credit",
+    alreadyGranted > 0 ? `${periodKey}:${paidPlan?.planId ?? "free"}` : periodKey
+  );
+}
 
-    const currentCredits = await tx.query.userCredits.findFirst({
-      where: eq(userCredits.userId, userId),
-    });
+// A trial claim without checkout after this long was left by a failed request
+const TRIAL_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
 
-    const currentBalance = currentCredits?.balance ?? 0;
-    const newBalance = currentBalance + monthlyCredits;
+/**
+ * Claim the user's only free trial for a new checkout. The claim is one row
+ * per user: an earlier checkout that never completed is expired on Stripe
+ * and loses the claim, so only one open checkout can carry the trial.
+ *
+ * @returns false when the trial was already used (or taken by a parallel checkout)
+ */
+async function claimTrial(userId: string, planId: string): Promise<boolean> {
+  const [inserted] = await db
+    .insert(subscriptionTrials)
+    .values({ userId, planId })
+    .onConflictDoNothing()
+    .returning();
 
-    await tx
-      .update(userCredits)
-      .set({
-        balance: newBalance,
-        updatedAt: new Date(),
-      })
-      .where(eq(userCredits.userId, userId));
+  if (inserted) return true;
 
-    await tx.insert(transactions).values({
-      userId,
-      type: "subscription_credit",
-      amount: monthlyCredits,
-      description: `Créditos mensais do ${planLabel}`,
-      relatedId: subscription?.id,
-      relatedType: "subscription",
-    });
+  const claim = await db.query.subscriptionTrials.findFirst({
+    where: eq(subscriptionTrials.userId, userId),
   });
+
+  if (!claim || claim.startedAt) {
+    return false;
+  }
+
+  // Claimed without a checkout yet: a parallel checkout is being created,
+  // unless the claim is old (that request failed half-way)
+  const staleBefore = new Date(Date.now() - TRIAL_CLAIM_TIMEOUT_MS);
+  if (!claim.stripeCheckoutSessionId && claim.updatedAt && claim.updatedAt > staleBefore) {
+    return false;
+  }
+
+  if (claim.stripeCheckoutSessionId) {
+    const stripe = getStripeClient();
+    try {
+      await stripe.checkout.sessions.expire(claim.stripeCheckoutSessionId);
+    } catch {
+      // Not open anymore: it either expired or completed (trial used)
+      const previous = await stripe.checkout.sessions.retrieve(
+        claim.stripeCheckoutSessionId
+      );
+      if (previous.status === "complete") return false;
+    }
+  }
+
+  const [taken] = await db
+    .update(subscriptionTrials)
+    .set({ planId, stripeCheckoutSessionId: null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(subscriptionTrials.id, claim.id),
+        isNull(subscriptionTrials.startedAt),
+        claim.stripeCheckoutSessionId
+          ? eq(subscriptionTrials.stripeCheckoutSessionId, claim.stripeCheckoutSessionId)
+          : and(
+              isNull(subscriptionTrials.stripeCheckoutSessionId),
+              lt(subscriptionTrials.updatedAt, staleBefore)
+            )
+      )
+    )
+    .returning();
+
+  return !!taken;
+}
+
+/**
+ * Checkout created with the trial claimed by claimTrial (null = it failed:
+ * the claim is released)
+ */
+async function bindTrialClaim(userId: string, sessionId: string | null) {
+  const claimed = and(
+    eq(subscriptionTrials.userId, userId),
+    isNull(subscriptionTrials.stripeCheckoutSessionId),
+    isNull(subscriptionTrials.startedAt)
+  );
+
+  if (sessionId) {
+    await db
+      .update(subscriptionTrials)
+      .set({ stripeCheckoutSessionId: sessionId, updatedAt: new Date() })
+      .where(claimed);
+  } else {
+    await db.delete(subscriptionTrials).where(claimed);
+  }
 }
 
 /**
- * Create Stripe checkout session for subscription
+ * The checkout holding the trial was completed: the trial is used
+ */
+export async function markTrialStarted(userId: string, sessionId: string) {
+  await db
+    .update(subscriptionTrials)
+    .set({ startedAt: new Date(), updatedAt: new Date() })
+    .where(
+      and(
+        eq(subscriptionTrials.userId, userId),
+        eq(subscriptionTrials.stripeCheckoutSessionId, sessionId),
+        isNull(subscriptionTrials.startedAt)
+      )
+    );
+}
+
+/**
+ * Create Stripe checkout session for subscription, with the plan's free
+ * trial (once per user) and an optional coupon on the first paid invoice
  */
 export async function createSubscriptionCheckout(
   userId: string,
   planId: string,
-  email: string
-): Promise<{ sessionUrl: string } | { error: string }> {
+  email: string,
+  couponCode?: string
+): Promise<
+  | { sessionUrl: string; trialDays: number; discountAmount: number }
+  | { error: string; code?: string }
+> {
   try {
     const stripe = getStripeClient();
 
@@ -298,6 +506,16 @@ export async function createSubscriptionCheckout(
         ? "year"
         : "month";
 
+    const couponTarget = { type: "plan" as const, id: plan.id };
+    // Holds a use of the coupon until the checkout is completed
+    const coupon = couponCode
+      ? await reserveCoupon(couponCode, userId, couponTarget, chargeAmount)
+      : null;
+
+    if (coupon && "error" in coupon) {
+      return { error: coupon.error, code: coupon.code };
+    }
+
     const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [
       bypassApplied
         ? {
@@ -319,23 +537,55 @@ export async function createSubscriptionCheckout(
           },
     ];
 
-    // Create checkout session
-    const session = await stripe.checkout.sessions.create({
-      mode: "subscription",
-      payment_method_types: ["card"],
-      line_items: lineItems,
-      customer_email: email,
-      metadata: {
-        userId,
-        planId,
-        planName: plan.name,
-        bypassApplied: String(bypassApplied),
-      },
-      success_url: `${process.env.FRONTEND_URL}/payments?success=true&plan=${plan.name}`,
-      cancel_url: `${process.env.FRONTEND_URL}/payments?cancelled=true`,
-    });
+    // Create checkout session. With a trial the first invoice is free: the
+    // coupon is added once the trial starts (applyCouponAfterTrial)
+    let trialDays = 0;
+    let session: Stripe.Checkout.Session;
+    try {
+      if (plan.trialDays > 0 && (await claimTrial(userId, plan.id))) {
+        trialDays = plan.trialDays;
+      }
+
+      session = await stripe.checkout.sessions.create({
+        mode: "subscription",
+        payment_method_types: ["card"],
+        line_items: lineItems,
+        customer_email: email,
+        ...(coupon && trialDays === 0
+          ? { discounts: [{ coupon: await getOrCreateStripeCoupon(coupon.coupon) }] }
+          : {}),
+        ...(trialDays > 0
+          ? { subscription_data: { trial_period_days: trialDays } }
+          : {}),
+        metadata: {
+          userId,
+          planId,
+          planName: plan.name,
+          bypassApplied: String(bypassApplied),
+          couponCode: coupon?.coupon.code ?? "",
+        },
+        success_url: `${process.env.FRONTEND_URL}/payments?success=true&plan=${plan.name}`,
+        cancel_url: `${process.env.FRONTEND_URL}/payments?cancelled=true`,
+      });
+    } catch (error) {
+      if (trialDays > 0) await bindTrialClaim(userId, null);
+      if (coupon) await releaseCouponReservation(coupon);
+      throw error;
+    }
+
+    if (trialDays > 0) {
+      await bindTrialClaim(userId, session.id);
+    }
 
-    return { sessionUrl: session.url || "" };
+    if (coupon) {
+      await attachCouponReservation(coupon, { stripeCheckoutSessionId: session.id });
+    }
+
+    return {
+      sessionUrl: session.url || "",
+      trialDays,
+      discountAmount: coupon?.discountAmount ?? 0,
+    };
   } catch (error: any) {
     console.error("Error creating subscription checkout:", error);
     return { error: error.message || "Erro ao criar checkout" };
@@ -344,29 +594,59 @@ export async function createSubscriptionCheckout(
 
 /**
  * Create user subscription (after successful payment or for free plans)
+ *
+ * @param trialEndsAt - Set when the Stripe subscription starts with a free
+ * trial (status trialing until then)
  */
 export async function createUserSubscription(
   userId: string,
   planId: string,
   stripeSubscriptionId?: string,
-  stripeCustomerId?: string
+  stripeCustomerId?: string,
+  trialEndsAt?: Date | null
 ): Promise<{ subscriptionId: string } | { error: string }> {
   try {
-    // Cancel any existing active subscription
-    await db
-      .update(userSubscriptions)
-      .set({ status: "cancelled", updatedAt: new Date() })
-      .where(
-        and(
-          eq(userSubscriptions.userId, userId),
-          eq(userSubscriptions.status, "active")
-        )
-      );
+    // Cancel any existing subscription (overdue ones included)
+    const replaced = await db.query.userSubscriptions.findMany({
+      where: and(
+        eq(userSubscriptions.userId, userId),
+        inArray(userSubscriptions.status, [
+          "active",
+          "trialing",
+          "past_due",
+          "unpaid",
+        ])
+      ),
+    });
+
+    for (const previous of replaced) {
+      await transitionSubscription(previous, "cancelled", "cancelled", {
+        details: { reason: "replaced", planId },
+      });
+
+      // The old Stripe subscription would keep billing (and retrying)
+      if (
+        previous.stripeSubscriptionId &&
+        previous.stripeSubscriptionId !== stripeSubscriptionId
+      ) {
+        try {
+          await getStripeClient().subscriptions.cancel(
+            previous.stripeSubscriptionId
+          );
+        } catch (error) {
+          console.error("❌ Failed to cancel replaced Stripe subscription:", {
+            subscriptionId: previous.id,
+            error,
+          });
+        }
+      }
+    }
 
     // Create new subscription
     const now = new Date();
     const periodEnd = new Date(now);
     periodEnd.setMonth(periodEnd.getMonth() + 1);
+    const status = trialEndsAt ? "trialing" : "active";
 
     const [newSubscription] = await db
       .insert(userSubscriptions)
@@ -375,12 +655,25 @@ export async function createUserSubscription(
         planId,
         stripeSubscriptionId,
         stripeCustomerId,
-        status: "active",
+        status,
         currentPeriodStart: now,
-        currentPeriodEnd: periodEnd,
+        currentPeriodEnd: trialEndsAt ?? periodEnd,
+        trialEndsAt: trialEndsAt ?? null,
       })
       .returning();
 
+    await recordSubscriptionEvent({
+      subscriptionId: newSubscription.id,
+      userId,
+      type: "created",
+      toStatus: status,
+      details: {
+        planId,
+        stripeSubscriptionId: stripeSubscriptionId ?? null,
+        trialEndsAt: trialEndsAt?.toISOString() ?? null,
+      },
+    });
+
     // Initialize usage limits for this period
     await initializeUsageLimits(userId, now, periodEnd);
 
@@ -431,10 +724,9 @@ export async function cancelSubscription(
 
     // Update database
     if (immediate) {
-      await db
-        .update(userSubscriptions)
-        .set({ status: "cancelled", updatedAt: new Date() })
-        .where(eq(userSubscriptions.id, subscription.id));
+      await transitionSubscription(subscription, "cancelled", "cancelled", {
+        details: { reason: "user_request" },
+      });
     } else {
       await db
         .update(userSubscriptions)
@@ -449,6 +741,424 @@ export async function cancelSubscription(
   }
 }
 
+/**
+ * Current paid subscription and target plan of a plan change, with the
+ * Stripe subscription item whose price is swapped
+ */
+async function resolvePlanChange(userId: string, planId: string) {
+  const subscription = await getUserSubscription(userId);
+
+  if (!subscription || subscription.plan.price === 0) {
+    return { error: "Nenhuma assinatura paga ativa. Use o checkout para assinar um plano." };
+  }
+
+  if (subscription.status !== "active" && subscription.status !== "trialing") {
+    return { error: "Regularize o pagamento da assinatura antes de trocar de plano." };
+  }
+
+  const record = await db.query.userSubscriptions.findFirst({
+    where: eq(userSubscriptions.id, subscription.id),
+  });
+
+  if (!record?.stripeSubscriptionId) {
+    return { error: "Assinatura sem cobrança recorrente no Stripe" };
+  }
+
+  const newPlan = await db.query.subscriptionPlans.findFirst({
+    where: eq(subscriptionPlans.id, planId),
+  });
+
+  if (!newPlan || newPlan.isActive !== 1) {
+    return { error: "Plano não encontrado" };
+  }
+
+  if (newPlan.type !== subscription.plan.type) {
+    return { error: "Só é possível trocar para um plano do mesmo tipo" };
+  }
+
+  const newPrice = parseFloat(newPlan.price);
+  if (newPrice === 0) {
+    return { error: "Para voltar ao plano gratuito, cancele a assinatura" };
+  }
+
+  if (!newPlan.stripePriceId) {
+    return { error: "Plano não configurado para pagamento" };
+  }
+
+  const stripe = getStripeClient();
+  const stripeSubscription = await stripe.subscriptions.retrieve(
+    record.stripeSubscriptionId
+  );
+  const item = stripeSubscription.items.data[0];
+
+  if (!item) {
+    return { error: "Assinatura do Stripe sem itens" };
+  }
+
+  return {
+    subscription,
+    record,
+    stripeSubscription,
+    item,
+    newPlan: {
+      id: newPlan.id,
+      name: newPlan.name,
+      displayName: newPlan.displayName,
+      price: newPrice,
+      stripePriceId: newPlan.stripePriceId,
+    },
+  };
+}
+
+/**
+ * Quote a plan change: upgrades are charged now (prorated), downgrades cost
+ * nothing now and start at the end of the current period
+ */
+export async function previewPlanChange(
+  userId: string,
+  planId: string
+): Promise<PlanChangePreview | { error: string }> {
+  try {
+    const change = await resolvePlanChange(userId, planId);
+    if (change.error !== undefined) return { error: change.error };
+
+    const { subscription, record, stripeSubscription, item, newPlan } = change;
+
+    if (newPlan.id === subscription.planId) {
+      return { error: "Você já está neste plano" };
+    }
+
+    const plans = {
+      currentPlan: {
+        id: subscription.plan.id,
+        name: subscription.plan.name,
+        displayName: subscription.plan.displayName,
+        price: subscription.plan.price,
+      },
+      newPlan: {
+        id: newPlan.id,
+        name: newPlan.name,
+        displayName: newPlan.displayName,
+        price: newPlan.price,
+      },
+    };
+
+    if (newPlan.price < subscription.plan.price) {
+      return {
+        direction: "downgrade",
+        ...plans,
+        amountDue: 0,
+        currency: stripeSubscription.currency,
+        effectiveAt:
+          getSubscriptionPeriod(stripeSubscription).currentPeriodEnd ??
+          subscription.currentPeriodEnd ??
+          new Date(),
+        prorationDate: null,
+      };
+    }
+
+    const prorationDate = Math.floor(Date.now() / 1000);
+    const invoice = await getStripeClient().invoices.createPreview({
+      customer: stripeSubscription.customer as string,
+      subscription: record.stripeSubscriptionId!,
+      subscription_details: {
+        items: [{ id: item.id, price: newPlan.stripePriceId }],
+        proration_behavior: "always_invoice",
+        proration_date: prorationDate,
+      },
+    });
+
+    return {
+      direction: "upgrade",
+      ...plans,
+      amountDue: invoice.amount_due,
+      currency: invoice.currency,
+      effectiveAt: new Date(prorationDate * 1000),
+      prorationDate,
+    };
+  } catch (error: any) {
+    console.error("Error previewing plan change:", error);
+    return { error: error.message || "Erro ao calcular troca de plano" };
+  }
+}
+
+/**
+ * Change the plan of the current Stripe subscription (no second subscription)
+ *
+ * - Upgrade: the prorated difference is charged now and the plan changes
+ *   once it is paid (the monthly credits are topped up)
+ * - Downgrade: the new price applies from the next invoice; the plan is kept
+ *   in pendingPlanId until the current period ends
+ * - Current plan while a downgrade is pending: cancels the downgrade
+ */
+export async function changeSubscriptionPlan(
+  userId: string,
+  planId: string,
+  prorationDate?: number
+): Promise<
+  | { direction: "upgrade" | "downgrade" | "cancel_pending"; effectiveAt: Date }
+  | { error: string; code?: string }
+> {
+  try {
+    const change = await resolvePlanChange(userId, planId);
+    if (change.error !== undefined) return { error: change.error };
+
+    const { subscription, record, stripeSubscription, item, newPlan } = change;
+    const stripe = getStripeClient();
+    const periodEnd =
+      getSubscriptionPeriod(stripeSubscription).currentPeriodEnd ??
+      subscription.currentPeriodEnd ??
+      new Date();
+
+    if (newPlan.id === subscription.planId) {
+      if (!record.pendingPlanId) {
+        return { error: "Você já está neste plano" };
+      }
+
+      await stripe.subscriptions.update(stripeSubscription.id, {
+        items: [{ id: item.id, price: newPlan.stripePriceId }],
+        proration_behavior: "none",
+      });
+      await db
+        .update(userSubscriptions)
+        .set({ pendingPlanId: null, updatedAt: new Date() })
+        .where(eq(userSubscriptions.id, record.id));
+      await recordSubscriptionEvent({
+        subscriptionId: record.id,
+        userId,
+        type: "plan_change_cancelled",
+        fromStatus: record.status,
+        toStatus: record.status,
+        details: { planId: record.planId, pendingPlanId: record.pendingPlanId },
+      });
+
+      return { direction: "cancel_pending", effectiveAt: new Date() };
+    }
+
+    if (newPlan.price < subscription.plan.price) {
+      // Billing changes from the next invoice; access at the period end
+      await stripe.subscriptions.update(stripeSubscription.id, {
+        items: [{ id: item.id, price: newPlan.stripePriceId }],
+        proration_behavior: "none",
+      });
+      await db
+        .update(userSubscriptions)
+        .set({ pendingPlanId: newPlan.id, updatedAt: new Date() })
+        .where(eq(userSubscriptions.id, record.id));
+      await recordSubscriptionEvent({
+        subscriptionId: record.id,
+        userId,
+        type: "plan_change_scheduled",
+        fromStatus: record.status,
+        toStatus: record.status,
+        details: {
+          fromPlanId: record.planId,
+          toPlanId: newPlan.id,
+          effectiveAt: periodEnd.toISOString(),
+        },
+      });
+
+      return { direction: "downgrade", effectiveAt: periodEnd };
+    }
+
+    // Applied only if the prorated invoice is paid
+    const updated = await stripe.subscriptions.update(stripeSubscription.id, {
+      items: [{ id: item.id, price: newPlan.stripePriceId }],
+      proration_behavior: "always_invoice",
+      proration_date: prorationDate,
+      payment_behavior: "pending_if_incomplete",
+    });
+
+    if (updated.pending_update) {
+      return {
+        error: "Pagamento da diferença não aprovado. Verifique seu método de pagamento.",
+        code: "PAYMENT_FAILED",
+      };
+    }
+
+    await db
+      .update(userSubscriptions)
+      .set({ planId: newPlan.id, pendingPlanId: null, updatedAt: new Date() })
+      .where(eq(userSubscriptions.id, record.id));
+    await recordSubscriptionEvent({
+      subscriptionId: record.id,
+      userId,
+      type: "plan_changed",
+      fromStatus: record.status,
+      toStatus: record.status,
+      details: {
+        fromPlanId: record.planId,
+        toPlanId: newPlan.id,
+        prorationDate: prorationDate ?? null,
+      },
+    });
+
+    await ensureSubscriptionCredits(userId);
+
+    return { direction: "upgrade", effectiveAt: new Date() };
+  } catch (error: any) {
+    console.error("Error changing subscription plan:", error);
+    return { error: error.message || "Erro ao trocar de plano" };
+  }
+}
+
+/**
+ * Add an entry to the history of a subscription
+ */
+export async function recordSubscriptionEvent(event: {
+  subscriptionId: string;
+  userId: string;
+  type: SubscriptionEventType;
+  fromStatus?: string | null;
+  toStatus?: string | null;
+  stripeInvoiceId?: string | null;
+  details?: Record<string, unknown>;
+}): Promise<void> {
+  await db.insert(subscriptionEvents).values({
+    subscriptionId: event.subscriptionId,
+    userId: event.userId,
+    type: event.type,
+    fromStatus: event.fromStatus ?? null,
+    toStatus: event.toStatus ?? null,
+    stripeInvoiceId: event.stripeInvoiceId ?? null,
+    details: event.details ? JSON.stringify(event.details) : null,
+  });
+}
+
+/**
+ * Move a subscription to another status and record it in the history.
+ * Only applies if the status is still the one read (concurrent webhooks and
+ * the dunning job never apply the same transition twice).
+ *
+ * @returns The updated subscription, or null when the status had changed
+ */
+export async function transitionSubscription(
+  subscription: { id: string; userId: string; status: string },
+  toStatus: SubscriptionStatus,
+  type: SubscriptionEventType,
+  options: {
+    set?: Partial<typeof userSubscriptions.$inferInsert>;
+    stripeInvoiceId?: string | null;
+    details?: Record<string, unknown>;
+  } = {}
+) {
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(userSubscriptions)
+      .set({ ...options.set, status: toStatus, updatedAt: new Date() })
+      .where(
+        and(
+          eq(userSubscriptions.id, subscription.id),
+          eq(userSubscriptions.status, subscription.status)
+        )
+      )
+      .returning();
+
+    if (!updated) {
+      return null;
+    }
+
+    await tx.insert(subscriptionEvents).values({
+      subscriptionId: subscription.id,
+      userId: subscription.userId,
+      type,
+      fromStatus: subscription.status,
+      toStatus,
+      stripeInvoiceId: options.stripeInvoiceId ?? null,
+      details: options.details ? JSON.stringify(options.details) : null,
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Status to keep after a Stripe subscription snapshot. Overdue states are
+ * driven by the invoice events (dunning), so a snapshot neither starts nor
+ * ends them.
+ */
+function resolveStripeSubscriptionStatus(
+  current: string,
+  stripeStatus: Stripe.Subscription.Status
+): string {
+  switch (stripeStatus) {
+    case "canceled":
+    case "incomplete_expired":
+      return "cancelled";
+    case "past_due":
+    case "unpaid":
+      return current;
+    case "active":
+    case "trialing":
+      return current === "past_due" || current === "unpaid" ? current : stripeStatus;
+    default:
+      return stripeStatus;
+  }
+}
+
+/**
+ * Apply a Stripe subscription snapshot (customer.subscription.* events)
+ */
+export async function syncStripeSubscription(
+  subscription: Stripe.Subscription
+): Promise<void> {
+  const record = await db.query.userSubscriptions.findFirst({
+    where: eq(userSubscriptions.stripeSubscriptionId, subscription.id),
+  });
+
+  if (!record) return;
+
+  const period = getSubscriptionPeriod(subscription);
+  const fields = {
+    ...period,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end ? 1 : 0,
+  };
+  const status = resolveStripeSubscriptionStatus(record.status, subscription.status);
+
+  // A new period started: the scheduled downgrade takes effect
+  if (
+    record.pendingPlanId &&
+    record.currentPeriodEnd &&
+    period.currentPeriodStart &&
+    period.currentPeriodStart >= record.currentPeriodEnd
+  ) {
+    await db
+      .update(userSubscriptions)
+      .set({
+        planId: record.pendingPlanId,
+        pendingPlanId: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(userSubscriptions.id, record.id));
+    await recordSubscriptionEvent({
+      subscriptionId: record.id,
+      userId: record.userId,
+      type: "plan_changed",
+      fromStatus: record.status,
+      toStatus: record.status,
+      details: { fromPlanId: record.planId, toPlanId: record.pendingPlanId },
+    });
+  }
+
+  if (status === record.status) {
+    await db
+      .update(userSubscriptions)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(eq(userSubscriptions.id, record.id));
+    return;
+  }
+
+  await transitionSubscription(
+    record,
+    status as SubscriptionStatus,
+    status === "cancelled" ? "cancelled" : "status_changed",
+    {
+      set: status === "cancelled" ? { ...fields, cancelAtPeriodEnd: 0 } : fields,
+      details: { stripeStatus: subscription.status },
+    }
+  );
+}
+
 /**
  * Initialize usage limits for a billing period
  */
@@ -476,17 +1186,12 @@ async function initializeUsageLimits(
 }
 
 /**
- * Get current usage status for user
+ * Usage row of the current month (created on first use)
  */
-export async function getUserUsageStatus(userId: string): Promise<UsageStatus> {
-  const features = await getUserPlanFeatures(userId);
+async function getCurrentUsagePeriod(userId: string) {
   const now = new Date();
 
-  // Get or create current period usage
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
-
-  let usage = await db.query.usageLimits.findFirst({
+  const usage = await db.query.usageLimits.findFirst({
     where: and(
       eq(usageLimits.userId, userId),
       lte(usageLimits.periodStart, now),
@@ -494,22 +1199,49 @@ export async function getUserUsageStatus(userId: string): Promise<UsageStatus> {
     ),
   });
 
-  if (!usage) {
-    // Create usage record for current period
-    [usage] = await db
-      .insert(usageLimits)
-      .values({
-        userId,
-        periodStart: startOfMonth,
-        periodEnd: endOfMonth,
-      })
-      .returning();
-  }
+  if (usage) return usage;
+
+  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+  const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+
+  const [created] = await db
+    .insert(usageLimits)
+    .values({
+      userId,
+      periodStart: startOfMonth,
+      periodEnd: endOfMonth,
+    })
+    .returning();
+
+  return created;
+}
+
+/**
+ * Current UTC day (YYYY-MM-DD), the window of the daily counters
+ */
+function currentUsageDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Get current usage status for user
+ */
+export async function getUserUsageStatus(userId: string): Promise<UsageStatus> {
+  const features = await getUserPlanFeatures(userId);
+  const usage = await getCurrentUsagePeriod(userId);
+  const day = currentUsageDay();
+
+  const today = await db.query.dailyUsage.findFirst({
+    where: and(eq(dailyUsage.userId, userId), eq(dailyUsage.day, day)),
+  });
+
+  const nextDay = new Date(`${day}T00:00:00.000Z`);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
 
   return {
     quizzesGenerated: usage.quizzesGenerated,
     quizzesLimit: features.quizzes_per_month,
-    aiQuestionsAsked: usage.aiQuestionsAsked,
+    aiQuestionsAsked: today?.aiQuestionsAsked ?? 0,
     aiQuestionsLimit: features.ai_questions_per_day,
     videosUploaded: usage.videosUploaded,
     videosLimit: features.videos,
@@ -517,6 +1249,7 @@ export async function getUserUsageStatus(userId: string): Promise<UsageStatus> {
     coursesLimit: features.courses,
     periodStart: usage.periodStart,
     periodEnd: usage.periodEnd,
+    aiQuestionsResetAt: nextDay,
   };
 }
 
@@ -525,8 +1258,8 @@ export async function getUserUsageStatus(userId: string): Promise<UsageStatus> {
  */
 export async function canPerformAction(
   userId: string,
-  action: "create_course" | "upload_video" | "generate_quiz" | "ask_ai"
-): Promise<{ allowed: boolean; reason?: string }> {
+  action: PlanAction
+): Promise<PlanActionCheck> {
   const usage = await getUserUsageStatus(userId);
 
   switch (action) {
@@ -535,6 +1268,9 @@ export async function canPerformAction(
       if (usage.coursesCreated >= usage.coursesLimit) {
         return {
           allowed: false,
+          code: "PLAN_LIMIT_REACHED",
+          limit: usage.coursesLimit,
+          used: usage.coursesCreated,
           reason: `Você atingiu o limite de ${usage.coursesLimit} cursos do seu plano. Faça upgrade para criar mais cursos.`,
         };
       }
@@ -545,6 +1281,9 @@ export async function canPerformAction(
       if (usage.videosUploaded >= usage.videosLimit) {
         return {
           allowed: false,
+          code: "PLAN_LIMIT_REACHED",
+          limit: usage.videosLimit,
+          used: usage.videosUploaded,
           reason: `Você atingiu o limite de ${usage.videosLimit} vídeos do seu plano. Faça upgrade para enviar mais vídeos.`,
         };
       }
@@ -555,12 +1294,18 @@ export async function canPerformAction(
       if (usage.quizzesLimit === 0) {
         return {
           allowed: false,
+          code: "PLAN_FEATURE_UNAVAILABLE",
+          limit: 0,
+          used: usage.quizzesGenerated,
           reason: "Geração de quizzes não está disponível no plano gratuito. Faça upgrade para usar esta funcionalidade.",
         };
       }
       if (usage.quizzesGenerated >= usage.quizzesLimit) {
         return {
           allowed: false,
+          code: "PLAN_LIMIT_REACHED",
+          limit: usage.quizzesLimit,
+          used: usage.quizzesGenerated,
           reason: `Você atingiu o limite de ${usage.quizzesLimit} quizzes este mês. Faça upgrade ou aguarde o próximo mês.`,
         };
       }
@@ -571,12 +1316,18 @@ export async function canPerformAction(
       if (usage.aiQuestionsLimit === 0) {
         return {
           allowed: false,
+          code: "PLAN_FEATURE_UNAVAILABLE",
+          limit: 0,
+          used: usage.aiQuestionsAsked,
           reason: "Perguntas à IA não estão disponíveis no seu plano. Faça upgrade para usar esta funcionalidade.",
         };
       }
       if (usage.aiQuestionsAsked >= usage.aiQuestionsLimit) {
         return {
           allowed: false,
+          code: "PLAN_LIMIT_REACHED",
+          limit: usage.aiQuestionsLimit,
+          used: usage.aiQuestionsAsked,
           reason: `Você atingiu o limite de ${usage.aiQuestionsLimit} perguntas hoje. Volte amanhã ou faça upgrade.`,
         };
       }
@@ -588,59 +1339,129 @@ export async function canPerformAction(
 }
 
 /**
- * Increment usage counter
+ * Plan feature that limits each action
+ */
+const ACTION_FEATURES: Record<PlanAction, keyof PlanFeatures> = {
+  create_course: "courses",
+  upload_video: "videos",
+  generate_quiz: "quizzes_per_month",
+  ask_ai: "ai_questions_per_day",
+};
+
+/**
+ * Current plan of the user and the plans of the same type with a higher
+ * limit for an action (shown when the action is blocked)
+ */
+export async function getPlanUpgradeOptions(userId: string, action: PlanAction) {
+  const subscription = await getUserSubscription(userId);
+  let currentPlan = subscription?.plan ?? null;
+
+  if (!currentPlan) {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+    });
+    currentPlan = await getPlanByName(
+      user?.role === "creator" ? "creator_free" : "student_free"
+    );
+  }
+
+  const feature = ACTION_FEATURES[action];
+  const currentLimit = Number(currentPlan?.features[feature] ?? 0);
+  const plans = await getSubscriptionPlans(currentPlan?.type);
+
+  const upgradePlans = plans
+    .filter((plan) => {
+      const limit = Number(plan.features[feature] ?? 0);
+      return (
+        plan.id !== currentPlan?.id &&
+        currentLimit !== -1 &&
+        (limit === -1 || limit > currentLimit)
+      );
+    })
+    .sort((a, b) => a.price - b.price)
+    .map((plan) => ({
+      id: plan.id,
+      name: plan.name,
+      displayName: plan.displayName,
+      price: plan.price,
+      limit: Number(plan.features[feature] ?? 0),
+    }));
+
+  return {
+    currentPlan: currentPlan
+      ? { id: currentPlan.id, name: currentPlan.name, displayName: currentPlan.displayName }
+      : null,
+    upgradePlans,
+  };
+}
+
+// Monthly counter of each usage (AI questions are counted per day)
+const MONTHLY_COUNTERS = {
+  quiz: "quizzesGenerated",
+  video: "videosUploaded",
+  course: "coursesCreated",
+} as const;
+
+/**
+ * Increment usage counter (call once the action succeeded)
+ *
+ * The counter is bumped in SQL, so concurrent requests never overwrite each
+ * other. AI questions count per UTC day; the rest per monthly period.
+ * Never throws: the action already happened.
  */
 export async function incrementUsage(
   userId: string,
-  action: "quiz" | "ai_question" | "video" | "course"
+  action: UsageCounter
 ): Promise<void> {
-  const now = new Date();
+  try {
+    const now = new Date();
 
-  // Get current period usage
-  let usage = await db.query.usageLimits.findFirst({
-    where: and(
-      eq(usageLimits.userId, userId),
-      lte(usageLimits.periodStart, now),
-      gte(usageLimits.periodEnd, now)
-    ),
-  });
+    if (action === "ai_question") {
+      await db
+        .insert(dailyUsage)
+        .values({ userId, day: currentUsageDay(), aiQuestionsAsked: 1 })
+        .onConflictDoUpdate({
+          target: [dailyUsage.userId, dailyUsage.day],
+          set: {
+            aiQuestionsAsked: sql`${dailyUsage.aiQuestionsAsked} + 1`,
+            updatedAt: now,
+          },
+        });
+      return;
+    }
 
-  if (!usage) {
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+    const usage = await getCurrentUsagePeriod(userId);
+    const counter = MONTHLY_COUNTERS[action];
 
-    [usage] = await db
-      .insert(usageLimits)
-      .values({
-        userId,
-        periodStart: startOfMonth,
-        periodEnd: endOfMonth,
+    await db
+      .update(usageLimits)
+      .set({
+        [counter]: sql`${usageLimits[counter]} + 1`,
+        updatedAt: now,
       })
-      .returning();
+      .where(eq(usageLimits.id, usage.id));
+  } catch (error) {
+    console.error("❌ Failed to increment usage:", { userId, action, error });
   }
+}
 
-  // Increment appropriate counter
-  const updateData: any = { updatedAt: new Date() };
-
-  switch (action) {
-    case "quiz":
-      updateData.quizzesGenerated = usage.quizzesGenerated + 1;
-      break;
-    case "ai_question":
-      updateData.aiQuestionsAsked = usage.aiQuestionsAsked + 1;
-      break;
-    case "video":
-      updateData.videosUploaded = usage.videosUploaded + 1;
-      break;
-    case "course":
-      updateData.coursesCreated = usage.coursesCreated + 1;
-      break;
-  }
+/**
+ * Billing period of a Stripe subscription (moved to the items in recent
+ * API versions)
+ */
+export function getSubscriptionPeriod(subscription: Stripe.Subscription) {
+  const legacy = subscription as unknown as {
+    current_period_start?: number;
+    current_period_end?: number;
+  };
+  const item = subscription.items?.data[0];
+  const start = legacy.current_period_start ?? item?.current_period_start;
+  const end = legacy.current_period_end ?? item?.current_period_end;
 
-  await db
-    .update(usageLimits)
-    .set(updateData)
-    .where(eq(usageLimits.id, usage.id));
+  return {
+    currentPeriodStart: start ? new Date(start * 1000) : null,
+    currentPeriodEnd: end ? new Date(end * 1000) : null,
+  };
 }
 
 /**
@@ -0,0 +1,361 @@
+/**
+ * Transcript Revisions Service
+ * Creator corrections of transcripts, with history (snapshot + diff per
+ * revision) and revert. The R2 text backup follows every change.
+ */
+
+import { db } from "../db";
+import { transcripts, transcriptRevisions } from "../db/schema";
+import { eq, and, desc } from "drizzle-orm";
+import { TranscriptSegmentData } from "./transcription-providers";
+import {
+  getTranscriptSegments,
+  replaceTranscriptSegments,
+  formatPlaybackTime,
+} from "./captions";
+import { getTranscriptR2Key } from "./transcription";
+import { uploadFileToR2 } from "./cloudflare-r2";
+import { Transcript } from "./transcripts";
+
+export type TranscriptRevision = typeof transcriptRevisions.$inferSelect;
+
+export type RevisionAction = "original" | "edit" | "revert";
+
+export type TranscriptRevisionErrorCode =
+  | "TRANSCRIPT_NOT_FOUND"
+  | "REVISION_NOT_FOUND"
+  | "REVISION_CONFLICT"
+  | "SEGMENTS_REQUIRED"
+  | "NO_CHANGES";
+
+type RevisionResult =
+  | { transcript: Transcript; revision: TranscriptRevision }
+  | { error: string; code: TranscriptRevisionErrorCode };
+
+interface TranscriptState {
+  content: string;
+  // null = leave the current segments untouched
+  segments: TranscriptSegmentData[] | null;
+}
+
+// Above this many line pairs the diff only trims the common prefix/suffix
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Lines compared by the diff: one per segment ("[12:30] text"), or one
+ * per sentence for transcripts without timestamps
+ */
+function toDiffLines(
+  content: string,
+  segments: TranscriptSegmentData[]
+): string[] {
+  if (segments.length > 0) {
+    return segments.map(
+      (segment) => `[${formatPlaybackTime(segment.startMs)}] ${segment.text}`
+    );
+  }
+  return content
+    .split(/(?<=[.!?])\s+/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Removed (-) and added (+) lines between two versions (LCS based)
+ */
+export function buildLineDiff(before: string[], after: string[]): string {
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start++;
+  }
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (
+    endBefore > start &&
+    endAfter > start &&
+    before[endBefore - 1] === after[endAfter - 1]
+  ) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const removed = before.slice(start, endBefore);
+  const added = after.slice(start, endAfter);
+  const lines: string[] = [];
+
+  if (removed.length * added.length > MAX_DIFF_CELLS) {
+    removed.forEach((line) => lines.push(`- ${line}`));
+    added.forEach((line) => lines.push(`+ ${line}`));
+    return lines.join("\n");
+  }
+
+  // lcs[i][j] = longest common subsequence of removed[i..] and added[j..]
+  const lcs = Array.from(
+    { length: removed.length + 1 },
+    () => new Uint32Array(added.length + 1)
+  );
+  for (let i = removed.length - 1; i >= 0; i--) {
+    for (let j = added.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        removed[i] === added[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < removed.length && j < added.length) {
+    if (removed[i] === added[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`- ${removed[i++]}`);
+    } else {
+      lines.push(`+ ${added[j++]}`);
+    }
+  }
+  while (i < removed.length) lines.push(`- ${removed[i++]}`);
+  while (j < added.length) lines.push(`+ ${added[j++]}`);
+
+  return lines.join("\n");
+}
+
+function parseSnapshotSegments(
+  revision: TranscriptRevision
+): TranscriptSegmentData[] {
+  if (!revision.segments) return [];
+  try {
+    return JSON.parse(revision.segments);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Keep the text backup in R2 in sync (best effort, the database is the source of truth)
+ */
+async function syncTranscriptToR2(transcriptId: string): Promise<void> {
+  try {
+    const transcript = await db.query.transcripts.findFirst({
+      where: eq(transcripts.id, transcriptId),
+      with: { video: { columns: { r2Key: true } } },
+    });
+    if (!transcript) return;
+
+    await uploadFileToR2(
+      getTranscriptR2Key(transcript.video.r2Key, transcript.language),
+      Buffer.from(transcript.content, "utf-8"),
+      "text/plain"
+    );
+  } catch (error) {
+    console.error("❌ Failed to sync transcript to R2:", { transcriptId, error });
+  }
+}
+
+/**
+ * Apply a new state to a transcript and record it as a revision
+ */
+async function applyRevision(
+  transcriptId: string,
+  next: TranscriptState,
+  options: {
+    action: Exclude<RevisionAction, "original">;
+    authorId: string;
+    baseRevision?: number;
+    revertedFromRevision?: number;
+  }
+): Promise<RevisionResult> {
+  const result = await db.transaction(async (tx): Promise<RevisionResult> => {
+    // Row lock: concurrent edits get consecutive revision numbers
+    const [current] = await tx
+      .select()
+      .from(transcripts)
+      .where(eq(transcripts.id, transcriptId))
+      .for("update");
+
+    if (!current) {
+      return { error: "Transcricao nao encontrada", code: "TRANSCRIPT_NOT_FOUND" };
+    }
+
+    if (
+      options.baseRevision !== undefined &&
+      options.baseRevision !== current.revision
+    ) {
+      return {
+        error: `A transcricao foi alterada (revisao atual: ${current.revision}). Recarregue antes de salvar.`,
+        code: "REVISION_CONFLICT",
+      };
+    }
+
+    const currentSegments = await getTranscriptSegments(transcriptId);
+    const nextSegments = next.segments ?? currentSegments;
+
+    if (
+      next.content === current.content &&
+      JSON.stringify(nextSegments) === JSON.stringify(currentSegments)
+    ) {
+      return { error: "Nenhuma alteracao na transcricao", code: "NO_CHANGES" };
+    }
+
+    // The text as it came from Whisper/translation, so it can be restored
+    await tx
+      .insert(transcriptRevisions)
+      .values({
+        transcriptId,
+        revisionNumber: 0,
+        action: "original",
+        content: current.content,
+        segments: JSON.stringify(currentSegments),
+      })
+      .onConflictDoNothing({
+        target: [transcriptRevisions.transcriptId, transcriptRevisions.revisionNumber],
+      });
+
+    const [revision] = await tx
+      .insert(transcriptRevisions)
+      .values({
+        transcriptId,
+        revisionNumber: current.revision + 1,
+        action: options.action,
+        authorId: options.authorId,
+        content: next.content,
+        segments: JSON.stringify(nextSegments),
+        diff: buildLineDiff(
+          toDiffLines(current.content, currentSegments),
+          toDiffLines(next.content, nextSegments)
+        ),
+        revertedFromRevision: options.revertedFromRevision,
+      })
+      .returning();
+
+    const [updated] = await tx
+      .update(transcripts)
+      .set({
+        content: next.content,
+        revision: revision.revisionNumber,
+        updatedAt: new Date(),
+      })
+      .where(eq(transcripts.id, transcriptId))
+      .returning();
+
+    if (next.segments) {
+      await replaceTranscriptSegments(transcriptId, next.segments, tx);
+    }
+
+    return { transcript: updated, revision };
+  });
+
+  if ("transcript" in result) {
+    await syncTranscriptToR2(transcriptId);
+  }
+
+  return result;
+}
+
+/**
+ * Save a creator correction of a transcript
+ *
+ * Timed transcripts must be edited through their segments, so captions and
+ * the AI chat (which reads the segments) see the correction too.
+ */
+export async function editTranscript(
+  transcriptId: string,
+  authorId: string,
+  change: { content?: string; segments?: TranscriptSegmentData[] },
+  baseRevision?: number
+): Promise<RevisionResult> {
+  let next: TranscriptState;
+
+  if (change.segments) {
+    next = {
+      content: change.segments.map((segment) => segment.text).join(" "),
+      segments: change.segments,
+    };
+  } else {
+    const existingSegments = await getTranscriptSegments(transcriptId);
+    if (existingSegments.length > 0) {
+      return {
+        error:
+          "Esta transcricao tem trechos com tempo. Envie os trechos (segments) corrigidos para manter as legendas sincronizadas.",
+        code: "SEGMENTS_REQUIRED",
+      };
+    }
+    next = { content: change.content ?? "", segments: null };
+  }
+
+  return applyRevision(transcriptId, next, {
+    action: "edit",
+    authorId,
+    baseRevision,
+  });
+}
+
+/**
+ * Restore the text of an earlier revision (recorded as a new revision)
+ */
+export async function revertTranscript(
+  transcriptId: string,
+  revisionNumber: number,
+  authorId: string,
+  baseRevision?: number
+): Promise<RevisionResult> {
+  const target = await getTranscriptRevision(transcriptId, revisionNumber);
+  if (!target) {
+    return { error: "Revisao nao encontrada", code: "REVISION_NOT_FOUND" };
+  }
+
+  return applyRevision(
+    transcriptId,
+    { content: target.content, segments: parseSnapshotSegments(target) },
+    {
+      action: "revert",
+      authorId,
+      baseRevision,
+      revertedFromRevision: revisionNumber,
+    }
+  );
+}
+
+/**
+ * Revision history, newest first (without the snapshots)
+ */
+export async function listTranscriptRevisions(transcriptId: string) {
+  return db.query.transcriptRevisions.findMany({
+    where: eq(transcriptRevisions.transcriptId, transcriptId),
+    columns: { content: false, segments: false },
+    with: { author: { columns: { id: true, username: true } } },
+    orderBy: [desc(transcriptRevisions.revisionNumber)],
+  });
+}
+
+/**
+ * A single revision with its snapshot
+ */
+export async function getTranscriptRevision(
+  transcriptId: string,
+  revisionNumber: number
+): Promise<TranscriptRevision | null> {
+  const revision = await db.query.transcriptRevisions.findFirst({
+    where: and(
+      eq(transcriptRevisions.transcriptId, transcriptId),
+      eq(transcriptRevisions.revisionNumber, revisionNumber)
+    ),
+  });
+  return revision ?? null;
+}
+
+/**
+ * Public view of a revision (snapshot segments parsed)
+ */
+export function serializeTranscriptRevision(revision: TranscriptRevision) {
+  return {
+    ...revision,
+    segments: parseSnapshotSegments(revision),
+  };
+}
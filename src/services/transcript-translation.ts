@@ -0,0 +1,147 @@
+/**
+ * Transcript Translation Service
+ * Translates a transcript segment by segment with AI and stores it as an
+ * additional transcript of the video (same timestamps, other language)
+ */
+
+import { db } from "../db";
+import { transcripts } from "../db/schema";
+import { eq } from "drizzle-orm";
+import { translateTexts } from "./openai-chat";
+import { getTranscriptSegments, saveTranscriptSegments } from "./captions";
+import { getVideoTranscript, Transcript } from "./transcripts";
+import { getTranscriptR2Key } from "./transcription";
+import { uploadFileToR2 } from "./cloudflare-r2";
+import { permanentJobError } from "./job-queue";
+import { AIUsage } from "./ai-usage";
+
+// Transcripts saved before segments existed are translated in chunks
+const CHUNK_MAX_CHARS = 1500;
+
+/**
+ * Split plain text into sentence-aligned chunks of up to CHUNK_MAX_CHARS
+ */
+function splitIntoChunks(content: string): string[] {
+  const sentences = content.match(/[^.!?]+[.!?]*\s*/g) ?? [content];
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > CHUNK_MAX_CHARS) {
+      chunks.push(current.trim());
+      current = "";
+    }
+    current += sentence;
+  }
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks;
+}
+
+/**
+ * Translate a transcript into another language and save it
+ *
+ * @param onUsage - Called with the token usage of the translation (also when it fails)
+ * @returns The translation (skipped = it already existed, nothing was charged)
+ */
+export async function translateTranscript(
+  sourceTranscriptId: string,
+  targetLanguage: string,
+  onUsage?: (usage: AIUsage) => void
+): Promise<{ transcript: Transcript; segmentsCount: number; skipped: boolean }> {
+  const source = await db.query.transcripts.findFirst({
+    where: eq(transcripts.id, sourceTranscriptId),
+    with: { video: { columns: { r2Key: true } } },
+  });
+
+  if (!source) {
+    throw permanentJobError("Transcricao de origem nao encontrada");
+  }
+
+  if (source.language === targetLanguage) {
+    throw permanentJobError("A transcricao ja esta neste idioma");
+  }
+
+  const existing = await getVideoTranscript(source.videoId, targetLanguage);
+  if (existing) {
+    return { transcript: existing, segmentsCount: 0, skipped: true };
+  }
+
+  const segments = await getTranscriptSegments(source.id);
+  const texts = segments.length
+    ? segments.map((segment) => segment.text)
+    : splitIntoChunks(source.content);
+
+  const { translations, usage, error } = await translateTexts(
+    texts,
+    targetLanguage,
+    source.language
+  );
+  if (usage) onUsage?.(usage);
+
+  if (error || translations.length !== texts.length) {
+    throw new Error(error || "Traducao incompleta");
+  }
+
+  const translatedSegments = segments.map((segment, index) => ({
+    ...segment,
+    text: translations[index],
+  }));
+  const content = translations.join(" ");
+
+  const saved = await db.transaction(async (tx) => {
+    const [inserted] = await tx
+      .insert(transcripts)
+      .values({
+        videoId: source.videoId,
+        language: targetLanguage,
+        sourceTranscriptId: source.id,
+        content,
+      })
+      .onConflictDoNothing({
+        target: [transcripts.videoId, transcripts.language],
+      })
+      .returning();
+
+    if (inserted && translatedSegments.length > 0) {
+      await saveTranscriptSegments(inserted.id, translatedSegments, tx);
+    }
+
+    return inserted;
+  });
+
+  // Another request saved this language first
+  if (!saved) {
+    const current = await getVideoTranscript(source.videoId, targetLanguage);
+    if (!current) {
+      throw new Error("Falha ao salvar traducao");
+    }
+    return { transcript: current, segmentsCount: 0, skipped: true };
+  }
+
+  // Text backup next to the original transcript (best effort)
+  try {
+    await uploadFileToR2(
+      getTranscriptR2Key(source.video.r2Key, targetLanguage),
+      Buffer.from(content, "utf-8"),
+      "text/plain"
+    );
+  } catch (uploadError) {
+    console.error("❌ Failed to store translated transcript in R2:", uploadError);
+  }
+
+  console.log("✅ Transcript translated:", {
+    videoId: source.videoId,
+    from: source.language,
+    to: targetLanguage,
+    segments: translatedSegments.length,
+  });
+
+  return {
+    transcript: saved,
+    segmentsCount: translatedSegments.length,
+    skipped: false,
+  };
+}
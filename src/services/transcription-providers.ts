@@ -0,0 +1,388 @@
+/**
+ * Transcription Providers
+ * Speech-to-text backends used by the transcription service
+ *
+ * Selected with TRANSCRIPTION_PROVIDER:
+ * - "openai" (default): OpenAI Whisper API (whisper-1)
+ * - "local": self-hosted whisper.cpp or faster-whisper binary (no API cost)
+ * - "fake": deterministic output, for tests and offline development
+ */
+
+import OpenAI from "openai";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { tmpdir } from "os";
+import { join } from "path";
+import { writeFile, readFile, mkdir, rm } from "fs/promises";
+import { randomUUID } from "crypto";
+import { convertAudioToWav } from "./audio-extractor";
+import { AIUsage } from "./ai-usage";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Timed piece of a transcript (milliseconds from the start of the video)
+ */
+export interface TranscriptSegmentData {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export interface TranscribeAudioOptions {
+  fileName: string;
+  // ISO 639-1 code, e.g. "pt"; omitted = detect the spoken language
+  language?: string;
+  // Text preceding this audio, keeps wording consistent across windows
+  prompt?: string;
+}
+
+export interface AudioTranscription {
+  text: string;
+  segments: TranscriptSegmentData[];
+  // Language of the audio (ISO 639-1), when the provider reports it
+  language?: string;
+  // Billable usage (paid APIs only)
+  usage?: AIUsage;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  // Largest MP3 accepted in one call; longer audio is split into windows
+  maxFileSizeBytes: number;
+  transcribe(
+    audio: Buffer,
+    options: TranscribeAudioOptions
+  ): Promise<AudioTranscription>;
+}
+
+const MB = 1024 * 1024;
+
+let currentProvider: TranscriptionProvider | null = null;
+
+// The Whisper API reports the detected language by name
+const WHISPER_LANGUAGE_NAMES: Record<string, string> = {
+  arabic: "ar",
+  catalan: "ca",
+  chinese: "zh",
+  dutch: "nl",
+  english: "en",
+  french: "fr",
+  galician: "gl",
+  german: "de",
+  hindi: "hi",
+  italian: "it",
+  japanese: "ja",
+  korean: "ko",
+  polish: "pl",
+  portuguese: "pt",
+  russian: "ru",
+  spanish: "es",
+  swedish: "sv",
+  turkish: "tr",
+  ukrainian: "uk",
+};
+
+/**
+ * Normalize a reported language ("Portuguese", "pt", "PT") to ISO 639-1
+ */
+export function normalizeLanguageCode(
+  language: string | null | undefined
+): string | undefined {
+  if (!language) return undefined;
+  const value = language.trim().toLowerCase();
+  if (/^[a-z]{2}$/.test(value)) return value;
+  return WHISPER_LANGUAGE_NAMES[value];
+}
+
+function cleanSegments(
+  segments: TranscriptSegmentData[]
+): TranscriptSegmentData[] {
+  return segments
+    .map((segment) => ({ ...segment, text: segment.text.trim() }))
+    .filter((segment) => segment.text.length > 0);
+}
+
+/**
+ * OpenAI Whisper API (files up to 25MB)
+ */
+export function createOpenAITranscriptionProvider(): TranscriptionProvider {
+  let client: OpenAI | null = null;
+
+  return {
+    name: "openai",
+    maxFileSizeBytes: 25 * MB,
+    async transcribe(audio, options) {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY nao configurada");
+      }
+      if (!client) {
+        client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+      }
+
+      const audioFile = new File([audio], options.fileName, {
+        type: "audio/mpeg",
+      });
+
+      const transcription = await client.audio.transcriptions.create({
+        file: audioFile,
+        model: "whisper-1",
+        ...(options.language ? { language: options.language } : {}),
+        response_format: "verbose_json", // Includes segment timestamps
+        timestamp_granularities: ["segment"],
+        ...(options.prompt ? { prompt: options.prompt } : {}),
+      });
+
+      return {
+        text: transcription.text || "",
+        segments: cleanSegments(
+          (transcription.segments || []).map((segment) => ({
+            startMs: Math.round(segment.start * 1000),
+            endMs: Math.round(segment.end * 1000),
+            text: segment.text,
+          }))
+        ),
+        language:
+          normalizeLanguageCode(transcription.language) ?? options.language,
+        usage: {
+          model: "whisper-1",
+          promptTokens: 0,
+          completionTokens: 0,
+          audioSeconds: transcription.duration ?? 0,
+        },
+      };
+    },
+  };
+}
+
+export interface LocalWhisperConfig {
+  // "whisper.cpp" (whisper-cli) or "faster-whisper" (whisper-ctranslate2 CLI)
+  engine: "whisper.cpp" | "faster-whisper";
+  binaryPath: string;
+  // Model file for whisper.cpp, model name/dir for faster-whisper
+  model: string;
+  threads?: number;
+  timeoutMs: number;
+  maxFileSizeBytes: number;
+}
+
+function getLocalWhisperConfig(): LocalWhisperConfig {
+  const engine =
+    process.env.LOCAL_WHISPER_ENGINE === "faster-whisper"
+      ? "faster-whisper"
+      : "whisper.cpp";
+
+  return {
+    engine,
+    binaryPath:
+      process.env.LOCAL_WHISPER_BIN ||
+      (engine === "whisper.cpp" ? "whisper-cli" : "whisper-ctranslate2"),
+    model:
+      process.env.LOCAL_WHISPER_MODEL ||
+      (engine === "whisper.cpp" ? "models/ggml-base.bin" : "base"),
+    threads: process.env.LOCAL_WHISPER_THREADS
+      ? Number(process.env.LOCAL_WHISPER_THREADS)
+      : undefined,
+    timeoutMs: Number(process.env.LOCAL_WHISPER_TIMEOUT_MS || 2 * 60 * 60 * 1000),
+    maxFileSizeBytes: Number(process.env.LOCAL_WHISPER_MAX_FILE_MB || 25) * MB,
+  };
+}
+
+// whisper.cpp -oj output
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: {
+    offsets: { from: number; to: number };
+    text: string;
+  }[];
+}
+
+// faster-whisper / openai-whisper CLI json output
+interface FasterWhisperOutput {
+  text?: string;
+  language?: string;
+  segments?: { start: number; end: number; text: string }[];
+}
+
+/**
+ * Self-hosted Whisper binary (runs on this machine, no per-minute cost)
+ */
+export function createLocalWhisperProvider(
+  config: LocalWhisperConfig = getLocalWhisperConfig()
+): TranscriptionProvider {
+  return {
+    name: `local:${config.engine}`,
+    maxFileSizeBytes: config.maxFileSizeBytes,
+    async transcribe(audio, options) {
+      const workDir = join(tmpdir(), `whisper-${randomUUID()}`);
+      const inputPath = join(workDir, "input.mp3");
+
+      await mkdir(workDir, { recursive: true });
+
+      try {
+        await writeFile(inputPath, audio);
+
+        if (config.engine === "whisper.cpp") {
+          // whisper.cpp only reads 16kHz WAV reliably
+          const wavPath = join(workDir, "input.wav");
+          await convertAudioToWav(inputPath, wavPath);
+
+          const outputPrefix = join(workDir, "output");
+          const args = [
+            "-m",
+            config.model,
+            "-f",
+            wavPath,
+            "-l",
+            options.language || "auto",
+            "-oj",
+            "-of",
+            outputPrefix,
+          ];
+          if (config.threads) args.push("-t", String(config.threads));
+          if (options.prompt) args.push("--prompt", options.prompt);
+
+          await execFileAsync(config.binaryPath, args, {
+            timeout: config.timeoutMs,
+            maxBuffer: 10 * MB,
+          });
+
+          const output: WhisperCppOutput = JSON.parse(
+            await readFile(`${outputPrefix}.json`, "utf-8")
+          );
+          const segments = cleanSegments(
+            (output.transcription || []).map((segment) => ({
+              startMs: segment.offsets.from,
+              endMs: segment.offsets.to,
+              text: segment.text,
+            }))
+          );
+
+          return {
+            text: segments.map((segment) => segment.text).join(" "),
+            segments,
+            language:
+              normalizeLanguageCode(output.result?.language) ??
+              options.language,
+          };
+        }
+
+        const args = [
+          inputPath,
+          "--model",
+          config.model,
+          "--output_format",
+          "json",
+          "--output_dir",
+          workDir,
+        ];
+        if (options.language) args.push("--language", options.language);
+        if (config.threads) args.push("--threads", String(config.threads));
+        if (options.prompt) args.push("--initial_prompt", options.prompt);
+
+        await execFileAsync(config.binaryPath, args, {
+          timeout: config.timeoutMs,
+          maxBuffer: 10 * MB,
+        });
+
+        // Output file is named after the input file
+        const output: FasterWhisperOutput = JSON.parse(
+          await readFile(join(workDir, "input.json"), "utf-8")
+        );
+        const segments = cleanSegments(
+          (output.segments || []).map((segment) => ({
+            startMs: Math.round(segment.start * 1000),
+            endMs: Math.round(segment.end * 1000),
+            text: segment.text,
+          }))
+        );
+
+        return {
+          text:
+            output.text?.trim() ||
+            segments.map((segment) => segment.text).join(" "),
+          segments,
+          language: normalizeLanguageCode(output.language) ?? options.language,
+        };
+      } catch (error: any) {
+        if (error?.code === "ENOENT" && error?.path === config.binaryPath) {
+          throw new Error(
+            `Binario do Whisper local nao encontrado: ${config.binaryPath}. Configure LOCAL_WHISPER_BIN.`
+          );
+        }
+        throw error;
+      } finally {
+        await rm(workDir, { recursive: true, force: true }).catch(() => {});
+      }
+    },
+  };
+}
+
+/**
+ * Deterministic provider for tests (no network, no binaries)
+ *
+ * Returns the configured segments, or one segment naming the file.
+ */
+export function createFakeTranscriptionProvider(
+  fixture?: Partial<AudioTranscription>
+): TranscriptionProvider {
+  return {
+    name: "fake",
+    maxFileSizeBytes: 25 * MB,
+    async transcribe(audio, options) {
+      const segments = fixture?.segments ?? [
+        {
+          startMs: 0,
+          endMs: 1000,
+          text: `Transcricao de teste (${options.fileName}, ${audio.length} bytes)`,
+        },
+      ];
+
+      return {
+        text:
+          fixture?.text ?? segments.map((segment) => segment.text).join(" "),
+        segments,
+        language: fixture?.language ?? options.language ?? "pt",
+      };
+    },
+  };
+}
+
+/**
+ * Provider configured by TRANSCRIPTION_PROVIDER (created once)
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (currentProvider) {
+    return currentProvider;
+  }
+
+  const name = (process.env.TRANSCRIPTION_PROVIDER || "openai").toLowerCase();
+
+  switch (name) {
+    case "openai":
+      currentProvider = createOpenAITranscriptionProvider();
+      break;
+    case "local":
+      currentProvider = createLocalWhisperProvider();
+      break;
+    case "fake":
+      currentProvider = createFakeTranscriptionProvider();
+      break;
+    default:
+      throw new Error(
+        `TRANSCRIPTION_PROVIDER invalido: ${name} (use openai, local ou fake)`
+      );
+  }
+
+  console.log(`🎤 Transcription provider: ${currentProvider.name}`);
+  return currentProvider;
+}
+
+/**
+ * Replace the configured provider (tests); null goes back to the env config
+ */
+export function setTranscriptionProvider(
+  provider: TranscriptionProvider | null
+): void {
+  currentProvider = provider;
+}
@@ -0,0 +1,321 @@
+/**
+ * Transcription Service
+ * Handles video transcription with the configured speech-to-text provider
+ * (OpenAI Whisper API, local Whisper binary or fake, see transcription-providers)
+ *
+ * Supports videos of any size (including 1+ hour videos) by automatically
+ * extracting audio, which is much smaller than video files.
+ *
+ * Audio extraction reduces file size by ~90%. Audio still over the provider's
+ * file limit (3-4 hour live recordings) is split into overlapping windows
+ * that are transcribed one by one and stitched back together.
+ */
+
+import { getR2FileStream, uploadFileToR2 } from "./cloudflare-r2";
+import {
+  extractAudioFromVideoStream,
+  isFFmpegAvailable,
+  splitAudioIntoWindows,
+} from "./audio-extractor";
+import {
+  getTranscriptionProvider,
+  TranscriptSegmentData,
+} from "./transcription-providers";
+import { AIUsage, sumAIUsage } from "./ai-usage";
+
+// 20 minutes of 64kbps mono audio is ~10MB, well under the 25MB OpenAI limit
+const WINDOW_SECONDS = Number(process.env.TRANSCRIPTION_WINDOW_SECONDS || 1200);
+const WINDOW_OVERLAP_SECONDS = Number(
+  process.env.TRANSCRIPTION_WINDOW_OVERLAP_SECONDS || 10
+);
+
+// Whisper uses the prompt as preceding context (only the last ~224 tokens count)
+const PROMPT_CONTEXT_CHARS = 500;
+
+// Used when neither the video/course nor the provider tells the language
+const FALLBACK_LANGUAGE = process.env.TRANSCRIPTION_LANGUAGE || "pt";
+
+/**
+ * R2 key of the text backup of a transcript, e.g. transcripts/videos/abc.pt.txt
+ */
+export function getTranscriptR2Key(videoR2Key: string, language: string): string {
+  return `transcripts/${videoR2Key.replace(/\.(mp4|webm|mov)$/, "")}.${language}.txt`;
+}
+
+/**
+ * Segments of one audio window (times relative to that window)
+ */
+export interface WindowTranscription {
+  startMs: number;
+  endMs: number;
+  segments: TranscriptSegmentData[];
+}
+
+/**
+ * Merge the segments of overlapping windows into one timeline
+ *
+ * Segment times are shifted by the window offset. Inside the overlap of two
+ * windows, a segment is kept only from the window whose half of the overlap
+ * contains its midpoint, so nothing is duplicated or lost at the boundary.
+ */
+export function stitchWindowSegments(
+  windows: WindowTranscription[]
+): TranscriptSegmentData[] {
+  const stitched: TranscriptSegmentData[] = [];
+
+  windows.forEach((window, index) => {
+    const previous = windows[index - 1];
+    const next = windows[index + 1];
+    const lowerCut = previous
+      ? (window.startMs + previous.endMs) / 2
+      : -Infinity;
+    const upperCut = next ? (next.startMs + window.endMs) / 2 : Infinity;
+
+    for (const segment of window.segments) {
+      const startMs = segment.startMs + window.startMs;
+      const endMs = segment.endMs + window.startMs;
+      const midpoint = (startMs + endMs) / 2;
+
+      if (midpoint < lowerCut || midpoint >= upperCut) continue;
+
+      // Keep the timeline monotonic when two windows disagree slightly
+      const lastEnd = stitched.length ? stitched[stitched.length - 1].endMs : 0;
+      stitched.push({
+        startMs: Math.max(startMs, lastEnd),
+        endMs: Math.max(endMs, lastEnd),
+        text: segment.text,
+      });
+    }
+  });
+
+  return stitched;
+}
+
+/**
+ * Transcribe video from R2 key
+ *
+ * Always extracts audio from video for optimal size reduction.
+ * Supports videos of any length: audio over the provider limit is transcribed
+ * in overlapping windows and the segments are stitched with absolute timestamps.
+ *
+ * @param r2Key - Cloudflare R2 key of the video file
+ * @param language - Spoken language (ISO 639-1); null detects it from the audio
+ * @returns Transcript text with timed segments and its language, or error
+ * message, plus the billable usage of the provider (also on errors)
+ */
+export async function transcribeVideoFromR2(
+  r2Key: string,
+  language: string | null = null
+): Promise<{
+  transcript: string;
+  segments: TranscriptSegmentData[];
+  language?: string;
+  transcriptKey?: string;
+  usage?: AIUsage;
+  error?: string;
+}> {
+  const usages: AIUsage[] = [];
+
+  try {
+    console.log("🎤 Starting transcription for:", r2Key);
+    console.log("🎤 R2 Key:", r2Key);
+    const provider = getTranscriptionProvider();
+    console.log("🎤 Provider:", provider.name, "| language:", language || "auto");
+
+    // 1. Get video stream from R2 (memory-efficient, doesn't load entire file)
+    console.log("📥 Step 1: Getting video stream from R2...");
+    const videoStream = await getR2FileStream(r2Key);
+    if (!videoStream || !videoStream.Body) {
+      return {
+        transcript: "",
+        segments: [],
+        error: "Falha ao obter o stream do video no R2",
+      };
+    }
+
+    const fileSizeMB = videoStream.ContentLength
+      ? (videoStream.ContentLength / 1024 / 1024).toFixed(2)
+      : "unknown";
+    console.log("✅ Video stream obtained, size:", fileSizeMB, "MB");
+
+    // 2. Always extract audio for optimal size reduction
+    // This allows us to transcribe videos of any length (1+ hours)
+    // Audio is typically 90% smaller than video
+    // Process directly from stream to avoid loading entire video in memory
+    console.log("🎵 Starting audio extraction process...");
+
+    // Check if ffmpeg is available
+    console.log("🔍 Checking FFmpeg availability...");
+    const ffmpegAvailable = await isFFmpegAvailable();
+    console.log("🔍 FFmpeg available:", ffmpegAvailable);
+
+    if (!ffmpegAvailable) {
+      console.error("❌ FFmpeg is not available - cannot extract audio");
+      return {
+        transcript: "",
+        segments: [],
+        error: `FFmpeg nao esta disponivel. Instale o FFmpeg para habilitar a transcricao. A extracao de audio e obrigatoria. Rode: apt-get update && apt-get install -y ffmpeg`,
+      };
+    }
+
+    console.log("🎵 FFmpeg is available, proceeding with audio extraction...");
+
+    // Extract audio from video stream (memory-efficient)
+    const extension = r2Key.split(".").pop() || "mp4";
+    console.log(
+      `🎵 Extracting audio from ${extension} video stream (${fileSizeMB}MB)...`
+    );
+
+    const { audioBuffer: extractedAudio, error: extractError } =
+      await extractAudioFromVideoStream(videoStream.Body, extension);
+
+    if (extractError) {
+      console.error("❌ Audio extraction error:", extractError);
+      return {
+        transcript: "",
+        segments: [],
+        error: extractError || "Falha ao extrair audio do video",
+      };
+    }
+
+    if (!extractedAudio || extractedAudio.length === 0) {
+      console.error("❌ Audio extraction returned empty buffer");
+      return {
+        transcript: "",
+        segments: [],
+        error:
+          "A extracao de audio retornou vazio. O video pode nao ter faixa de audio.",
+      };
+    }
+
+    const audioSizeMB = (extractedAudio.length / 1024 / 1024).toFixed(2);
+    console.log(
+      `✅ Audio extracted, size: ${audioSizeMB}MB (reduced from ${fileSizeMB}MB)`
+    );
+
+    const baseName =
+      r2Key
+        .split("/")
+        .pop()
+        ?.replace(/\.[^.]+$/, "") || "audio";
+
+    // 3. Send to the speech-to-text provider (in windows when over its size limit)
+    let transcriptText: string;
+    let segments: TranscriptSegmentData[];
+    let detectedLanguage: string | undefined;
+
+    if (extractedAudio.length <= provider.maxFileSizeBytes) {
+      console.log(`📤 Step 3: Sending audio to ${provider.name}...`);
+      console.log("📤 Audio file size:", audioSizeMB, "MB");
+
+      const result = await provider.transcribe(extractedAudio, {
+        fileName: `${baseName}.mp3`,
+        language: language ?? undefined,
+      });
+      if (result.usage) usages.push(result.usage);
+      transcriptText = result.text;
+      segments = result.segments;
+      detectedLanguage = result.language;
+    } else {
+      console.log(
+        `✂️ Step 3: Audio over the provider limit (${audioSizeMB}MB), splitting into ${WINDOW_SECONDS}s windows...`
+      );
+
+      const { windows, error: splitError } = await splitAudioIntoWindows(
+        extractedAudio,
+        {
+          windowSeconds: WINDOW_SECONDS,
+          overlapSeconds: WINDOW_OVERLAP_SECONDS,
+        }
+      );
+
+      if (splitError || windows.length === 0) {
+        return {
+          transcript: "",
+          segments: [],
+          error: splitError || "Falha ao dividir o audio em partes",
+        };
+      }
+
+      const windowResults: WindowTranscription[] = [];
+      let previousText = "";
+
+      for (const window of windows) {
+        console.log(
+          `📤 Transcribing window ${window.index + 1}/${windows.length} (${(
+            window.buffer.length /
+            1024 /
+            1024
+          ).toFixed(2)}MB)...`
+        );
+
+        const result = await provider.transcribe(window.buffer, {
+          fileName: `${baseName}-${window.index + 1}.mp3`,
+          // Detected on the first window, then kept for the whole video
+          language: language ?? detectedLanguage,
+          prompt: previousText.slice(-PROMPT_CONTEXT_CHARS) || undefined,
+        });
+        if (result.usage) usages.push(result.usage);
+
+        windowResults.push({
+          startMs: window.startMs,
+          endMs: window.endMs,
+          segments: result.segments,
+        });
+        previousText = result.text;
+        detectedLanguage = detectedLanguage ?? result.language;
+      }
+
+      segments = stitchWindowSegments(windowResults);
+      transcriptText = segments.map((segment) => segment.text).join(" ");
+    }
+
+    const transcriptLanguage = language ?? detectedLanguage ?? FALLBACK_LANGUAGE;
+
+    console.log(`✅ Transcription completed (${provider.name})`);
+    console.log("✅ Language:", transcriptLanguage);
+    console.log("✅ Transcript length:", transcriptText.length);
+    console.log("✅ Segments:", segments.length);
+    console.log("✅ Transcript preview:", transcriptText.substring(0, 200));
+
+    // 4. Store transcript in R2 (optional, for backup)
+    const transcriptKey = getTranscriptR2Key(r2Key, transcriptLanguage);
+    const transcriptBuffer = Buffer.from(transcriptText, "utf-8");
+    await uploadFileToR2(transcriptKey, transcriptBuffer, "text/plain");
+
+    console.log("✅ Transcript stored in R2:", transcriptKey);
+
+    return {
+      transcript: transcriptText,
+      segments,
+      language: transcriptLanguage,
+      transcriptKey,
+      usage: sumAIUsage(usages),
+    };
+  } catch (error: any) {
+    console.error("❌ Transcription error:", error);
+    console.error("❌ Error stack:", error.stack);
+    console.error("❌ Error details:", {
+      message: error.message,
+      status: error.status,
+      code: error.code,
+    });
+
+    // If it's a 413 error, it means we're still sending the video directly
+    // This should not happen if audio extraction is working
+    if (error.status === 413 || error.message?.includes("413")) {
+      return {
+        transcript: "",
+        segments: [],
+        error: `Limite de tamanho excedido. A extracao de audio pode ter falhado. Garanta que o FFmpeg esteja instalado e tente novamente. Erro original: ${error.message}`,
+      };
+    }
+
+    return {
+      transcript: "",
+      segments: [],
+      usage: sumAIUsage(usages),
+      error: error.message || "Falha ao transcrever video",
+    };
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Transcripts Service
+ * A video can have one transcript per language (ISO 639-1 code)
+ */
+
+import { db } from "../db";
+import { transcripts, videos } from "../db/schema";
+import { eq, and, asc } from "drizzle-orm";
+
+export type Transcript = typeof transcripts.$inferSelect;
+
+export const LANGUAGE_CODE_PATTERN = /^[a-z]{2}$/;
+
+/**
+ * Language configured for a video: its own setting, else the course's.
+ * null means "detect from the audio".
+ */
+export async function getVideoLanguage(videoId: string): Promise<string | null> {
+  const video = await db.query.videos.findFirst({
+    where: eq(videos.id, videoId),
+    columns: { language: true },
+    with: { course: { columns: { language: true } } },
+  });
+
+  return video?.language ?? video?.course?.language ?? null;
+}
+
+/**
+ * Languages a video already has transcripts in
+ */
+export async function listTranscriptLanguages(
+  videoId: string
+): Promise<string[]> {
+  const rows = await db.query.transcripts.findMany({
+    where: eq(transcripts.videoId, videoId),
+    columns: { language: true },
+    orderBy: [asc(transcripts.createdAt)],
+  });
+
+  return rows.map((row) => row.language);
+}
+
+/**
+ * Transcript of a video in the given language.
+ * Without a language: the one in the video/course language, else the first
+ * one created (the transcription of the original audio).
+ */
+export async function getVideoTranscript(
+  videoId: string,
+  language?: string | null
+): Promise<Transcript | null> {
+  if (language) {
+    const transcript = await db.query.transcripts.findFirst({
+      where: and(
+        eq(transcripts.videoId, videoId),
+        eq(transcripts.language, language)
+      ),
+    });
+    return transcript ?? null;
+  }
+
+  const preferred = await getVideoLanguage(videoId);
+  if (preferred) {
+    const transcript = await getVideoTranscript(videoId, preferred);
+    if (transcript) return transcript;
+  }
+
+  const transcript = await db.query.transcripts.findFirst({
+    where: eq(transcripts.videoId, videoId),
+    orderBy: [asc(transcripts.createdAt)],
+  });
+  return transcript ?? null;
+}
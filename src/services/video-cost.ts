@@ -1,6 +1,7 @@
 /**
  * Video Cost Calculator
- * Calculates credit costs for video uploads and quiz generation
+ * Calculates credit costs for video uploads, quiz generation, AI chat and
+ * transcript translation
  */
 
 /**
@@ -28,5 +29,11 @@ export function calculateAIChatCost(): number {
   return 1;
 }
 
-
-
+/**
+ * Calculate transcript translation cost
+ * Cost: 1 credit per 5,000 characters of source transcript (minimum 1)
+ * (~10 credits for one hour of speech)
+ */
+export function calculateTranscriptTranslationCost(characters: number): number {
+  return Math.max(1, Math.ceil(characters / 5000));
+}
@@ -0,0 +1,308 @@
+/**
+ * Video Transcription Service
+ * Transcribes a stored video and saves the transcript (runs as a background job).
+ * Tracks the transcription status on the video so duplicated requests do not
+ * start another paid Whisper run.
+ */
+
+import { db } from "../db";
+import { videos, transcripts } from "../db/schema";
+import { eq, and, or, isNull, sql } from "drizzle-orm";
+import { transcribeVideoFromR2 } from "./transcription";
+import { getJob, JobContext, permanentJobError } from "./job-queue";
+import { saveTranscriptSegments } from "./captions";
+import { getVideoTranscript } from "./transcripts";
+import { recordAIUsage } from "./ai-usage";
+
+export type TranscriptionStatus =
+  | "pending"
+  | "processing"
+  | "completed"
+  | "failed";
+
+type VideoRow = typeof videos.$inferSelect;
+
+const ENQUEUE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Public view of the transcription state of a video
+ */
+export function getTranscriptionState(video: VideoRow) {
+  return {
+    status: (video.transcriptionStatus as TranscriptionStatus | null) ?? null,
+    error: video.transcriptionError,
+    attempts: video.transcriptionAttempts,
+    jobId: video.transcriptionJobId,
+    startedAt: video.transcriptionStartedAt,
+    completedAt: video.transcriptionCompletedAt,
+  };
+}
+
+/**
+ * Atomically mark a video as waiting for transcription.
+ * Only one request wins; the others get the in-progress state back.
+ * A pending/processing state whose job already died can be claimed again,
+ * and a completed one too (transcript in another language).
+ */
+export async function claimTranscription(
+  video: VideoRow
+): Promise<{ claimed: boolean; video: VideoRow }> {
+  const inProgress =
+    video.transcriptionStatus === "pending" ||
+    video.transcriptionStatus === "processing";
+
+  let staleCondition = undefined;
+  if (inProgress) {
+    const job = video.transcriptionJobId
+      ? await getJob(video.transcriptionJobId)
+      : null;
+    const jobIsAlive =
+      !!job && (job.status === "pending" || job.status === "running");
+
+    // A claim without job id is a request still enqueueing, unless it is old
+    // enough to be from a process that died in between
+    const isEnqueueing =
+      !video.transcriptionJobId &&
+      Date.now() - (video.updatedAt?.getTime() ?? 0) < ENQUEUE_TIMEOUT_MS;
+
+    if (jobIsAlive || isEnqueueing) {
+      return { claimed: false, video };
+    }
+
+    staleCondition = and(
+      eq(videos.transcriptionStatus, video.transcriptionStatus!),
+      video.transcriptionJobId
+        ? eq(videos.transcriptionJobId, video.transcriptionJobId)
+        : isNull(videos.transcriptionJobId)
+    );
+  }
+
+  const [claimed] = await db
+    .update(videos)
+    .set({
+      transcriptionStatus: "pending",
+      transcriptionError: null,
+      transcriptionJobId: null,
+      transcriptionAttempts: 0,
+      transcriptionStartedAt: null,
+      transcriptionCompletedAt: null,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(videos.id, video.id),
+        staleCondition ??
+          or(
+            isNull(videos.transcriptionStatus),
+            eq(videos.transcriptionStatus, "failed"),
+            eq(videos.transcriptionStatus, "completed")
+          )
+      )
+    )
+    .returning();
+
+  if (claimed) {
+    return { claimed: true, video: claimed };
+  }
+
+  const current = await db.query.videos.findFirst({
+    where: eq(videos.id, video.id),
+  });
+  return { claimed: false, video: current ?? video };
+}
+
+/**
+ * Link the queued job to the video (or record that queueing failed)
+ */
+export async function setTranscriptionJob(
+  videoId: string,
+  jobId: string
+): Promise<void> {
+  await db
+    .update(videos)
+    .set({ transcriptionJobId: jobId, updatedAt: new Date() })
+    .where(eq(videos.id, videoId));
+}
+
+export async function markTranscriptionFailed(
+  videoId: string,
+  error: string
+): Promise<void> {
+  await db
+    .update(videos)
+    .set({
+      transcriptionStatus: "failed",
+      transcriptionError: error.slice(0, 2000),
+      updatedAt: new Date(),
+    })
+    .where(eq(videos.id, videoId));
+}
+
+/**
+ * Transcribe a video and store the transcript.
+ * Throws on failure so the job queue can retry; the video only turns
+ * "failed" after the last attempt.
+ *
+ * @param requestedLanguage - Spoken language; defaults to the video/course
+ * setting, and is detected from the audio when none is configured
+ */
+export async function transcribeVideo(
+  videoId: string,
+  context: Pick<JobContext, "jobId" | "isFinalAttempt">,
+  requestedLanguage?: string | null
+): Promise<{
+  transcriptId: string;
+  language: string;
+  contentLength: number;
+  skipped?: boolean;
+}> {
+  const video = await db.query.videos.findFirst({
+    where: eq(videos.id, videoId),
+    with: { course: { columns: { language: true, creatorId: true } } },
+  });
+
+  if (!video) {
+    throw permanentJobError("Video nao encontrado");
+  }
+
+  const language =
+    requestedLanguage || video.language || video.course.language || null;
+
+  // A retry after a crash may find the work already done
+  const existingTranscript = await getVideoTranscript(videoId, language);
+
+  if (existingTranscript) {
+    await db
+      .update(videos)
+      .set({
+        transcriptionStatus: "completed",
+        transcriptionError: null,
+        transcriptionCompletedAt: sql`COALESCE(${videos.transcriptionCompletedAt}, NOW())`,
+        updatedAt: new Date(),
+      })
+      .where(eq(videos.id, videoId));
+
+    return {
+      transcriptId: existingTranscript.id,
+      language: existingTranscript.language,
+      contentLength: existingTranscript.content.length,
+      skipped: true,
+    };
+  }
+
+  await db
+    .update(videos)
+    .set({
+      transcriptionStatus: "processing",
+      transcriptionJobId: context.jobId,
+      transcriptionAttempts: sql`${videos.transcriptionAttempts} + 1`,
+      transcriptionStartedAt: sql`COALESCE(${videos.transcriptionStartedAt}, NOW())`,
+      updatedAt: new Date(),
+    })
+    .where(eq(videos.id, videoId));
+
+  try {
+    console.log("🔄 Transcription started for:", videoId);
+    console.log("🔄 Video R2 Key:", video.r2Key);
+
+    const {
+      transcript,
+      segments,
+      language: transcriptLanguage,
+      transcriptKey,
+      usage,
+      error,
+    } = await transcribeVideoFromR2(video.r2Key, language);
+
+    // Paid by the creator with the upload credits
+    if (usage) {
+      await recordAIUsage({
+        userId: video.course.creatorId,
+        feature: "transcription",
+        usage,
+        relatedId: videoId,
+        relatedType: "video",
+      });
+    }
+
+    if (error || !transcript || !transcriptLanguage) {
+      throw new Error(error || "Transcricao vazia");
+    }
+
+    // Transcript and its timed segments are saved together. A detected
+    // language may already have a transcript (e.g. a translation): keep it.
+    const savedTranscript = await db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(transcripts)
+        .values({
+          videoId,
+          language: transcriptLanguage,
+          content: transcript,
+        })
+        .onConflictDoNothing({
+          target: [transcripts.videoId, transcripts.language],
+        })
+        .returning();
+
+      if (inserted) {
+        await saveTranscriptSegments(inserted.id, segments, tx);
+      }
+
+      return inserted;
+    });
+
+    const finalTranscript =
+      savedTranscript ??
+      (await getVideoTranscript(videoId, transcriptLanguage));
+
+    if (!finalTranscript) {
+      throw new Error("Falha ao salvar transcricao");
+    }
+
+    console.log("✅ Transcript saved to database:", {
+      id: finalTranscript.id,
+      videoId: finalTranscript.videoId,
+      language: finalTranscript.language,
+      contentLength: finalTranscript.content.length,
+      segments: segments.length,
+      alreadyExisted: !savedTranscript,
+    });
+
+    // Transcript text is also stored in R2 by transcribeVideoFromR2
+    await db
+      .update(videos)
+      .set({
+        transcriptR2Key: transcriptKey ?? video.transcriptR2Key,
+        transcriptionStatus: "completed",
+        transcriptionError: null,
+        transcriptionCompletedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(videos.id, videoId));
+
+    return {
+      transcriptId: finalTranscript.id,
+      language: finalTranscript.language,
+      contentLength: finalTranscript.content.length,
+      skipped: !savedTranscript,
+    };
+  } catch (error: any) {
+    const message = error?.message || "Falha ao transcrever video";
+    console.error("❌ Transcription failed:", { videoId, error: message });
+
+    const isFinal =
+      context.isFinalAttempt || error?.code === "JOB_PERMANENT_FAILURE";
+
+    await db
+      .update(videos)
+      .set({
+        // Between retries the video goes back to waiting for the worker
+        transcriptionStatus: isFinal ? "failed" : "pending",
+        transcriptionError: message.slice(0, 2000),
+        updatedAt: new Date(),
+      })
+      .where(eq(videos.id, videoId));
+
+    throw error;
+  }
+}